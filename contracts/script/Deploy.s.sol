@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+import {Script, console} from "forge-std/Script.sol";
+import {EscrowFactory} from "../src/EscrowFactory.sol";
+
+// forge script script/Deploy.s.sol --rpc-url <node> --broadcast --private-key <key>
+contract DeployScript is Script {
+    function run() public {
+        vm.startBroadcast();
+        EscrowFactory factory = new EscrowFactory();
+        vm.stopBroadcast();
+
+        console.log("EscrowFactory", address(factory));
+    }
+}
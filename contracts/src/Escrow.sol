@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+import {Immutables, ImmutablesLib} from "./libraries/ImmutablesLib.sol";
+import {ProxyLib} from "./libraries/ProxyLib.sol";
+import {TransferLib} from "./libraries/TransferLib.sol";
+
+// Shared checks and payouts of source and destination escrows. Each escrow is
+// a minimal proxy the factory deployed with the immutables hash as its salt.
+abstract contract Escrow {
+    using ImmutablesLib for Immutables;
+
+    address public immutable FACTORY;
+    bytes32 public immutable PROXY_BYTECODE_HASH;
+
+    event EscrowWithdrawal(bytes32 secret);
+    event EscrowCancelled();
+
+    error InvalidCaller();
+    error InvalidImmutables();
+    error InvalidSecret();
+    error InvalidTime();
+
+    // The factory deploys the implementations itself
+    constructor() {
+        FACTORY = msg.sender;
+        PROXY_BYTECODE_HASH = keccak256(ProxyLib.initCode(address(this)));
+    }
+
+    modifier onlyValidImmutables(Immutables calldata immutables) {
+        if (ProxyLib.computeAddress(FACTORY, immutables.hash(), PROXY_BYTECODE_HASH) != address(this)) {
+            revert InvalidImmutables();
+        }
+        _;
+    }
+
+    modifier onlyTaker(Immutables calldata immutables) {
+        if (msg.sender != immutables.taker) revert InvalidCaller();
+        _;
+    }
+
+    modifier onlyValidSecret(bytes32 secret, Immutables calldata immutables) {
+        if (keccak256(abi.encodePacked(secret)) != immutables.hashlock) revert InvalidSecret();
+        _;
+    }
+
+    modifier onlyAfter(uint256 time) {
+        if (block.timestamp < time) revert InvalidTime();
+        _;
+    }
+
+    modifier onlyBefore(uint256 time) {
+        if (block.timestamp >= time) revert InvalidTime();
+        _;
+    }
+
+    // Moves the locked amount to `to` and the safety deposit to the caller
+    function _settle(Immutables calldata immutables, address to) internal {
+        if (immutables.token == address(0)) {
+            TransferLib.sendNative(to, immutables.amount);
+        } else {
+            TransferLib.transfer(immutables.token, to, immutables.amount);
+        }
+        TransferLib.sendNative(msg.sender, immutables.safetyDeposit);
+    }
+
+    function _withdraw(bytes32 secret, Immutables calldata immutables, address to) internal {
+        _settle(immutables, to);
+        emit EscrowWithdrawal(secret);
+    }
+
+    function _cancel(Immutables calldata immutables, address to) internal {
+        _settle(immutables, to);
+        emit EscrowCancelled();
+    }
+}
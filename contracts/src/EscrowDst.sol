@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+import {Escrow} from "./Escrow.sol";
+import {Immutables} from "./libraries/ImmutablesLib.sol";
+import {Stage, TimelocksLib} from "./libraries/TimelocksLib.sol";
+
+// Holds the taker's tokens. Withdrawals pay the maker (the order receiver);
+// only the taker can cancel, and only to get its own tokens back.
+contract EscrowDst is Escrow {
+    using TimelocksLib for uint256;
+
+    function withdraw(bytes32 secret, Immutables calldata immutables)
+        external
+        onlyValidImmutables(immutables)
+        onlyTaker(immutables)
+        onlyValidSecret(secret, immutables)
+        onlyAfter(immutables.timelocks.get(Stage.DstWithdrawal))
+        onlyBefore(immutables.timelocks.get(Stage.DstCancellation))
+    {
+        _withdraw(secret, immutables, immutables.maker);
+    }
+
+    function publicWithdraw(bytes32 secret, Immutables calldata immutables)
+        external
+        onlyValidImmutables(immutables)
+        onlyValidSecret(secret, immutables)
+        onlyAfter(immutables.timelocks.get(Stage.DstPublicWithdrawal))
+        onlyBefore(immutables.timelocks.get(Stage.DstCancellation))
+    {
+        _withdraw(secret, immutables, immutables.maker);
+    }
+
+    function cancel(Immutables calldata immutables)
+        external
+        onlyValidImmutables(immutables)
+        onlyTaker(immutables)
+        onlyAfter(immutables.timelocks.get(Stage.DstCancellation))
+    {
+        _cancel(immutables, immutables.taker);
+    }
+}
@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+import {EscrowDst} from "./EscrowDst.sol";
+import {EscrowSrc} from "./EscrowSrc.sol";
+import {CrossChainOrder, CrossChainOrderLib} from "./libraries/CrossChainOrderLib.sol";
+import {Immutables, ImmutablesLib} from "./libraries/ImmutablesLib.sol";
+import {ProxyLib} from "./libraries/ProxyLib.sol";
+import {Stage, TimelocksLib} from "./libraries/TimelocksLib.sol";
+import {TransferLib} from "./libraries/TransferLib.sol";
+
+// Deploys source and destination escrows at addresses derived from their
+// immutables. Source escrows are built from the maker's signed order, so the
+// hashlock, amounts and timelocks are the ones the maker agreed to. Escrows
+// release on a single secret, so orders that allow partial fills, whose
+// hashlock is a Merkle root of per-part secrets, are refused.
+contract EscrowFactory {
+    using ImmutablesLib for Immutables;
+    using TimelocksLib for uint256;
+
+    // What the 1inch APIs call the native token; source escrows hold ERC-20s only
+    address private constant NATIVE_TOKEN = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+
+    address public immutable ESCROW_SRC_IMPLEMENTATION;
+    address public immutable ESCROW_DST_IMPLEMENTATION;
+    bytes32 private immutable _PROXY_SRC_BYTECODE_HASH;
+    bytes32 private immutable _PROXY_DST_BYTECODE_HASH;
+
+    // Source amount locked, by order hash; an order is filled once
+    mapping(bytes32 => uint256) public filledAmount;
+
+    event SrcEscrowCreated(address indexed escrow, bytes32 indexed orderHash, Immutables immutables);
+    event DstEscrowCreated(address indexed escrow, bytes32 indexed orderHash, Immutables immutables);
+
+    error InsufficientEscrowBalance();
+    error InvalidCreationTime();
+    error InvalidFillAmount();
+    error InvalidOrder();
+    error InvalidSignature();
+    error OrderExpired();
+    error PartialFillsUnsupported();
+
+    constructor() {
+        ESCROW_SRC_IMPLEMENTATION = address(new EscrowSrc());
+        ESCROW_DST_IMPLEMENTATION = address(new EscrowDst());
+        _PROXY_SRC_BYTECODE_HASH = keccak256(ProxyLib.initCode(ESCROW_SRC_IMPLEMENTATION));
+        _PROXY_DST_BYTECODE_HASH = keccak256(ProxyLib.initCode(ESCROW_DST_IMPLEMENTATION));
+    }
+
+    // Sent by the resolver, who becomes the taker, with the order's safety
+    // deposit. `amount` must be the whole source amount. The maker's tokens
+    // move under their earlier approval.
+    function createSrcEscrow(CrossChainOrder calldata order, bytes calldata signature, uint256 amount)
+        external
+        payable
+        returns (address escrow)
+    {
+        Immutables memory immutables = _srcImmutables(order, amount);
+        if (CrossChainOrderLib.recover(immutables.orderHash, signature) != immutables.maker) revert InvalidSignature();
+        if (msg.value != immutables.safetyDeposit) revert InsufficientEscrowBalance();
+
+        if (order.allowPartialFills) revert PartialFillsUnsupported();
+        if (amount != order.srcAmount || filledAmount[immutables.orderHash] != 0) revert InvalidFillAmount();
+        filledAmount[immutables.orderHash] = amount;
+
+        escrow = ProxyLib.deploy(ESCROW_SRC_IMPLEMENTATION, immutables.hash(), msg.value);
+        TransferLib.transferFrom(immutables.token, immutables.maker, escrow, amount);
+        emit SrcEscrowCreated(escrow, immutables.orderHash, immutables);
+    }
+
+    // Sent by the resolver with the safety deposit, plus the amount for the
+    // native token; ERC-20 amounts need an approval first. The destination
+    // must be cancellable before the source is.
+    function createDstEscrow(Immutables calldata dstImmutables, uint256 srcCancellationTimestamp)
+        external
+        payable
+        returns (address escrow)
+    {
+        Immutables memory immutables = dstImmutables;
+        immutables.timelocks = dstImmutables.timelocks.setDeployedAt(block.timestamp);
+        if (immutables.timelocks.get(Stage.DstCancellation) > srcCancellationTimestamp) revert InvalidCreationTime();
+
+        bool native = immutables.token == address(0);
+        if (msg.value != immutables.safetyDeposit + (native ? immutables.amount : 0)) {
+            revert InsufficientEscrowBalance();
+        }
+
+        escrow = ProxyLib.deploy(ESCROW_DST_IMPLEMENTATION, immutables.hash(), msg.value);
+        if (!native) TransferLib.transferFrom(immutables.token, msg.sender, escrow, immutables.amount);
+        emit DstEscrowCreated(escrow, immutables.orderHash, immutables);
+    }
+
+    function addressOfEscrowSrc(Immutables calldata immutables) external view returns (address) {
+        return ProxyLib.computeAddress(address(this), ImmutablesLib.hash(immutables), _PROXY_SRC_BYTECODE_HASH);
+    }
+
+    function addressOfEscrowDst(Immutables calldata immutables) external view returns (address) {
+        return ProxyLib.computeAddress(address(this), ImmutablesLib.hash(immutables), _PROXY_DST_BYTECODE_HASH);
+    }
+
+    function _srcImmutables(CrossChainOrder calldata order, uint256 amount) private view returns (Immutables memory) {
+        if (keccak256(bytes(order.srcChain)) != keccak256(bytes(CrossChainOrderLib.chainKey(block.chainid)))) {
+            revert InvalidOrder();
+        }
+        if (block.timestamp > order.expiresAt) revert OrderExpired();
+        address token = CrossChainOrderLib.parseAddress(order.srcAsset);
+        if (token == NATIVE_TOKEN) revert InvalidOrder();
+
+        return Immutables({
+            orderHash: CrossChainOrderLib.hash(order),
+            hashlock: order.hashlock,
+            maker: CrossChainOrderLib.parseAddress(order.maker),
+            taker: msg.sender,
+            token: token,
+            amount: amount,
+            safetyDeposit: order.srcSafetyDeposit,
+            timelocks: CrossChainOrderLib.packTimelocks(order.timelocks).setDeployedAt(block.timestamp)
+        });
+    }
+}
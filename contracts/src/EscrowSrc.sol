@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+import {Escrow} from "./Escrow.sol";
+import {Immutables} from "./libraries/ImmutablesLib.sol";
+import {Stage, TimelocksLib} from "./libraries/TimelocksLib.sol";
+
+// Holds the maker's tokens. Withdrawals pay the taker, who paid the maker on
+// the destination chain; cancellations return the tokens to the maker.
+contract EscrowSrc is Escrow {
+    using TimelocksLib for uint256;
+
+    function withdraw(bytes32 secret, Immutables calldata immutables)
+        external
+        onlyValidImmutables(immutables)
+        onlyTaker(immutables)
+        onlyValidSecret(secret, immutables)
+        onlyAfter(immutables.timelocks.get(Stage.SrcWithdrawal))
+        onlyBefore(immutables.timelocks.get(Stage.SrcCancellation))
+    {
+        _withdraw(secret, immutables, immutables.taker);
+    }
+
+    function publicWithdraw(bytes32 secret, Immutables calldata immutables)
+        external
+        onlyValidImmutables(immutables)
+        onlyValidSecret(secret, immutables)
+        onlyAfter(immutables.timelocks.get(Stage.SrcPublicWithdrawal))
+        onlyBefore(immutables.timelocks.get(Stage.SrcCancellation))
+    {
+        _withdraw(secret, immutables, immutables.taker);
+    }
+
+    function cancel(Immutables calldata immutables)
+        external
+        onlyValidImmutables(immutables)
+        onlyTaker(immutables)
+        onlyAfter(immutables.timelocks.get(Stage.SrcCancellation))
+    {
+        _cancel(immutables, immutables.maker);
+    }
+
+    function publicCancel(Immutables calldata immutables)
+        external
+        onlyValidImmutables(immutables)
+        onlyAfter(immutables.timelocks.get(Stage.SrcPublicCancellation))
+    {
+        _cancel(immutables, immutables.maker);
+    }
+}
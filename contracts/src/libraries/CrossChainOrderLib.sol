@@ -0,0 +1,160 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+// The order makers sign, as frontend/src/lib/fusion/eip712.ts types it.
+// Addresses, assets and chains are strings so one order can name Cardano too.
+struct OrderTimelocks {
+    uint32 srcWithdrawal;
+    uint32 srcPublicWithdrawal;
+    uint32 srcCancellation;
+    uint32 srcPublicCancellation;
+    uint32 dstWithdrawal;
+    uint32 dstPublicWithdrawal;
+    uint32 dstCancellation;
+}
+
+struct ResolverFee {
+    uint16 bps;
+    string receiver;
+}
+
+struct CrossChainOrder {
+    uint256 salt;
+    string maker;
+    string receiver;
+    // Chain keys such as "eip155:1" or "cardano:mainnet"
+    string srcChain;
+    string srcAsset;
+    uint256 srcAmount;
+    string dstChain;
+    string dstAsset;
+    uint256 dstAmount;
+    uint256 srcSafetyDeposit;
+    uint256 dstSafetyDeposit;
+    bytes32 hashlock;
+    OrderTimelocks timelocks;
+    ResolverFee resolverFee;
+    bool allowPartialFills;
+    uint64 expiresAt;
+}
+
+library CrossChainOrderLib {
+    error InvalidAddress();
+    error InvalidSignature();
+
+    // No chainId: one order spans two chains, and both are part of the message
+    bytes32 internal constant DOMAIN_SEPARATOR = keccak256(
+        abi.encode(
+            keccak256("EIP712Domain(string name,string version)"), keccak256("Cardano 1inch Fusion+"), keccak256("1")
+        )
+    );
+
+    bytes32 internal constant ORDER_TYPEHASH = keccak256(
+        "CrossChainOrder(uint256 salt,string maker,string receiver,string srcChain,string srcAsset,uint256 srcAmount,"
+        "string dstChain,string dstAsset,uint256 dstAmount,uint256 srcSafetyDeposit,uint256 dstSafetyDeposit,"
+        "bytes32 hashlock,Timelocks timelocks,ResolverFee resolverFee,bool allowPartialFills,uint64 expiresAt)"
+        "ResolverFee(uint16 bps,string receiver)"
+        "Timelocks(uint32 srcWithdrawal,uint32 srcPublicWithdrawal,uint32 srcCancellation,uint32 srcPublicCancellation,"
+        "uint32 dstWithdrawal,uint32 dstPublicWithdrawal,uint32 dstCancellation)"
+    );
+
+    bytes32 internal constant TIMELOCKS_TYPEHASH = keccak256(
+        "Timelocks(uint32 srcWithdrawal,uint32 srcPublicWithdrawal,uint32 srcCancellation,uint32 srcPublicCancellation,"
+        "uint32 dstWithdrawal,uint32 dstPublicWithdrawal,uint32 dstCancellation)"
+    );
+
+    bytes32 internal constant RESOLVER_FEE_TYPEHASH = keccak256("ResolverFee(uint16 bps,string receiver)");
+
+    // EIP-712 digest: the order hash on every chain
+    function hash(CrossChainOrder calldata order) internal pure returns (bytes32) {
+        // Encoded in two halves to stay within the stack; every member is one word
+        bytes memory head = abi.encode(
+            ORDER_TYPEHASH,
+            order.salt,
+            keccak256(bytes(order.maker)),
+            keccak256(bytes(order.receiver)),
+            keccak256(bytes(order.srcChain)),
+            keccak256(bytes(order.srcAsset)),
+            order.srcAmount,
+            keccak256(bytes(order.dstChain)),
+            keccak256(bytes(order.dstAsset))
+        );
+        bytes memory tail = abi.encode(
+            order.dstAmount,
+            order.srcSafetyDeposit,
+            order.dstSafetyDeposit,
+            order.hashlock,
+            _hashTimelocks(order.timelocks),
+            keccak256(abi.encode(RESOLVER_FEE_TYPEHASH, order.resolverFee.bps, keccak256(bytes(order.resolverFee.receiver)))),
+            order.allowPartialFills,
+            order.expiresAt
+        );
+        return keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, keccak256(bytes.concat(head, tail))));
+    }
+
+    // Offsets packed the way escrow immutables carry them, without a deployment time
+    function packTimelocks(OrderTimelocks calldata timelocks) internal pure returns (uint256) {
+        return uint256(timelocks.srcWithdrawal) | (uint256(timelocks.srcPublicWithdrawal) << 32)
+            | (uint256(timelocks.srcCancellation) << 64) | (uint256(timelocks.srcPublicCancellation) << 96)
+            | (uint256(timelocks.dstWithdrawal) << 128) | (uint256(timelocks.dstPublicWithdrawal) << 160)
+            | (uint256(timelocks.dstCancellation) << 192);
+    }
+
+    // "0x"-prefixed hex in any case
+    function parseAddress(string calldata value) internal pure returns (address) {
+        bytes calldata text = bytes(value);
+        if (text.length != 42 || text[0] != "0" || (text[1] != "x" && text[1] != "X")) revert InvalidAddress();
+        uint160 result;
+        for (uint256 i = 2; i < 42; i++) {
+            result = (result << 4) | _hexDigit(uint8(text[i]));
+        }
+        return address(result);
+    }
+
+    // "eip155:<chainId>", as the order names this chain
+    function chainKey(uint256 chainId) internal pure returns (string memory) {
+        uint256 digits = 1;
+        for (uint256 rest = chainId / 10; rest != 0; rest /= 10) {
+            digits++;
+        }
+        bytes memory buffer = new bytes(digits);
+        for (uint256 i = digits; i > 0; i--) {
+            buffer[i - 1] = bytes1(uint8(48 + (chainId % 10)));
+            chainId /= 10;
+        }
+        return string.concat("eip155:", string(buffer));
+    }
+
+    // 65-byte r ++ s ++ v signature over `digest`, with s in the lower half order
+    function recover(bytes32 digest, bytes calldata signature) internal pure returns (address signer) {
+        if (signature.length != 65) revert InvalidSignature();
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) revert InvalidSignature();
+        signer = ecrecover(digest, v, r, s);
+        if (signer == address(0)) revert InvalidSignature();
+    }
+
+    function _hashTimelocks(OrderTimelocks calldata timelocks) private pure returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                TIMELOCKS_TYPEHASH,
+                timelocks.srcWithdrawal,
+                timelocks.srcPublicWithdrawal,
+                timelocks.srcCancellation,
+                timelocks.srcPublicCancellation,
+                timelocks.dstWithdrawal,
+                timelocks.dstPublicWithdrawal,
+                timelocks.dstCancellation
+            )
+        );
+    }
+
+    function _hexDigit(uint8 char) private pure returns (uint160) {
+        if (char >= 48 && char <= 57) return char - 48;
+        if (char >= 97 && char <= 102) return char - 87;
+        if (char >= 65 && char <= 70) return char - 55;
+        revert InvalidAddress();
+    }
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+// Per-escrow parameters. Escrows keep no storage: every call passes these back
+// in, and the escrow checks that they hash to the salt it was deployed with.
+struct Immutables {
+    bytes32 orderHash;
+    bytes32 hashlock;
+    address maker;
+    address taker;
+    // Zero address for the chain's native token
+    address token;
+    uint256 amount;
+    uint256 safetyDeposit;
+    // Packed: deployedAt in the top 32 bits, then one uint32 offset per stage
+    uint256 timelocks;
+}
+
+library ImmutablesLib {
+    function hash(Immutables memory immutables) internal pure returns (bytes32) {
+        return keccak256(abi.encode(immutables));
+    }
+}
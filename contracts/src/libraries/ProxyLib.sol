@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+// EIP-1167 minimal proxies deployed with CREATE2, salted with the immutables hash
+library ProxyLib {
+    error ProxyDeploymentFailed();
+
+    function initCode(address implementation) internal pure returns (bytes memory) {
+        return abi.encodePacked(
+            hex"3d602d80600a3d3981f3363d3d373d3d3d363d73", implementation, hex"5af43d82803e903d91602b57fd5bf3"
+        );
+    }
+
+    function computeAddress(address deployer, bytes32 salt, bytes32 initCodeHash) internal pure returns (address) {
+        return address(uint160(uint256(keccak256(abi.encodePacked(bytes1(0xff), deployer, salt, initCodeHash)))));
+    }
+
+    function deploy(address implementation, bytes32 salt, uint256 value) internal returns (address proxy) {
+        bytes memory code = initCode(implementation);
+        assembly ("memory-safe") {
+            proxy := create2(value, add(code, 0x20), mload(code), salt)
+        }
+        if (proxy == address(0)) revert ProxyDeploymentFailed();
+    }
+}
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+// Order of the uint32 offsets in packed timelocks, lowest bits first
+enum Stage {
+    SrcWithdrawal,
+    SrcPublicWithdrawal,
+    SrcCancellation,
+    SrcPublicCancellation,
+    DstWithdrawal,
+    DstPublicWithdrawal,
+    DstCancellation
+}
+
+library TimelocksLib {
+    uint256 private constant DEPLOYED_AT_OFFSET = 224;
+
+    // Unix time the stage starts at
+    function get(uint256 timelocks, Stage stage) internal pure returns (uint256) {
+        return (timelocks >> DEPLOYED_AT_OFFSET) + uint32(timelocks >> (uint256(stage) * 32));
+    }
+
+    function setDeployedAt(uint256 timelocks, uint256 deployedAt) internal pure returns (uint256) {
+        return (timelocks & ((1 << DEPLOYED_AT_OFFSET) - 1)) | (deployedAt << DEPLOYED_AT_OFFSET);
+    }
+}
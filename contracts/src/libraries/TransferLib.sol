@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+// ERC-20 and native transfers that revert on failure, including tokens that
+// return false instead of reverting
+library TransferLib {
+    error TokenTransferFailed();
+    error NativeTokenSendingFailure();
+
+    function transferFrom(address token, address from, address to, uint256 amount) internal {
+        _call(token, abi.encodeWithSelector(0x23b872dd, from, to, amount));
+    }
+
+    function transfer(address token, address to, uint256 amount) internal {
+        _call(token, abi.encodeWithSelector(0xa9059cbb, to, amount));
+    }
+
+    function sendNative(address to, uint256 amount) internal {
+        (bool success,) = to.call{value: amount}("");
+        if (!success) revert NativeTokenSendingFailure();
+    }
+
+    function _call(address token, bytes memory data) private {
+        (bool success, bytes memory result) = token.call(data);
+        if (!success || token.code.length == 0 || (result.length != 0 && !abi.decode(result, (bool)))) {
+            revert TokenTransferFailed();
+        }
+    }
+}
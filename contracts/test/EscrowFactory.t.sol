@@ -0,0 +1,205 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+import {Test} from "forge-std/Test.sol";
+import {Escrow} from "../src/Escrow.sol";
+import {EscrowDst} from "../src/EscrowDst.sol";
+import {EscrowFactory} from "../src/EscrowFactory.sol";
+import {EscrowSrc} from "../src/EscrowSrc.sol";
+import {
+    CrossChainOrder, CrossChainOrderLib, OrderTimelocks, ResolverFee
+} from "../src/libraries/CrossChainOrderLib.sol";
+import {Immutables} from "../src/libraries/ImmutablesLib.sol";
+import {TestToken} from "./mocks/TestToken.sol";
+
+contract OrderHasher {
+    function hash(CrossChainOrder calldata order) external pure returns (bytes32) {
+        return CrossChainOrderLib.hash(order);
+    }
+}
+
+contract EscrowFactoryTest is Test {
+    uint256 constant MAKER_KEY = 1;
+    bytes32 constant SECRET = bytes32(uint256(0x0505050505050505050505050505050505050505050505050505050505050505));
+    uint256 constant START = 1_750_000_000;
+
+    EscrowFactory factory;
+    TestToken token;
+    address maker = vm.addr(MAKER_KEY);
+    address resolver = makeAddr("resolver");
+
+    // Public withdrawals pay this contract the safety deposit
+    receive() external payable {}
+
+    function setUp() public {
+        vm.warp(START);
+        factory = new EscrowFactory();
+        token = new TestToken();
+        token.mint(maker, 100_000_000);
+        vm.prank(maker);
+        token.approve(address(factory), type(uint256).max);
+        vm.deal(resolver, 10 ether);
+    }
+
+    // Assigned field by field; a literal this wide runs out of stack
+    function _order(string memory srcAsset) internal view returns (CrossChainOrder memory order) {
+        order.salt = 42;
+        order.maker = vm.toString(maker);
+        order.receiver = "addr_test1vqg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygsx9wty";
+        order.srcChain = "eip155:31337";
+        order.srcAsset = srcAsset;
+        order.srcAmount = 100_000_000;
+        order.dstChain = "cardano:testnet";
+        order.dstAsset = "lovelace";
+        order.dstAmount = 190_000_000;
+        order.srcSafetyDeposit = 1e15;
+        order.dstSafetyDeposit = 2_000_000;
+        order.hashlock = keccak256(abi.encodePacked(SECRET));
+        order.timelocks = OrderTimelocks({
+            srcWithdrawal: 12,
+            srcPublicWithdrawal: 600,
+            srcCancellation: 1800,
+            srcPublicCancellation: 2100,
+            dstWithdrawal: 12,
+            dstPublicWithdrawal: 480,
+            dstCancellation: 1500
+        });
+        order.resolverFee = ResolverFee({bps: 30, receiver: ""});
+        order.expiresAt = uint64(START + 3600);
+    }
+
+    function _sign(CrossChainOrder memory order) internal returns (bytes memory) {
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(MAKER_KEY, new OrderHasher().hash(order));
+        return abi.encodePacked(r, s, v);
+    }
+
+    function _createSrc(CrossChainOrder memory order) internal returns (address escrow, Immutables memory immutables) {
+        bytes memory signature = _sign(order);
+        vm.recordLogs();
+        vm.prank(resolver);
+        escrow = factory.createSrcEscrow{value: order.srcSafetyDeposit}(order, signature, order.srcAmount);
+        // The test token emits no events, so the factory's is the only log
+        immutables = abi.decode(vm.getRecordedLogs()[0].data, (Immutables));
+    }
+
+    // Same order and digest as frontend/src/lib/fusion/eip712.ts computes
+    function test_HashesOrdersLikeTheFrontend() public {
+        CrossChainOrder memory order = _order("0x2e234dae75c793f67a35089c9d99245e1c58470b");
+        order.maker = "0x7e5f4552091a69125d5dfcb7b8c2659029395bdf";
+        assertEq(new OrderHasher().hash(order), 0xe6d33077a6c1f78d3d15975841a4f3c4e58b7187b9e6cd65daaf66a73b7abaf1);
+    }
+
+    function test_CreatesSourceEscrowFromSignedOrder() public {
+        CrossChainOrder memory order = _order(vm.toString(address(token)));
+        (address escrow, Immutables memory immutables) = _createSrc(order);
+
+        assertEq(escrow, factory.addressOfEscrowSrc(immutables));
+        assertEq(token.balanceOf(escrow), order.srcAmount);
+        assertEq(escrow.balance, order.srcSafetyDeposit);
+        assertEq(immutables.maker, maker);
+        assertEq(immutables.taker, resolver);
+        assertEq(immutables.timelocks >> 224, START);
+
+        vm.warp(START + 12);
+        vm.prank(resolver);
+        EscrowSrc(escrow).withdraw(SECRET, immutables);
+        assertEq(token.balanceOf(resolver), order.srcAmount);
+        assertEq(resolver.balance, 10 ether);
+    }
+
+    function test_RejectsOrdersTheMakerDidNotSign() public {
+        CrossChainOrder memory order = _order(vm.toString(address(token)));
+        bytes memory signature = _sign(order);
+        order.hashlock = keccak256("another secret");
+
+        vm.prank(resolver);
+        vm.expectRevert(EscrowFactory.InvalidSignature.selector);
+        factory.createSrcEscrow{value: order.srcSafetyDeposit}(order, signature, order.srcAmount);
+    }
+
+    function test_FillsAnOrderOnlyOnce() public {
+        CrossChainOrder memory order = _order(vm.toString(address(token)));
+        _createSrc(order);
+        token.mint(maker, order.srcAmount);
+        bytes memory signature = _sign(order);
+
+        vm.prank(resolver);
+        vm.expectRevert(EscrowFactory.InvalidFillAmount.selector);
+        factory.createSrcEscrow{value: order.srcSafetyDeposit}(order, signature, order.srcAmount);
+    }
+
+    // A partial-fill hashlock is a Merkle root no single secret opens, so the
+    // escrow could only ever be cancelled
+    function test_RefusesPartialFills() public {
+        CrossChainOrder memory order = _order(vm.toString(address(token)));
+        order.allowPartialFills = true;
+        order.hashlock = bytes32((uint256(4) << 240) | (uint256(keccak256("merkle root")) >> 16));
+        bytes memory signature = _sign(order);
+
+        vm.startPrank(resolver);
+        vm.expectRevert(EscrowFactory.PartialFillsUnsupported.selector);
+        factory.createSrcEscrow{value: order.srcSafetyDeposit}(order, signature, order.srcAmount / 4);
+        vm.expectRevert(EscrowFactory.PartialFillsUnsupported.selector);
+        factory.createSrcEscrow{value: order.srcSafetyDeposit}(order, signature, order.srcAmount);
+        vm.stopPrank();
+        assertEq(token.balanceOf(maker), order.srcAmount);
+    }
+
+    function test_RejectsTamperedImmutablesAndWrongSecrets() public {
+        (address escrow, Immutables memory immutables) = _createSrc(_order(vm.toString(address(token))));
+        vm.warp(START + 12);
+
+        Immutables memory tampered = abi.decode(abi.encode(immutables), (Immutables));
+        tampered.amount = 1;
+        vm.prank(resolver);
+        vm.expectRevert(Escrow.InvalidImmutables.selector);
+        EscrowSrc(escrow).withdraw(SECRET, tampered);
+
+        vm.prank(resolver);
+        vm.expectRevert(Escrow.InvalidSecret.selector);
+        EscrowSrc(escrow).withdraw(bytes32(0), immutables);
+    }
+
+    function test_RefundsTheMakerAfterCancellation() public {
+        (address escrow, Immutables memory immutables) = _createSrc(_order(vm.toString(address(token))));
+
+        vm.warp(START + 1799);
+        vm.prank(resolver);
+        vm.expectRevert(Escrow.InvalidTime.selector);
+        EscrowSrc(escrow).cancel(immutables);
+
+        vm.warp(START + 2100);
+        address anyone = makeAddr("anyone");
+        vm.prank(anyone);
+        EscrowSrc(escrow).publicCancel(immutables);
+        assertEq(token.balanceOf(maker), 100_000_000);
+        assertEq(anyone.balance, 1e15);
+    }
+
+    function test_DestinationEscrowPaysTheMakerInNativeToken() public {
+        Immutables memory immutables = Immutables({
+            orderHash: keccak256("order"),
+            hashlock: keccak256(abi.encodePacked(SECRET)),
+            maker: maker,
+            taker: resolver,
+            token: address(0),
+            amount: 1 ether,
+            safetyDeposit: 0.01 ether,
+            timelocks: uint256(12) << 128 | uint256(480) << 160 | uint256(1500) << 192
+        });
+
+        vm.prank(resolver);
+        vm.expectRevert(EscrowFactory.InvalidCreationTime.selector);
+        factory.createDstEscrow{value: 1.01 ether}(immutables, START + 1499);
+
+        vm.recordLogs();
+        vm.prank(resolver);
+        address escrow = factory.createDstEscrow{value: 1.01 ether}(immutables, START + 1800);
+        Immutables memory deployed = abi.decode(vm.getRecordedLogs()[0].data, (Immutables));
+        assertEq(escrow, factory.addressOfEscrowDst(deployed));
+
+        vm.warp(START + 480);
+        EscrowDst(escrow).publicWithdraw(SECRET, deployed);
+        assertEq(maker.balance, 1 ether);
+    }
+}
@@ -0,0 +1,339 @@
+import tokenSearch from "./fixtures/token-search.json";
+import tokenAll from "./fixtures/token-all.json";
+import tokenList from "./fixtures/token-list.json";
+import spotPrices from "./fixtures/spot-prices.json";
+import spotPricesUsd from "./fixtures/spot-prices-usd.json";
+import gasPrice from "./fixtures/gas-price.json";
+import portfolioCurrentValue from "./fixtures/portfolio-current-value.json";
+import portfolioProfitAndLoss from "./fixtures/portfolio-profit-and-loss.json";
+import portfolioTokenDetails from "./fixtures/portfolio-token-details.json";
+import historyEvents from "./fixtures/history-events.json";
+import tracesSyncedInterval from "./fixtures/traces-synced-interval.json";
+import tracesBlock from "./fixtures/traces-block.json";
+import tracesTx from "./fixtures/traces-tx.json";
+import domainsLookup from "./fixtures/domains-lookup.json";
+import domainsReverseLookup from "./fixtures/domains-reverse-lookup.json";
+import domainsProviders from "./fixtures/domains-providers.json";
+import nftByAddress from "./fixtures/nft-byaddress.json";
+
+export const SCENARIOS = [
+  'ok',
+  'unauthorized',
+  'not-found',
+  'rate-limited',
+  'server-error',
+  'unavailable',
+  'malformed-json',
+  'unexpected-shape',
+] as const;
+
+export type Scenario = typeof SCENARIOS[number];
+
+export interface MockOptions {
+  // Scenario used when nothing else is scripted
+  scenario?: Scenario;
+  // Reject requests without a bearer token, like the real API
+  requireAuth?: boolean;
+  // Seconds advertised in Retry-After for the rate-limited scenario
+  retryAfterSeconds?: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  search: string;
+  body?: unknown;
+  scenario: Scenario;
+}
+
+interface RouteContext {
+  params: string[];
+  url: URL;
+  body: unknown;
+}
+
+interface MockRoute {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  respond: (context: RouteContext) => unknown;
+}
+
+type TokenRecord = Record<string, unknown>;
+
+function pick<T>(source: Record<string, T>, keys: string[]): Record<string, T> {
+  const result: Record<string, T> = {};
+  for (const key of keys) {
+    const normalized = key.toLowerCase();
+    if (normalized in source) {
+      result[normalized] = source[normalized];
+    }
+  }
+  return result;
+}
+
+function pricesFor(url: URL) {
+  return url.searchParams.get('currency')?.toUpperCase() === 'USD' ? spotPricesUsd : spotPrices;
+}
+
+const ROUTES: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: /^\/token\/v1\.2\/(\d+)\/search$/,
+    respond: ({ url }) => {
+      const query = (url.searchParams.get('query') || '').toLowerCase();
+      const limit = Number(url.searchParams.get('limit')) || 10;
+      return tokenSearch
+        .filter((token) => `${token.symbol} ${token.name}`.toLowerCase().includes(query))
+        .slice(0, limit);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/token\/v1\.2\/(\d+)\/custom\/([^/]+)$/,
+    respond: ({ params }) => pick<TokenRecord>(tokenAll, params[1].split(',')),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/token\/v1\.2\/(\d+)\/token-list$/,
+    respond: () => tokenList,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/token\/v1\.2\/(\d+)$/,
+    respond: () => tokenAll,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/price\/v1\.1\/(\d+)\/([^/]+)$/,
+    respond: ({ params, url }) => pick<string>(pricesFor(url), params[1].split(',')),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/price\/v1\.1\/(\d+)$/,
+    respond: ({ url }) => pricesFor(url),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/price\/v1\.1\/(\d+)$/,
+    respond: ({ body }) => {
+      const { tokens = [], currency } = (body || {}) as { tokens?: string[]; currency?: string };
+      const prices = currency?.toUpperCase() === 'USD' ? spotPricesUsd : spotPrices;
+      return pick<string>(prices, tokens);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/gas-price\/v1\.4\/(\d+)$/,
+    respond: () => gasPrice,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/portfolio\/portfolio\/v4\/overview\/erc20\/current_value$/,
+    respond: () => portfolioCurrentValue,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/portfolio\/portfolio\/v4\/overview\/erc20\/profit_and_loss$/,
+    respond: () => portfolioProfitAndLoss,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/portfolio\/portfolio\/v4\/overview\/erc20\/details$/,
+    respond: () => portfolioTokenDetails,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/history\/v2\.0\/history\/(0x[0-9a-fA-F]{40})\/events$/,
+    respond: ({ url }) => {
+      const chainId = url.searchParams.get('chainId');
+      const limit = Number(url.searchParams.get('limit')) || 100;
+      const from = Number(url.searchParams.get('fromTimestampMs')) || 0;
+      const to = Number(url.searchParams.get('toTimestampMs')) || Number.MAX_SAFE_INTEGER;
+
+      const items = historyEvents.items
+        .filter((item) => !chainId || String(item.details.chainId) === chainId)
+        .filter((item) => item.timeMs >= from && item.timeMs <= to)
+        .slice(0, limit);
+
+      return { items, cache_counter: items.length };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/traces\/v1\.0\/chain\/(\d+)\/synced-interval$/,
+    respond: () => tracesSyncedInterval,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/traces\/v1\.0\/chain\/(\d+)\/block-trace\/(\d+)$/,
+    respond: ({ params }) => ({ ...tracesBlock, number: Number(params[1]) }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/traces\/v1\.0\/chain\/(\d+)\/block-trace\/(\d+)\/tx-hash\/(0x[0-9a-fA-F]+)$/,
+    respond: () => tracesTx,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/domains\/v2\.0\/get-providers-data-with-avatar$/,
+    respond: () => domainsProviders,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/domains\/v2\.0\/([^/]+)\/lookup$/,
+    respond: () => domainsLookup,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/domains\/v2\.0\/([^/]+)\/reverse-lookup$/,
+    respond: () => domainsReverseLookup,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/nft\/v1\/byaddress$/,
+    respond: ({ url }) => {
+      const limit = Number(url.searchParams.get('limit')) || 50;
+      const offset = Number(url.searchParams.get('offset')) || 0;
+      return { ...nftByAddress, assets: nftByAddress.assets.slice(offset, offset + limit) };
+    },
+  },
+];
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  503: 'Service Unavailable',
+};
+
+const json = (status: number, payload: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(payload), {
+    status,
+    statusText: STATUS_TEXT[status],
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+function isScenario(value: unknown): value is Scenario {
+  return typeof value === 'string' && (SCENARIOS as readonly string[]).includes(value);
+}
+
+// Stand-in for the 1inch Developer Portal. Scenarios are resolved per request:
+// `x-mock-scenario` header, then the scripted queue, then the default.
+export function createMockOneInch(options: MockOptions = {}) {
+  const retryAfterSeconds = options.retryAfterSeconds ?? 1;
+  let defaultScenario: Scenario = options.scenario ?? 'ok';
+  let script: Scenario[] = [];
+  const requests: RecordedRequest[] = [];
+
+  const failure = (scenario: Scenario): Response | null => {
+    switch (scenario) {
+      case 'unauthorized':
+        return json(401, { statusCode: 401, message: 'Unauthorized' });
+      case 'not-found':
+        return json(404, { statusCode: 404, message: 'Not Found' });
+      case 'rate-limited':
+        return json(429, { statusCode: 429, message: 'Too Many Requests' }, { 'Retry-After': String(retryAfterSeconds) });
+      case 'server-error':
+        return json(500, { statusCode: 500, message: 'Internal Server Error' });
+      case 'unavailable':
+        return json(503, { statusCode: 503, message: 'Service Unavailable' });
+      case 'malformed-json':
+        return new Response('{"result": [', { status: 200, headers: { 'Content-Type': 'application/json' } });
+      case 'unexpected-shape':
+        // Valid JSON that matches none of the documented response shapes
+        return json(200, 'unexpected');
+      default:
+        return null;
+    }
+  };
+
+  // POST /__mock/scenario { scenario?, script? } and POST /__mock/reset
+  const control = async (request: Request, path: string): Promise<Response> => {
+    if (path === '/__mock/requests') {
+      return json(200, { requests });
+    }
+    if (path === '/__mock/reset') {
+      mock.reset();
+      return json(200, { scenario: defaultScenario, script });
+    }
+    if (path === '/__mock/scenario' && request.method === 'POST') {
+      const body = await request.json().catch(() => ({}));
+      if (body.scenario !== undefined) {
+        if (!isScenario(body.scenario)) {
+          return json(400, { error: `Unknown scenario. Use one of: ${SCENARIOS.join(', ')}` });
+        }
+        defaultScenario = body.scenario;
+      }
+      if (body.script !== undefined) {
+        if (!Array.isArray(body.script) || !body.script.every(isScenario)) {
+          return json(400, { error: `Script must be an array of: ${SCENARIOS.join(', ')}` });
+        }
+        script = [...body.script];
+      }
+      return json(200, { scenario: defaultScenario, script });
+    }
+    return json(404, { error: 'Unknown mock control endpoint' });
+  };
+
+  const mock = {
+    async handle(request: Request): Promise<Response> {
+      const url = new URL(request.url);
+      const path = url.pathname.replace(/\/+$/, '') || '/';
+
+      if (path.startsWith('/__mock/')) {
+        return control(request, path);
+      }
+
+      const header = request.headers.get('x-mock-scenario');
+      const scenario = isScenario(header) ? header : script.shift() ?? defaultScenario;
+      const body = request.method === 'POST' ? await request.json().catch(() => undefined) : undefined;
+      requests.push({ method: request.method, path, search: url.search, body, scenario });
+
+      const authorization = request.headers.get('authorization') || '';
+      if (options.requireAuth && !/^Bearer (?!undefined$)\S+$/.test(authorization)) {
+        return failure('unauthorized')!;
+      }
+
+      const failed = failure(scenario);
+      if (failed) return failed;
+
+      for (const route of ROUTES) {
+        const match = route.method === request.method && route.pattern.exec(path);
+        if (match) {
+          return json(200, route.respond({ params: match.slice(1), url, body }));
+        }
+      }
+
+      return json(404, { statusCode: 404, message: `No mock for ${request.method} ${path}` });
+    },
+
+    // Drop-in replacement for global fetch
+    fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+      return mock.handle(new Request(input, init));
+    },
+
+    setScenario(scenario: Scenario) {
+      defaultScenario = scenario;
+    },
+
+    // Queue scenarios consumed one per request before falling back to the default
+    script(...scenarios: Scenario[]) {
+      script = [...scenarios];
+    },
+
+    reset() {
+      defaultScenario = options.scenario ?? 'ok';
+      script = [];
+      requests.length = 0;
+    },
+
+    requests,
+  };
+
+  return mock;
+}
+
+export type MockOneInch = ReturnType<typeof createMockOneInch>;
@@ -0,0 +1,53 @@
+import { createServer, IncomingMessage } from "node:http";
+import { createMockOneInch, SCENARIOS, Scenario } from "./handler";
+
+// Local stand-in for api.1inch.dev. Point the app at it with
+// ONEINCH_BASE_URL=http://localhost:4010 (see `npm run dev:mock`).
+const port = Number(process.env.MOCK_ONEINCH_PORT) || 4010;
+const scenario = process.env.MOCK_ONEINCH_SCENARIO as Scenario | undefined;
+
+if (scenario && !SCENARIOS.includes(scenario)) {
+  throw new Error(`MOCK_ONEINCH_SCENARIO must be one of: ${SCENARIOS.join(', ')}`);
+}
+
+const mock = createMockOneInch({
+  scenario,
+  requireAuth: process.env.MOCK_ONEINCH_REQUIRE_AUTH === 'true',
+});
+
+async function readBody(message: IncomingMessage): Promise<string | undefined> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of message) {
+    chunks.push(chunk as Buffer);
+  }
+  return chunks.length > 0 ? Buffer.concat(chunks).toString('utf8') : undefined;
+}
+
+const server = createServer(async (message, res) => {
+  try {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(message.headers)) {
+      if (typeof value === 'string') headers.set(name, value);
+    }
+
+    const request = new Request(`http://localhost:${port}${message.url}`, {
+      method: message.method,
+      headers,
+      body: message.method === 'GET' || message.method === 'HEAD' ? undefined : await readBody(message),
+    });
+
+    const response = await mock.handle(request);
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(await response.text());
+
+    console.log(`${message.method} ${message.url} -> ${response.status}`);
+  } catch (error) {
+    console.error('Mock 1inch server error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Mock server failure' }));
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock 1inch API listening on http://localhost:${port} (scenario: ${scenario || 'ok'})`);
+});
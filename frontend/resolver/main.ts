@@ -0,0 +1,116 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { Address, createPublicClient, createWalletClient, Hex, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { findChain } from "@/lib/chains";
+import { createBlockfrostProvider } from "@/lib/cardano";
+import { chainKey, ChainRef, createEvmEscrowClient, escrowScriptFromBlueprint, parseChainKey } from "@/lib/fusion";
+import {
+  createCardanoEscrowAdapter,
+  createCardanoKeySigner,
+  createEvmEscrowAdapter,
+  createFilePositionStore,
+  createHttpOrderBookClient,
+  createResolver,
+  createSimulatedAdapter,
+  firstPriceOracle,
+  gasPriceOracle,
+  spotPriceOracle,
+  staticPriceOracle,
+} from "@/lib/resolver";
+
+// Reference resolver process. Fills orders from the order book of the app at
+// RESOLVER_API_URL (see `npm run resolver`), pricing them with its spotprice
+// and gasprice routes, on the chains listed in RESOLVER_CHAINS.
+// RESOLVER_EVM_RPC_URL, RESOLVER_PRIVATE_KEY and RESOLVER_ESCROW_FACTORY put
+// the EVM chains on real escrow contracts (a local Anvil node works).
+// RESOLVER_CARDANO_SIGNING_KEY and RESOLVER_CARDANO_BLUEPRINT (the escrow
+// validator's plutus.json, see cardano/README.md) put Cardano on the real
+// validator through Blockfrost (BLOCKFROST_PROJECT_ID, or
+// BLOCKFROST_PREPROD_PROJECT_ID for the testnet); there the resolver only
+// fills orders into Cardano, as the maker locks a Cardano source escrow. Chains
+// without either only run with RESOLVER_SIMULATE=1, which keeps escrows in
+// memory; the app must then trust reports (RELAYER_TRUST_ESCROW_REPORTS=1).
+const apiUrl = process.env.RESOLVER_API_URL || 'http://localhost:3000';
+if (!process.env.RESOLVER_CHAINS) {
+  throw new Error('RESOLVER_CHAINS must list the chains to resolve on, such as eip155:1,cardano:mainnet');
+}
+const chainKeys = process.env.RESOLVER_CHAINS.split(',').map((key) => key.trim());
+const simulate = process.env.RESOLVER_SIMULATE === '1';
+const adaUsd = Number(process.env.RESOLVER_ADA_USD) || 0.5;
+
+const chains = chainKeys.map((key) => {
+  const chain = parseChainKey(key);
+  if (!chain) {
+    throw new Error(`RESOLVER_CHAINS entries must be chain keys such as eip155:1 or cardano:mainnet, got ${key}`);
+  }
+  return chain;
+});
+
+const evmRpcUrl = process.env.RESOLVER_EVM_RPC_URL;
+const privateKey = process.env.RESOLVER_PRIVATE_KEY as Hex | undefined;
+const factory = process.env.RESOLVER_ESCROW_FACTORY as Address | undefined;
+
+const cardanoKey = process.env.RESOLVER_CARDANO_SIGNING_KEY;
+const cardanoBlueprint = process.env.RESOLVER_CARDANO_BLUEPRINT;
+
+function adapterFor(chain: ChainRef) {
+  if (chain.kind === 'cardano') {
+    if (!cardanoKey || !cardanoBlueprint) {
+      if (simulate) return createSimulatedAdapter(chain);
+      throw new Error(
+        `No escrow validator is configured for ${chainKey(chain)}; ` +
+          'set RESOLVER_CARDANO_SIGNING_KEY and RESOLVER_CARDANO_BLUEPRINT, or RESOLVER_SIMULATE=1 to simulate escrows'
+      );
+    }
+    const projectId = chain.network === 'mainnet' ? process.env.BLOCKFROST_PROJECT_ID : process.env.BLOCKFROST_PREPROD_PROJECT_ID;
+    return createCardanoEscrowAdapter(chain, {
+      provider: createBlockfrostProvider({ network: chain.network, projectId }),
+      script: escrowScriptFromBlueprint(JSON.parse(readFileSync(cardanoBlueprint, 'utf8'))),
+      signer: createCardanoKeySigner(cardanoKey),
+    });
+  }
+  if (!evmRpcUrl || !privateKey || !factory) {
+    if (simulate) return createSimulatedAdapter(chain);
+    throw new Error(
+      `No escrow contracts are configured for ${chainKey(chain)}; ` +
+        'set RESOLVER_EVM_RPC_URL, RESOLVER_PRIVATE_KEY and RESOLVER_ESCROW_FACTORY, or RESOLVER_SIMULATE=1 to simulate escrows'
+    );
+  }
+  const account = privateKeyToAccount(privateKey);
+  const transport = http(evmRpcUrl);
+  const viemChain = findChain(chain.chainId)?.viem;
+  const publicClient = createPublicClient({ chain: viemChain, transport });
+  const walletClient = createWalletClient({ account, chain: viemChain, transport });
+  return createEvmEscrowAdapter(chain, createEvmEscrowClient({ publicClient, walletClient, factory }), {
+    taker: account.address,
+    gasPrice: () => publicClient.getGasPrice(),
+  });
+}
+
+const resolver = createResolver({
+  // The app only accepts escrow reports from resolvers listed in its RESOLVER_API_KEYS
+  orderBook: createHttpOrderBookClient(apiUrl, { apiKey: process.env.RESOLVER_API_KEY }),
+  adapters: chains.map(adapterFor),
+  prices: firstPriceOracle(
+    spotPriceOracle(apiUrl),
+    // Lovelace has no spot price route; 6 decimals to the ADA
+    staticPriceOracle({
+      'cardano:mainnet/lovelace': { usd: adaUsd, decimals: 6 },
+      'cardano:testnet/lovelace': { usd: adaUsd, decimals: 6 },
+    })
+  ),
+  baseFees: gasPriceOracle(apiUrl),
+  // Open positions survive restarts, so escrows already funded still get settled
+  store: createFilePositionStore(process.env.RESOLVER_POSITIONS_FILE || path.join(process.cwd(), '.cache', 'resolver-positions.json')),
+  minProfitUsd: Number(process.env.RESOLVER_MIN_PROFIT_USD) || 0,
+  log: (message) => console.log(message),
+});
+
+const stop = resolver.start(Number(process.env.RESOLVER_POLL_MS) || 5000);
+console.log(`Resolver polling ${apiUrl} for ${chainKeys.join(', ')}${simulate ? ' (simulated escrows)' : ''}`);
+
+process.on('SIGINT', () => {
+  stop();
+  process.exit(0);
+});
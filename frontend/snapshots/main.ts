@@ -0,0 +1,21 @@
+import { sharedSnapshotRecorder, snapshotAddresses } from "@/lib/snapshots";
+
+// Portfolio snapshot process (see `npm run snapshots`). Records the value of
+// every address in PORTFOLIO_SNAPSHOT_ADDRESSES into the same store the app's
+// history route reads, once per PORTFOLIO_SNAPSHOT_INTERVAL_MS (15 minutes by
+// default). The app's history route only reads them, apart from topping up
+// these same addresses when a chart is opened.
+const addresses = snapshotAddresses();
+
+if (!addresses.length) {
+  throw new Error('PORTFOLIO_SNAPSHOT_ADDRESSES must be a comma-separated list of EVM addresses');
+}
+
+const recorder = sharedSnapshotRecorder();
+const stop = recorder.start(addresses, Number(process.env.PORTFOLIO_SNAPSHOT_POLL_MS) || 60_000);
+console.log(`Recording portfolio snapshots for ${addresses.join(', ')}`);
+
+process.on('SIGINT', () => {
+  stop();
+  process.exit(0);
+});
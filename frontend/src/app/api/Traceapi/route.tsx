@@ -1,78 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
-
-const BASE_URL = "https://api.1inch.dev/traces/v1.0/chain";
-
-// Helper function to make authenticated requests to 1inch API
-async function makeRequest(url: string) {
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `Bearer ${process.env.ONEINCH_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
-  }
-
-  return response.json();
-}
+import { clientFor } from "@/lib/oneinch";
+import { batchError, errorResponse } from "@/lib/api/errors";
+import { parseInput, parseQuery } from "@/lib/validation";
+import { traceBatchSchema, traceOperationSchema, traceQuerySchema } from "@/lib/validation/traces";
 
 // GET /api/Traceapi?action=syncedInterval&chain=1
 // GET /api/Traceapi?action=blockTrace&chain=1&blockNumber=15000000
 // GET /api/Traceapi?action=txTrace&chain=1&blockNumber=15000000&txHash=0x...
 export async function GET(request: NextRequest) {
   try {
+    const oneinch = clientFor(request);
     const { searchParams } = new URL(request.url);
-    const action = searchParams.get('action');
-    const chain = searchParams.get('chain') || '1';
-    const blockNumber = searchParams.get('blockNumber');
-    const txHash = searchParams.get('txHash');
-
-    if (!action) {
-      return NextResponse.json(
-        { error: 'Action parameter is required. Use: syncedInterval, blockTrace, or txTrace' },
-        { status: 400 }
-      );
-    }
+    const query = parseQuery(traceQuerySchema, searchParams);
+    const { action, chain } = query;
 
     let data;
-    let url;
 
-    switch (action) {
+    switch (query.action) {
       case 'syncedInterval':
-        url = `${BASE_URL}/${chain}/synced-interval`;
-        data = await makeRequest(url);
+        data = await oneinch.traces.syncedInterval(chain);
         break;
 
       case 'blockTrace':
-        if (!blockNumber) {
-          return NextResponse.json(
-            { error: 'blockNumber parameter is required for blockTrace action' },
-            { status: 400 }
-          );
-        }
-        url = `${BASE_URL}/${chain}/block-trace/${blockNumber}`;
-        data = await makeRequest(url);
+        data = await oneinch.traces.blockTrace(chain, query.blockNumber);
         break;
 
       case 'txTrace':
-        if (!blockNumber || !txHash) {
-          return NextResponse.json(
-            { error: 'blockNumber and txHash parameters are required for txTrace action' },
-            { status: 400 }
-          );
-        }
-        url = `${BASE_URL}/${chain}/block-trace/${blockNumber}/tx-hash/${txHash}`;
-        data = await makeRequest(url);
+        data = await oneinch.traces.txTrace(chain, query.blockNumber, query.txHash);
         break;
-
-      default:
-        return NextResponse.json(
-          { error: 'Invalid action. Use: syncedInterval, blockTrace, or txTrace' },
-          { status: 400 }
-        );
     }
 
     return NextResponse.json({
@@ -86,87 +41,56 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error("1inch Trace API Error:", error);
     
-    return NextResponse.json(
-      { 
-        error: "Failed to fetch trace data",
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to fetch trace data");
   }
 }
 
 // POST method for batch operations
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { operations } = body;
-
-    if (!operations || !Array.isArray(operations)) {
-      return NextResponse.json(
-        { error: 'Operations array is required' },
-        { status: 400 }
-      );
-    }
+    const oneinch = clientFor(request);
+    const { operations } = parseInput(traceBatchSchema, await request.json());
 
-    const results = [];
+    const results = await Promise.all(operations.map(async (rawOperation, index) => {
+      const { action, chain = '1', blockNumber, txHash } = rawOperation;
 
-    for (const operation of operations) {
-      const { action, chain = '1', blockNumber, txHash } = operation;
-      
       try {
-        let url;
+        const operation = parseInput(traceOperationSchema, rawOperation, ['operations', index]);
         let data;
 
-        switch (action) {
+        switch (operation.action) {
           case 'syncedInterval':
-            url = `${BASE_URL}/${chain}/synced-interval`;
-            data = await makeRequest(url);
+            data = await oneinch.traces.syncedInterval(operation.chain);
             break;
 
           case 'blockTrace':
-            if (!blockNumber) {
-              throw new Error('blockNumber is required for blockTrace');
-            }
-            url = `${BASE_URL}/${chain}/block-trace/${blockNumber}`;
-            data = await makeRequest(url);
+            data = await oneinch.traces.blockTrace(operation.chain, operation.blockNumber);
             break;
 
           case 'txTrace':
-            if (!blockNumber || !txHash) {
-              throw new Error('blockNumber and txHash are required for txTrace');
-            }
-            url = `${BASE_URL}/${chain}/block-trace/${blockNumber}/tx-hash/${txHash}`;
-            data = await makeRequest(url);
+            data = await oneinch.traces.txTrace(operation.chain, operation.blockNumber, operation.txHash);
             break;
-
-          default:
-            throw new Error(`Invalid action: ${action}`);
         }
 
-        results.push({
+        return {
           success: true,
           action,
           chain,
           blockNumber,
           txHash,
           data
-        });
-
-        // Add delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
-
+        };
       } catch (error) {
-        results.push({
+        return {
           success: false,
           action,
           chain,
           blockNumber,
           txHash,
-          error: error instanceof Error ? error.message : "Unknown error"
-        });
+          ...batchError(error)
+        };
       }
-    }
+    }));
 
     return NextResponse.json({
       success: true,
@@ -179,12 +103,6 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error("Batch trace API error:", error);
     
-    return NextResponse.json(
-      { 
-        error: "Failed to process batch operations",
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to process batch operations");
   }
 }
\ No newline at end of file
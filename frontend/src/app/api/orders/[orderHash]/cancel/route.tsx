@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api/errors";
+import { sharedOrderBook } from "@/lib/relayer";
+import { parseInput } from "@/lib/validation";
+import { cancelOrderSchema, orderHashSchema } from "@/lib/validation/orders";
+
+// The maker withdraws an order no resolver has picked up, signing a CancelOrder
+// message (EIP-712, or CIP-30 signData over its hash)
+// POST /api/orders/0x.../cancel with body: { "signature": { "scheme": "eip712", "signature": "0x..." } }
+export async function POST(request: NextRequest, { params }: { params: Promise<{ orderHash: string }> }) {
+  try {
+    const orderHash = parseInput(orderHashSchema, (await params).orderHash, ['orderHash']);
+    const { signature } = parseInput(cancelOrderSchema, await request.json());
+
+    const order = await sharedOrderBook().cancel(orderHash, signature);
+
+    return NextResponse.json({
+      success: true,
+      order,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error("Order cancel API error:", error);
+
+    return errorResponse(error, "Failed to cancel order");
+  }
+}
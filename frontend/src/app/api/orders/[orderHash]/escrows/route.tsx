@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api/errors";
+import { authenticateResolver, sharedOrderBook } from "@/lib/relayer";
+import { parseInput } from "@/lib/validation";
+import { escrowReportSchema, orderHashSchema } from "@/lib/validation/orders";
+
+// Resolvers report what they did on chain; the order book checks each report
+// against the chain and records it at the block's time
+// POST /api/orders/0x.../escrows with `Authorization: Bearer <resolver key>` and
+// body: { "side": "src", "action": "deployed", "txHash": "0x...", "escrow": "0x..." }
+export async function POST(request: NextRequest, { params }: { params: Promise<{ orderHash: string }> }) {
+  try {
+    authenticateResolver(request);
+    const orderHash = parseInput(orderHashSchema, (await params).orderHash, ['orderHash']);
+    const report = parseInput(escrowReportSchema, await request.json());
+
+    const order = await sharedOrderBook().reportEscrow(orderHash, report);
+
+    return NextResponse.json({
+      success: true,
+      order,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error("Escrow report API error:", error);
+
+    return errorResponse(error, "Failed to record escrow");
+  }
+}
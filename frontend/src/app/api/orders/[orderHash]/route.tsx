@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api/errors";
+import { sharedOrderBook } from "@/lib/relayer";
+import { parseInput } from "@/lib/validation";
+import { orderHashSchema } from "@/lib/validation/orders";
+
+// GET /api/orders/0x... (the order with its full event timeline)
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ orderHash: string }> }) {
+  try {
+    const orderHash = parseInput(orderHashSchema, (await params).orderHash, ['orderHash']);
+
+    const order = await sharedOrderBook().get(orderHash);
+
+    return NextResponse.json({
+      success: true,
+      order,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error("Order API error:", error);
+
+    return errorResponse(error, "Failed to fetch order");
+  }
+}
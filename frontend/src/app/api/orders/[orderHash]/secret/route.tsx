@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api/errors";
+import { sharedOrderBook } from "@/lib/relayer";
+import { parseInput } from "@/lib/validation";
+import { orderHashSchema, secretRevealSchema } from "@/lib/validation/orders";
+
+// The maker shares the secret once both escrows are past finality
+// POST /api/orders/0x.../secret with body: { "secret": "0x..." }
+// POST /api/orders/0x.../secret with body: { "secret": "0x...", "index": 2, "proof": ["0x..."] } (partial fills)
+export async function POST(request: NextRequest, { params }: { params: Promise<{ orderHash: string }> }) {
+  try {
+    const orderHash = parseInput(orderHashSchema, (await params).orderHash, ['orderHash']);
+    const secret = parseInput(secretRevealSchema, await request.json());
+
+    const order = await sharedOrderBook().revealSecret(orderHash, secret);
+
+    return NextResponse.json({
+      success: true,
+      order,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error("Secret reveal API error:", error);
+
+    return errorResponse(error, "Failed to reveal secret");
+  }
+}
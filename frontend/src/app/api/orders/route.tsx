@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api/errors";
+import { sharedOrderBook } from "@/lib/relayer";
+import { parseInput, parseQuery } from "@/lib/validation";
+import { orderListQuerySchema, submitOrderSchema } from "@/lib/validation/orders";
+
+// Cross-chain order book shared by makers, resolvers and the UI. Orders come
+// back as { orderHash, order, signature, status, phases, escrows, secrets, events }.
+
+// GET /api/orders (active orders, newest first)
+// GET /api/orders?maker=0x...&srcChain=eip155:1&dstChain=cardano:mainnet&status=all&limit=20
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseQuery(orderListQuerySchema, searchParams);
+
+    const orders = await sharedOrderBook().list(query);
+
+    return NextResponse.json({
+      success: true,
+      orders,
+      total: orders.length,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error("Order list API error:", error);
+
+    return errorResponse(error, "Failed to list orders");
+  }
+}
+
+// POST /api/orders with body: { "order": { ... }, "signature": { "scheme": "eip712", "signature": "0x..." } }
+export async function POST(request: NextRequest) {
+  try {
+    const signed = parseInput(submitOrderSchema, await request.json());
+
+    const order = await sharedOrderBook().submit(signed);
+
+    return NextResponse.json({
+      success: true,
+      order,
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error("Order submit API error:", error);
+
+    return errorResponse(error, "Failed to submit order");
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api/errors";
+import { assetPairs, convertPairAmount, PairRoute } from "@/lib/assetPairs";
+import { parseQuery } from "@/lib/validation";
+import { pairQuerySchema } from "@/lib/validation/pairs";
+
+// Curated EVM <-> Cardano asset pairs, one route per allowed direction. Limits
+// are in source base units; `version` changes whenever the list does.
+
+function toRouteJson(route: PairRoute, amount?: bigint) {
+  return {
+    ...route,
+    minAmount: route.minAmount.toString(),
+    maxAmount: route.maxAmount.toString(),
+    ...(amount !== undefined && { dstAmount: convertPairAmount(route, amount).toString() }),
+  };
+}
+
+// GET /api/pairs
+// GET /api/pairs?srcChain=eip155:1&srcAsset=0xa0b8...&dstChain=cardano:mainnet
+// GET /api/pairs?srcChain=cardano:mainnet&srcAsset=lovelace&amount=50000000
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { amount, ...filter } = parseQuery(pairQuerySchema, searchParams);
+
+    const routes = assetPairs
+      .routes(filter)
+      .filter((route) => amount === undefined || (amount >= route.minAmount && amount <= route.maxAmount));
+
+    return NextResponse.json({
+      success: true,
+      version: assetPairs.version,
+      updatedAt: assetPairs.updatedAt,
+      routes: routes.map((route) => toRouteJson(route, amount)),
+      total: routes.length,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error("Asset pair API error:", error);
+
+    return errorResponse(error, "Failed to list asset pairs");
+  }
+}
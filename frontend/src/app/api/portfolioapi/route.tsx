@@ -1,108 +1,55 @@
 import { NextRequest, NextResponse } from "next/server";
-
-const BASE_URL = "https://api.1inch.dev/portfolio/portfolio/v4/overview/erc20";
-
-// Helper function to make authenticated requests to 1inch Portfolio API
-async function makeRequest(url: string) {
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `Bearer ${process.env.ONEINCH_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
-  }
-
-  return response.json();
-}
-
-// Helper function to add delay for rate limiting
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+import { clientFor } from "@/lib/oneinch";
+import { batchError, errorResponse } from "@/lib/api/errors";
+import { fetchPortfolioOverview } from "@/lib/portfolio";
+import { sharedSnapshotRecorder, snapshotAddresses } from "@/lib/snapshots";
+import { parseInput, parseQuery } from "@/lib/validation";
+import { portfolioBatchSchema, portfolioOperationSchema, portfolioQuerySchema } from "@/lib/validation/portfolio";
 
 // GET /api/portfolioapi?action=currentValue&addresses=0x...&chainId=1
 // GET /api/portfolioapi?action=profitAndLoss&addresses=0x...&chainId=1&fromTimestamp=2023-01-01T00:00:00Z&toTimestamp=2023-01-31T23:59:59Z
 // GET /api/portfolioapi?action=tokenDetails&addresses=0x...&chainId=1
 // GET /api/portfolioapi?action=all&addresses=0x...&chainId=1
+// GET /api/portfolioapi?action=overview&addresses=0x...&window=30d&chainIds=1,137
+// GET /api/portfolioapi?action=history&addresses=0x...&window=7d&points=200
 export async function GET(request: NextRequest) {
   try {
+    const oneinch = clientFor(request);
     const { searchParams } = new URL(request.url);
-    const action = searchParams.get('action');
-    const addresses = searchParams.get('addresses');
-    const chainId = searchParams.get('chainId') || '1';
-    const fromTimestamp = searchParams.get('fromTimestamp');
-    const toTimestamp = searchParams.get('toTimestamp');
-
-    if (!action) {
-      return NextResponse.json(
-        { error: 'Action parameter is required. Use: currentValue, profitAndLoss, tokenDetails, or all' },
-        { status: 400 }
-      );
-    }
-
-    if (!addresses) {
-      return NextResponse.json(
-        { error: 'Wallet addresses parameter is required' },
-        { status: 400 }
-      );
-    }
-
-    // Validate addresses format (basic validation for Ethereum addresses)
-    const addressList = addresses.split(',');
-    const validAddresses = addressList.every(addr => 
-      /^0x[a-fA-F0-9]{40}$/.test(addr.trim())
-    );
-
-    if (!validAddresses) {
-      return NextResponse.json(
-        { error: 'Invalid wallet address format' },
-        { status: 400 }
-      );
-    }
-
+    const query = parseQuery(portfolioQuerySchema, searchParams);
+    const { action, addresses: addressQuery } = query;
+    const chainId = query.action === 'overview' || query.action === 'history' ? undefined : query.chainId;
+    const addresses = addressQuery.join(',');
     let data;
-    let url;
 
-    switch (action) {
+    switch (query.action) {
       case 'currentValue':
-        url = `${BASE_URL}/current_value?addresses=${addresses}&chain_id=${chainId}`;
-        data = await makeRequest(url);
+        data = await oneinch.portfolio.currentValue({ addresses: addressQuery, chainId });
         break;
 
       case 'profitAndLoss':
-        if (!fromTimestamp || !toTimestamp) {
-          return NextResponse.json(
-            { error: 'fromTimestamp and toTimestamp parameters are required for profitAndLoss action' },
-            { status: 400 }
-          );
-        }
-        url = `${BASE_URL}/profit_and_loss?addresses=${addresses}&chain_id=${chainId}&from_timestamp=${fromTimestamp}&to_timestamp=${toTimestamp}`;
-        data = await makeRequest(url);
+        data = await oneinch.portfolio.profitAndLoss(query);
         break;
 
       case 'tokenDetails':
-        url = `${BASE_URL}/details?addresses=${addresses}&chain_id=${chainId}`;
-        data = await makeRequest(url);
+        data = await oneinch.portfolio.tokenDetails({ addresses: addressQuery, chainId });
         break;
 
       case 'all':
-        // Get all three types of data sequentially
-        const currentValueUrl = `${BASE_URL}/current_value?addresses=${addresses}&chain_id=${chainId}`;
-        const currentValue = await makeRequest(currentValueUrl);
-        
-        await delay(1000); // Rate limiting delay
-        
-        const tokenDetailsUrl = `${BASE_URL}/details?addresses=${addresses}&chain_id=${chainId}`;
-        const tokenDetails = await makeRequest(tokenDetailsUrl);
-        
-        let profitAndLoss = null;
-        if (fromTimestamp && toTimestamp) {
-          await delay(1000); // Rate limiting delay
-          const profitAndLossUrl = `${BASE_URL}/profit_and_loss?addresses=${addresses}&chain_id=${chainId}&from_timestamp=${fromTimestamp}&to_timestamp=${toTimestamp}`;
-          profitAndLoss = await makeRequest(profitAndLossUrl);
-        }
+        const { fromTimestamp, toTimestamp } = query;
+
+        const [currentValue, tokenDetails, profitAndLoss] = await Promise.all([
+          oneinch.portfolio.currentValue({ addresses: addressQuery, chainId }),
+          oneinch.portfolio.tokenDetails({ addresses: addressQuery, chainId }),
+          fromTimestamp && toTimestamp
+            ? oneinch.portfolio.profitAndLoss({
+                addresses: addressQuery,
+                chainId,
+                fromTimestamp,
+                toTimestamp
+              })
+            : null
+        ]);
 
         data = {
           currentValue,
@@ -111,11 +58,36 @@ export async function GET(request: NextRequest) {
         };
         break;
 
-      default:
-        return NextResponse.json(
-          { error: 'Invalid action. Use: currentValue, profitAndLoss, tokenDetails, or all' },
-          { status: 400 }
-        );
+      case 'overview':
+        data = await fetchPortfolioOverview(oneinch.portfolio, {
+          addresses: addressQuery,
+          chainIds: query.chainIds,
+          window: query.window
+        });
+        break;
+
+      case 'history': {
+        const recorder = sharedSnapshotRecorder();
+
+        // Reading is free for any address; only those the snapshot process
+        // tracks are topped up when due, so callers cannot spend upstream
+        // quota or store on arbitrary wallets. A failed recording still
+        // leaves the stored series to answer with.
+        const tracked = snapshotAddresses().map((address) => address.toLowerCase());
+        await Promise.all(addressQuery
+          .filter((address) => tracked.includes(address.toLowerCase()))
+          .map((address) =>
+            recorder.recordIfDue(address).catch((error) => console.error("Portfolio snapshot failed:", error))
+          ));
+
+        data = await recorder.history({
+          addresses: addressQuery,
+          window: query.window,
+          points: query.points,
+          chainIds: query.chainIds
+        });
+        break;
+      }
     }
 
     return NextResponse.json({
@@ -123,6 +95,7 @@ export async function GET(request: NextRequest) {
       action,
       addresses,
       chainId,
+      ...((query.action === 'overview' || query.action === 'history') && query.chainIds && { chainIds: query.chainIds }),
       data,
       timestamp: new Date().toISOString()
     });
@@ -130,92 +103,54 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error("1inch Portfolio API Error:", error);
     
-    return NextResponse.json(
-      { 
-        error: "Failed to fetch portfolio data",
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to fetch portfolio data");
   }
 }
 
 // POST method for batch portfolio operations
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { operations } = body;
-
-    if (!operations || !Array.isArray(operations)) {
-      return NextResponse.json(
-        { error: 'Operations array is required' },
-        { status: 400 }
-      );
-    }
-
-    const results = [];
+    const oneinch = clientFor(request);
+    const { operations } = parseInput(portfolioBatchSchema, await request.json());
 
-    for (const operation of operations) {
-      const { 
-        action, 
-        addresses, 
-        chainId = '1', 
-        fromTimestamp, 
-        toTimestamp 
-      } = operation;
+    const results = await Promise.all(operations.map(async (rawOperation, index) => {
+      const { action, addresses, chainId = '1' } = rawOperation;
       
       try {
-        if (!addresses) {
-          throw new Error('addresses is required for all operations');
-        }
-
-        let url;
+        const operation = parseInput(portfolioOperationSchema, rawOperation, ['operations', index]);
         let data;
 
-        switch (action) {
+        switch (operation.action) {
           case 'currentValue':
-            url = `${BASE_URL}/current_value?addresses=${addresses}&chain_id=${chainId}`;
-            data = await makeRequest(url);
+            data = await oneinch.portfolio.currentValue(operation);
             break;
 
           case 'profitAndLoss':
-            if (!fromTimestamp || !toTimestamp) {
-              throw new Error('fromTimestamp and toTimestamp are required for profitAndLoss');
-            }
-            url = `${BASE_URL}/profit_and_loss?addresses=${addresses}&chain_id=${chainId}&from_timestamp=${fromTimestamp}&to_timestamp=${toTimestamp}`;
-            data = await makeRequest(url);
+            data = await oneinch.portfolio.profitAndLoss(operation);
             break;
 
           case 'tokenDetails':
-            url = `${BASE_URL}/details?addresses=${addresses}&chain_id=${chainId}`;
-            data = await makeRequest(url);
+            data = await oneinch.portfolio.tokenDetails(operation);
             break;
-
-          default:
-            throw new Error(`Invalid action: ${action}`);
         }
 
-        results.push({
+        return {
           success: true,
           action,
           addresses,
           chainId,
           data
-        });
-
-        // Add delay to avoid rate limiting
-        await delay(1000);
-
+        };
       } catch (error) {
-        results.push({
+        return {
           success: false,
           action,
           addresses,
           chainId,
-          error: error instanceof Error ? error.message : "Unknown error"
-        });
+          ...batchError(error)
+        };
       }
-    }
+    }));
 
     return NextResponse.json({
       success: true,
@@ -228,12 +163,6 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error("Batch portfolio API error:", error);
     
-    return NextResponse.json(
-      { 
-        error: "Failed to process batch operations",
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to process batch operations");
   }
 }
\ No newline at end of file
@@ -1,118 +1,103 @@
 import { NextRequest, NextResponse } from "next/server";
-
-const BASE_URL = "https://api.1inch.dev/token";
-
-// Supported chain IDs for token API
-const SUPPORTED_CHAINS = {
-  ethereum: '1',
-  bsc: '56',
-  polygon: '137',
-  optimism: '10',
-  arbitrum: '42161',
-  gnosis: '100',
-  avalanche: '43114',
-  fantom: '250',
-  klaytn: '8217',
-  aurora: '1313161554'
-};
-
-// Helper function to make authenticated requests to 1inch Token API
-async function makeRequest(url: string, method: 'GET' | 'POST' = 'GET') {
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `Bearer ${process.env.ONEINCH_API_KEY}`,
-      'Content-Type': 'application/json',
-      'accept': 'application/json'
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+import type { z } from "zod";
+import { sharedCardanoTokenRegistry } from "@/lib/cardano";
+import { clientFor } from "@/lib/oneinch";
+import { batchError, errorResponse } from "@/lib/api/errors";
+import { withCacheStatus } from "@/lib/api/cache";
+import { parseInput, parseQuery, selectedChain } from "@/lib/validation";
+import {
+  cardanoTokenOperationSchema,
+  cardanoTokenQuerySchema,
+  isCardanoTokenRequest,
+  tokenBatchSchema,
+  tokenOperationSchema,
+  tokenQuerySchema,
+} from "@/lib/validation/tokens";
+
+// Cardano native assets, keyed by unit (policy id + hex asset name) where 1inch keys by address
+async function cardanoTokens(params: z.output<typeof cardanoTokenOperationSchema>) {
+  const registry = sharedCardanoTokenRegistry(params.network);
+
+  let data;
+
+  switch (params.action) {
+    case 'search':
+      data = await registry.search(params.query, params);
+      break;
+
+    case 'custom':
+      data = await registry.custom(params.addresses);
+      break;
+
+    case 'all':
+      data = await registry.all();
+      break;
+
+    case 'tokenList':
+      data = await registry.tokenList();
+      break;
   }
 
-  return response.json();
+  return {
+    action: params.action,
+    chain: params.chain,
+    network: params.network,
+    ...(params.action === 'search' && { query: params.query }),
+    ...(params.action === 'custom' && { addresses: params.addresses.join(',') }),
+    data
+  };
 }
 
 // GET /api/tokens?action=search&query=1inch&chainId=1&limit=10
 // GET /api/tokens?action=custom&chainId=1&addresses=0x111...,0x222...
 // GET /api/tokens?action=all&chainId=1&provider=1inch
 // GET /api/tokens?action=tokenList&chainId=1&provider=1inch
+// GET /api/tokens?action=search&chain=cardano&query=djed
+// GET /api/tokens?action=custom&chain=cardano&network=testnet&addresses=<policy id + asset name>,...
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const action = searchParams.get('action') || 'all';
-    const chain = searchParams.get('chain') || 'ethereum';
-    const query = searchParams.get('query');
+
+    if (isCardanoTokenRequest({ chain: searchParams.get('chain') })) {
+      const result = await cardanoTokens(parseQuery(cardanoTokenQuerySchema, searchParams));
+
+      return NextResponse.json({
+        success: true,
+        ...result,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const oneinch = clientFor(request);
+    const params = parseQuery(tokenQuerySchema, searchParams);
+    const { action } = params;
+    const { id, slug: chain } = selectedChain(params);
+    const chainId = String(id);
+    const query = params.action === 'search' ? params.query : undefined;
     const addresses = searchParams.get('addresses');
-    const limit = searchParams.get('limit') || '10';
-    const ignoreListed = searchParams.get('ignoreListed') || 'false';
-    const provider = searchParams.get('provider') || '1inch';
-    
-    // Get chainId from chain name or use direct chainId
-    const chainId = searchParams.get('chainId') || 
-                   SUPPORTED_CHAINS[chain as keyof typeof SUPPORTED_CHAINS] || 
-                   '1';
+    const provider = 'provider' in params ? params.provider : undefined;
 
-    let url: string;
-    let data: any;
+    let data;
 
-    switch (action) {
+    switch (params.action) {
       case 'search':
-        if (!query) {
-          return NextResponse.json(
-            { error: 'Query parameter is required for search action' },
-            { status: 400 }
-          );
-        }
-        
-        url = `${BASE_URL}/v1.2/${chainId}/search?query=${encodeURIComponent(query)}&limit=${limit}&ignore_listed=${ignoreListed}`;
-        data = await makeRequest(url);
+        data = await oneinch.token.search(chainId, params);
         break;
 
       case 'custom':
-        if (!addresses) {
-          return NextResponse.json(
-            { error: 'Addresses parameter is required for custom action' },
-            { status: 400 }
-          );
-        }
-        
-        // Validate addresses format
-        const addressList = addresses.split(',').map(addr => addr.trim());
-        const validAddresses = addressList.every(addr => 
-          /^0x[a-fA-F0-9]{40}$/.test(addr)
-        );
-
-        if (!validAddresses) {
-          return NextResponse.json(
-            { error: 'Invalid token address format' },
-            { status: 400 }
-          );
-        }
-
-        url = `${BASE_URL}/v1.2/${chainId}/custom/${addresses}`;
-        data = await makeRequest(url);
+        data = await oneinch.token.custom(chainId, params.addresses);
         break;
 
       case 'all':
-        url = `${BASE_URL}/v1.2/${chainId}?provider=${provider}`;
-        data = await makeRequest(url);
+        data = await oneinch.token.all(chainId, params.provider);
         break;
 
       case 'tokenList':
-        url = `${BASE_URL}/v1.2/${chainId}/token-list?provider=${provider}`;
-        data = await makeRequest(url);
+        data = await oneinch.token.tokenList(chainId, params.provider);
         break;
-
-      default:
-        return NextResponse.json(
-          { error: 'Invalid action. Use: search, custom, all, or tokenList' },
-          { status: 400 }
-        );
     }
 
-    return NextResponse.json({
+    return withCacheStatus(NextResponse.json({
       success: true,
       action,
       chainId,
@@ -122,141 +107,88 @@ export async function GET(request: NextRequest) {
       ...(provider && { provider }),
       data,
       timestamp: new Date().toISOString()
-    });
+    }), oneinch);
 
   } catch (error) {
     console.error("1inch Token API Error:", error);
     
-    return NextResponse.json(
-      { 
-        error: "Failed to fetch token data",
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to fetch token data");
   }
 }
 
 // POST method for batch token operations
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { operations } = body;
-
-    if (!operations || !Array.isArray(operations)) {
-      return NextResponse.json(
-        { error: 'Operations array is required' },
-        { status: 400 }
-      );
-    }
-
-    const results = [];
+    const oneinch = clientFor(request);
+    const { operations } = parseInput(tokenBatchSchema, await request.json());
 
-    for (const operation of operations) {
-      const { 
-        action, 
-        chain, 
-        chainId: reqChainId, 
-        query, 
-        addresses, 
-        limit = '10',
-        ignoreListed = 'false',
-        provider = '1inch'
-      } = operation;
+    const results = await Promise.all(operations.map(async (rawOperation, index) => {
+      const { action, chain, chainId: reqChainId, query, addresses } = rawOperation;
       
       try {
-        const finalChainId = reqChainId || 
-                           SUPPORTED_CHAINS[chain as keyof typeof SUPPORTED_CHAINS] || 
-                           '1';
+        if (isCardanoTokenRequest(rawOperation)) {
+          const operation = parseInput(cardanoTokenOperationSchema, rawOperation, ['operations', index]);
+          return { success: true, ...(await cardanoTokens(operation)) };
+        }
+
+        const operation = parseInput(tokenOperationSchema, rawOperation, ['operations', index]);
+        const provider = 'provider' in operation ? operation.provider : undefined;
+        const resolved = selectedChain(operation);
+        const finalChainId = String(resolved.id);
 
-        let url: string;
-        let data: any;
+        let data;
 
-        switch (action) {
+        switch (operation.action) {
           case 'search':
-            if (!query) {
-              throw new Error('Query is required for search action');
-            }
-            url = `${BASE_URL}/v1.2/${finalChainId}/search?query=${encodeURIComponent(query)}&limit=${limit}&ignore_listed=${ignoreListed}`;
-            data = await makeRequest(url);
+            data = await oneinch.token.search(finalChainId, operation);
             break;
 
           case 'custom':
-            if (!addresses) {
-              throw new Error('Addresses are required for custom action');
-            }
-            
-            // Validate addresses
-            const addressList = addresses.split(',').map((addr: string) => addr.trim());
-            const validAddresses = addressList.every((addr: string) => 
-              /^0x[a-fA-F0-9]{40}$/.test(addr)
-            );
-
-            if (!validAddresses) {
-              throw new Error('Invalid token address format');
-            }
-
-            url = `${BASE_URL}/v1.2/${finalChainId}/custom/${addresses}`;
-            data = await makeRequest(url);
+            data = await oneinch.token.custom(finalChainId, operation.addresses);
             break;
 
           case 'all':
-            url = `${BASE_URL}/v1.2/${finalChainId}?provider=${provider}`;
-            data = await makeRequest(url);
+            data = await oneinch.token.all(finalChainId, operation.provider);
             break;
 
           case 'tokenList':
-            url = `${BASE_URL}/v1.2/${finalChainId}/token-list?provider=${provider}`;
-            data = await makeRequest(url);
+            data = await oneinch.token.tokenList(finalChainId, operation.provider);
             break;
-
-          default:
-            throw new Error(`Invalid action: ${action}`);
         }
 
-        results.push({
+        return {
           success: true,
           action,
           chainId: finalChainId,
-          chain: chain || 'ethereum',
+          chain: resolved.slug,
           ...(query && { query }),
           ...(addresses && { addresses }),
           ...(provider && { provider }),
           data
-        });
-
-        // Add delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
-
+        };
       } catch (error) {
-        results.push({
+        return {
           success: false,
           action,
           chainId: reqChainId || '1',
           chain: chain || 'ethereum',
-          error: error instanceof Error ? error.message : "Unknown error"
-        });
+          ...batchError(error)
+        };
       }
-    }
+    }));
 
-    return NextResponse.json({
+    return withCacheStatus(NextResponse.json({
       success: true,
       results,
       total: operations.length,
       successful: results.filter(r => r.success).length,
       failed: results.filter(r => !r.success).length,
       timestamp: new Date().toISOString()
-    });
+    }), oneinch);
 
   } catch (error) {
     console.error("Batch token API error:", error);
     
-    return NextResponse.json(
-      { 
-        error: "Failed to process batch token operations",
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to process batch token operations");
   }
 }
\ No newline at end of file
@@ -1,19 +1,22 @@
 "use client";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 import { useEffect, useState } from "react";
-import { useAccount, useDisconnect, useBalance } from "wagmi";
+import { useAccount, useDisconnect } from "wagmi";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import { WalletHistory } from "@/components/ui/wallethistory";
-import { TokenSearch } from "@/components/ui/token";
+import { Token, TokenSearch } from "@/components/ui/token";
+import { SwapPanel } from "@/components/ui/swap";
+import { PortfolioChart, PortfolioOverview } from "@/components/ui/portfolio";
+import { CardanoConnectButton } from "@/components/ui/cardanowallet";
 
 const Dashboard = () => {
     const { disconnect } = useDisconnect();
     const { isConnected, address } = useAccount();
-    const { data: balance } = useBalance({ address });
     const router = useRouter();
     const [mounted, setMounted] = useState(false);
-    const [activeSection, setActiveSection] = useState<'overview' | 'history' | 'tokens'>('overview');
+    const [activeSection, setActiveSection] = useState<'overview' | 'swap' | 'history' | 'tokens'>('overview');
+    const [swapToken, setSwapToken] = useState<Token>();
 
     useEffect(() => {
         setMounted(true);
@@ -33,10 +36,10 @@ const Dashboard = () => {
         );
     }
 
-    const handleTokenSelect = (token: any) => {
-        console.log('Token selected:', token);
-        // You can add logic here to handle token selection
-        // For example, store in state for trading/swapping
+    // A token picked in Token Search becomes the swap's source token
+    const handleTokenSelect = (token: Token) => {
+        setSwapToken(token);
+        setActiveSection('swap');
     };
 
     return (
@@ -50,6 +53,7 @@ const Dashboard = () => {
                     <span className="ml-3 text-xl font-bold text-white">Cardano 1inch Fusion+</span>
                 </div>
                 <div className="flex items-center gap-4">
+                    <CardanoConnectButton />
                     <ConnectButton />
                 </div>
             </header>
@@ -67,6 +71,16 @@ const Dashboard = () => {
                     >
                         Overview
                     </button>
+                    <button
+                        onClick={() => setActiveSection('swap')}
+                        className={`px-6 py-3 rounded-lg font-medium transition-all ${
+                            activeSection === 'swap'
+                                ? 'bg-blue-500 text-white shadow-lg'
+                                : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                        }`}
+                    >
+                        Swap
+                    </button>
                     <button
                         onClick={() => setActiveSection('history')}
                         className={`px-6 py-3 rounded-lg font-medium transition-all ${
@@ -110,58 +124,25 @@ const Dashboard = () => {
                             </p>
                         </motion.div>
 
-                        {/* Stats Cards */}
-                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-                            <motion.div
-                                initial={{ opacity: 0, y: 20 }}
-                                animate={{ opacity: 1, y: 0 }}
-                                transition={{ duration: 0.5, delay: 0.1 }}
-                                className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20"
-                            >
-                                <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wide">
-                                    Wallet Balance
-                                </h3>
-                                <p className="text-2xl font-bold text-white mt-2">
-                                    {balance ? `${parseFloat(balance.formatted).toFixed(4)} ${balance.symbol}` : '0.0000 ETH'}
-                                </p>
-                            </motion.div>
-
-                            <motion.div
-                                initial={{ opacity: 0, y: 20 }}
-                                animate={{ opacity: 1, y: 0 }}
-                                transition={{ duration: 0.5, delay: 0.2 }}
-                                className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20"
-                            >
-                                <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wide">
-                                    Total Volume
-                                </h3>
-                                <p className="text-2xl font-bold text-white mt-2">$0.00</p>
-                            </motion.div>
-
-                            <motion.div
-                                initial={{ opacity: 0, y: 20 }}
-                                animate={{ opacity: 1, y: 0 }}
-                                transition={{ duration: 0.5, delay: 0.3 }}
-                                className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20"
-                            >
-                                <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wide">
-                                    Active Pools
-                                </h3>
-                                <p className="text-2xl font-bold text-white mt-2">0</p>
-                            </motion.div>
+                        {/* Portfolio */}
+                        <motion.div
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ duration: 0.5, delay: 0.1 }}
+                            className="mb-8"
+                        >
+                            <PortfolioOverview className="w-full" />
+                        </motion.div>
 
-                            <motion.div
-                                initial={{ opacity: 0, y: 20 }}
-                                animate={{ opacity: 1, y: 0 }}
-                                transition={{ duration: 0.5, delay: 0.4 }}
-                                className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20"
-                            >
-                                <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wide">
-                                    Rewards Earned
-                                </h3>
-                                <p className="text-2xl font-bold text-white mt-2">$0.00</p>
-                            </motion.div>
-                        </div>
+                        {/* Value History */}
+                        <motion.div
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ duration: 0.5, delay: 0.2 }}
+                            className="mb-8"
+                        >
+                            <PortfolioChart className="w-full" />
+                        </motion.div>
 
                         {/* Action Cards */}
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
@@ -176,7 +157,10 @@ const Dashboard = () => {
                                 <p className="text-gray-300 mb-4">
                                     Swap tokens between Cardano and Ethereum networks with optimal rates.
                                 </p>
-                                <button className="w-full bg-gradient-to-r from-blue-500 to-purple-500 text-white py-2 px-4 rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all group-hover:scale-105">
+                                <button
+                                    onClick={() => setActiveSection('swap')}
+                                    className="w-full bg-gradient-to-r from-blue-500 to-purple-500 text-white py-2 px-4 rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all group-hover:scale-105"
+                                >
                                     Start Swapping
                                 </button>
                             </motion.div>
@@ -271,6 +255,18 @@ const Dashboard = () => {
                     </>
                 )}
 
+                {/* Swap Section */}
+                {activeSection === 'swap' && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.5 }}
+                        className="max-w-2xl mx-auto"
+                    >
+                        <SwapPanel className="w-full" selectedToken={swapToken} />
+                    </motion.div>
+                )}
+
                 {/* Transaction History Section */}
                 {activeSection === 'history' && (
                     <motion.div
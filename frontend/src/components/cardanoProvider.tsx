@@ -0,0 +1,226 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  addressToBech32,
+  CardanoNetwork,
+  CardanoWalletInfo,
+  cip30ErrorMessage,
+  Cip30Api,
+  decodeUtxo,
+  decodeValue,
+  discoverWallets,
+  formatAda,
+  getWallet,
+  networkFromId,
+} from '@/lib/cardano';
+
+type CardanoStatus = 'disconnected' | 'connecting' | 'reconnecting' | 'connected';
+
+interface CardanoAccountState {
+  walletId: string;
+  api: Cip30Api;
+  // Bech32 change address, the wallet's primary receiving address
+  address: string;
+  rewardAddress?: string;
+  networkId: number;
+}
+
+interface CardanoWalletContextValue {
+  wallets: CardanoWalletInfo[];
+  status: CardanoStatus;
+  account?: CardanoAccountState;
+  error?: string;
+  connect(walletId: string): Promise<void>;
+  disconnect(): void;
+}
+
+// Remembers the last wallet so the session survives a reload, like wagmi does
+const STORAGE_KEY = 'cardano.wallet';
+
+// Wallet extensions inject window.cardano some time after page load
+const DISCOVERY_DELAYS_MS = [0, 500, 1500, 3000];
+
+const CardanoWalletContext = createContext<CardanoWalletContextValue | null>(null);
+
+async function readAccount(walletId: string, api: Cip30Api): Promise<CardanoAccountState> {
+  const [networkId, changeAddress, rewardAddresses] = await Promise.all([
+    api.getNetworkId(),
+    api.getChangeAddress(),
+    api.getRewardAddresses().catch(() => [] as string[]),
+  ]);
+  return {
+    walletId,
+    api,
+    address: addressToBech32(changeAddress),
+    rewardAddress: rewardAddresses[0] ? addressToBech32(rewardAddresses[0]) : undefined,
+    networkId,
+  };
+}
+
+export const CardanoWalletProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [wallets, setWallets] = useState<CardanoWalletInfo[]>([]);
+  const [status, setStatus] = useState<CardanoStatus>('disconnected');
+  const [account, setAccount] = useState<CardanoAccountState>();
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    const timers = DISCOVERY_DELAYS_MS.map((delay) => setTimeout(() => setWallets(discoverWallets()), delay));
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  const enable = useCallback(async (walletId: string, silent: boolean) => {
+    const wallet = getWallet(walletId);
+    if (!wallet) {
+      throw new Error('Wallet is not installed');
+    }
+    // Reconnect only wallets that already trust this site, so no popup appears
+    if (silent && !(await wallet.isEnabled())) {
+      return undefined;
+    }
+    return readAccount(walletId, await wallet.enable());
+  }, []);
+
+  const connect = useCallback(async (walletId: string) => {
+    setStatus('connecting');
+    setError(undefined);
+    try {
+      const next = await enable(walletId, false);
+      setAccount(next);
+      setStatus('connected');
+      localStorage.setItem(STORAGE_KEY, walletId);
+    } catch (err) {
+      setAccount(undefined);
+      setStatus('disconnected');
+      setError(cip30ErrorMessage(err));
+    }
+  }, [enable]);
+
+  const disconnect = useCallback(() => {
+    // CIP-30 has no revoke call; forgetting the API handle is all a dApp can do
+    localStorage.removeItem(STORAGE_KEY);
+    setAccount(undefined);
+    setStatus('disconnected');
+    setError(undefined);
+  }, []);
+
+  // Restore the previous session once its wallet has been discovered
+  const rememberedId = typeof window === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+  const rememberedFound = wallets.some((wallet) => wallet.id === rememberedId);
+  useEffect(() => {
+    if (!rememberedId || !rememberedFound || account) return;
+    let cancelled = false;
+    setStatus('reconnecting');
+    enable(rememberedId, true)
+      .then((restored) => {
+        if (cancelled) return;
+        setAccount(restored);
+        setStatus(restored ? 'connected' : 'disconnected');
+      })
+      .catch(() => {
+        if (!cancelled) setStatus('disconnected');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [rememberedId, rememberedFound, account, enable]);
+
+  // Wallets switch accounts and networks without notice; re-read them on focus
+  useEffect(() => {
+    if (!account) return;
+    const { walletId, api } = account;
+    const refresh = () => {
+      readAccount(walletId, api)
+        .then((next) => setAccount((current) =>
+          current && current.walletId === walletId &&
+          (current.address !== next.address || current.networkId !== next.networkId) ? next : current
+        ))
+        .catch((err) => {
+          setError(cip30ErrorMessage(err));
+          disconnect();
+        });
+    };
+    window.addEventListener('focus', refresh);
+    api.experimental?.on?.('accountChange', refresh);
+    api.experimental?.on?.('networkChange', refresh);
+    return () => {
+      window.removeEventListener('focus', refresh);
+      api.experimental?.off?.('accountChange', refresh);
+      api.experimental?.off?.('networkChange', refresh);
+    };
+  }, [account, disconnect]);
+
+  const value = useMemo(
+    () => ({ wallets, status, account, error, connect, disconnect }),
+    [wallets, status, account, error, connect, disconnect]
+  );
+
+  return <CardanoWalletContext.Provider value={value}>{children}</CardanoWalletContext.Provider>;
+};
+
+function useCardanoWallet(): CardanoWalletContextValue {
+  const context = useContext(CardanoWalletContext);
+  if (!context) {
+    throw new Error('Cardano hooks must be used within CardanoWalletProvider');
+  }
+  return context;
+}
+
+// Installed CIP-30 wallets
+export function useCardanoWallets() {
+  return useCardanoWallet().wallets;
+}
+
+export function useCardanoConnect() {
+  const { connect, status, error, wallets } = useCardanoWallet();
+  return { connect, wallets, error, isPending: status === 'connecting' };
+}
+
+export function useCardanoDisconnect() {
+  return { disconnect: useCardanoWallet().disconnect };
+}
+
+// Counterpart of wagmi's useAccount
+export function useCardanoAccount() {
+  const { account, status, wallets } = useCardanoWallet();
+  const network: CardanoNetwork | undefined = account && networkFromId(account.networkId);
+  return {
+    address: account?.address,
+    rewardAddress: account?.rewardAddress,
+    networkId: account?.networkId,
+    network,
+    wallet: wallets.find((wallet) => wallet.id === account?.walletId),
+    api: account?.api,
+    status,
+    isConnected: status === 'connected',
+    isConnecting: status === 'connecting' || status === 'reconnecting',
+  };
+}
+
+// Counterpart of wagmi's useBalance; lovelace plus native assets
+export function useCardanoBalance() {
+  const { account } = useCardanoWallet();
+  return useQuery({
+    queryKey: ['cardano', 'balance', account?.walletId, account?.address, account?.networkId],
+    enabled: Boolean(account),
+    queryFn: async () => {
+      const value = decodeValue(await account!.api.getBalance());
+      return {
+        ...value,
+        formatted: formatAda(value.lovelace),
+        symbol: account!.networkId === 1 ? 'ADA' : 'tADA',
+      };
+    },
+  });
+}
+
+export function useCardanoUtxos() {
+  const { account } = useCardanoWallet();
+  return useQuery({
+    queryKey: ['cardano', 'utxos', account?.walletId, account?.address, account?.networkId],
+    enabled: Boolean(account),
+    queryFn: async () => ((await account!.api.getUtxos()) ?? []).map(decodeUtxo),
+  });
+}
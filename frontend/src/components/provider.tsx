@@ -2,26 +2,12 @@
 
 import '@rainbow-me/rainbowkit/styles.css';
 import { getDefaultConfig, RainbowKitProvider } from '@rainbow-me/rainbowkit';
-import { 
-    mainnet, 
-    sepolia, 
-    polygon, 
-    polygonMumbai, 
-    arbitrum, 
-    arbitrumSepolia, 
-    optimism, 
-    optimismSepolia, 
-    base, 
-    baseSepolia,
-    bsc,
-    bscTestnet,
-    avalanche,
-    avalancheFuji
-} from 'wagmi/chains';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { WagmiProvider } from 'wagmi';
 import type React from 'react';
 import { ThemeProvider } from "next-themes";
+import { wagmiChains } from '@/lib/chains';
+import { CardanoWalletProvider } from './cardanoProvider';
 
 const WALLETCONNECT_ID = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID;
 
@@ -32,35 +18,9 @@ if (!WALLETCONNECT_ID) {
 const config = getDefaultConfig({
     appName: "Cardano 1inch Fusion+",
     projectId: WALLETCONNECT_ID,
-    chains: [
-        // Ethereum Networks
-        mainnet,
-        sepolia,
-        
-        // Polygon Networks
-        polygon,
-        polygonMumbai,
-        
-        // Arbitrum Networks
-        arbitrum,
-        arbitrumSepolia,
-        
-        // Optimism Networks
-        optimism,
-        optimismSepolia,
-        
-        // Base Networks
-        base,
-        baseSepolia,
-        
-        // BSC Networks
-        bsc,
-        bscTestnet,
-        
-        // Avalanche Networks
-        avalanche,
-        avalancheFuji
-    ],
+    // Same networks the API routes serve, plus Base and testnets with
+    // NEXT_PUBLIC_ENABLE_TESTNETS=1; see src/lib/chains.ts
+    chains: wagmiChains(),
     ssr: false
 });
 
@@ -72,7 +32,10 @@ const Provider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
             <WagmiProvider config={config}>
                 <QueryClientProvider client={queryClient}>
                     <RainbowKitProvider modalSize="compact">
-                        {children}
+                        {/* CIP-30 wallets, alongside the EVM wallet above */}
+                        <CardanoWalletProvider>
+                            {children}
+                        </CardanoWalletProvider>
                     </RainbowKitProvider>
                 </QueryClientProvider>
             </WagmiProvider>
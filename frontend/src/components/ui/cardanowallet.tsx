@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDownIcon } from '@heroicons/react/24/outline';
+import {
+  useCardanoAccount,
+  useCardanoBalance,
+  useCardanoConnect,
+  useCardanoDisconnect,
+} from '@/components/cardanoProvider';
+import { shortenAddress } from '@/lib/cardano';
+
+// Cardano counterpart of RainbowKit's ConnectButton for CIP-30 wallets
+export function CardanoConnectButton() {
+  const { address, network, wallet, isConnected, isConnecting } = useCardanoAccount();
+  const { data: balance } = useCardanoBalance();
+  const { connect, wallets, error, isPending } = useCardanoConnect();
+  const { disconnect } = useCardanoDisconnect();
+  const [open, setOpen] = useState(false);
+
+  const buttonClass =
+    'flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 border border-white/20 text-white font-semibold transition-colors disabled:opacity-50';
+
+  return (
+    <div className="relative">
+      {isConnected && address ? (
+        <button onClick={() => setOpen(!open)} className={buttonClass}>
+          {wallet?.icon && <img src={wallet.icon} alt={wallet.name} className="w-5 h-5" />}
+          {balance && (
+            <span className="text-sm text-gray-300">
+              {Number(balance.formatted).toLocaleString(undefined, { maximumFractionDigits: 2 })} {balance.symbol}
+            </span>
+          )}
+          <span className="font-mono text-sm">{shortenAddress(address)}</span>
+          {network === 'testnet' && (
+            <span className="text-xs px-1.5 py-0.5 rounded bg-yellow-500/20 text-yellow-300">testnet</span>
+          )}
+          <ChevronDownIcon className="w-4 h-4" />
+        </button>
+      ) : (
+        <button onClick={() => setOpen(!open)} disabled={isConnecting || isPending} className={buttonClass}>
+          {isConnecting || isPending ? 'Connecting...' : 'Connect Cardano'}
+          <ChevronDownIcon className="w-4 h-4" />
+        </button>
+      )}
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 z-50 bg-gray-900 border border-white/20 rounded-xl shadow-xl p-2">
+          {isConnected ? (
+            <>
+              <p className="px-3 py-2 text-xs text-gray-400 break-all">{address}</p>
+              <button
+                onClick={() => {
+                  disconnect();
+                  setOpen(false);
+                }}
+                className="w-full text-left px-3 py-2 rounded-lg text-red-400 hover:bg-white/10"
+              >
+                Disconnect
+              </button>
+            </>
+          ) : wallets.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-400">
+              No CIP-30 wallet found. Install Eternl, Lace or Nami to connect.
+            </p>
+          ) : (
+            wallets.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => {
+                  setOpen(false);
+                  connect(option.id);
+                }}
+                className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-white hover:bg-white/10"
+              >
+                {option.icon && <img src={option.icon} alt="" className="w-6 h-6" />}
+                <span>{option.name}</span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {error && !open && (
+        <p className="absolute right-0 mt-1 text-xs text-red-400 whitespace-nowrap">{error}</p>
+      )}
+    </div>
+  );
+}
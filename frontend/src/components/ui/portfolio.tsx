@@ -0,0 +1,403 @@
+'use client';
+
+import { useState, useEffect, useCallback, MouseEvent } from 'react';
+import { useAccount } from 'wagmi';
+import { ArrowPathIcon, ChartPieIcon } from '@heroicons/react/24/outline';
+import { chainName, explorerLink, NATIVE_TOKEN_ADDRESS } from '@/lib/chains';
+import type { PnlWindow, PortfolioOverview as Overview } from '@/lib/portfolio';
+import type { PortfolioHistory } from '@/lib/snapshots';
+
+interface PortfolioOverviewProps {
+  className?: string;
+  maxHeight?: string;
+}
+
+interface PortfolioChartProps {
+  className?: string;
+  // How often the open chart refreshes; snapshots come from `npm run snapshots`
+  refreshMs?: number;
+}
+
+const WINDOWS: { id: PnlWindow; label: string }[] = [
+  { id: '1d', label: '1D' },
+  { id: '7d', label: '7D' },
+  { id: '30d', label: '30D' },
+  { id: 'ytd', label: 'YTD' },
+];
+
+function formatUsd(value: number) {
+  return value.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+}
+
+function formatPercent(value: number) {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+function signed(value: number, format: (value: number) => string) {
+  return `${value > 0 ? '+' : value < 0 ? '-' : ''}${format(Math.abs(value))}`;
+}
+
+function profitColor(value: number | null) {
+  if (!value) return 'text-gray-300';
+  return value > 0 ? 'text-green-400' : 'text-red-400';
+}
+
+export function PortfolioOverview({ className = '', maxHeight = '400px' }: PortfolioOverviewProps) {
+  const { address } = useAccount();
+  const [overview, setOverview] = useState<Overview | null>(null);
+  const [pnlWindow, setPnlWindow] = useState<PnlWindow>('7d');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const fetchOverview = useCallback(async () => {
+    if (!address) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const searchParams = new URLSearchParams({ action: 'overview', addresses: address, window: pnlWindow });
+      const response = await fetch(`/api/portfolioapi?${searchParams}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.details || result.error || 'Failed to fetch portfolio');
+      }
+
+      setOverview(result.data);
+      setLastUpdated(new Date());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [address, pnlWindow]);
+
+  useEffect(() => {
+    fetchOverview();
+  }, [fetchOverview]);
+
+  const stats = overview
+    ? [
+        { label: 'Total Value', value: formatUsd(overview.totalUsd), color: 'text-white' },
+        {
+          label: `PnL (${pnlWindow.toUpperCase()})`,
+          value: signed(overview.profitUsd, formatUsd),
+          color: profitColor(overview.profitUsd),
+        },
+        {
+          label: `ROI (${pnlWindow.toUpperCase()})`,
+          value: overview.roi === null ? 'N/A' : signed(overview.roi, formatPercent),
+          color: profitColor(overview.roi),
+        },
+        { label: 'Chains / Tokens', value: `${overview.chains.length} / ${overview.tokens.length}`, color: 'text-white' },
+      ]
+    : [];
+
+  return (
+    <div className={`bg-black/20 backdrop-blur-sm rounded-xl border border-white/10 ${className}`}>
+      {/* Header */}
+      <div className="p-6 border-b border-white/10">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold text-white">Portfolio</h3>
+          <div className="flex items-center gap-2">
+            {WINDOWS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setPnlWindow(id)}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                  pnlWindow === id ? 'bg-blue-500 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            <button
+              onClick={fetchOverview}
+              disabled={loading}
+              className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`w-4 h-4 text-white ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+
+        {lastUpdated && (
+          <p className="text-xs text-gray-400 mt-2">
+            Last updated: {lastUpdated.toLocaleTimeString()}
+          </p>
+        )}
+      </div>
+
+      <div className="p-6">
+        {loading && !overview && (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
+            <p className="text-gray-400">Loading portfolio...</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-4">
+            <p className="text-red-400">Error: {error}</p>
+          </div>
+        )}
+
+        {overview && (
+          <>
+            {/* Stats Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+              {stats.map(({ label, value, color }) => (
+                <div key={label} className="bg-white/10 rounded-xl p-4 border border-white/20">
+                  <h4 className="text-sm font-medium text-gray-300 uppercase tracking-wide">{label}</h4>
+                  <p className={`text-2xl font-bold mt-2 ${color}`}>{value}</p>
+                </div>
+              ))}
+            </div>
+
+            {overview.profitError && (
+              <div className="bg-yellow-500/20 border border-yellow-500/30 rounded-lg p-3 mb-4">
+                <p className="text-yellow-300 text-sm">
+                  Profit and loss is unavailable: {overview.profitError}
+                </p>
+              </div>
+            )}
+
+            {overview.chains.length === 0 ? (
+              <div className="text-center py-8 text-gray-400">
+                <ChartPieIcon className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                <p>No holdings found for this wallet</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Per-chain breakdown */}
+                <div>
+                  <h4 className="text-sm font-medium text-gray-300 mb-3">By chain</h4>
+                  <div className="space-y-3">
+                    {overview.chains.map((chain) => (
+                      <div key={chain.chainId} className="bg-white/5 rounded-lg border border-white/10 p-3">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-white font-medium">{chain.name}</span>
+                          <span className="text-white">{formatUsd(chain.valueUsd)}</span>
+                        </div>
+                        <div className="h-2 bg-white/10 rounded-full mt-2 overflow-hidden">
+                          <div
+                            className="h-full bg-gradient-to-r from-blue-500 to-purple-500"
+                            style={{ width: formatPercent(chain.allocation) }}
+                          />
+                        </div>
+                        <div className="flex items-center justify-between text-xs mt-2">
+                          <span className="text-gray-400">{formatPercent(chain.allocation)} of portfolio</span>
+                          <span className={profitColor(chain.profitUsd)}>
+                            {chain.profitUsd === null ? 'No PnL data' : signed(chain.profitUsd, formatUsd)}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Per-token breakdown */}
+                <div>
+                  <h4 className="text-sm font-medium text-gray-300 mb-3">By token</h4>
+                  <div className="space-y-2" style={{ maxHeight, overflowY: 'auto' }}>
+                    {overview.tokens.map((token) => (
+                      <div
+                        key={`${token.chainId}/${token.address}`}
+                        className="flex items-center justify-between bg-white/5 rounded-lg border border-white/10 p-3 text-sm"
+                      >
+                        <div>
+                          {token.address === NATIVE_TOKEN_ADDRESS ? (
+                            <span className="text-white font-medium">{token.symbol}</span>
+                          ) : (
+                            <a
+                              href={explorerLink(token.chainId, 'token', token.address)}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-white font-medium hover:text-blue-300"
+                            >
+                              {token.symbol}
+                            </a>
+                          )}
+                          <p className="text-gray-400 text-xs">
+                            {token.amount.toLocaleString(undefined, { maximumFractionDigits: 6 })} on {chainName(token.chainId)}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-white">{formatUsd(token.valueUsd)}</p>
+                          <p className="text-gray-400 text-xs">{formatPercent(token.allocation)}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+
+export function PortfolioChart({ className = '', refreshMs = 5 * 60 * 1000 }: PortfolioChartProps) {
+  const { address } = useAccount();
+  const [history, setHistory] = useState<PortfolioHistory | null>(null);
+  const [historyWindow, setHistoryWindow] = useState<PnlWindow>('30d');
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!address) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const searchParams = new URLSearchParams({ action: 'history', addresses: address, window: historyWindow, points: '120' });
+      const response = await fetch(`/api/portfolioapi?${searchParams}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.details || result.error || 'Failed to fetch portfolio history');
+      }
+
+      setHistory(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [address, historyWindow]);
+
+  useEffect(() => {
+    fetchHistory();
+    const timer = setInterval(fetchHistory, refreshMs);
+    return () => clearInterval(timer);
+  }, [fetchHistory, refreshMs]);
+
+  const points = history?.points ?? [];
+  const fromMs = history ? Date.parse(history.fromTimestamp) : 0;
+  const spanMs = history ? Date.parse(history.toTimestamp) - fromMs || 1 : 1;
+  const values = points.map((point) => point.valueUsd);
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const valueRange = high - low || 1;
+
+  const xOf = (at: number) => ((at - fromMs) / spanMs) * CHART_WIDTH;
+  const yOf = (value: number) => CHART_HEIGHT - 10 - ((value - low) / valueRange) * (CHART_HEIGHT - 20);
+  const line = points.map((point) => `${xOf(point.at).toFixed(1)},${yOf(point.valueUsd).toFixed(1)}`).join(' ');
+  const area = points.length
+    ? `${xOf(points[0].at).toFixed(1)},${CHART_HEIGHT} ${line} ${xOf(points[points.length - 1].at).toFixed(1)},${CHART_HEIGHT}`
+    : '';
+
+  // Snap the cursor to the nearest recorded point
+  const onMove = (event: MouseEvent<SVGSVGElement>) => {
+    if (!points.length) return;
+    const box = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - box.left) / box.width) * CHART_WIDTH;
+    let nearest = 0;
+    points.forEach((point, index) => {
+      if (Math.abs(xOf(point.at) - x) < Math.abs(xOf(points[nearest].at) - x)) nearest = index;
+    });
+    setHovered(nearest);
+  };
+
+  const shown = hovered !== null ? points[hovered] : points[points.length - 1];
+  const change = points.length > 1 ? points[points.length - 1].valueUsd - points[0].valueUsd : null;
+
+  return (
+    <div className={`bg-black/20 backdrop-blur-sm rounded-xl border border-white/10 ${className}`}>
+      <div className="p-6 border-b border-white/10">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Portfolio Value</h3>
+            {shown && (
+              <p className="text-sm text-gray-300 mt-1">
+                {formatUsd(shown.valueUsd)} · {new Date(shown.at).toLocaleString()}
+                {hovered === null && change !== null && (
+                  <span className={`ml-2 ${profitColor(change)}`}>{signed(change, formatUsd)}</span>
+                )}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {WINDOWS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setHistoryWindow(id)}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                  historyWindow === id ? 'bg-blue-500 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            <button
+              onClick={fetchHistory}
+              disabled={loading}
+              className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`w-4 h-4 text-white ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-4">
+            <p className="text-red-400">Error: {error}</p>
+          </div>
+        )}
+
+        {points.length < 2 ? (
+          <div className="text-center py-8 text-gray-400">
+            <ChartPieIcon className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>Not enough snapshots yet; values are recorded while the dashboard is open</p>
+          </div>
+        ) : (
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            className="w-full h-48 cursor-crosshair"
+            onMouseMove={onMove}
+            onMouseLeave={() => setHovered(null)}
+          >
+            <polygon points={area} fill="rgb(96 165 250 / 0.15)" />
+            <polyline points={line} fill="none" stroke="rgb(96 165 250)" strokeWidth="2" />
+            {shown && hovered !== null && (
+              <>
+                <line
+                  x1={xOf(shown.at)}
+                  x2={xOf(shown.at)}
+                  y1={0}
+                  y2={CHART_HEIGHT}
+                  stroke="rgb(255 255 255 / 0.3)"
+                  strokeDasharray="4 4"
+                />
+                <circle cx={xOf(shown.at)} cy={yOf(shown.valueUsd)} r="4" fill="rgb(96 165 250)" />
+              </>
+            )}
+          </svg>
+        )}
+
+        {shown && hovered !== null && (
+          <div className="flex flex-wrap gap-4 text-xs text-gray-400 mt-2">
+            {Object.entries(shown.byChain)
+              .filter(([, value]) => value > 0)
+              .map(([chainId, value]) => (
+                <span key={chainId}>
+                  {chainName(chainId)}: {formatUsd(value)}
+                </span>
+              ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,784 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ArrowPathIcon,
+  ArrowsUpDownIcon,
+  CheckCircleIcon,
+  ClockIcon,
+  InformationCircleIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { Address, formatUnits, Hex, parseUnits, PublicClient, WalletClient } from 'viem';
+import { useAccount, usePublicClient, useSignTypedData, useSwitchChain, useWalletClient } from 'wagmi';
+import { useCardanoAccount } from '@/components/cardanoProvider';
+import { Token, TokenSearch } from '@/components/ui/token';
+import { assetPairs, checkPairAmount } from '@/lib/assetPairs';
+import { cardanoExplorerLink } from '@/lib/cardano';
+import { chainsFor, explorerLink, findChain, NATIVE_TOKEN_ADDRESS } from '@/lib/chains';
+import {
+  chainKey,
+  ChainRef,
+  createEvmEscrowClient,
+  createOrder,
+  generateSecret,
+  hashSecret,
+  parseChainKey,
+  signCancellationCip30,
+  signCancellationEip712,
+  signOrderEip712,
+  toAuctionJson,
+  toOrderJson,
+} from '@/lib/fusion';
+import type { OrderView } from '@/lib/relayer';
+import { createEscrowVerifier } from '@/lib/relayer/verify';
+// Not the resolver index, which pulls in the position file store
+import { firstPriceOracle, gasPriceOracle, nativeAsset, spotPriceOracle, staticPriceOracle } from '@/lib/resolver/market';
+import {
+  checkDestinationEscrow,
+  DestinationCheck,
+  quoteSwap,
+  SwapQuote,
+  SwapStep,
+  swapActions,
+  swapProgress,
+} from '@/lib/swap';
+
+interface SwapToken {
+  // ERC-20 address, or "lovelace" / policy id + asset name hex on Cardano
+  address: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+}
+
+interface SwapPanelProps {
+  className?: string;
+  // Picked in the Token Search section; becomes the source token, or the
+  // destination for Cardano tokens
+  selectedToken?: Token;
+}
+
+// EVM chains with spot prices, so both sides of a quote can be priced
+const SWAP_CHAINS = [
+  ...chainsFor('price').map((chain) => ({ key: chainKey({ kind: 'evm', chainId: chain.id }), name: chain.name })),
+  { key: 'cardano:mainnet', name: 'Cardano' },
+  { key: 'cardano:testnet', name: 'Cardano Preprod' },
+];
+
+// A Cardano source escrow names the resolver that may withdraw it, which the
+// maker cannot know when announcing, so Cardano is only swapped into
+const SOURCE_CHAINS = SWAP_CHAINS.filter(({ key }) => parseChainKey(key)?.kind === 'evm');
+const SOURCE_ONLY_EVM = 'Cardano can only be swapped into; pick an EVM token to sell';
+
+const ADA: SwapToken = { address: 'lovelace', symbol: 'ADA', decimals: 6 };
+
+// No 1inch price feed covers Cardano; resolvers price ADA the same way
+const ADA_USD = Number(process.env.NEXT_PUBLIC_ADA_USD) || 0.5;
+const ESCROW_FACTORY = process.env.NEXT_PUBLIC_ESCROW_FACTORY as Address | undefined;
+
+const prices = firstPriceOracle(
+  spotPriceOracle(''),
+  staticPriceOracle({
+    'cardano:mainnet/lovelace': { usd: ADA_USD, decimals: 6 },
+    'cardano:testnet/lovelace': { usd: ADA_USD, decimals: 6 },
+  })
+);
+const baseFees = gasPriceOracle('');
+
+const SECRETS_KEY = 'swap-secrets';
+const ACTIVE_ORDER_KEY = 'swap-active-order';
+const POLL_INTERVAL_MS = 5000;
+
+function defaultToken(key: string): SwapToken {
+  const chain = parseChainKey(key);
+  if (chain?.kind !== 'evm') return ADA;
+  const { nativeToken } = findChain(chain.chainId)!;
+  return { address: nativeToken.address, symbol: nativeToken.symbol, decimals: nativeToken.decimals };
+}
+
+function evmChainId(key: string): number | undefined {
+  const chain = parseChainKey(key);
+  return chain?.kind === 'evm' ? chain.chainId : undefined;
+}
+
+// TokenSearch tags Cardano tokens with their chain key and EVM tokens with a chain id
+function tokenChainKey(token: Token): string {
+  if (token.chainId && parseChainKey(token.chainId)?.kind === 'cardano') return token.chainId;
+  return chainKey({ kind: 'evm', chainId: Number(token.chainId ?? 1) });
+}
+
+function pickerChainId(key: string): string {
+  return parseChainKey(key)?.kind === 'cardano' ? key : String(evmChainId(key) ?? 1);
+}
+
+function formatAmount(amount: bigint, decimals: number): string {
+  return Number(formatUnits(amount, decimals)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
+
+function formatCountdown(seconds: number): string {
+  if (seconds <= 0) return 'now';
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+// Secrets never leave the browser until the maker reveals them
+function loadSecrets(): Record<string, Hex> {
+  return JSON.parse(localStorage.getItem(SECRETS_KEY) ?? '{}');
+}
+
+function saveSecret(orderHash: Hex, secret: Hex) {
+  localStorage.setItem(SECRETS_KEY, JSON.stringify({ ...loadSecrets(), [orderHash]: secret }));
+}
+
+async function postJson(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Request failed with ${response.status}`);
+  }
+  return result;
+}
+
+function AuctionChart({ quote, decimals }: { quote: SwapQuote; decimals: number }) {
+  const { curve, minAmount, marketAmount, auction } = quote;
+  const range = Number(marketAmount - minAmount) || 1;
+  const points = curve
+    .map(({ time, takingAmount }) => {
+      const x = ((time - auction.startTime) / auction.duration) * 300;
+      const y = 90 - (Number(takingAmount - minAmount) / range) * 80;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <div>
+      <svg viewBox="0 0 300 100" className="w-full h-24">
+        <polyline points={points} fill="none" stroke="rgb(96 165 250)" strokeWidth="2" />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>Start: {formatAmount(marketAmount, decimals)}</span>
+        <span>After {auction.duration}s: {formatAmount(minAmount, decimals)}</span>
+      </div>
+    </div>
+  );
+}
+
+function StepIcon({ status }: { status: SwapStep['status'] }) {
+  switch (status) {
+    case 'done':
+      return <CheckCircleIcon className="w-6 h-6 text-green-400" />;
+    case 'failed':
+      return <XCircleIcon className="w-6 h-6 text-red-400" />;
+    case 'active':
+      return <ArrowPathIcon className="w-6 h-6 text-blue-400 animate-spin" />;
+    default:
+      return <ClockIcon className="w-6 h-6 text-gray-500" />;
+  }
+}
+
+export function SwapPanel({ className = '', selectedToken }: SwapPanelProps) {
+  const { address, chainId: walletChainId } = useAccount();
+  const cardano = useCardanoAccount();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { switchChainAsync } = useSwitchChain();
+
+  const [srcChain, setSrcChain] = useState('eip155:1');
+  const [dstChain, setDstChain] = useState('cardano:mainnet');
+  const [srcToken, setSrcToken] = useState<SwapToken>(() => defaultToken('eip155:1'));
+  const [dstToken, setDstToken] = useState<SwapToken>(ADA);
+  const [amount, setAmount] = useState('');
+  const [slippage, setSlippage] = useState('1');
+  const [picking, setPicking] = useState<'src' | 'dst' | null>(null);
+
+  const [quote, setQuote] = useState<SwapQuote | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [orderHash, setOrderHash] = useState<Hex | null>(null);
+  const [order, setOrder] = useState<OrderView | null>(null);
+  const [acting, setActing] = useState(false);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  // Destination picks narrow to the source token's curated counterparts
+  const pairedWith = useMemo(
+    () => ({ chain: srcChain, address: srcToken.address, symbol: srcToken.symbol }),
+    [srcChain, srcToken.address, srcToken.symbol]
+  );
+
+  const srcRef = parseChainKey(srcChain)!;
+  const dstRef = parseChainKey(dstChain)!;
+
+  // Escrow client on the EVM source chain, when the factory is configured
+  const escrowChainId = evmChainId(order ? chainKey(order.order.srcChain) : srcChain);
+  const publicClient = usePublicClient({ chainId: escrowChainId });
+  const { data: walletClient } = useWalletClient({ chainId: escrowChainId });
+  const escrowClient = useMemo(
+    () => ESCROW_FACTORY && publicClient
+      ? createEvmEscrowClient({
+          publicClient: publicClient as PublicClient,
+          walletClient: walletClient as WalletClient | undefined,
+          factory: ESCROW_FACTORY,
+        })
+      : undefined,
+    [publicClient, walletClient]
+  );
+
+  // Reads the destination escrow before the secret goes out
+  const dstChainId = order?.order.dstChain.kind === 'evm' ? order.order.dstChain.chainId : undefined;
+  const dstPublicClient = usePublicClient({ chainId: dstChainId });
+
+  // Resume the last order after a reload
+  useEffect(() => {
+    const saved = localStorage.getItem(ACTIVE_ORDER_KEY);
+    if (saved) setOrderHash(saved as Hex);
+  }, []);
+
+  useEffect(() => {
+    if (!selectedToken) return;
+    const key = tokenChainKey(selectedToken);
+    const token = { ...selectedToken, address: selectedToken.address.toLowerCase() };
+    if (parseChainKey(key)?.kind === 'cardano') {
+      setDstChain(key);
+      setDstToken(token);
+    } else {
+      setSrcChain(key);
+      setSrcToken(token);
+    }
+    setQuote(null);
+  }, [selectedToken]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const refreshOrder = useCallback(async () => {
+    if (!orderHash) return;
+    const response = await fetch(`/api/orders/${orderHash}`);
+    const result = await response.json();
+    if (response.ok && result.success) {
+      setOrder(result.order);
+    } else if (response.status === 404) {
+      localStorage.removeItem(ACTIVE_ORDER_KEY);
+      setOrderHash(null);
+    }
+  }, [orderHash]);
+
+  useEffect(() => {
+    if (!orderHash) return;
+    refreshOrder().catch(() => undefined);
+    const timer = setInterval(() => refreshOrder().catch(() => undefined), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [orderHash, refreshOrder]);
+
+  const changeChain = (side: 'src' | 'dst', key: string) => {
+    (side === 'src' ? setSrcChain : setDstChain)(key);
+    (side === 'src' ? setSrcToken : setDstToken)(defaultToken(key));
+    setQuote(null);
+  };
+
+  const flip = () => {
+    if (dstRef.kind !== 'evm') return;
+    setSrcChain(dstChain);
+    setDstChain(srcChain);
+    setSrcToken(dstToken);
+    setDstToken(srcToken);
+    setQuote(null);
+  };
+
+  const pickToken = (token: Token) => {
+    const picked = { ...token, address: token.address.toLowerCase() };
+    const key = tokenChainKey(token);
+    if (picking === 'src') {
+      if (parseChainKey(key)?.kind !== 'evm') {
+        setError(SOURCE_ONLY_EVM);
+        return;
+      }
+      setSrcChain(key);
+      setSrcToken(picked);
+    } else {
+      setDstChain(key);
+      setDstToken(picked);
+    }
+    setPicking(null);
+    setQuote(null);
+  };
+
+  const fetchQuote = async () => {
+    setQuoting(true);
+    setError(null);
+    try {
+      if (srcChain === dstChain) {
+        throw new Error('Pick two different chains');
+      }
+      const srcAmount = parseUnits(amount || '0', srcToken.decimals);
+      const pair = assetPairs.route(pairedWith, { chain: dstChain, address: dstToken.address });
+      if (pair) checkPairAmount(pair, srcAmount);
+      const [srcPrice, dstPrice, dstNativePrice, baseFee] = await Promise.all([
+        prices(srcRef, srcToken.address),
+        prices(dstRef, dstToken.address),
+        prices(dstRef, nativeAsset(dstRef)),
+        baseFees(dstRef),
+      ]);
+      if (!srcPrice || !dstPrice) {
+        throw new Error(`No price for ${!srcPrice ? srcToken.symbol : dstToken.symbol}`);
+      }
+      setQuote(quoteSwap({
+        dstChain: dstRef,
+        srcAmount,
+        srcPrice,
+        dstPrice,
+        dstNativePrice,
+        baseFee,
+        now: Math.floor(Date.now() / 1000),
+        slippageBps: Math.round(Number(slippage) * 100),
+      }));
+    } catch (err) {
+      setQuote(null);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setQuoting(false);
+    }
+  };
+
+  const addressOn = (chain: ChainRef) => (chain.kind === 'evm' ? address : cardano.address);
+
+  const submitOrder = async () => {
+    if (!quote) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const maker = addressOn(srcRef);
+      const receiver = addressOn(dstRef);
+      if (!maker || !receiver) {
+        const missing = maker ? dstRef : srcRef;
+        throw new Error(`Connect your ${missing.kind === 'evm' ? 'EVM' : 'Cardano'} wallet to swap`);
+      }
+      if (srcRef.kind !== 'evm') {
+        throw new Error(SOURCE_ONLY_EVM);
+      }
+      if (dstRef.kind === 'cardano' && cardano.network !== dstRef.network) {
+        throw new Error(`Switch your Cardano wallet to ${dstRef.network}`);
+      }
+
+      const secret = generateSecret();
+      const srcAmount = parseUnits(amount, srcToken.decimals);
+      const order = createOrder({
+        maker,
+        receiver,
+        srcChain: srcRef,
+        srcAsset: srcToken.address,
+        srcAmount,
+        dstChain: dstRef,
+        dstAsset: dstToken.address,
+        dstAmount: quote.minAmount,
+        hashlock: hashSecret(secret),
+      });
+
+      if (walletChainId !== srcRef.chainId) {
+        await switchChainAsync({ chainId: srcRef.chainId });
+      }
+      // The source escrow pulls ERC-20 funds through the factory, so the
+      // approval has to be mined before any resolver can fill the order
+      if (srcToken.address !== NATIVE_TOKEN_ADDRESS) {
+        if (!escrowClient) {
+          throw new Error('Set NEXT_PUBLIC_ESCROW_FACTORY to approve the escrow factory');
+        }
+        await escrowClient.approve(srcToken.address as Address, srcAmount);
+      }
+      const signed = await signOrderEip712(order, (typedData) => signTypedDataAsync(typedData));
+      saveSecret(signed.orderHash, secret);
+
+      await postJson('/api/orders', {
+        order: toOrderJson(order),
+        signature: signed.signature,
+        orderHash: signed.orderHash,
+        auction: toAuctionJson(quote.auction),
+      });
+      localStorage.setItem(ACTIVE_ORDER_KEY, signed.orderHash);
+      setOrder(null);
+      setOrderHash(signed.orderHash);
+      setQuote(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const act = useCallback(async (action: () => Promise<unknown>) => {
+    setActing(true);
+    setError(null);
+    try {
+      await action();
+      await refreshOrder();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setActing(false);
+    }
+  }, [refreshOrder]);
+
+  const revealSecret = useCallback(() => act(async () => {
+    const secret = loadSecrets()[orderHash!];
+    if (!secret) {
+      throw new Error('The secret for this order is not stored in this browser');
+    }
+    await postJson(`/api/orders/${orderHash}/secret`, { secret });
+  }), [act, orderHash]);
+
+  const cancelOrder = () => act(async () => {
+    const maker = order!.order.maker;
+    const signature = order!.order.srcChain.kind === 'evm'
+      ? await signCancellationEip712(orderHash!, (typedData) => signTypedDataAsync(typedData))
+      : await signCancellationCip30(maker, orderHash!, cardano.api!);
+    await postJson(`/api/orders/${orderHash}/cancel`, { signature });
+  });
+
+  // Public cancellation of the EVM source escrow; anyone may send it, and the
+  // funds go back to the maker
+  const refund = () => act(async () => {
+    const src = order!.escrows.src!;
+    if (!escrowClient) {
+      throw new Error('Set NEXT_PUBLIC_ESCROW_FACTORY to refund from the browser');
+    }
+    const created = (await escrowClient.events(src.txHash as Hex))
+      .find((event) => event.type === 'created' && event.side === 'src');
+    if (created?.type !== 'created') {
+      throw new Error(`No source escrow was created by ${src.txHash}`);
+    }
+    const txHash = await escrowClient.cancel(created.escrow, created.immutables, { publicly: true });
+    await postJson(`/api/orders/${orderHash}/escrows`, { side: 'src', action: 'cancelled', txHash });
+  });
+
+  // Once both escrows are final, check the destination escrow pays what the
+  // order asks. Only an escrow verified on chain gets the secret automatically;
+  // one that cannot be checked needs the maker's go-ahead, a mismatch never.
+  const canReveal = !!order?.canRevealSecret;
+  const dstTxHash = order?.escrows.dst?.txHash;
+  const [destination, setDestination] = useState<{ txHash: string; check: DestinationCheck } | null>(null);
+  const destinationCheck = destination && destination.txHash === dstTxHash ? destination.check : null;
+  useEffect(() => {
+    if (!canReveal || !order || !dstTxHash || destination?.txHash === dstTxHash) return;
+    const verify = ESCROW_FACTORY && dstChainId && dstPublicClient?.chain.id === dstChainId
+      ? createEscrowVerifier({ evm: { [dstChainId]: { publicClient: dstPublicClient as PublicClient, factory: ESCROW_FACTORY } } })
+      : undefined;
+    let stale = false;
+    checkDestinationEscrow(order, verify).then((check) => {
+      if (!stale) setDestination({ txHash: dstTxHash, check });
+    });
+    return () => {
+      stale = true;
+    };
+  }, [canReveal, order, dstTxHash, destination, dstChainId, dstPublicClient]);
+
+  const [autoRevealed, setAutoRevealed] = useState<Hex | null>(null);
+  useEffect(() => {
+    if (canReveal && destinationCheck?.status === 'verified' && orderHash && autoRevealed !== orderHash && loadSecrets()[orderHash]) {
+      setAutoRevealed(orderHash);
+      revealSecret();
+    }
+  }, [canReveal, destinationCheck, orderHash, autoRevealed, revealSecret]);
+
+  const clearOrder = () => {
+    localStorage.removeItem(ACTIVE_ORDER_KEY);
+    setOrderHash(null);
+    setOrder(null);
+    setError(null);
+  };
+
+  const steps = order ? swapProgress(order) : [];
+  const actions = order ? swapActions(order) : undefined;
+  const finished = order && ['withdrawn', 'cancelled', 'expired'].includes(order.status);
+
+  const txLink = (side: 'src' | 'dst', txHash: string) => {
+    const chain = side === 'src' ? order!.order.srcChain : order!.order.dstChain;
+    return chain.kind === 'evm'
+      ? explorerLink(chain.chainId, 'tx', txHash)
+      : cardanoExplorerLink(chain.network, 'transaction', txHash);
+  };
+
+  const selectClass =
+    'w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  const sideControls = (side: 'src' | 'dst') => {
+    const key = side === 'src' ? srcChain : dstChain;
+    const token = side === 'src' ? srcToken : dstToken;
+    return (
+      <div className="grid grid-cols-2 gap-3">
+        <select value={key} onChange={(e) => changeChain(side, e.target.value)} className={selectClass}>
+          {(side === 'src' ? SOURCE_CHAINS : SWAP_CHAINS).map((chain) => (
+            <option key={chain.key} value={chain.key} className="bg-gray-800">
+              {chain.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setPicking(picking === side ? null : side)}
+          className="flex items-center gap-2 bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg px-3 py-2 text-white"
+        >
+          {token.logoURI && <img src={token.logoURI} alt="" className="w-5 h-5 rounded-full" />}
+          <span className="font-semibold">{token.symbol}</span>
+          <span className="ml-auto text-xs text-gray-400">Change</span>
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className={`bg-black/20 backdrop-blur-sm rounded-xl border border-white/10 ${className}`}>
+      {/* Header */}
+      <div className="p-6 border-b border-white/10 flex items-center justify-between">
+        <h3 className="text-xl font-semibold text-white">Cross-Chain Swap</h3>
+        {orderHash && (
+          <button
+            onClick={() => refreshOrder()}
+            className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+          >
+            <ArrowPathIcon className="w-4 h-4 text-white" />
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4">
+            <div className="flex items-center space-x-2">
+              <InformationCircleIcon className="w-5 h-5 text-red-400" />
+              <p className="text-red-400">Error: {error}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Order form */}
+        {!orderHash && (
+          <>
+            <div className="bg-white/5 rounded-lg border border-white/10 p-4 space-y-3">
+              <label className="block text-sm font-medium text-gray-300">You pay</label>
+              {sideControls('src')}
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => {
+                  setAmount(e.target.value);
+                  setQuote(null);
+                }}
+                placeholder="0.0"
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-2xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="flex justify-center">
+              <button
+                onClick={flip}
+                disabled={dstRef.kind !== 'evm'}
+                className="p-2 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-50 transition-colors"
+              >
+                <ArrowsUpDownIcon className="w-5 h-5 text-white" />
+              </button>
+            </div>
+
+            <div className="bg-white/5 rounded-lg border border-white/10 p-4 space-y-3">
+              <label className="block text-sm font-medium text-gray-300">You receive</label>
+              {sideControls('dst')}
+              <p className="text-2xl text-white">
+                {quote ? `≥ ${formatAmount(quote.minAmount, dstToken.decimals)} ${dstToken.symbol}` : '—'}
+              </p>
+            </div>
+
+            {picking && (
+              <TokenSearch
+                key={picking}
+                maxHeight="300px"
+                defaultChainId={pickerChainId(picking === 'src' ? srcChain : dstChain)}
+                pairedWith={picking === 'dst' ? pairedWith : undefined}
+                onTokenSelect={pickToken}
+              />
+            )}
+
+            <div className="flex items-center gap-3">
+              <label className="text-sm text-gray-300">Slippage %</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={slippage}
+                onChange={(e) => {
+                  setSlippage(e.target.value);
+                  setQuote(null);
+                }}
+                className="w-20 bg-white/10 border border-white/20 rounded-lg px-3 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            {quote && (
+              <div className="bg-white/5 rounded-lg border border-white/10 p-4 space-y-3 text-sm">
+                <h4 className="font-semibold text-white">Dutch auction</h4>
+                <AuctionChart quote={quote} decimals={dstToken.decimals} />
+                <div className="space-y-1 text-gray-300">
+                  <div className="flex justify-between">
+                    <span>Value</span>
+                    <span>${quote.srcUsd.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Market rate</span>
+                    <span>{formatAmount(quote.marketAmount, dstToken.decimals)} {dstToken.symbol}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Minimum received</span>
+                    <span>{formatAmount(quote.minAmount, dstToken.decimals)} {dstToken.symbol}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Resolver fee</span>
+                    <span>0%</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Estimated resolver gas</span>
+                    <span>
+                      {quote.gasFee
+                        ? `${formatAmount(quote.gasFee.native, 18)} (${formatAmount(quote.gasFee.dstAmount, dstToken.decimals)} ${dstToken.symbol})`
+                        : 'Paid by the resolver'}
+                    </span>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-400">
+                  Signing the order is gasless; resolvers pay for the escrows and recover gas through the auction.
+                </p>
+              </div>
+            )}
+
+            {quote ? (
+              <button
+                onClick={submitOrder}
+                disabled={submitting}
+                className="w-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 disabled:opacity-50 text-white font-medium py-3 px-4 rounded-lg transition-all"
+              >
+                {submitting ? 'Waiting for signature...' : 'Sign and Swap'}
+              </button>
+            ) : (
+              <button
+                onClick={fetchQuote}
+                disabled={quoting || !amount}
+                className="w-full bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors"
+              >
+                {quoting ? 'Fetching quote...' : 'Get Quote'}
+              </button>
+            )}
+          </>
+        )}
+
+        {/* Progress tracker */}
+        {orderHash && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-400">
+              Order <code className="font-mono">{orderHash.slice(0, 10)}...{orderHash.slice(-8)}</code>
+              {order && <span className="ml-2 px-2 py-1 bg-blue-500/20 text-blue-300 text-xs rounded">{order.status}</span>}
+            </p>
+
+            {!order && (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
+                <p className="text-gray-400">Loading order...</p>
+              </div>
+            )}
+
+            <ol className="space-y-3">
+              {steps.map((step) => {
+                const side = step.id === 'dst-escrow' || step.id === 'withdrawal' ? 'dst' : 'src';
+                const link = step.txHash && txLink(side, step.txHash);
+                return (
+                  <li key={step.id} className="flex items-center gap-3 bg-white/5 rounded-lg border border-white/10 p-3">
+                    <StepIcon status={step.status} />
+                    <div className="flex-1">
+                      <p className={step.status === 'pending' ? 'text-gray-500' : 'text-white'}>{step.label}</p>
+                      {step.at && <p className="text-xs text-gray-400">{new Date(step.at * 1000).toLocaleTimeString()}</p>}
+                    </div>
+                    {step.txHash && (link ? (
+                      <a href={link} target="_blank" rel="noreferrer" className="text-xs text-blue-400 hover:text-blue-300 font-mono">
+                        {step.txHash.slice(0, 10)}...
+                      </a>
+                    ) : (
+                      <code className="text-xs text-gray-500 font-mono">{step.txHash.slice(0, 10)}...</code>
+                    ))}
+                  </li>
+                );
+              })}
+            </ol>
+
+            {actions && (
+              <div className="space-y-2">
+                {actions.revealSecret && !destinationCheck && (
+                  <p className="text-xs text-gray-400 text-center">Checking the destination escrow...</p>
+                )}
+                {actions.revealSecret && destinationCheck?.status === 'mismatch' && (
+                  <p className="text-sm text-red-400">
+                    The destination escrow does not match your order ({destinationCheck.reason}). Keep your secret:
+                    your funds come back once the source escrow can be cancelled.
+                  </p>
+                )}
+                {actions.revealSecret && destinationCheck?.status === 'unchecked' && (
+                  <p className="text-sm text-yellow-300">
+                    The destination escrow could not be checked from this browser ({destinationCheck.reason}). Open it
+                    in the explorer and make sure it holds at least {order!.order.dstAmount} of {order!.order.dstAsset} for{' '}
+                    {order!.order.receiver} before revealing your secret.
+                  </p>
+                )}
+                {actions.revealSecret && destinationCheck && destinationCheck.status !== 'mismatch' && (
+                  <button
+                    onClick={revealSecret}
+                    disabled={acting}
+                    className="w-full bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                  >
+                    {destinationCheck.status === 'verified' ? 'Reveal Secret' : 'I Checked the Escrow, Reveal Secret'}
+                  </button>
+                )}
+                {actions.cancelOrder && (
+                  <button
+                    onClick={cancelOrder}
+                    disabled={acting}
+                    className="w-full bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                  >
+                    Cancel Order
+                  </button>
+                )}
+                {actions.refundAt !== undefined && !actions.refund && (
+                  <p className="text-xs text-gray-400 text-center">
+                    Refund available in {formatCountdown(actions.refundAt - now)} if the swap does not complete
+                  </p>
+                )}
+                {actions.refund && (order!.order.srcChain.kind === 'evm' ? (
+                  <button
+                    onClick={refund}
+                    disabled={acting}
+                    className="w-full bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                  >
+                    Refund
+                  </button>
+                ) : (
+                  <p className="text-xs text-gray-400 text-center">
+                    Resolvers return the Cardano escrow to your address now that it is publicly cancellable.
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {finished && (
+              <button
+                onClick={clearOrder}
+                className="w-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white font-medium py-2 px-4 rounded-lg transition-all"
+              >
+                New Swap
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
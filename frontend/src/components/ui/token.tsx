@@ -11,14 +11,18 @@ import {
   InformationCircleIcon
 } from '@heroicons/react/24/outline';
 import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+import type { PairRoute } from '@/lib/assetPairs';
+import { cardanoExplorerLink, CardanoNetwork } from '@/lib/cardano';
+import { chainsFor, explorerLink } from '@/lib/chains';
 
-interface Token {
+export interface Token {
   address: string;
   symbol: string;
   name: string;
   decimals: number;
   logoURI?: string;
   tags?: string[];
+  // EVM chain id, or "cardano:mainnet" / "cardano:testnet"
   chainId?: string;
 }
 
@@ -27,39 +31,41 @@ interface TokenSearchProps {
   onTokenSelect?: (token: Token) => void;
   selectedTokens?: Token[];
   maxHeight?: string;
+  // Network the search starts on
+  defaultChainId?: string;
+  // Source token of a swap; results narrow to its curated counterparts
+  pairedWith?: { chain: string; address: string; symbol: string };
 }
 
-const CHAIN_NAMES: { [key: string]: string } = {
-  '1': 'Ethereum',
-  '56': 'BSC',
-  '137': 'Polygon',
-  '10': 'Optimism',
-  '42161': 'Arbitrum',
-  '100': 'Gnosis',
-  '43114': 'Avalanche',
-  '250': 'Fantom'
-};
-
-const CHAIN_EXPLORERS: { [key: string]: string } = {
-  '1': 'https://etherscan.io',
-  '56': 'https://bscscan.com',
-  '137': 'https://polygonscan.com',
-  '10': 'https://optimistic.etherscan.io',
-  '42161': 'https://arbiscan.io',
-  '100': 'https://gnosisscan.io',
-  '43114': 'https://snowtrace.io',
-  '250': 'https://ftmscan.com'
-};
+// Networks the 1inch Token API can search
+const TOKEN_CHAINS = chainsFor('token');
+
+// Searched through the Cardano token registry; addresses are asset units
+const CARDANO_CHAINS: { id: string; name: string; network: CardanoNetwork }[] = [
+  { id: 'cardano:mainnet', name: 'Cardano', network: 'mainnet' },
+  { id: 'cardano:testnet', name: 'Cardano Preprod', network: 'testnet' },
+];
+
+// TokenSearch keeps EVM networks as bare chain ids and Cardano ones as chain keys
+function toChainKey(chainId: string): string {
+  return chainId.startsWith('cardano:') ? chainId : `eip155:${chainId}`;
+}
+
+function fromChainKey(key: string): string {
+  return key.startsWith('eip155:') ? key.slice('eip155:'.length) : key;
+}
 
 export function TokenSearch({ 
   className = '', 
   onTokenSelect,
   selectedTokens = [],
-  maxHeight = '600px' 
+  maxHeight = '600px',
+  defaultChainId = '1',
+  pairedWith
 }: TokenSearchProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedAction, setSelectedAction] = useState<'search' | 'custom' | 'all' | 'tokenList'>('search');
-  const [chainId, setChainId] = useState('1');
+  const [chainId, setChainId] = useState(defaultChainId);
   const [provider, setProvider] = useState('1inch');
   const [addresses, setAddresses] = useState('');
   const [limit, setLimit] = useState('20');
@@ -71,6 +77,34 @@ export function TokenSearch({
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [activeTab, setActiveTab] = useState<'search' | 'favorites'>('search');
 
+  const [counterparts, setCounterparts] = useState<Token[]>([]);
+  const [pairedOnly, setPairedOnly] = useState(true);
+
+  const cardanoNetwork = CARDANO_CHAINS.find((chain) => chain.id === chainId)?.network;
+
+  // Curated counterparts of the swap's source token, listed up front
+  useEffect(() => {
+    setCounterparts([]);
+    if (!pairedWith) return;
+    const params = new URLSearchParams({ srcChain: pairedWith.chain, srcAsset: pairedWith.address });
+    fetch(`/api/pairs?${params}`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (!result.success) return;
+        const paired: Token[] = result.routes.map(({ dst }: PairRoute) => ({
+          address: dst.address,
+          symbol: dst.symbol,
+          name: `${dst.symbol} paired with ${pairedWith.symbol}`,
+          decimals: dst.decimals,
+          tags: ['paired'],
+          chainId: fromChainKey(dst.chain),
+        }));
+        setCounterparts(paired);
+        setTokens(paired);
+      })
+      .catch(() => undefined);
+  }, [pairedWith]);
+
   // Load favorites from localStorage
   useEffect(() => {
     const savedFavorites = localStorage.getItem('token-favorites');
@@ -99,17 +133,15 @@ export function TokenSearch({
     setError(null);
 
     try {
-      const params: any = {
-        action: selectedAction,
-        chainId,
-        limit
-      };
+      const params: any = cardanoNetwork
+        ? { action: selectedAction, chain: 'cardano', network: cardanoNetwork, limit }
+        : { action: selectedAction, chainId, limit };
 
       if (selectedAction === 'search' && searchQuery.trim()) {
         params.query = searchQuery.trim();
       } else if (selectedAction === 'custom' && addresses.trim()) {
         params.addresses = addresses.trim();
-      } else if (['all', 'tokenList'].includes(selectedAction)) {
+      } else if (['all', 'tokenList'].includes(selectedAction) && !cardanoNetwork) {
         params.provider = provider;
       }
 
@@ -127,6 +159,8 @@ export function TokenSearch({
         
         if (Array.isArray(result.data)) {
           tokenList = result.data;
+        } else if (Array.isArray(result.data?.tokens)) {
+          tokenList = result.data.tokens;
         } else if (typeof result.data === 'object') {
           // Convert object to array for custom addresses
           tokenList = Object.entries(result.data).map(([address, tokenData]: [string, any]) => ({
@@ -157,16 +191,25 @@ export function TokenSearch({
     }
   };
 
-  const openInExplorer = (address: string) => {
-    const explorer = CHAIN_EXPLORERS[chainId] || CHAIN_EXPLORERS['1'];
-    window.open(`${explorer}/token/${address}`, '_blank');
+  const openInExplorer = (token: Token) => {
+    const tokenChainId = token.chainId ?? chainId;
+    const network = CARDANO_CHAINS.find((chain) => chain.id === tokenChainId)?.network;
+    const url = network
+      ? cardanoExplorerLink(network, 'token', token.address)
+      : explorerLink(tokenChainId, 'token', token.address);
+    if (url) window.open(url, '_blank');
   };
 
   const getFavoriteTokens = () => {
     return tokens.filter(token => favorites.has(token.address));
   };
 
-  const displayTokens = activeTab === 'favorites' ? getFavoriteTokens() : tokens;
+  const pairedKeys = new Set(counterparts.map((token) => `${toChainKey(token.chainId!)}/${token.address}`));
+  const isPaired = (token: Token) =>
+    pairedKeys.has(`${toChainKey(token.chainId ?? chainId)}/${token.address.toLowerCase()}`);
+
+  const listed = activeTab === 'favorites' ? getFavoriteTokens() : tokens;
+  const displayTokens = pairedOnly && counterparts.length > 0 ? listed.filter(isPaired) : listed;
 
   return (
     <div className={`bg-black/20 backdrop-blur-sm rounded-xl border border-white/10 ${className}`}>
@@ -179,7 +222,7 @@ export function TokenSearch({
             disabled={loading}
             className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50"
           >
-            <RefreshIcon className={`w-4 h-4 text-white ${loading ? 'animate-spin' : ''}`} />
+            <ArrowPathIcon className={`w-4 h-4 text-white ${loading ? 'animate-spin' : ''}`} />
           </button>
         </div>
 
@@ -221,9 +264,14 @@ export function TokenSearch({
                   onChange={(e) => setChainId(e.target.value)}
                   className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
-                  {Object.entries(CHAIN_NAMES).map(([id, name]) => (
-                    <option key={id} value={id} className="bg-gray-800">
-                      {name}
+                  {TOKEN_CHAINS.map((chain) => (
+                    <option key={chain.id} value={chain.id} className="bg-gray-800">
+                      {chain.name}
+                    </option>
+                  ))}
+                  {CARDANO_CHAINS.map((chain) => (
+                    <option key={chain.id} value={chain.id} className="bg-gray-800">
+                      {chain.name}
                     </option>
                   ))}
                 </select>
@@ -258,7 +306,7 @@ export function TokenSearch({
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
                     onKeyPress={handleKeyPress}
-                    placeholder="e.g. USDC, Ethereum, 1inch..."
+                    placeholder={cardanoNetwork ? 'e.g. DJED, Minswap, policy id...' : 'e.g. USDC, Ethereum, 1inch...'}
                     className="w-full bg-white/10 border border-white/20 rounded-lg pl-10 pr-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                   <MagnifyingGlassIcon className="absolute left-3 top-2.5 w-5 h-5 text-gray-400" />
@@ -270,14 +318,14 @@ export function TokenSearch({
             {selectedAction === 'custom' && (
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">
-                  Token Addresses
+                  {cardanoNetwork ? 'Asset Units' : 'Token Addresses'}
                 </label>
                 <input
                   type="text"
                   value={addresses}
                   onChange={(e) => setAddresses(e.target.value)}
                   onKeyPress={handleKeyPress}
-                  placeholder="0x111...,0x222... (comma separated)"
+                  placeholder={cardanoNetwork ? 'lovelace,<policy id + asset name>... (comma separated)' : '0x111...,0x222... (comma separated)'}
                   className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
@@ -285,7 +333,7 @@ export function TokenSearch({
 
             {/* Provider and Limit */}
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              {['all', 'tokenList'].includes(selectedAction) && (
+              {['all', 'tokenList'].includes(selectedAction) && !cardanoNetwork && (
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-1">
                     Provider
@@ -327,6 +375,17 @@ export function TokenSearch({
           </div>
         )}
 
+        {counterparts.length > 0 && (
+          <label className="flex items-center gap-2 text-sm text-gray-300 mt-4">
+            <input
+              type="checkbox"
+              checked={pairedOnly}
+              onChange={(e) => setPairedOnly(e.target.checked)}
+            />
+            Only counterparts of {pairedWith?.symbol}
+          </label>
+        )}
+
         {lastUpdated && (
           <p className="text-xs text-gray-400 mt-4">
             Last updated: {lastUpdated.toLocaleTimeString()}
@@ -434,7 +493,7 @@ export function TokenSearch({
 
                     {/* Explorer Link */}
                     <button
-                      onClick={() => openInExplorer(token.address)}
+                      onClick={() => openInExplorer(token)}
                       className="p-2 rounded-lg hover:bg-white/10 transition-colors"
                     >
                       <LinkIcon className="w-5 h-5 text-gray-400" />
@@ -443,7 +502,7 @@ export function TokenSearch({
                     {/* Select Button */}
                     {onTokenSelect && (
                       <button
-                        onClick={() => onTokenSelect(token)}
+                        onClick={() => onTokenSelect({ ...token, chainId: token.chainId ?? chainId })}
                         disabled={selectedTokens.some(t => t.address === token.address)}
                         className="px-3 py-1 bg-green-500 hover:bg-green-600 disabled:bg-gray-500 disabled:cursor-not-allowed text-white text-sm rounded-lg transition-colors"
                       >
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useAccount } from 'wagmi';
 import { ChevronDownIcon, ChevronUpIcon, ArrowTopRightOnSquareIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
 import { 
@@ -8,15 +8,17 @@ import {
   ArrowDownLeftIcon, 
   ClockIcon 
 } from '@heroicons/react/24/solid';
+import { chainName, chainsFor, explorerLink } from '@/lib/chains';
 
 interface Transaction {
   id: string;
   hash: string;
+  // Milliseconds since the epoch
   timestamp: number;
   from: string;
   to: string;
-  value: string;
-  token: any;
+  value?: string;
+  token?: any;
   type: string;
   status: string;
   chainId: string;
@@ -27,44 +29,44 @@ interface WalletHistoryProps {
   maxHeight?: string;
 }
 
-const CHAIN_NAMES: { [key: string]: string } = {
-  '1': 'Ethereum',
-  '137': 'Polygon',
-  '56': 'BSC',
-  '42161': 'Arbitrum',
-  '10': 'Optimism'
-};
-
-const CHAIN_EXPLORERS: { [key: string]: string } = {
-  '1': 'https://etherscan.io',
-  '137': 'https://polygonscan.com',
-  '56': 'https://bscscan.com',
-  '42161': 'https://arbiscan.io',
-  '10': 'https://optimistic.etherscan.io'
-};
+// Networks the 1inch History API covers
+const HISTORY_CHAINS = chainsFor('history');
+
+// Network selector value that merges every supported chain
+const ALL_NETWORKS = 'all';
 
 export function WalletHistory({ className = '', maxHeight = '600px' }: WalletHistoryProps) {
   const { address } = useAccount();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedChain, setSelectedChain] = useState('1');
   const [limit, setLimit] = useState('20');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [expandedTx, setExpandedTx] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Bumped on every reset so late pages from a previous query are dropped
+  const generation = useRef(0);
 
-  const fetchTransactions = async () => {
+  const fetchPage = useCallback(async (cursor?: string) => {
     if (!address) return;
 
-    setLoading(true);
+    const current = cursor ? generation.current : ++generation.current;
+    const setBusy = cursor ? setLoadingMore : setLoading;
+    setBusy(true);
     setError(null);
 
     try {
-      const searchParams = new URLSearchParams({
-        address,
-        chainId: selectedChain,
-        limit
-      });
+      const searchParams = new URLSearchParams({ address, limit });
+      if (selectedChain === ALL_NETWORKS) {
+        searchParams.set('chainIds', HISTORY_CHAINS.map((chain) => chain.id).join(','));
+      } else {
+        searchParams.set('chainId', selectedChain);
+      }
+      if (cursor) searchParams.set('cursor', cursor);
 
       const response = await fetch(`/api/wallethistory?${searchParams}`);
       
@@ -73,24 +75,49 @@ export function WalletHistory({ className = '', maxHeight = '600px' }: WalletHis
       }
 
       const result = await response.json();
+      if (current !== generation.current) return;
       
       if (result.success) {
-        setTransactions(result.transactions || []);
+        const page: Transaction[] = result.transactions || [];
+        setTransactions((previous) => (cursor ? [...previous, ...page] : page));
+        setNextCursor(result.nextCursor ?? null);
         setLastUpdated(new Date());
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      if (current === generation.current) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
     } finally {
-      setLoading(false);
+      setBusy(false);
     }
-  };
+  }, [address, selectedChain, limit]);
+
+  const fetchTransactions = useCallback(() => {
+    setNextCursor(null);
+    fetchPage();
+  }, [fetchPage]);
 
   useEffect(() => {
     fetchTransactions();
-  }, [address, selectedChain, limit]);
+  }, [fetchTransactions]);
+
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loading || loadingMore) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) fetchPage(nextCursor);
+      },
+      { root: scrollRef.current, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loading, loadingMore, fetchPage, transactions.length]);
 
   const formatTimestamp = (timestamp: number) => {
-    return new Date(timestamp * 1000).toLocaleString();
+    return new Date(timestamp).toLocaleString();
   };
 
   const formatAddress = (addr: string) => {
@@ -98,7 +125,7 @@ export function WalletHistory({ className = '', maxHeight = '600px' }: WalletHis
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
   };
 
-  const formatValue = (value: string, token: any) => {
+  const formatValue = (value: string | undefined, token: any) => {
     if (!value || !token) return 'N/A';
     
     try {
@@ -149,8 +176,8 @@ export function WalletHistory({ className = '', maxHeight = '600px' }: WalletHis
   };
 
   const openInExplorer = (hash: string, chainId: string) => {
-    const explorer = CHAIN_EXPLORERS[chainId] || CHAIN_EXPLORERS['1'];
-    window.open(`${explorer}/tx/${hash}`, '_blank');
+    const url = explorerLink(chainId, 'tx', hash);
+    if (url) window.open(url, '_blank');
   };
 
   if (!address) {
@@ -190,9 +217,12 @@ export function WalletHistory({ className = '', maxHeight = '600px' }: WalletHis
               onChange={(e) => setSelectedChain(e.target.value)}
               className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              {Object.entries(CHAIN_NAMES).map(([id, name]) => (
-                <option key={id} value={id} className="bg-gray-800">
-                  {name}
+              <option value={ALL_NETWORKS} className="bg-gray-800">
+                All networks
+              </option>
+              {HISTORY_CHAINS.map((chain) => (
+                <option key={chain.id} value={chain.id} className="bg-gray-800">
+                  {chain.name}
                 </option>
               ))}
             </select>
@@ -200,7 +230,7 @@ export function WalletHistory({ className = '', maxHeight = '600px' }: WalletHis
 
           <div className="flex-1">
             <label className="block text-sm font-medium text-gray-300 mb-1">
-              Limit
+              Page size
             </label>
             <select
               value={limit}
@@ -244,7 +274,7 @@ export function WalletHistory({ className = '', maxHeight = '600px' }: WalletHis
         )}
 
         {!loading && transactions.length > 0 && (
-          <div className="space-y-3" style={{ maxHeight, overflowY: 'auto' }}>
+          <div ref={scrollRef} className="space-y-3" style={{ maxHeight, overflowY: 'auto' }}>
             {transactions.map((tx) => (
               <div
                 key={tx.id}
@@ -279,7 +309,7 @@ export function WalletHistory({ className = '', maxHeight = '600px' }: WalletHis
                           {formatValue(tx.value, tx.token)}
                         </p>
                         <p className="text-sm text-gray-400">
-                          {CHAIN_NAMES[tx.chainId] || 'Unknown'}
+                          {chainName(tx.chainId)}
                         </p>
                       </div>
                       {expandedTx === tx.id ? (
@@ -356,6 +386,12 @@ export function WalletHistory({ className = '', maxHeight = '600px' }: WalletHis
                 )}
               </div>
             ))}
+
+            {/* Infinite scroll sentinel */}
+            <div ref={sentinelRef} className="py-2 text-center text-sm text-gray-400">
+              {loadingMore && 'Loading more...'}
+              {!nextCursor && !loadingMore && 'No more transactions'}
+            </div>
           </div>
         )}
       </div>
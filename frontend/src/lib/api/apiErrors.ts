@@ -0,0 +1,30 @@
+export type ApiErrorCode = 'unauthorized' | 'conflict';
+
+// Failures of this app's own APIs rather than of 1inch (see src/lib/oneinch/errors.ts).
+// `status` is the HTTP status the route answers with.
+export class ApiError extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// The caller could not show who it is, e.g. a resolver without its API key
+export class UnauthorizedError extends ApiError {
+  constructor(message: string) {
+    super('unauthorized', 401, message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// The request clashes with the resource's current state, e.g. a duplicate order
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super('conflict', 409, message);
+    this.name = 'ConflictError';
+  }
+}
@@ -0,0 +1,13 @@
+import type { NextResponse } from "next/server";
+import type { OneInchClient } from "@/lib/oneinch";
+
+export const CACHE_STATUS_HEADER = 'X-Cache-Status';
+
+// Reports HIT / STALE / MISS for the upstream calls behind a route response
+export function withCacheStatus<T extends NextResponse>(response: T, client: OneInchClient): T {
+  const status = client.cacheStatus();
+  if (status) {
+    response.headers.set(CACHE_STATUS_HEADER, status);
+  }
+  return response;
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { ApiError } from "./apiErrors";
+import { OneInchError, RateLimitedError, ValidationError } from "@/lib/oneinch/errors";
+import { RequestValidationError } from "@/lib/validation";
+
+function normalize(error: unknown): unknown {
+  // request.json() on a malformed body
+  if (error instanceof SyntaxError) {
+    return new ValidationError('Request body must be valid JSON');
+  }
+  return error;
+}
+
+// Route error envelope: { error, code, details } with the status the taxonomy maps to.
+// Invalid input answers { error, code: 'validation', fields } instead.
+export function errorResponse(error: unknown, message: string) {
+  const normalized = normalize(error);
+
+  if (normalized instanceof RequestValidationError) {
+    return NextResponse.json(
+      { error: normalized.message, code: normalized.code, fields: normalized.fields },
+      { status: normalized.status }
+    );
+  }
+
+  if (normalized instanceof OneInchError || normalized instanceof ApiError) {
+    const headers: Record<string, string> = {};
+    if (normalized instanceof RateLimitedError && normalized.retryAfterMs !== undefined) {
+      headers['Retry-After'] = String(Math.ceil(normalized.retryAfterMs / 1000));
+    }
+
+    return NextResponse.json(
+      { error: message, code: normalized.code, details: normalized.message },
+      { status: normalized.status, headers }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      error: message,
+      details: normalized instanceof Error ? normalized.message : "Unknown error"
+    },
+    { status: 500 }
+  );
+}
+
+// Error fields for a failed item inside a batch response
+export function batchError(error: unknown) {
+  return {
+    error: error instanceof Error ? error.message : "Unknown error",
+    ...((error instanceof OneInchError || error instanceof ApiError) && { code: error.code }),
+    ...(error instanceof RequestValidationError && { fields: error.fields })
+  };
+}
@@ -0,0 +1,248 @@
+import { formatUnits, parseUnits } from "viem";
+import { ADA_TOKEN, CARDANO_TOKEN_SNAPSHOT, isCardanoUnit } from "@/lib/cardano";
+import { findChain } from "@/lib/chains";
+import { parseChainKey } from "@/lib/fusion";
+
+// Curated EVM <-> Cardano asset pairs: which token on one side is the same
+// asset on the other, so a swap between them moves value one-for-one and only
+// the decimals change. Bump the version whenever the list changes so clients
+// caching /api/pairs can tell.
+
+export type PairDirection = 'evm-to-cardano' | 'cardano-to-evm';
+
+export interface PairedAsset {
+  // Chain key, e.g. eip155:1 or cardano:mainnet
+  chain: string;
+  // Lowercase ERC-20 address, or "lovelace" / unit on Cardano
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface AssetPair {
+  id: string;
+  evm: PairedAsset;
+  cardano: PairedAsset;
+  directions: PairDirection[];
+  // Per swap, in whole tokens; the same amount applies on either side
+  minAmount: string;
+  maxAmount: string;
+}
+
+export interface AssetPairList {
+  version: number;
+  updatedAt: string;
+  pairs: AssetPair[];
+}
+
+// One allowed direction of a pair, with limits in source base units
+export interface PairRoute {
+  pairId: string;
+  direction: PairDirection;
+  src: PairedAsset;
+  dst: PairedAsset;
+  minAmount: bigint;
+  maxAmount: bigint;
+}
+
+const BOTH: PairDirection[] = ['evm-to-cardano', 'cardano-to-evm'];
+// Wanchain's bridge policy for tokens it wraps from Ethereum
+const WANCHAIN_POLICY = '25c5de5f5b286073c593edfd77b48abc7a48e5a4f3d4cd9d428ff935';
+
+export const ASSET_PAIR_LIST: AssetPairList = {
+  version: 1,
+  updatedAt: '2026-10-19',
+  pairs: [
+    {
+      id: 'usdc-ethereum',
+      evm: { chain: 'eip155:1', address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', symbol: 'USDC', decimals: 6 },
+      cardano: { chain: 'cardano:mainnet', address: `${WANCHAIN_POLICY}55534443`, symbol: 'USDC', decimals: 6 },
+      directions: BOTH,
+      minAmount: '10',
+      maxAmount: '50000',
+    },
+    {
+      id: 'usdt-ethereum',
+      evm: { chain: 'eip155:1', address: '0xdac17f958d2ee523a2206206994597c13d831ec7', symbol: 'USDT', decimals: 6 },
+      cardano: { chain: 'cardano:mainnet', address: `${WANCHAIN_POLICY}55534454`, symbol: 'USDT', decimals: 6 },
+      directions: BOTH,
+      minAmount: '10',
+      maxAmount: '50000',
+    },
+    {
+      // Binance-Peg ADA keeps 18 decimals against lovelace's 6
+      id: 'ada-bsc',
+      evm: { chain: 'eip155:56', address: '0x3ee2200efb3400fabb9aacf31297cbdd1d435d47', symbol: 'ADA', decimals: 18 },
+      cardano: { chain: 'cardano:mainnet', address: 'lovelace', symbol: 'ADA', decimals: 6 },
+      directions: BOTH,
+      minAmount: '20',
+      maxAmount: '100000',
+    },
+  ],
+};
+
+const LOWERCASE_EVM_ADDRESS = /^0x[0-9a-f]{40}$/;
+const WHOLE_AMOUNT = /^\d+(?:\.(\d+))?$/;
+
+// Decimals and symbols the app already knows, to catch typos in the list
+function knownAsset({ chain, address }: PairedAsset): { symbol: string; decimals: number } | undefined {
+  const ref = parseChainKey(chain);
+  if (ref?.kind === 'evm') {
+    const native = findChain(ref.chainId)?.nativeToken;
+    return native?.address === address ? native : undefined;
+  }
+  if (ref?.network !== 'mainnet') return undefined;
+  if (address === ADA_TOKEN.address) return ADA_TOKEN;
+  const entry = CARDANO_TOKEN_SNAPSHOT.find(({ unit }) => unit === address);
+  return entry?.ticker !== undefined && entry.decimals !== undefined
+    ? { symbol: entry.ticker, decimals: entry.decimals }
+    : undefined;
+}
+
+function assetProblems(id: string, asset: PairedAsset, kind: 'evm' | 'cardano'): string[] {
+  const problems: string[] = [];
+  const ref = parseChainKey(asset.chain);
+  if (ref?.kind !== kind) {
+    problems.push(`${id}: ${asset.chain} is not a${kind === 'evm' ? 'n EVM' : ' Cardano'} chain key`);
+  } else if (ref.kind === 'evm' && !findChain(ref.chainId)) {
+    problems.push(`${id}: unknown chain ${asset.chain}`);
+  }
+  if (kind === 'evm' ? !LOWERCASE_EVM_ADDRESS.test(asset.address) : !isCardanoUnit(asset.address)) {
+    problems.push(`${id}: invalid ${kind === 'evm' ? 'address' : 'unit'} ${asset.address}`);
+  }
+  if (!Number.isInteger(asset.decimals) || asset.decimals < 0 || asset.decimals > 36) {
+    problems.push(`${id}: invalid decimals ${asset.decimals} on ${asset.chain}`);
+  }
+  const known = knownAsset(asset);
+  if (known && known.decimals !== asset.decimals) {
+    problems.push(`${id}: ${asset.symbol} has ${known.decimals} decimals on ${asset.chain}, not ${asset.decimals}`);
+  }
+  if (known && known.symbol !== asset.symbol) {
+    problems.push(`${id}: ${asset.address} on ${asset.chain} is ${known.symbol}, not ${asset.symbol}`);
+  }
+  return problems;
+}
+
+// `amount` whole tokens in base units; undefined when it needs more decimals than `decimals`
+function toBaseUnits(amount: string, decimals: number): bigint | undefined {
+  const match = WHOLE_AMOUNT.exec(amount);
+  const fraction = match?.[1] ?? '';
+  if (!match || fraction.length > decimals) return undefined;
+  return parseUnits(amount, decimals);
+}
+
+// Everything wrong with a pair list; empty when it is consistent
+export function validateAssetPairs({ version, pairs }: AssetPairList): string[] {
+  const problems: string[] = [];
+  if (!Number.isInteger(version) || version < 1) {
+    problems.push(`invalid version ${version}`);
+  }
+  const ids = new Set<string>();
+  const assets = new Map<string, string>();
+  for (const pair of pairs) {
+    const { id, evm, cardano, directions } = pair;
+    if (!id || ids.has(id)) problems.push(`duplicate or empty pair id "${id}"`);
+    ids.add(id);
+
+    problems.push(...assetProblems(id, evm, 'evm'), ...assetProblems(id, cardano, 'cardano'));
+    if (evm.symbol.toUpperCase() !== cardano.symbol.toUpperCase()) {
+      problems.push(`${id}: symbols ${evm.symbol} and ${cardano.symbol} do not match`);
+    }
+    // An asset pairs with at most one counterpart per chain
+    for (const [asset, other] of [[evm, cardano], [cardano, evm]]) {
+      const key = `${assetKey(asset.chain, asset.address)}>${other.chain}`;
+      if (assets.has(key)) problems.push(`${id}: ${asset.symbol} on ${asset.chain} is already paired by ${assets.get(key)}`);
+      assets.set(key, id);
+    }
+
+    if (!directions.length || new Set(directions).size !== directions.length || directions.some((direction) => !BOTH.includes(direction))) {
+      problems.push(`${id}: directions must be a non-empty subset of ${BOTH.join(', ')}`);
+    }
+    const decimals = Math.min(evm.decimals, cardano.decimals);
+    const min = toBaseUnits(pair.minAmount, decimals);
+    const max = toBaseUnits(pair.maxAmount, decimals);
+    if (min === undefined || max === undefined) {
+      problems.push(`${id}: limits must be token amounts with at most ${decimals} decimals`);
+    } else if (min <= BigInt(0) || min > max) {
+      problems.push(`${id}: minAmount must be positive and no more than maxAmount`);
+    }
+  }
+  return problems;
+}
+
+// Lookup key for an asset; EVM addresses compare case-insensitively
+export function assetKey(chain: string, address: string): string {
+  return `${chain}/${address.toLowerCase()}`;
+}
+
+function pairRoutes(pair: AssetPair): PairRoute[] {
+  return pair.directions.map((direction) => {
+    const [src, dst] = direction === 'evm-to-cardano' ? [pair.evm, pair.cardano] : [pair.cardano, pair.evm];
+    return {
+      pairId: pair.id,
+      direction,
+      src,
+      dst,
+      minAmount: toBaseUnits(pair.minAmount, src.decimals)!,
+      maxAmount: toBaseUnits(pair.maxAmount, src.decimals)!,
+    };
+  });
+}
+
+export interface RouteFilter {
+  srcChain?: string;
+  srcAsset?: string;
+  dstChain?: string;
+  dstAsset?: string;
+}
+
+// Query interface over a validated pair list
+export function createAssetPairRegistry(list: AssetPairList) {
+  const problems = validateAssetPairs(list);
+  if (problems.length) {
+    throw new Error(`Asset pair list v${list.version} is invalid: ${problems.join('; ')}`);
+  }
+  const routes = list.pairs.flatMap(pairRoutes);
+
+  return {
+    version: list.version,
+    updatedAt: list.updatedAt,
+    pairs: list.pairs,
+
+    routes({ srcChain, srcAsset, dstChain, dstAsset }: RouteFilter = {}): PairRoute[] {
+      return routes.filter(({ src, dst }) =>
+        (!srcChain || src.chain === srcChain) &&
+        (!srcAsset || src.address === srcAsset.toLowerCase()) &&
+        (!dstChain || dst.chain === dstChain) &&
+        (!dstAsset || dst.address === dstAsset.toLowerCase())
+      );
+    },
+
+    route(src: { chain: string; address: string }, dst: { chain: string; address: string }): PairRoute | undefined {
+      const srcKey = assetKey(src.chain, src.address);
+      const dstKey = assetKey(dst.chain, dst.address);
+      return routes.find((route) => assetKey(route.src.chain, route.src.address) === srcKey && assetKey(route.dst.chain, route.dst.address) === dstKey);
+    },
+  };
+}
+
+export type AssetPairRegistry = ReturnType<typeof createAssetPairRegistry>;
+
+export const assetPairs = createAssetPairRegistry(ASSET_PAIR_LIST);
+
+// Source base units in destination base units; rounds down when dropping decimals
+export function convertPairAmount({ src, dst }: Pick<PairRoute, 'src' | 'dst'>, amount: bigint): bigint {
+  const shift = dst.decimals - src.decimals;
+  return shift >= 0 ? amount * BigInt(10) ** BigInt(shift) : amount / BigInt(10) ** BigInt(-shift);
+}
+
+// Throws when `amount` (source base units) is outside the pair's limits
+export function checkPairAmount(route: PairRoute, amount: bigint): void {
+  const whole = (value: bigint) => `${formatUnits(value, route.src.decimals)} ${route.src.symbol}`;
+  if (amount < route.minAmount) {
+    throw new Error(`Minimum for ${route.src.symbol} to ${route.dst.chain} is ${whole(route.minAmount)}`);
+  }
+  if (amount > route.maxAmount) {
+    throw new Error(`Maximum for ${route.src.symbol} to ${route.dst.chain} is ${whole(route.maxAmount)}`);
+  }
+}
@@ -0,0 +1,67 @@
+import type { CachePolicy, CacheResult, CacheStore } from "./types";
+
+export interface ResponseCache {
+  // Returns a cached value or loads it, coalescing identical in-flight loads
+  fetch<T>(key: string, policy: CachePolicy, load: () => Promise<T>): Promise<CacheResult<T>>;
+  invalidate(key: string): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  store: CacheStore;
+  now?: () => number;
+}
+
+// Stale-while-revalidate cache over a pluggable store
+export function createResponseCache({ store, now = Date.now }: ResponseCacheOptions): ResponseCache {
+  const inflight = new Map<string, Promise<unknown>>();
+
+  const refresh = <T>(key: string, policy: CachePolicy, load: () => Promise<T>): Promise<T> => {
+    const pending = inflight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = (async () => {
+      try {
+        const value = await load();
+        const storedAt = now();
+        await store.set(key, {
+          value,
+          storedAt,
+          expiresAt: storedAt + policy.ttlMs,
+          staleUntil: storedAt + policy.ttlMs + (policy.staleMs ?? 0),
+        });
+        return value;
+      } finally {
+        inflight.delete(key);
+      }
+    })();
+
+    inflight.set(key, promise);
+    return promise;
+  };
+
+  return {
+    async fetch<T>(key: string, policy: CachePolicy, load: () => Promise<T>) {
+      const entry = await store.get<T>(key);
+      const current = now();
+
+      if (entry && current < entry.expiresAt) {
+        return { value: entry.value, status: 'HIT' as const };
+      }
+
+      if (entry && current < entry.staleUntil) {
+        // Serve the stale copy; a failed background refresh keeps it until staleUntil
+        refresh(key, policy, load).catch((error) => {
+          console.error(`Cache revalidation failed for ${key}:`, error);
+        });
+        return { value: entry.value, status: 'STALE' as const };
+      }
+
+      const value = await refresh(key, policy, load);
+      return { value, status: 'MISS' as const };
+    },
+
+    invalidate(key: string) {
+      return store.delete(key);
+    },
+  };
+}
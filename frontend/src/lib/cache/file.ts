@@ -0,0 +1,40 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CacheEntry, CacheStore } from "./types";
+
+// One JSON file per key; survives restarts and is shared by workers on one host
+export function createFileStore(directory: string): CacheStore {
+  const fileFor = (key: string) =>
+    path.join(directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    async get<T>(key: string) {
+      try {
+        const entry = JSON.parse(await readFile(fileFor(key), 'utf8')) as CacheEntry<T> & { key: string };
+        // Guard against the (unlikely) hash collision
+        return entry.key === key ? entry : undefined;
+      } catch {
+        return undefined;
+      }
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify({ ...entry, key }));
+    },
+
+    async delete(key: string) {
+      await rm(fileFor(key), { force: true });
+    },
+
+    async clear() {
+      const files = await readdir(directory).catch(() => [] as string[]);
+      await Promise.all(
+        files
+          .filter((file) => file.endsWith('.json'))
+          .map((file) => rm(path.join(directory, file), { force: true }))
+      );
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import path from "node:path";
+import { createResponseCache, ResponseCache } from "./cache";
+import { createFileStore } from "./file";
+import { createMemoryStore } from "./memory";
+import { createSqliteStore } from "./sqlite";
+
+export { createResponseCache } from "./cache";
+export type { ResponseCache, ResponseCacheOptions } from "./cache";
+export { createFileStore } from "./file";
+export { createMemoryStore } from "./memory";
+export { createSqliteStore } from "./sqlite";
+export type * from "./types";
+
+const globalForCache = globalThis as unknown as { __responseCache?: ResponseCache | null };
+
+// Backend picked by RESPONSE_CACHE: memory (default), file, sqlite, or off
+function cacheFromEnv(): ResponseCache | null {
+  switch (process.env.RESPONSE_CACHE || 'memory') {
+    case 'off':
+      return null;
+    case 'file':
+      return createResponseCache({
+        store: createFileStore(process.env.RESPONSE_CACHE_DIR || path.join(process.cwd(), '.cache', 'responses')),
+      });
+    case 'sqlite':
+      return createResponseCache({
+        store: createSqliteStore(process.env.RESPONSE_CACHE_DB || path.join(process.cwd(), '.cache', 'responses.db')),
+      });
+    default:
+      return createResponseCache({
+        store: createMemoryStore(Number(process.env.RESPONSE_CACHE_MAX_ENTRIES) || 500),
+      });
+  }
+}
+
+// Process-wide cache, kept on globalThis so dev hot reloads keep it warm
+export function sharedResponseCache(): ResponseCache | null {
+  if (globalForCache.__responseCache === undefined) {
+    globalForCache.__responseCache = cacheFromEnv();
+  }
+  return globalForCache.__responseCache;
+}
@@ -0,0 +1,35 @@
+import type { CacheEntry, CacheStore } from "./types";
+
+// In-process LRU; Map iteration order doubles as recency order
+export function createMemoryStore(maxEntries = 500): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry as CacheEntry<T>;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      entries.delete(key);
+      entries.set(key, entry);
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value!;
+        entries.delete(oldest);
+      }
+    },
+
+    async delete(key: string) {
+      entries.delete(key);
+    },
+
+    async clear() {
+      entries.clear();
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { mkdir } from "node:fs/promises";
+import path from "node:path";
+import type BetterSqlite3 from "better-sqlite3";
+import type { CacheEntry, CacheStore } from "./types";
+
+interface Row {
+  value: string;
+  stored_at: number;
+  expires_at: number;
+  stale_until: number;
+}
+
+// One SQLite database file; survives restarts, is shared by workers on one
+// host and, unlike the file store, drops entries once they are past stale.
+// The native driver is loaded on first use so other backends never need it.
+export function createSqliteStore(file: string, now: () => number = Date.now): CacheStore {
+  let opened: Promise<BetterSqlite3.Database> | undefined;
+
+  const db = () => {
+    opened ??= (async () => {
+      const { default: Database } = await import("better-sqlite3");
+      if (file !== ':memory:') {
+        await mkdir(path.dirname(file), { recursive: true });
+      }
+      const database = new Database(file);
+      database.pragma('journal_mode = WAL');
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS cache_entries (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          stored_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL,
+          stale_until INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS cache_entries_stale_until ON cache_entries (stale_until);
+      `);
+      return database;
+    })();
+    return opened;
+  };
+
+  return {
+    async get<T>(key: string) {
+      const row = (await db())
+        .prepare('SELECT value, stored_at, expires_at, stale_until FROM cache_entries WHERE key = ?')
+        .get(key) as Row | undefined;
+      if (!row) return undefined;
+      return {
+        value: JSON.parse(row.value) as T,
+        storedAt: row.stored_at,
+        expiresAt: row.expires_at,
+        staleUntil: row.stale_until,
+      };
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      const database = await db();
+      database
+        .prepare(`
+          INSERT INTO cache_entries (key, value, stored_at, expires_at, stale_until) VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT (key) DO UPDATE SET
+            value = excluded.value,
+            stored_at = excluded.stored_at,
+            expires_at = excluded.expires_at,
+            stale_until = excluded.stale_until
+        `)
+        .run(key, JSON.stringify(entry.value), entry.storedAt, entry.expiresAt, entry.staleUntil);
+      database.prepare('DELETE FROM cache_entries WHERE stale_until < ?').run(now());
+    },
+
+    async delete(key: string) {
+      (await db()).prepare('DELETE FROM cache_entries WHERE key = ?').run(key);
+    },
+
+    async clear() {
+      (await db()).exec('DELETE FROM cache_entries');
+    },
+  };
+}
@@ -0,0 +1,29 @@
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  // Served as fresh until this point
+  expiresAt: number;
+  // Served stale (while revalidating) until this point, then dropped
+  staleUntil: number;
+}
+
+// Storage backend behind the response cache
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CachePolicy {
+  ttlMs: number;
+  // Extra window during which an expired entry is still served while refreshing
+  staleMs?: number;
+}
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+}
@@ -0,0 +1,125 @@
+import { fromHex, toHex } from "./cbor";
+
+export type CardanoNetwork = 'mainnet' | 'testnet';
+
+// CIP-30 network ids
+export function networkFromId(networkId: number): CardanoNetwork {
+  return networkId === 1 ? 'mainnet' : 'testnet';
+}
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+function polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    GENERATORS.forEach((generator, bit) => {
+      if ((top >> bit) & 1) checksum ^= generator;
+    });
+  }
+  return checksum;
+}
+
+function expandPrefix(prefix: string): number[] {
+  const codes = [...prefix].map((char) => char.charCodeAt(0));
+  return [...codes.map((code) => code >> 5), 0, ...codes.map((code) => code & 31)];
+}
+
+function convertBits(data: ArrayLike<number>, from: number, to: number, pad: boolean): number[] {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const mask = (1 << to) - 1;
+  for (let index = 0; index < data.length; index++) {
+    accumulator = (accumulator << from) | data[index];
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >> bits) & mask);
+    }
+  }
+  if (pad && bits > 0) {
+    result.push((accumulator << (to - bits)) & mask);
+  } else if (!pad && (bits >= from || ((accumulator << (to - bits)) & mask))) {
+    throw new Error('Invalid bech32 padding');
+  }
+  return result;
+}
+
+// Bech32 without BIP-173's 90 character limit, which Cardano addresses exceed
+export function bech32Encode(prefix: string, bytes: Uint8Array): string {
+  const words = convertBits(bytes, 8, 5, true);
+  const checksum = polymod([...expandPrefix(prefix), ...words, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checkWords = Array.from({ length: 6 }, (_, index) => (checksum >> (5 * (5 - index))) & 31);
+  return `${prefix}1${[...words, ...checkWords].map((word) => CHARSET[word]).join('')}`;
+}
+
+export function bech32Decode(value: string): { prefix: string; bytes: Uint8Array } {
+  const lower = value.toLowerCase();
+  if (lower !== value && value.toUpperCase() !== value) {
+    throw new Error('Mixed-case bech32 string');
+  }
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    throw new Error('Invalid bech32 string');
+  }
+  const prefix = lower.slice(0, separator);
+  const words = [...lower.slice(separator + 1)].map((char) => {
+    const word = CHARSET.indexOf(char);
+    if (word === -1) throw new Error(`Invalid bech32 character: ${char}`);
+    return word;
+  });
+  if (polymod([...expandPrefix(prefix), ...words]) !== 1) {
+    throw new Error('Invalid bech32 checksum');
+  }
+  return { prefix, bytes: Uint8Array.from(convertBits(words.slice(0, -6), 5, 8, false)) };
+}
+
+// Shelley address header: type in the high nibble, network id in the low one
+function addressPrefix(header: number): string {
+  const type = header >> 4;
+  const mainnet = (header & 0x0f) === 1;
+  // Types 14 and 15 are reward (stake) addresses
+  if (type === 14 || type === 15) return mainnet ? 'stake' : 'stake_test';
+  return mainnet ? 'addr' : 'addr_test';
+}
+
+// Raw address bytes (hex, as CIP-30 returns them) to their bech32 form
+export function addressToBech32(hex: string): string {
+  const bytes = fromHex(hex);
+  if (bytes.length === 0) {
+    throw new Error('Empty address');
+  }
+  const type = bytes[0] >> 4;
+  // Byron bootstrap addresses are base58 and out of scope here
+  if (type === 8) {
+    throw new Error('Byron addresses are not supported');
+  }
+  return bech32Encode(addressPrefix(bytes[0]), bytes);
+}
+
+export function addressFromBech32(address: string): string {
+  return toHex(bech32Decode(address).bytes);
+}
+
+export function addressNetwork(hexOrBech32: string): CardanoNetwork {
+  const hex = /^[0-9a-f]+$/i.test(hexOrBech32) ? hexOrBech32 : addressFromBech32(hexOrBech32);
+  return networkFromId(fromHex(hex)[0] & 0x0f);
+}
+
+// Payment key hash or script hash of a Shelley base, enterprise or pointer address
+export function paymentCredential(hexOrBech32: string): { type: 'key' | 'script'; hash: string } {
+  const hex = /^[0-9a-f]+$/i.test(hexOrBech32) ? hexOrBech32 : addressFromBech32(hexOrBech32);
+  const bytes = fromHex(hex);
+  const type = bytes[0] >> 4;
+  if (type > 7 || bytes.length < 29) {
+    throw new Error('Address has no payment credential');
+  }
+  return { type: type & 1 ? 'script' : 'key', hash: toHex(bytes.subarray(1, 29)) };
+}
+
+export function shortenAddress(address: string): string {
+  return address.length > 20 ? `${address.slice(0, 12)}...${address.slice(-6)}` : address;
+}
@@ -0,0 +1,134 @@
+// BLAKE2b (RFC 7693) with a configurable digest length. Cardano hashes keys and
+// scripts with BLAKE2b-224 and transaction bodies and datums with BLAKE2b-256;
+// Node's crypto only offers the fixed 512-bit variant, and browsers none.
+// 64-bit words are held as (low, high) pairs of 32-bit integers.
+
+const IV = Uint32Array.from([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+// v[a] += v[b] over 64-bit words at even indices
+function add64(v: Uint32Array, a: number, b: number) {
+  const low = v[a] + v[b];
+  let high = v[a + 1] + v[b + 1];
+  if (low >= 0x100000000) high++;
+  v[a] = low;
+  v[a + 1] = high;
+}
+
+function addConst64(v: Uint32Array, a: number, low: number, high: number) {
+  const sumLow = v[a] + low;
+  let sumHigh = v[a + 1] + high;
+  if (sumLow >= 0x100000000) sumHigh++;
+  v[a] = sumLow;
+  v[a + 1] = sumHigh;
+}
+
+// v[a] = (v[a] ^ v[b]) rotated right by `bits`
+function xorRotate(v: Uint32Array, a: number, b: number, bits: number) {
+  const low = v[a] ^ v[b];
+  const high = v[a + 1] ^ v[b + 1];
+  if (bits === 32) {
+    v[a] = high;
+    v[a + 1] = low;
+  } else if (bits < 32) {
+    v[a] = (low >>> bits) ^ (high << (32 - bits));
+    v[a + 1] = (high >>> bits) ^ (low << (32 - bits));
+  } else {
+    const shift = bits - 32;
+    v[a] = (high >>> shift) ^ (low << (32 - shift));
+    v[a + 1] = (low >>> shift) ^ (high << (32 - shift));
+  }
+}
+
+function mix(v: Uint32Array, m: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number) {
+  add64(v, a, b);
+  addConst64(v, a, m[x], m[x + 1]);
+  xorRotate(v, d, a, 32);
+  add64(v, c, d);
+  xorRotate(v, b, c, 24);
+  add64(v, a, b);
+  addConst64(v, a, m[y], m[y + 1]);
+  xorRotate(v, d, a, 16);
+  add64(v, c, d);
+  xorRotate(v, b, c, 63);
+}
+
+function compress(h: Uint32Array, block: Uint8Array, counter: number, last: boolean) {
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  v.set(h);
+  v.set(IV, 16);
+  v[24] ^= counter >>> 0;
+  v[25] ^= Math.floor(counter / 0x100000000);
+  if (last) {
+    v[28] = ~v[28];
+    v[29] = ~v[29];
+  }
+  for (let i = 0; i < 32; i++) {
+    m[i] = block[i * 4] | (block[i * 4 + 1] << 8) | (block[i * 4 + 2] << 16) | (block[i * 4 + 3] << 24);
+  }
+  for (let round = 0; round < 12; round++) {
+    const s = SIGMA[round % 10];
+    mix(v, m, 0, 8, 16, 24, s[0] * 2, s[1] * 2);
+    mix(v, m, 2, 10, 18, 26, s[2] * 2, s[3] * 2);
+    mix(v, m, 4, 12, 20, 28, s[4] * 2, s[5] * 2);
+    mix(v, m, 6, 14, 22, 30, s[6] * 2, s[7] * 2);
+    mix(v, m, 0, 10, 20, 30, s[8] * 2, s[9] * 2);
+    mix(v, m, 2, 12, 22, 24, s[10] * 2, s[11] * 2);
+    mix(v, m, 4, 14, 16, 26, s[12] * 2, s[13] * 2);
+    mix(v, m, 6, 8, 18, 28, s[14] * 2, s[15] * 2);
+  }
+  for (let i = 0; i < 16; i++) {
+    h[i] ^= v[i] ^ v[i + 16];
+  }
+}
+
+export function blake2b(input: Uint8Array, outputLength = 32): Uint8Array {
+  if (outputLength < 1 || outputLength > 64) {
+    throw new Error('BLAKE2b output length must be between 1 and 64 bytes');
+  }
+  const h = Uint32Array.from(IV);
+  // Parameter block: digest length, no key, fanout 1, depth 1
+  h[0] ^= 0x01010000 ^ outputLength;
+
+  const block = new Uint8Array(128);
+  let offset = 0;
+  // Process every full block except the last one, which needs the final flag
+  while (input.length - offset > 128) {
+    block.set(input.subarray(offset, offset + 128));
+    offset += 128;
+    compress(h, block, offset, false);
+  }
+  block.fill(0);
+  block.set(input.subarray(offset));
+  compress(h, block, input.length, true);
+
+  const output = new Uint8Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    output[i] = h[i >> 2] >>> (8 * (i & 3));
+  }
+  return output;
+}
+
+export function blake2b224(input: Uint8Array): Uint8Array {
+  return blake2b(input, 28);
+}
+
+export function blake2b256(input: Uint8Array): Uint8Array {
+  return blake2b(input, 32);
+}
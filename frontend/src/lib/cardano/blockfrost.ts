@@ -0,0 +1,235 @@
+import type { CardanoNetwork } from "./address";
+import { fromHex } from "./cbor";
+import {
+  AwaitTxOptions,
+  CardanoProvider,
+  CardanoProviderError,
+  CardanoTxConfirmation,
+  ProtocolParameters,
+} from "./provider";
+import type { CardanoTokenMetadata, CardanoTokenSource } from "./tokenRegistry";
+import type { AssetMap, CardanoUtxo } from "./value";
+
+export const BLOCKFROST_URLS: Record<CardanoNetwork, string> = {
+  mainnet: 'https://cardano-mainnet.blockfrost.io/api/v0',
+  testnet: 'https://cardano-preprod.blockfrost.io/api/v0',
+};
+
+export interface BlockfrostOptions {
+  network?: CardanoNetwork;
+  // Any Blockfrost-compatible server; defaults to Blockfrost itself
+  apiUrl?: string;
+  projectId?: string;
+  fetch?: typeof fetch;
+}
+
+interface BlockfrostUtxo {
+  address: string;
+  tx_hash: string;
+  output_index: number;
+  amount: { unit: string; quantity: string }[];
+  data_hash: string | null;
+  inline_datum: string | null;
+}
+
+interface BlockfrostBlock {
+  slot: number;
+  height: number;
+  hash: string;
+  time: number;
+}
+
+interface BlockfrostTx {
+  hash: string;
+  slot: number;
+  block_height: number;
+  block_time: number;
+}
+
+interface BlockfrostParameters {
+  min_fee_a: number;
+  min_fee_b: number;
+  coins_per_utxo_size: string;
+  price_mem: number;
+  price_step: number;
+  max_tx_size: number;
+  max_tx_ex_mem: string;
+  max_tx_ex_steps: string;
+  collateral_percent: number;
+  cost_models_raw: Record<string, number[]> | null;
+}
+
+const PAGE_SIZE = 100;
+
+function toUtxo({ address, tx_hash, output_index, amount, data_hash, inline_datum }: BlockfrostUtxo): CardanoUtxo {
+  const assets: AssetMap = {};
+  let lovelace = BigInt(0);
+  for (const { unit, quantity } of amount) {
+    if (unit === 'lovelace') lovelace = BigInt(quantity);
+    else assets[unit] = BigInt(quantity);
+  }
+  return {
+    txHash: tx_hash,
+    outputIndex: output_index,
+    address,
+    value: { lovelace, assets },
+    ...(data_hash && { datumHash: data_hash }),
+    ...(inline_datum && { inlineDatum: inline_datum }),
+  };
+}
+
+// 404 means "not on chain (yet)" for every endpoint used here
+function blockfrostRequester({ network = 'mainnet', apiUrl = BLOCKFROST_URLS[network], projectId, fetch: fetchImpl = fetch }: BlockfrostOptions) {
+  return async <T>(path: string, init?: RequestInit): Promise<T | undefined> => {
+    const response = await fetchImpl(`${apiUrl}${path}`, {
+      ...init,
+      headers: { ...(projectId && { project_id: projectId }), ...init?.headers },
+    });
+    if (response.status === 404) return undefined;
+    const text = await response.text();
+    if (!response.ok) {
+      let detail = text;
+      try {
+        detail = JSON.parse(text).message ?? text;
+      } catch {
+        // Plain-text error body
+      }
+      throw new CardanoProviderError(`Blockfrost request failed: ${response.status} - ${detail}`, response.status);
+    }
+    return JSON.parse(text) as T;
+  };
+}
+
+export function createBlockfrostProvider(options: BlockfrostOptions = {}): CardanoProvider {
+  const { network = 'mainnet' } = options;
+  const request = blockfrostRequester(options);
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  return {
+    network,
+
+    async tip() {
+      const block = await request<BlockfrostBlock>('/blocks/latest');
+      if (!block) throw new CardanoProviderError('Blockfrost returned no blocks', 404);
+      return { slot: block.slot, height: block.height, hash: block.hash, time: block.time };
+    },
+
+    async protocolParameters(): Promise<ProtocolParameters> {
+      const params = await request<BlockfrostParameters>('/epochs/latest/parameters');
+      if (!params) throw new CardanoProviderError('Blockfrost returned no protocol parameters', 404);
+      return {
+        minFeeA: params.min_fee_a,
+        minFeeB: params.min_fee_b,
+        coinsPerUtxoByte: BigInt(params.coins_per_utxo_size),
+        priceMem: params.price_mem,
+        priceStep: params.price_step,
+        maxTxSize: params.max_tx_size,
+        maxTxExMem: Number(params.max_tx_ex_mem),
+        maxTxExSteps: Number(params.max_tx_ex_steps),
+        collateralPercent: params.collateral_percent,
+        costModels: {
+          PlutusV2: params.cost_models_raw?.PlutusV2,
+          PlutusV3: params.cost_models_raw?.PlutusV3,
+        },
+      };
+    },
+
+    async utxosAt(address) {
+      const utxos: CardanoUtxo[] = [];
+      for (let page = 1; ; page++) {
+        const batch = await request<BlockfrostUtxo[]>(
+          `/addresses/${address}/utxos?count=${PAGE_SIZE}&page=${page}`
+        ) ?? [];
+        utxos.push(...batch.map(toUtxo));
+        if (batch.length < PAGE_SIZE) return utxos;
+      }
+    },
+
+    async datum(hash) {
+      const datum = await request<{ cbor: string }>(`/scripts/datum/${hash}/cbor`);
+      return datum?.cbor;
+    },
+
+    async submitTx(cborHex) {
+      const txHash = await request<string>('/tx/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/cbor' },
+        body: fromHex(cborHex) as Uint8Array<ArrayBuffer>,
+      });
+      if (!txHash) throw new CardanoProviderError('Blockfrost transaction submission is unavailable', 404);
+      return txHash;
+    },
+
+    async awaitTx(txHash, { timeoutMs = 180_000, pollMs = 5_000 }: AwaitTxOptions = {}): Promise<CardanoTxConfirmation> {
+      const deadline = Date.now() + timeoutMs;
+      for (;;) {
+        const tx = await request<BlockfrostTx>(`/txs/${txHash}`);
+        if (tx) {
+          return { txHash, slot: tx.slot, height: tx.block_height, time: tx.block_time };
+        }
+        if (Date.now() + pollMs > deadline) {
+          throw new CardanoProviderError(`Transaction ${txHash} was not confirmed within ${timeoutMs} ms`);
+        }
+        await sleep(pollMs);
+      }
+    },
+
+    async transaction(txHash) {
+      const tx = await request<{ cbor: string }>(`/txs/${txHash}/cbor`);
+      return tx?.cbor;
+    },
+  };
+}
+
+interface BlockfrostAsset {
+  asset: string;
+  onchain_metadata: Record<string, unknown> | null;
+  onchain_metadata_standard: string | null;
+  // Off-chain token registry entry
+  metadata: {
+    name?: string;
+    ticker?: string | null;
+    decimals?: number | null;
+    logo?: string | null;
+    description?: string;
+  } | null;
+}
+
+// CIP-25 splits long strings into arrays of 64-byte chunks
+function metadataString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value || undefined;
+  if (Array.isArray(value) && value.every((part) => typeof part === 'string')) return value.join('') || undefined;
+  return undefined;
+}
+
+// Token registry metadata where present, CIP-25 / CIP-68 metadata filling the gaps
+function tokenMetadataFromAsset({ onchain_metadata: onchain, onchain_metadata_standard: standard, metadata }: BlockfrostAsset): CardanoTokenMetadata | undefined {
+  if (!metadata && !onchain) return undefined;
+  const onchainDecimals = Number(onchain?.decimals);
+  return {
+    name: metadata?.name ?? metadataString(onchain?.name),
+    ticker: metadata?.ticker ?? metadataString(onchain?.ticker),
+    decimals: metadata?.decimals ?? (Number.isInteger(onchainDecimals) ? onchainDecimals : undefined),
+    logo: metadata?.logo ?? metadataString(onchain?.logo) ?? metadataString(onchain?.image),
+    description: metadata?.description ?? metadataString(onchain?.description),
+    standard: metadata ? 'registry' : standard?.startsWith('CIP68') ? 'cip68' : 'cip25',
+  };
+}
+
+// Remote source for the Cardano token registry
+export function createBlockfrostTokenSource(options: BlockfrostOptions = {}): CardanoTokenSource {
+  const request = blockfrostRequester(options);
+
+  return {
+    async lookup(unit) {
+      const asset = await request<BlockfrostAsset>(`/assets/${unit}`);
+      return asset && tokenMetadataFromAsset(asset);
+    },
+
+    async assetsOfPolicy(policyId) {
+      const assets = await request<{ asset: string }[]>(`/assets/policy/${policyId}?count=${PAGE_SIZE}`) ?? [];
+      return assets.map(({ asset }) => asset);
+    },
+  };
+}
@@ -0,0 +1,270 @@
+import { bytesToHex, hexToBytes } from "viem";
+
+// Minimal CBOR (RFC 8949) codec for the structures CIP-30 wallets exchange:
+// values, UTxOs, addresses and Plutus data. Maps decode to Map so byte-string
+// and integer keys survive; tagged items decode to { tag, value }.
+
+export interface CborTag {
+  tag: number;
+  value: CborValue;
+}
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | CborTag;
+
+// Hex without the 0x prefix, as Cardano wallets and APIs use it
+export function fromHex(hex: string): Uint8Array {
+  return hexToBytes(`0x${hex.replace(/^0x/, '')}`);
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return bytesToHex(bytes).slice(2);
+}
+
+export function isTag(value: CborValue): value is CborTag {
+  return typeof value === 'object' && value !== null && !(value instanceof Uint8Array) &&
+    !Array.isArray(value) && !(value instanceof Map);
+}
+
+export function cborTag(tag: number, value: CborValue): CborTag {
+  return { tag, value };
+}
+
+const BREAK = Symbol('break');
+
+export function decodeCbor(input: Uint8Array | string): CborValue {
+  const bytes = typeof input === 'string' ? fromHex(input) : input;
+  const { value, end } = decodeCborItem(bytes);
+  if (end !== bytes.length) {
+    throw new Error('Trailing bytes after CBOR item');
+  }
+  return value;
+}
+
+// Decodes the single item at `start`; `end` is where it stops, so callers can
+// hash an item's original bytes (a transaction body) rather than a re-encoding
+export function decodeCborItem(bytes: Uint8Array, start = 0): { value: CborValue; end: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = start;
+
+  const need = (length: number) => {
+    if (offset + length > bytes.length) {
+      throw new Error('Unexpected end of CBOR input');
+    }
+  };
+
+  const readArgument = (info: number): number | bigint => {
+    if (info < 24) return info;
+    switch (info) {
+      case 24: need(1); return bytes[offset++];
+      case 25: need(2); offset += 2; return view.getUint16(offset - 2);
+      case 26: need(4); offset += 4; return view.getUint32(offset - 4);
+      case 27: {
+        need(8);
+        offset += 8;
+        const value = view.getBigUint64(offset - 8);
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+      }
+      default:
+        throw new Error(`Unsupported CBOR additional info: ${info}`);
+    }
+  };
+
+  const readLength = (info: number): number => {
+    const length = readArgument(info);
+    if (typeof length === 'bigint') {
+      throw new Error('CBOR length too large');
+    }
+    return length;
+  };
+
+  const readChunks = (major: number, info: number): Uint8Array => {
+    if (info !== 31) {
+      const length = readLength(info);
+      need(length);
+      offset += length;
+      return bytes.subarray(offset - length, offset);
+    }
+    const chunks: Uint8Array[] = [];
+    for (;;) {
+      const chunk = readItem();
+      if (chunk === BREAK) break;
+      if (major === 2 && chunk instanceof Uint8Array) chunks.push(chunk);
+      else if (major === 3 && typeof chunk === 'string') chunks.push(new TextEncoder().encode(chunk));
+      else throw new Error('Invalid chunk in indefinite-length string');
+    }
+    return concatBytes(chunks);
+  };
+
+  const readItem = (): CborValue | typeof BREAK => {
+    need(1);
+    const initial = bytes[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readArgument(info);
+      case 1: {
+        const value = readArgument(info);
+        return typeof value === 'bigint' ? -BigInt(1) - value : -1 - value;
+      }
+      case 2:
+        return readChunks(major, info).slice();
+      case 3:
+        return new TextDecoder().decode(readChunks(major, info));
+      case 4: {
+        const items: CborValue[] = [];
+        if (info === 31) {
+          for (let item = readItem(); item !== BREAK; item = readItem()) items.push(item);
+        } else {
+          for (let length = readLength(info); length > 0; length--) items.push(readValue());
+        }
+        return items;
+      }
+      case 5: {
+        const map = new Map<CborValue, CborValue>();
+        if (info === 31) {
+          for (let key = readItem(); key !== BREAK; key = readItem()) map.set(key, readValue());
+        } else {
+          for (let length = readLength(info); length > 0; length--) map.set(readValue(), readValue());
+        }
+        return map;
+      }
+      case 6: {
+        const tag = readLength(info);
+        const value = readValue();
+        // Bignums
+        if ((tag === 2 || tag === 3) && value instanceof Uint8Array) {
+          const magnitude = value.length === 0 ? BigInt(0) : BigInt(`0x${toHex(value)}`);
+          return tag === 2 ? magnitude : -BigInt(1) - magnitude;
+        }
+        return { tag, value };
+      }
+      default:
+        switch (info) {
+          case 20: return false;
+          case 21: return true;
+          case 22: return null;
+          case 23: return undefined;
+          case 25: need(2); offset += 2; return getFloat16(view, offset - 2);
+          case 26: need(4); offset += 4; return view.getFloat32(offset - 4);
+          case 27: need(8); offset += 8; return view.getFloat64(offset - 8);
+          case 31: return BREAK;
+          default:
+            if (info < 24) return info;
+            throw new Error(`Unsupported CBOR simple value: ${info}`);
+        }
+    }
+  };
+
+  const readValue = (): CborValue => {
+    const item = readItem();
+    if (item === BREAK) {
+      throw new Error('Unexpected CBOR break');
+    }
+    return item;
+  };
+
+  const value = readValue();
+  return { value, end: offset };
+}
+
+function getFloat16(view: DataView, offset: number): number {
+  const half = view.getUint16(offset);
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 31) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function header(major: number, argument: number | bigint): Uint8Array {
+  const value = BigInt(argument);
+  if (value < BigInt(24)) return Uint8Array.of((major << 5) | Number(value));
+  if (value < BigInt(0x100)) return Uint8Array.of((major << 5) | 24, Number(value));
+  if (value < BigInt(0x10000)) {
+    return Uint8Array.of((major << 5) | 25, Number(value >> BigInt(8)), Number(value & BigInt(0xff)));
+  }
+  const wide = value < BigInt(0x100000000);
+  const result = new Uint8Array(wide ? 5 : 9);
+  const view = new DataView(result.buffer);
+  result[0] = (major << 5) | (wide ? 26 : 27);
+  if (wide) view.setUint32(1, Number(value));
+  else view.setBigUint64(1, value);
+  return result;
+}
+
+const UINT64_MAX = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+function encodeInteger(value: bigint): Uint8Array {
+  if (value >= BigInt(0)) {
+    if (value <= UINT64_MAX) return header(0, value);
+    return concatBytes([header(6, 2), encodeBytes(bigintBytes(value))]);
+  }
+  const magnitude = -BigInt(1) - value;
+  if (magnitude <= UINT64_MAX) return header(1, magnitude);
+  return concatBytes([header(6, 3), encodeBytes(bigintBytes(magnitude))]);
+}
+
+function bigintBytes(value: bigint): Uint8Array {
+  const hex = value.toString(16);
+  return fromHex(hex.length % 2 ? `0${hex}` : hex);
+}
+
+function encodeBytes(bytes: Uint8Array): Uint8Array {
+  return concatBytes([header(2, bytes.length), bytes]);
+}
+
+// Deterministic encoding with definite lengths; map keys keep insertion order
+export function encodeCbor(value: CborValue): Uint8Array {
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Only integers can be encoded, got ${value}`);
+    }
+    return encodeInteger(BigInt(value));
+  }
+  if (typeof value === 'bigint') return encodeInteger(value);
+  if (typeof value === 'string') {
+    const bytes = new TextEncoder().encode(value);
+    return concatBytes([header(3, bytes.length), bytes]);
+  }
+  if (value === false) return Uint8Array.of(0xf4);
+  if (value === true) return Uint8Array.of(0xf5);
+  if (value === null) return Uint8Array.of(0xf6);
+  if (value === undefined) return Uint8Array.of(0xf7);
+  if (value instanceof Uint8Array) return encodeBytes(value);
+  if (Array.isArray(value)) {
+    return concatBytes([header(4, value.length), ...value.map(encodeCbor)]);
+  }
+  if (value instanceof Map) {
+    const parts = [header(5, value.size)];
+    for (const [key, item] of value) parts.push(encodeCbor(key), encodeCbor(item));
+    return concatBytes(parts);
+  }
+  return concatBytes([header(6, value.tag), encodeCbor(value.value)]);
+}
+
+export function encodeCborHex(value: CborValue): string {
+  return toHex(encodeCbor(value));
+}
@@ -0,0 +1,99 @@
+// CIP-30 dApp-wallet bridge: wallets inject themselves under window.cardano
+
+export interface Cip30Paginate {
+  page: number;
+  limit: number;
+}
+
+// API object returned by enable(); hex strings are raw CBOR
+export interface Cip30Api {
+  getNetworkId(): Promise<number>;
+  getUtxos(amount?: string, paginate?: Cip30Paginate): Promise<string[] | null>;
+  getCollateral?(params?: { amount: string }): Promise<string[] | null>;
+  getBalance(): Promise<string>;
+  getUsedAddresses(paginate?: Cip30Paginate): Promise<string[]>;
+  getUnusedAddresses(): Promise<string[]>;
+  getChangeAddress(): Promise<string>;
+  getRewardAddresses(): Promise<string[]>;
+  signTx(tx: string, partialSign?: boolean): Promise<string>;
+  signData(address: string, payload: string): Promise<{ signature: string; key: string }>;
+  submitTx(tx: string): Promise<string>;
+  experimental?: {
+    on?(event: 'accountChange' | 'networkChange', callback: () => void): void;
+    off?(event: 'accountChange' | 'networkChange', callback: () => void): void;
+  };
+}
+
+export interface Cip30Wallet {
+  name: string;
+  icon: string;
+  apiVersion: string;
+  enable(): Promise<Cip30Api>;
+  isEnabled(): Promise<boolean>;
+}
+
+export interface CardanoWalletInfo {
+  // Key under window.cardano, e.g. "eternl"
+  id: string;
+  name: string;
+  icon: string;
+  apiVersion: string;
+}
+
+// CIP-30 error codes wallets reject with
+export const CIP30_ERROR_CODES = {
+  InvalidRequest: -1,
+  InternalError: -2,
+  Refused: -3,
+  AccountChange: -4,
+} as const;
+
+// Well-known wallets first, in this order; any other CIP-30 wallet follows
+const PREFERRED_WALLETS = ['eternl', 'lace', 'nami', 'flint', 'typhoncip30', 'yoroi', 'gerowallet', 'nufi', 'vespr'];
+
+declare global {
+  interface Window {
+    cardano?: Record<string, Partial<Cip30Wallet> | undefined>;
+  }
+}
+
+function isCip30Wallet(value: Partial<Cip30Wallet> | undefined): value is Cip30Wallet {
+  return typeof value?.enable === 'function' && typeof value.isEnabled === 'function' &&
+    typeof value.name === 'string';
+}
+
+// Installed CIP-30 wallets; empty outside the browser
+export function discoverWallets(
+  cardano: Window['cardano'] = typeof window === 'undefined' ? undefined : window.cardano
+): CardanoWalletInfo[] {
+  if (!cardano) return [];
+
+  const rank = (id: string) => {
+    const index = PREFERRED_WALLETS.indexOf(id);
+    return index === -1 ? PREFERRED_WALLETS.length : index;
+  };
+
+  return Object.entries(cardano)
+    .filter((entry): entry is [string, Cip30Wallet] => isCip30Wallet(entry[1]))
+    // Some wallets register aliases; keep one entry per wallet name
+    .filter(([, wallet], index, all) => all.findIndex(([, other]) => other.name === wallet.name) === index)
+    .map(([id, wallet]) => ({ id, name: wallet.name, icon: wallet.icon ?? '', apiVersion: wallet.apiVersion ?? '' }))
+    .sort((a, b) => rank(a.id) - rank(b.id) || a.name.localeCompare(b.name));
+}
+
+export function getWallet(id: string): Cip30Wallet | undefined {
+  const wallet = typeof window === 'undefined' ? undefined : window.cardano?.[id];
+  return isCip30Wallet(wallet) ? wallet : undefined;
+}
+
+// Wallet rejections are plain objects { code, info }; turn them into messages
+export function cip30ErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'object' && error !== null) {
+    const { code, info, message } = error as { code?: number; info?: string; message?: string };
+    if (code === CIP30_ERROR_CODES.Refused) return 'Connection request was declined';
+    if (code === CIP30_ERROR_CODES.AccountChange) return 'Wallet account changed';
+    if (info || message) return String(info || message);
+  }
+  return 'Unknown wallet error';
+}
@@ -0,0 +1,171 @@
+import type { CardanoNetwork } from "./address";
+import { blake2b256 } from "./blake2b";
+import { encodeCbor, fromHex, toHex } from "./cbor";
+import {
+  CardanoProvider,
+  CardanoProviderError,
+  CardanoTip,
+  CardanoTxConfirmation,
+  ProtocolParameters,
+  SLOT_CONFIGS,
+  SlotConfig,
+  unixToSlot,
+} from "./provider";
+import { decodeTransaction, utxoRef } from "./transaction";
+import { CardanoUtxo, CardanoValue, sumValues } from "./value";
+
+// Mainnet values as of the Conway era. Cost models are left empty: the
+// emulator runs no scripts, so the script data hash only has to be consistent.
+export const EMULATOR_PROTOCOL_PARAMETERS: ProtocolParameters = {
+  minFeeA: 44,
+  minFeeB: 155381,
+  coinsPerUtxoByte: BigInt(4310),
+  priceMem: 0.0577,
+  priceStep: 0.0000721,
+  maxTxSize: 16384,
+  maxTxExMem: 14_000_000,
+  maxTxExSteps: 10_000_000_000,
+  collateralPercent: 150,
+  costModels: { PlutusV2: [], PlutusV3: [] },
+};
+
+export interface CardanoEmulatorOptions {
+  network?: CardanoNetwork;
+  params?: ProtocolParameters;
+  slotConfig?: SlotConfig;
+  // Unix seconds; drives the tip slot and validity-interval checks
+  now?: () => number;
+}
+
+function sameValue(a: CardanoValue, b: CardanoValue): boolean {
+  if (a.lovelace !== b.lovelace) return false;
+  const units = new Set<string>([...Object.keys(a.assets), ...Object.keys(b.assets)]);
+  return [...units].every((unit) => (a.assets[unit] ?? BigInt(0)) === (b.assets[unit] ?? BigInt(0)));
+}
+
+// In-memory ledger for tests and offline runs. Each accepted transaction is
+// its own block and confirms at once. It checks inputs, validity intervals and
+// value preservation; it does not verify signatures or run scripts.
+export function createCardanoEmulator({
+  network = 'testnet',
+  slotConfig = SLOT_CONFIGS[network],
+  params = EMULATOR_PROTOCOL_PARAMETERS,
+  now = () => Math.floor(Date.now() / 1000),
+}: CardanoEmulatorOptions = {}) {
+  const utxos = new Map<string, CardanoUtxo>();
+  const datums = new Map<string, string>();
+  const confirmed = new Map<string, CardanoTxConfirmation>();
+  const transactions = new Map<string, string>();
+  let height = 0;
+  let lastHash = '00'.repeat(32);
+  let funded = 0;
+
+  const tip = (): CardanoTip => ({ slot: unixToSlot(now(), slotConfig), height, hash: lastHash, time: now() });
+
+  const recordDatum = (cborHex: string) => {
+    datums.set(toHex(blake2b256(fromHex(cborHex))), cborHex);
+  };
+
+  const submitTx = (cborHex: string): string => {
+    const tx = decodeTransaction(cborHex);
+    const { slot } = tip();
+    const reject = (reason: string): never => {
+      throw new CardanoProviderError(`Transaction ${tx.txHash} rejected: ${reason}`, 400);
+    };
+
+    if (confirmed.has(tx.txHash)) reject('already on chain');
+    if (tx.inputs.length === 0) reject('no inputs');
+    if (fromHex(cborHex).length > params.maxTxSize) reject('too large');
+    if (tx.validFrom !== undefined && slot < tx.validFrom) reject(`not valid before slot ${tx.validFrom}`);
+    if (tx.validTo !== undefined && slot >= tx.validTo) reject(`expired at slot ${tx.validTo}`);
+
+    const spent = tx.inputs.map((input) => utxos.get(utxoRef(input)) ?? reject(`${utxoRef(input)} is not unspent`));
+    for (const input of tx.referenceInputs) {
+      if (!utxos.has(utxoRef(input))) reject(`reference input ${utxoRef(input)} is not unspent`);
+    }
+
+    // Minting adds to the inputs' side, burning to the outputs'
+    const mint = (sign: bigint) => ({
+      lovelace: BigInt(0),
+      assets: Object.fromEntries(Object.entries(tx.mint)
+        .filter(([, quantity]) => quantity * sign > BigInt(0))
+        .map(([unit, quantity]) => [unit, quantity * sign])),
+    });
+    const consumed = sumValues([...spent.map(({ value }) => value), mint(BigInt(1))]);
+    const produced = sumValues([...tx.outputs.map(({ value }) => value), { lovelace: tx.fee, assets: {} }, mint(-BigInt(1))]);
+    if (!sameValue(consumed, produced)) reject('inputs and outputs do not balance');
+
+    for (const input of tx.inputs) utxos.delete(utxoRef(input));
+    tx.outputs.forEach((output, outputIndex) => {
+      utxos.set(utxoRef({ txHash: tx.txHash, outputIndex }), { txHash: tx.txHash, outputIndex, ...output });
+      if (output.inlineDatum) recordDatum(output.inlineDatum);
+    });
+    Object.values(tx.datums).forEach(recordDatum);
+
+    height++;
+    lastHash = tx.txHash;
+    confirmed.set(tx.txHash, { txHash: tx.txHash, slot, height, time: now() });
+    transactions.set(tx.txHash, cborHex);
+    return tx.txHash;
+  };
+
+  const provider: CardanoProvider = {
+    network,
+
+    async tip() {
+      return tip();
+    },
+
+    async protocolParameters() {
+      return params;
+    },
+
+    async utxosAt(address) {
+      return [...utxos.values()].filter((utxo) => utxo.address === address);
+    },
+
+    async datum(hash) {
+      return datums.get(hash);
+    },
+
+    async submitTx(cborHex) {
+      return submitTx(cborHex);
+    },
+
+    // Accepted transactions are already confirmed; anything else never will be
+    async awaitTx(txHash) {
+      const confirmation = confirmed.get(txHash);
+      if (!confirmation) throw new CardanoProviderError(`Transaction ${txHash} is unknown`, 404);
+      return confirmation;
+    },
+
+    async transaction(txHash) {
+      return transactions.get(txHash);
+    },
+  };
+
+  return {
+    ...provider,
+
+    // Creates an output out of thin air, like a genesis distribution
+    fund(address: string, value: Partial<CardanoValue>, datum?: { inlineDatum: string }): CardanoUtxo {
+      const txHash = toHex(blake2b256(encodeCbor(['fund', funded++])));
+      const utxo: CardanoUtxo = {
+        txHash,
+        outputIndex: 0,
+        address,
+        value: { lovelace: value.lovelace ?? BigInt(0), assets: value.assets ?? {} },
+        ...datum,
+      };
+      utxos.set(utxoRef(utxo), utxo);
+      if (datum) recordDatum(datum.inlineDatum);
+      return utxo;
+    },
+
+    utxos(): CardanoUtxo[] {
+      return [...utxos.values()];
+    },
+  };
+}
+
+export type CardanoEmulator = ReturnType<typeof createCardanoEmulator>;
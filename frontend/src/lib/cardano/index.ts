@@ -0,0 +1,13 @@
+export * from "./address";
+export * from "./blake2b";
+export * from "./blockfrost";
+export * from "./cbor";
+export * from "./cip30";
+export * from "./emulator";
+export * from "./plutus";
+export * from "./provider";
+export * from "./tokenRegistry";
+export * from "./tokenSnapshot";
+export * from "./transaction";
+export * from "./txBuilder";
+export * from "./value";
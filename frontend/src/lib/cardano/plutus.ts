@@ -0,0 +1,78 @@
+import { CborTag, CborValue, decodeCbor, encodeCborHex, isTag } from "./cbor";
+
+// Plutus data: constructors, maps, lists, integers and byte strings
+export type PlutusData =
+  | bigint
+  | Uint8Array
+  | PlutusData[]
+  | Map<PlutusData, PlutusData>
+  | PlutusConstr;
+
+export interface PlutusConstr {
+  index: number;
+  fields: PlutusData[];
+}
+
+export function constr(index: number, fields: PlutusData[] = []): PlutusConstr {
+  return { index, fields };
+}
+
+export function plutusBool(value: boolean): PlutusConstr {
+  return constr(value ? 1 : 0);
+}
+
+export function isConstr(data: PlutusData): data is PlutusConstr {
+  return typeof data === 'object' && !(data instanceof Uint8Array) && !Array.isArray(data) &&
+    !(data instanceof Map);
+}
+
+// Byte strings over 64 bytes must be chunked on chain; nothing here needs them
+const MAX_BYTES = 64;
+
+function constrTag(index: number, fields: CborValue[]): CborTag {
+  if (index <= 6) return { tag: 121 + index, value: fields };
+  if (index <= 127) return { tag: 1280 + index - 7, value: fields };
+  return { tag: 102, value: [index, fields] };
+}
+
+export function toCborValue(data: PlutusData): CborValue {
+  if (typeof data === 'bigint') return data;
+  if (data instanceof Uint8Array) {
+    if (data.length > MAX_BYTES) {
+      throw new Error(`Plutus byte strings are limited to ${MAX_BYTES} bytes`);
+    }
+    return data;
+  }
+  if (Array.isArray(data)) return data.map(toCborValue);
+  if (data instanceof Map) {
+    return new Map([...data].map(([key, value]) => [toCborValue(key), toCborValue(value)]));
+  }
+  return constrTag(data.index, data.fields.map(toCborValue));
+}
+
+export function fromCborValue(value: CborValue): PlutusData {
+  if (typeof value === 'number') return BigInt(value);
+  if (typeof value === 'bigint' || value instanceof Uint8Array) return value;
+  if (Array.isArray(value)) return value.map(fromCborValue);
+  if (value instanceof Map) {
+    return new Map([...value].map(([key, item]) => [fromCborValue(key), fromCborValue(item)]));
+  }
+  if (isTag(value) && Array.isArray(value.value)) {
+    const { tag } = value;
+    if (tag >= 121 && tag <= 127) return constr(tag - 121, value.value.map(fromCborValue));
+    if (tag >= 1280 && tag <= 1400) return constr(tag - 1280 + 7, value.value.map(fromCborValue));
+    if (tag === 102) {
+      const [index, fields] = value.value;
+      if (typeof index === 'number' && Array.isArray(fields)) return constr(index, fields.map(fromCborValue));
+    }
+  }
+  throw new Error('Not valid Plutus data');
+}
+
+export function encodePlutusData(data: PlutusData): string {
+  return encodeCborHex(toCborValue(data));
+}
+
+export function decodePlutusData(cborHex: string): PlutusData {
+  return fromCborValue(decodeCbor(cborHex));
+}
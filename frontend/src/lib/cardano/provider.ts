@@ -0,0 +1,82 @@
+import type { CardanoNetwork } from "./address";
+import type { CardanoUtxo } from "./value";
+
+export interface CardanoTip {
+  slot: number;
+  height: number;
+  hash: string;
+  // Unix seconds
+  time: number;
+}
+
+export interface CardanoTxConfirmation {
+  txHash: string;
+  slot: number;
+  height: number;
+  time: number;
+}
+
+// The subset of protocol parameters fee and min-ADA calculations need
+export interface ProtocolParameters {
+  minFeeA: number;
+  minFeeB: number;
+  coinsPerUtxoByte: bigint;
+  // Lovelace per unit of script memory / CPU step
+  priceMem: number;
+  priceStep: number;
+  maxTxSize: number;
+  maxTxExMem: number;
+  maxTxExSteps: number;
+  collateralPercent: number;
+  // Flat cost model arrays by language, for the script data hash
+  costModels: Partial<Record<PlutusVersion, number[]>>;
+}
+
+export type PlutusVersion = 'PlutusV2' | 'PlutusV3';
+
+export interface AwaitTxOptions {
+  timeoutMs?: number;
+  pollMs?: number;
+}
+
+// Chain access the escrow and order code needs; hex strings are raw CBOR
+export interface CardanoProvider {
+  network: CardanoNetwork;
+  tip(): Promise<CardanoTip>;
+  protocolParameters(): Promise<ProtocolParameters>;
+  utxosAt(address: string): Promise<CardanoUtxo[]>;
+  // CBOR hex of the datum with this hash, if the chain has seen it
+  datum(hash: string): Promise<string | undefined>;
+  // Returns the transaction hash once the node accepts it
+  submitTx(cborHex: string): Promise<string>;
+  awaitTx(txHash: string, options?: AwaitTxOptions): Promise<CardanoTxConfirmation>;
+  // CBOR hex of a transaction on chain, with its witnesses
+  transaction(txHash: string): Promise<string | undefined>;
+}
+
+export class CardanoProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'CardanoProviderError';
+  }
+}
+
+// Shelley-era slot arithmetic, in seconds; testnet means preprod
+export interface SlotConfig {
+  zeroTime: number;
+  zeroSlot: number;
+  slotLength: number;
+}
+
+export const SLOT_CONFIGS: Record<CardanoNetwork, SlotConfig> = {
+  mainnet: { zeroTime: 1596059091, zeroSlot: 4492800, slotLength: 1 },
+  testnet: { zeroTime: 1655769600, zeroSlot: 86400, slotLength: 1 },
+};
+
+export function slotToUnix(slot: number, { zeroTime, zeroSlot, slotLength }: SlotConfig): number {
+  return zeroTime + (slot - zeroSlot) * slotLength;
+}
+
+export function unixToSlot(time: number, { zeroTime, zeroSlot, slotLength }: SlotConfig): number {
+  return zeroSlot + Math.floor((time - zeroTime) / slotLength);
+}
@@ -0,0 +1,256 @@
+import type { CardanoNetwork } from "./address";
+import { createBlockfrostTokenSource } from "./blockfrost";
+import { fromHex } from "./cbor";
+import { CARDANO_TOKEN_SNAPSHOT } from "./tokenSnapshot";
+import { LOVELACE_DECIMALS } from "./value";
+
+// Cardano native assets are identified by their "unit": the 28-byte policy id
+// followed by up to 32 bytes of asset name, all hex. Names, tickers, decimals
+// and logos come from the off-chain token registry or from CIP-25 / CIP-68
+// metadata on chain; a local snapshot covers well-known tokens without a lookup.
+
+export type CardanoTokenStandard = 'registry' | 'cip25' | 'cip68';
+
+export interface CardanoTokenMetadata {
+  name?: string;
+  ticker?: string;
+  decimals?: number;
+  // URL, ipfs:// link, or a base64 PNG as the off-chain registry stores it
+  logo?: string;
+  description?: string;
+  standard: CardanoTokenStandard;
+}
+
+// Snapshot entry; see tokenSnapshot.ts
+export type CardanoTokenEntry = CardanoTokenMetadata & { unit: string };
+
+// Remote metadata, e.g. Blockfrost; undefined when the asset is unknown
+export interface CardanoTokenSource {
+  lookup(unit: string): Promise<CardanoTokenMetadata | undefined>;
+  // Units minted under a policy, for searches by policy id
+  assetsOfPolicy?(policyId: string): Promise<string[]>;
+}
+
+// Shaped like a 1inch TokenInfo, so the token API and TokenSearch treat both alike
+export interface CardanoToken {
+  // The unit, or "lovelace" for ADA
+  address: string;
+  policyId: string;
+  // Hex, including any CIP-67 label
+  assetName: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  description?: string;
+  // Where the metadata came from, or "unverified" when there was none
+  tags: string[];
+}
+
+export const ADA_TOKEN: CardanoToken = {
+  address: 'lovelace',
+  policyId: '',
+  assetName: '',
+  symbol: 'ADA',
+  name: 'Cardano',
+  decimals: LOVELACE_DECIMALS,
+  tags: ['native'],
+};
+
+const POLICY_ID = /^[0-9a-f]{56}$/;
+const UNIT = /^[0-9a-f]{56}(?:[0-9a-f]{2}){0,32}$/;
+
+// CIP-67 labels in front of CIP-68 asset names
+export const CIP68_LABELS: Record<string, number> = {
+  '000643b0': 100,
+  '000de140': 222,
+  '0014df10': 333,
+  '001bc280': 444,
+};
+
+export function isCardanoUnit(value: string): boolean {
+  return value === 'lovelace' || UNIT.test(value);
+}
+
+// Policy id, hex asset name, CIP-67 label and a readable name for a unit
+export function parseUnit(unit: string): { policyId: string; assetName: string; label?: number; displayName: string } {
+  if (!UNIT.test(unit)) {
+    throw new Error(`Invalid Cardano asset unit: ${unit}`);
+  }
+  const policyId = unit.slice(0, 56);
+  const assetName = unit.slice(56);
+  const label = CIP68_LABELS[assetName.slice(0, 8)];
+  const name = label === undefined ? assetName : assetName.slice(8);
+  let displayName = name;
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(fromHex(name));
+    // Binary names stay hex
+    if (text && /^[\x20-\x7e]+$/.test(text)) displayName = text;
+  } catch {
+    // Not UTF-8
+  }
+  return { policyId, assetName, ...(label !== undefined && { label }), displayName: displayName || policyId.slice(0, 8) };
+}
+
+// Browser-loadable logo URL
+export function logoUrl(logo: string | undefined): string | undefined {
+  if (!logo) return undefined;
+  if (logo.startsWith('ipfs://')) return `https://ipfs.io/ipfs/${logo.slice(7).replace(/^ipfs\//, '')}`;
+  if (/^(https?|data):/.test(logo)) return logo;
+  return `data:image/png;base64,${logo}`;
+}
+
+export function toCardanoToken(unit: string, metadata?: CardanoTokenMetadata): CardanoToken {
+  if (unit === 'lovelace') return ADA_TOKEN;
+  const { policyId, assetName, displayName } = parseUnit(unit);
+  const logoURI = logoUrl(metadata?.logo);
+  return {
+    address: unit,
+    policyId,
+    assetName,
+    symbol: metadata?.ticker ?? metadata?.name ?? displayName,
+    name: metadata?.name ?? displayName,
+    decimals: metadata?.decimals ?? 0,
+    ...(logoURI && { logoURI }),
+    ...(metadata?.description && { description: metadata.description }),
+    tags: [metadata?.standard ?? 'unverified'],
+  };
+}
+
+export interface CardanoTokenRegistryOptions {
+  network?: CardanoNetwork;
+  // Defaults to the bundled snapshot on mainnet, nothing on testnet
+  snapshot?: CardanoTokenEntry[];
+  source?: CardanoTokenSource;
+  // Remote lookups, misses included, are reused this long
+  ttlMs?: number;
+  now?: () => number;
+}
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+// Lower ranks first: exact ticker, ticker prefix, name match, unit prefix
+function matchRank(token: CardanoToken, query: string): number | undefined {
+  const symbol = token.symbol.toLowerCase();
+  if (symbol === query) return 0;
+  if (symbol.startsWith(query)) return 1;
+  if (token.name.toLowerCase().includes(query)) return 2;
+  if (token.address.startsWith(query)) return 3;
+  return undefined;
+}
+
+// Token lookups for one network, answering the token API's actions
+export function createCardanoTokenRegistry({
+  network = 'mainnet',
+  snapshot = network === 'mainnet' ? CARDANO_TOKEN_SNAPSHOT : [],
+  source,
+  ttlMs = DEFAULT_TTL_MS,
+  now = Date.now,
+}: CardanoTokenRegistryOptions = {}) {
+  const known = new Map<string, CardanoToken>([['lovelace', ADA_TOKEN]]);
+  for (const { unit, ...metadata } of snapshot) {
+    known.set(unit, toCardanoToken(unit, metadata));
+  }
+  const remote = new Map<string, { token?: CardanoToken; expiresAt: number }>();
+
+  const lookup = async (unit: string): Promise<CardanoToken | undefined> => {
+    const local = known.get(unit);
+    if (local || !source) return local;
+    const cached = remote.get(unit);
+    if (cached && cached.expiresAt > now()) return cached.token;
+    const metadata = await source.lookup(unit);
+    const token = metadata && toCardanoToken(unit, metadata);
+    remote.set(unit, { token, expiresAt: now() + ttlMs });
+    return token;
+  };
+
+  // Known tokens plus whatever the remote source has resolved so far
+  const listed = () => {
+    const tokens = new Map(known);
+    for (const [unit, { token }] of remote) {
+      if (token && !tokens.has(unit)) tokens.set(unit, token);
+    }
+    return [...tokens.values()];
+  };
+
+  const registry = {
+    network,
+
+    // Always answers; assets without metadata get their decoded name and 0 decimals
+    async resolve(unit: string): Promise<CardanoToken> {
+      return (await lookup(unit)) ?? toCardanoToken(unit);
+    },
+
+    async search(query: string, { limit = 10 }: { limit?: number } = {}): Promise<CardanoToken[]> {
+      const needle = query.trim().toLowerCase();
+      const matches = listed()
+        .map((token) => ({ token, rank: matchRank(token, needle) }))
+        .filter((match): match is { token: CardanoToken; rank: number } => match.rank !== undefined)
+        .sort((a, b) => a.rank - b.rank || a.token.symbol.localeCompare(b.token.symbol))
+        .map(({ token }) => token);
+      if (matches.length || !source) return matches.slice(0, limit);
+
+      // Nothing local: a unit or policy id can still be resolved remotely
+      if (UNIT.test(needle) && needle.length > 56) {
+        return [await registry.resolve(needle)];
+      }
+      if (POLICY_ID.test(needle) && source.assetsOfPolicy) {
+        const units = (await source.assetsOfPolicy(needle)).slice(0, limit);
+        return Promise.all(units.map((unit) => registry.resolve(unit)));
+      }
+      return [];
+    },
+
+    // Keyed by unit, like the 1inch custom endpoint keys by address
+    async custom(units: string[]): Promise<Record<string, CardanoToken>> {
+      const tokens = await Promise.all(units.map((unit) => registry.resolve(unit)));
+      return Object.fromEntries(tokens.map((token) => [token.address, token]));
+    },
+
+    async all(): Promise<Record<string, CardanoToken>> {
+      return Object.fromEntries(listed().map((token) => [token.address, token]));
+    },
+
+    async tokenList() {
+      return {
+        name: `Cardano ${network} tokens`,
+        timestamp: new Date(now()).toISOString(),
+        tokens: listed(),
+      };
+    },
+  };
+  return registry;
+}
+
+export type CardanoTokenRegistry = ReturnType<typeof createCardanoTokenRegistry>;
+
+const globalForTokens = globalThis as unknown as { __cardanoTokens?: Partial<Record<CardanoNetwork, CardanoTokenRegistry>> };
+
+// Blockfrost keys per network; without one, only the snapshot is searched
+const PROJECT_ID_ENV: Record<CardanoNetwork, string> = {
+  mainnet: 'BLOCKFROST_PROJECT_ID',
+  testnet: 'BLOCKFROST_PREPROD_PROJECT_ID',
+};
+
+// Process-wide registry per network, so remote lookups are cached across requests
+export function sharedCardanoTokenRegistry(network: CardanoNetwork = 'mainnet'): CardanoTokenRegistry {
+  const registries = (globalForTokens.__cardanoTokens ??= {});
+  if (!registries[network]) {
+    const projectId = process.env[PROJECT_ID_ENV[network]];
+    registries[network] = createCardanoTokenRegistry({
+      network,
+      ...(projectId && { source: createBlockfrostTokenSource({ network, projectId }) }),
+    });
+  }
+  return registries[network]!;
+}
+
+const CARDANOSCAN_URLS: Record<CardanoNetwork, string> = {
+  mainnet: 'https://cardanoscan.io',
+  testnet: 'https://preprod.cardanoscan.io',
+};
+
+// Cardanoscan link for a transaction, address or token
+export function cardanoExplorerLink(network: CardanoNetwork, kind: 'transaction' | 'address' | 'token', value: string): string {
+  return `${CARDANOSCAN_URLS[network]}/${kind}/${value}`;
+}
@@ -0,0 +1,96 @@
+import type { CardanoTokenEntry } from "./tokenRegistry";
+
+// Well-known mainnet tokens from the Cardano token registry, so common searches
+// need no remote lookup. Units are policy id + hex asset name; USDM carries the
+// CIP-68 fungible token label (0014df10).
+export const CARDANO_TOKEN_SNAPSHOT: CardanoTokenEntry[] = [
+  {
+    unit: '8db269c3ec630e06ae29f74bc39edd1f87c819f1056206e879a1cd61446a65644d6963726f555344',
+    name: 'Djed',
+    ticker: 'DJED',
+    decimals: 6,
+    description: 'Overcollateralized stablecoin pegged to the US dollar',
+    standard: 'registry',
+  },
+  {
+    unit: '8db269c3ec630e06ae29f74bc39edd1f87c819f1056206e879a1cd615368656e4d6963726f555344',
+    name: 'Shen',
+    ticker: 'SHEN',
+    decimals: 6,
+    description: 'Reserve coin backing Djed',
+    standard: 'registry',
+  },
+  {
+    unit: 'f66d78b4a3cb3d37afa0ec36461e51ecbde00f26c8f0a68f94b6988069555344',
+    name: 'Indigo USD',
+    ticker: 'iUSD',
+    decimals: 6,
+    standard: 'registry',
+  },
+  {
+    unit: 'c48cbb3d5e57ed56e276bc45f99ab39abe94e6cd7ac39fb402da47ad0014df105553444d',
+    name: 'USDM',
+    ticker: 'USDM',
+    decimals: 6,
+    description: 'Fiat-backed US dollar stablecoin',
+    standard: 'cip68',
+  },
+  {
+    unit: '25c5de5f5b286073c593edfd77b48abc7a48e5a4f3d4cd9d428ff93555534443',
+    name: 'USD Coin (Wanchain)',
+    ticker: 'USDC',
+    decimals: 6,
+    description: 'USDC bridged from Ethereum by Wanchain',
+    standard: 'registry',
+  },
+  {
+    unit: '25c5de5f5b286073c593edfd77b48abc7a48e5a4f3d4cd9d428ff93555534454',
+    name: 'Tether USD (Wanchain)',
+    ticker: 'USDT',
+    decimals: 6,
+    description: 'USDT bridged from Ethereum by Wanchain',
+    standard: 'registry',
+  },
+  {
+    unit: '29d222ce763455e3d7a09a665ce554f00ac89d2e99a1a83d267170c64d494e',
+    name: 'Minswap',
+    ticker: 'MIN',
+    decimals: 6,
+    standard: 'registry',
+  },
+  {
+    unit: '533bb94a8850ee3ccbe483106489399112b74c905342cb1792a797a0494e4459',
+    name: 'Indigo DAO Token',
+    ticker: 'INDY',
+    decimals: 6,
+    standard: 'registry',
+  },
+  {
+    unit: '1d7f33bd23d85e1a25d87d86fac4f199c3197a2f7afeb662a0f34e1e776f726c646d6f62696c65746f6b656e',
+    name: 'World Mobile Token',
+    ticker: 'WMT',
+    decimals: 6,
+    standard: 'registry',
+  },
+  {
+    unit: 'f43a62fdc3965df486de8a0d32fe800963589c41b38946602a0dc53541474958',
+    name: 'SingularityNET',
+    ticker: 'AGIX',
+    decimals: 8,
+    standard: 'registry',
+  },
+  {
+    unit: '279c909f348e533da5808898f87f9a14bb2c3dfbbacccd631d927a3f534e454b',
+    name: 'Snek',
+    ticker: 'SNEK',
+    decimals: 0,
+    standard: 'registry',
+  },
+  {
+    unit: 'a0028f350aaabe0545fdcb56b039bfb08e4bb4d8c4d7c3c7d481c235484f534b59',
+    name: 'HOSKY Token',
+    ticker: 'HOSKY',
+    decimals: 0,
+    standard: 'registry',
+  },
+];
@@ -0,0 +1,145 @@
+import { blake2b256 } from "./blake2b";
+import { CborValue, decodeCbor, decodeCborItem, encodeCbor, fromHex, isTag, toHex } from "./cbor";
+import { fromCborValue, PlutusData } from "./plutus";
+import { AssetMap, CardanoTxOutput, parseTxOutput } from "./value";
+
+export interface CardanoTxInput {
+  txHash: string;
+  outputIndex: number;
+}
+
+// Redeemer tag 0 is spend; `index` is the input's position in the sorted input set
+export interface CardanoRedeemer {
+  tag: number;
+  index: number;
+  data: PlutusData;
+}
+
+// The parts of a transaction the emulator and escrow code look at
+export interface CardanoTransaction {
+  // blake2b-256 of the body bytes as submitted
+  txHash: string;
+  inputs: CardanoTxInput[];
+  referenceInputs: CardanoTxInput[];
+  outputs: CardanoTxOutput[];
+  fee: bigint;
+  // Validity interval in slots; validTo (the ttl) is exclusive
+  validFrom?: number;
+  validTo?: number;
+  // Positive quantities are minted, negative burnt
+  mint: AssetMap;
+  requiredSigners: string[];
+  // Witness-set datums keyed by datum hash, as CBOR hex
+  datums: Record<string, string>;
+  redeemers: CardanoRedeemer[];
+}
+
+export function utxoRef({ txHash, outputIndex }: CardanoTxInput): string {
+  return `${txHash}#${outputIndex}`;
+}
+
+// Ledger order of inputs, which redeemer indexes count in
+export function compareRefs(a: CardanoTxInput, b: CardanoTxInput): number {
+  return a.txHash === b.txHash ? a.outputIndex - b.outputIndex : a.txHash < b.txHash ? -1 : 1;
+}
+
+// Sets are plain arrays, or wrapped in tag 258 since Conway
+function setItems(value: CborValue | undefined, what: string): CborValue[] {
+  if (value === undefined) return [];
+  const items = isTag(value) && value.tag === 258 ? value.value : value;
+  if (!Array.isArray(items)) throw new Error(`Expected a set of ${what}`);
+  return items;
+}
+
+function toInteger(value: CborValue | undefined, what: string): bigint {
+  if (typeof value === 'number' || typeof value === 'bigint') return BigInt(value);
+  throw new Error(`Expected an integer for ${what}`);
+}
+
+function parseInputs(value: CborValue | undefined): CardanoTxInput[] {
+  return setItems(value, 'inputs').map((input) => {
+    if (!Array.isArray(input) || !(input[0] instanceof Uint8Array)) {
+      throw new Error('Invalid transaction input');
+    }
+    return { txHash: toHex(input[0]), outputIndex: Number(toInteger(input[1], 'input index')) };
+  });
+}
+
+function parseMint(value: CborValue | undefined): AssetMap {
+  const mint: AssetMap = {};
+  if (value === undefined) return mint;
+  if (!(value instanceof Map)) throw new Error('Invalid mint');
+  for (const [policyId, tokens] of value) {
+    if (!(policyId instanceof Uint8Array) || !(tokens instanceof Map)) throw new Error('Invalid mint');
+    for (const [assetName, quantity] of tokens) {
+      if (!(assetName instanceof Uint8Array)) throw new Error('Invalid mint');
+      mint[toHex(policyId) + toHex(assetName)] = toInteger(quantity, 'mint quantity');
+    }
+  }
+  return mint;
+}
+
+function parseSlot(value: CborValue | undefined, what: string): number | undefined {
+  return value === undefined ? undefined : Number(toInteger(value, what));
+}
+
+// Redeemers are a list of [tag, index, data, ex_units], or since Conway a
+// map of [tag, index] to [data, ex_units]
+function parseRedeemers(value: CborValue | undefined): CardanoRedeemer[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) && !(value instanceof Map)) throw new Error('Invalid redeemers');
+  const entries = value instanceof Map
+    ? [...value].map(([key, item]) => (Array.isArray(key) && Array.isArray(item) ? [...key, ...item] : []))
+    : value.map((entry) => (Array.isArray(entry) ? entry : []));
+  return entries.map((entry) => {
+    if (entry.length < 3) throw new Error('Invalid redeemer');
+    return {
+      tag: Number(toInteger(entry[0], 'redeemer tag')),
+      index: Number(toInteger(entry[1], 'redeemer index')),
+      data: fromCborValue(entry[2]),
+    };
+  });
+}
+
+// Redeemer a transaction spends `ref` with, if it spends it at all
+export function spendRedeemer(tx: CardanoTransaction, ref: CardanoTxInput): PlutusData | undefined {
+  const index = [...tx.inputs].sort(compareRefs).findIndex((input) => compareRefs(input, ref) === 0);
+  if (index < 0) return undefined;
+  return tx.redeemers.find((redeemer) => redeemer.tag === 0 && redeemer.index === index)?.data;
+}
+
+// Transaction = [body, witness_set, is_valid, auxiliary_data], three items
+// before Alonzo. Witness datums are hashed as re-encoded here, which matches
+// this codec's own output but not indefinite-length encodings from elsewhere.
+export function decodeTransaction(input: Uint8Array | string): CardanoTransaction {
+  const bytes = typeof input === 'string' ? fromHex(input) : input;
+  const decoded = decodeCbor(bytes);
+  if (!Array.isArray(decoded) || (bytes[0] !== 0x83 && bytes[0] !== 0x84)) {
+    throw new Error('Not a Cardano transaction');
+  }
+  const [body, witnesses] = decoded;
+  if (!(body instanceof Map) || !(witnesses instanceof Map)) {
+    throw new Error('Not a Cardano transaction');
+  }
+  const { end } = decodeCborItem(bytes, 1);
+
+  return {
+    txHash: toHex(blake2b256(bytes.subarray(1, end))),
+    inputs: parseInputs(body.get(0)),
+    referenceInputs: parseInputs(body.get(18)),
+    outputs: setItems(body.get(1), 'outputs').map(parseTxOutput),
+    fee: toInteger(body.get(2), 'fee'),
+    validFrom: parseSlot(body.get(8), 'validity start'),
+    validTo: parseSlot(body.get(3), 'ttl'),
+    mint: parseMint(body.get(9)),
+    requiredSigners: setItems(body.get(14), 'required signers').map((signer) => {
+      if (!(signer instanceof Uint8Array)) throw new Error('Invalid required signer');
+      return toHex(signer);
+    }),
+    datums: Object.fromEntries(setItems(witnesses.get(4), 'datums').map((datum) => {
+      const cbor = encodeCbor(datum);
+      return [toHex(blake2b256(cbor)), toHex(cbor)];
+    })),
+    redeemers: parseRedeemers(witnesses.get(5)),
+  };
+}
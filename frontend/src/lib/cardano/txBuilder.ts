@@ -0,0 +1,272 @@
+import { addressFromBech32, addressToBech32, CardanoNetwork } from "./address";
+import { blake2b224, blake2b256 } from "./blake2b";
+import { CborValue, cborTag, encodeCbor, fromHex, toHex } from "./cbor";
+import { PlutusData, toCborValue } from "./plutus";
+import type { PlutusVersion, ProtocolParameters } from "./provider";
+import { CardanoTxInput, compareRefs, utxoRef } from "./transaction";
+import { AssetMap, CardanoTxOutput, CardanoUtxo, CardanoValue, sumValues } from "./value";
+
+// Compiled validator as Aiken and most toolchains emit it: the CBOR-wrapped
+// flat encoding ("compiledCode" in plutus.json)
+export interface PlutusScript {
+  cbor: string;
+  version: PlutusVersion;
+}
+
+export interface ExUnits {
+  mem: number;
+  steps: number;
+}
+
+export interface ScriptInput {
+  utxo: CardanoUtxo;
+  script: PlutusScript;
+  redeemer: PlutusData;
+  // Nothing here evaluates scripts, so budgets are declared up front
+  exUnits?: ExUnits;
+}
+
+export interface TransactionSpec {
+  params: ProtocolParameters;
+  // Key-locked outputs available for fees, change and collateral
+  wallet: CardanoUtxo[];
+  changeAddress: string;
+  scriptInputs?: ScriptInput[];
+  // Lovelace below the min-ADA requirement is topped up
+  outputs: CardanoTxOutput[];
+  // Slots; validTo is exclusive
+  validFrom?: number;
+  validTo?: number;
+  requiredSigners?: string[];
+  // Key witnesses the signed transaction will carry, for the fee estimate
+  signers?: number;
+}
+
+export interface BuiltTransaction {
+  // Unsigned: the witness set holds scripts and redeemers but no signatures
+  cborHex: string;
+  txHash: string;
+  fee: bigint;
+  inputs: CardanoTxInput[];
+  outputs: CardanoTxOutput[];
+}
+
+export const DEFAULT_EX_UNITS: ExUnits = { mem: 1_000_000, steps: 400_000_000 };
+
+// Ledger language ids: PlutusV1 = 0, V2 = 1, V3 = 2
+const LANGUAGES: Record<PlutusVersion, { id: number; prefix: number; witnessKey: number }> = {
+  PlutusV2: { id: 1, prefix: 0x02, witnessKey: 6 },
+  PlutusV3: { id: 2, prefix: 0x03, witnessKey: 7 },
+};
+
+// Constant part of an output's ledger footprint in the min-ADA formula
+const UTXO_ENTRY_OVERHEAD = 160;
+// Collateral is picked from pure-ADA outputs of at least this much
+const MIN_COLLATERAL = BigInt(5_000_000);
+const ZERO = BigInt(0);
+
+export function scriptHash({ cbor, version }: PlutusScript): string {
+  return toHex(blake2b224(Uint8Array.from([LANGUAGES[version].prefix, ...fromHex(cbor)])));
+}
+
+// Enterprise address (no staking part) locked by the script
+export function scriptAddress(script: PlutusScript, network: CardanoNetwork): string {
+  const header = network === 'mainnet' ? '71' : '70';
+  return addressToBech32(`${header}${scriptHash(script)}`);
+}
+
+export function encodeValue({ lovelace, assets }: CardanoValue): CborValue {
+  const policies = new Map<string, [string, bigint][]>();
+  for (const unit of Object.keys(assets).sort()) {
+    if (assets[unit] === ZERO) continue;
+    const policyId = unit.slice(0, 56);
+    policies.set(policyId, [...(policies.get(policyId) ?? []), [unit.slice(56), assets[unit]]]);
+  }
+  if (policies.size === 0) return lovelace;
+  return [lovelace, new Map<CborValue, CborValue>([...policies].map(([policyId, tokens]) => [
+    fromHex(policyId),
+    new Map<CborValue, CborValue>(tokens.map(([assetName, quantity]) => [fromHex(assetName), quantity])),
+  ]))];
+}
+
+// Post-Alonzo map form: { 0: address, 1: value, 2: datum_option }
+export function encodeTxOutput({ address, value, datumHash, inlineDatum }: CardanoTxOutput): CborValue {
+  const output = new Map<CborValue, CborValue>([
+    [0, fromHex(addressFromBech32(address))],
+    [1, encodeValue(value)],
+  ]);
+  if (inlineDatum) output.set(2, [1, cborTag(24, fromHex(inlineDatum))]);
+  else if (datumHash) output.set(2, [0, fromHex(datumHash)]);
+  return output;
+}
+
+// Babbage rule: (160 + serialized output size) × coinsPerUtxoByte. The
+// lovelace field's own size depends on the result, so iterate until stable.
+export function minAda(output: CardanoTxOutput, { coinsPerUtxoByte }: ProtocolParameters): bigint {
+  let required = output.value.lovelace;
+  for (;;) {
+    const size = encodeCbor(encodeTxOutput({ ...output, value: { ...output.value, lovelace: required } })).length;
+    const next = BigInt(UTXO_ENTRY_OVERHEAD + size) * coinsPerUtxoByte;
+    if (next <= required) return next;
+    required = next;
+  }
+}
+
+function withMinAda(output: CardanoTxOutput, params: ProtocolParameters): CardanoTxOutput {
+  const required = minAda(output, params);
+  return output.value.lovelace >= required ? output : { ...output, value: { ...output.value, lovelace: required } };
+}
+
+function subtract(a: CardanoValue, b: CardanoValue): CardanoValue {
+  const assets: AssetMap = { ...a.assets };
+  for (const [unit, quantity] of Object.entries(b.assets)) {
+    assets[unit] = (assets[unit] ?? ZERO) - quantity;
+  }
+  return { lovelace: a.lovelace - b.lovelace, assets };
+}
+
+function isCovered({ lovelace, assets }: CardanoValue): boolean {
+  return lovelace >= ZERO && Object.values(assets).every((quantity) => quantity >= ZERO);
+}
+
+function isEmpty({ lovelace, assets }: CardanoValue): boolean {
+  return lovelace === ZERO && Object.values(assets).every((quantity) => quantity === ZERO);
+}
+
+// Redeemer budgets priced at the protocol's per-unit rates
+function exUnitsFee(scriptInputs: ScriptInput[], { priceMem, priceStep }: ProtocolParameters): bigint {
+  const cost = scriptInputs.reduce((total, { exUnits = DEFAULT_EX_UNITS }) => {
+    return total + exUnits.mem * priceMem + exUnits.steps * priceStep;
+  }, 0);
+  return BigInt(Math.ceil(cost));
+}
+
+// Balances, prices and serializes a transaction. Wallet outputs are added
+// largest first until the outputs, fee and change min-ADA are covered; one
+// pure-ADA wallet output doubles as collateral when scripts run.
+export function buildTransaction({
+  params,
+  wallet,
+  changeAddress,
+  scriptInputs = [],
+  outputs: requested,
+  validFrom,
+  validTo,
+  requiredSigners = [],
+  signers = 1,
+}: TransactionSpec): BuiltTransaction {
+  const outputs = requested.map((output) => withMinAda(output, params));
+  const scriptRefs = new Set<string>(scriptInputs.map(({ utxo }) => utxoRef(utxo)));
+  const candidates = wallet
+    .filter((utxo) => !scriptRefs.has(utxoRef(utxo)))
+    .sort((a, b) => (a.value.lovelace === b.value.lovelace ? 0 : a.value.lovelace > b.value.lovelace ? -1 : 1));
+
+  const collateral = scriptInputs.length === 0 ? undefined : wallet
+    .filter(({ value }) => Object.keys(value.assets).length === 0 && value.lovelace >= MIN_COLLATERAL)
+    .sort((a, b) => (a.value.lovelace < b.value.lovelace ? -1 : 1))[0];
+  if (scriptInputs.length > 0 && !collateral) {
+    throw new Error(`Collateral needs a wallet output of at least ${MIN_COLLATERAL} lovelace and no tokens`);
+  }
+
+  const scripts = [...new Map(scriptInputs.map(({ script }) => [script.cbor, script])).values()];
+  const versions = [...new Set<PlutusVersion>(scripts.map(({ version }) => version))].sort();
+  const produced = sumValues(outputs.map(({ value }) => value));
+
+  const encode = (selected: CardanoUtxo[], fee: bigint, change: CardanoValue | undefined, dummySigners: number) => {
+    const inputs = [...scriptInputs.map(({ utxo }) => utxo), ...selected]
+      .map(({ txHash, outputIndex }) => ({ txHash, outputIndex }))
+      .sort(compareRefs);
+    const allOutputs = change ? [...outputs, { address: changeAddress, value: change }] : outputs;
+
+    const body = new Map<CborValue, CborValue>([
+      [0, cborTag(258, inputs.map(({ txHash, outputIndex }) => [fromHex(txHash), outputIndex]))],
+      [1, allOutputs.map(encodeTxOutput)],
+      [2, fee],
+    ]);
+    if (validTo !== undefined) body.set(3, validTo);
+    if (validFrom !== undefined) body.set(8, validFrom);
+
+    const witnesses = new Map<CborValue, CborValue>();
+    if (dummySigners > 0) {
+      witnesses.set(0, cborTag(258, Array.from({ length: dummySigners }, () => [new Uint8Array(32), new Uint8Array(64)])));
+    }
+    if (scriptInputs.length > 0) {
+      // Spend redeemers point at the input's position in the sorted input set
+      const redeemers = scriptInputs.map(({ utxo, redeemer, exUnits = DEFAULT_EX_UNITS }) => [
+        0,
+        inputs.findIndex((input) => compareRefs(input, utxo) === 0),
+        toCborValue(redeemer),
+        [exUnits.mem, exUnits.steps],
+      ]);
+      const languageViews = new Map<CborValue, CborValue>(versions.map((version) => [
+        LANGUAGES[version].id,
+        params.costModels[version] ?? [],
+      ]));
+      // Inline datums only, so the datums part of the hash is absent
+      body.set(11, blake2b256(Uint8Array.from([...encodeCbor(redeemers), ...encodeCbor(languageViews)])));
+      body.set(13, cborTag(258, [[fromHex(collateral!.txHash), collateral!.outputIndex]]));
+      witnesses.set(5, redeemers);
+      for (const version of versions) {
+        witnesses.set(LANGUAGES[version].witnessKey, cborTag(258, scripts
+          .filter((script) => script.version === version)
+          .map(({ cbor }) => fromHex(cbor))));
+      }
+    }
+    if (requiredSigners.length > 0) body.set(14, cborTag(258, requiredSigners.map(fromHex)));
+
+    return { bytes: encodeCbor([body, witnesses, true, null]), body, inputs, outputs: allOutputs };
+  };
+
+  const scriptFee = exUnitsFee(scriptInputs, params);
+  const consumedFixed = sumValues(scriptInputs.map(({ utxo }) => utxo.value));
+  const selected: CardanoUtxo[] = [];
+  let fee = ZERO;
+
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const remaining = subtract(sumValues([consumedFixed, ...selected.map(({ value }) => value)]), {
+      lovelace: produced.lovelace + fee,
+      assets: produced.assets,
+    });
+    const change = isEmpty(remaining) ? undefined : remaining;
+    const changeShort = change && isCovered(change) &&
+      change.lovelace < minAda({ address: changeAddress, value: change }, params);
+
+    if (!change || (isCovered(change) && !changeShort)) {
+      const { bytes } = encode(selected, fee, change, signers);
+      const required = BigInt(params.minFeeA * bytes.length + params.minFeeB) + scriptFee;
+      if (required <= fee) {
+        const needed = fee * BigInt(params.collateralPercent) / BigInt(100);
+        if (collateral && collateral.value.lovelace < needed) {
+          throw new Error(`Collateral of ${collateral.value.lovelace} lovelace is below the required ${needed}`);
+        }
+        const built = encode(selected, fee, change, 0);
+        if (built.bytes.length > params.maxTxSize) {
+          throw new Error(`Transaction is ${built.bytes.length} bytes, above the ${params.maxTxSize} byte limit`);
+        }
+        return {
+          cborHex: toHex(built.bytes),
+          txHash: toHex(blake2b256(encodeCbor(built.body))),
+          fee,
+          inputs: built.inputs,
+          outputs: built.outputs,
+        };
+      }
+      fee = required;
+      continue;
+    }
+
+    // Prefer outputs carrying a missing token, then the largest ADA ones
+    const missing = Object.keys(remaining.assets).filter((unit) => remaining.assets[unit] < ZERO);
+    const next = candidates.find((utxo) => !selected.includes(utxo) &&
+      missing.some((unit) => (utxo.value.assets[unit] ?? ZERO) > ZERO)) ??
+      candidates.find((utxo) => !selected.includes(utxo));
+    if (!next) {
+      const short = missing.length > 0
+        ? `tokens ${missing.join(', ')}`
+        : remaining.lovelace < ZERO ? `${-remaining.lovelace} lovelace` : 'lovelace for the change min-ADA';
+      throw new Error(`Insufficient funds: wallet is short of ${short}`);
+    }
+    selected.push(next);
+  }
+  throw new Error('Transaction fee did not converge');
+}
@@ -0,0 +1,119 @@
+import { formatUnits } from "viem";
+import { addressToBech32 } from "./address";
+import { CborValue, decodeCbor, isTag, toHex } from "./cbor";
+
+// Native assets keyed by policy id + hex asset name
+export type AssetMap = Record<string, bigint>;
+
+export interface CardanoValue {
+  lovelace: bigint;
+  assets: AssetMap;
+}
+
+export interface CardanoUtxo {
+  txHash: string;
+  outputIndex: number;
+  // Bech32 address
+  address: string;
+  value: CardanoValue;
+  datumHash?: string;
+  // Inline datum as CBOR hex
+  inlineDatum?: string;
+}
+
+export type CardanoTxOutput = Omit<CardanoUtxo, 'txHash' | 'outputIndex'>;
+
+export const LOVELACE_DECIMALS = 6;
+
+export function formatAda(lovelace: bigint): string {
+  return formatUnits(lovelace, LOVELACE_DECIMALS);
+}
+
+function toBigInt(value: CborValue, what: string): bigint {
+  if (typeof value === 'number' || typeof value === 'bigint') return BigInt(value);
+  throw new Error(`Expected an integer for ${what}`);
+}
+
+function asBytes(value: CborValue, what: string): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  throw new Error(`Expected bytes for ${what}`);
+}
+
+// Value = coin / [coin, multiasset]
+export function parseValue(value: CborValue): CardanoValue {
+  if (!Array.isArray(value)) {
+    return { lovelace: toBigInt(value, 'coin'), assets: {} };
+  }
+  const [coin, multiasset] = value;
+  const assets: AssetMap = {};
+  if (multiasset instanceof Map) {
+    for (const [policyId, tokens] of multiasset) {
+      if (!(tokens instanceof Map)) throw new Error('Expected an asset map');
+      for (const [assetName, quantity] of tokens) {
+        const unit = toHex(asBytes(policyId, 'policy id')) + toHex(asBytes(assetName, 'asset name'));
+        assets[unit] = toBigInt(quantity, 'asset quantity');
+      }
+    }
+  }
+  return { lovelace: toBigInt(coin, 'coin'), assets };
+}
+
+// CIP-30 getBalance() result
+export function decodeValue(cborHex: string): CardanoValue {
+  return parseValue(decodeCbor(cborHex));
+}
+
+// Legacy [address, value, datumHash?] or post-Alonzo { 0: address, 1: value, 2: datum }
+export function parseTxOutput(output: CborValue): CardanoTxOutput {
+  if (Array.isArray(output)) {
+    const [address, value, datumHash] = output;
+    return {
+      address: addressToBech32(toHex(asBytes(address, 'address'))),
+      value: parseValue(value),
+      ...(datumHash instanceof Uint8Array && { datumHash: toHex(datumHash) }),
+    };
+  }
+  if (!(output instanceof Map)) {
+    throw new Error('Unsupported transaction output');
+  }
+  const datum = output.get(2);
+  const result: CardanoTxOutput = {
+    address: addressToBech32(toHex(asBytes(output.get(0), 'address'))),
+    value: parseValue(output.get(1)),
+  };
+  // datum_option = [0, hash] / [1, #6.24(bytes .cbor plutus_data)]
+  if (Array.isArray(datum)) {
+    const [kind, content] = datum;
+    if (kind === 0) {
+      result.datumHash = toHex(asBytes(content, 'datum hash'));
+    } else if (kind === 1 && isTag(content) && content.tag === 24) {
+      result.inlineDatum = toHex(asBytes(content.value, 'inline datum'));
+    }
+  }
+  return result;
+}
+
+// CIP-30 getUtxos() entries: [[txHash, index], output]
+export function decodeUtxo(cborHex: string): CardanoUtxo {
+  const decoded = decodeCbor(cborHex);
+  if (!Array.isArray(decoded) || !Array.isArray(decoded[0])) {
+    throw new Error('Invalid transaction unspent output');
+  }
+  const [[txHash, outputIndex], output] = decoded as [CborValue[], CborValue];
+  return {
+    txHash: toHex(asBytes(txHash, 'transaction hash')),
+    outputIndex: Number(toBigInt(outputIndex, 'output index')),
+    ...parseTxOutput(output),
+  };
+}
+
+export function sumValues(values: CardanoValue[]): CardanoValue {
+  const total: CardanoValue = { lovelace: BigInt(0), assets: {} };
+  for (const { lovelace, assets } of values) {
+    total.lovelace += lovelace;
+    for (const [unit, quantity] of Object.entries(assets)) {
+      total.assets[unit] = (total.assets[unit] ?? BigInt(0)) + quantity;
+    }
+  }
+  return total;
+}
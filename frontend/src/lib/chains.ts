@@ -0,0 +1,133 @@
+import type { Chain } from "viem";
+import {
+  arbitrum,
+  arbitrumSepolia,
+  aurora,
+  avalanche,
+  avalancheFuji,
+  base,
+  baseSepolia,
+  bsc,
+  bscTestnet,
+  fantom,
+  gnosis,
+  klaytn,
+  mainnet,
+  optimism,
+  optimismSepolia,
+  polygon,
+  polygonMumbai,
+  sepolia,
+  zksync,
+} from "viem/chains";
+
+// 1inch Developer Portal API families that take a chain id
+export type OneInchApi = 'token' | 'price' | 'gas' | 'portfolio' | 'history' | 'traces' | 'nft';
+
+export const API_NAMES: Record<OneInchApi, string> = {
+  token: 'Token',
+  price: 'Spot Price',
+  gas: 'Gas Price',
+  portfolio: 'Portfolio',
+  history: 'History',
+  traces: 'Traces',
+  nft: 'NFT',
+};
+
+// Placeholder address 1inch uses for a chain's native currency
+export const NATIVE_TOKEN_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+export interface NativeToken {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+export interface ChainInfo {
+  id: number;
+  // URL-friendly name accepted by the `chain` query parameter
+  slug: string;
+  name: string;
+  explorerUrl: string;
+  nativeToken: NativeToken;
+  apis: readonly OneInchApi[];
+  // Chain definition handed to wagmi / RainbowKit
+  viem: Chain;
+}
+
+const ALL_APIS: readonly OneInchApi[] = ['token', 'price', 'gas', 'portfolio', 'history', 'traces', 'nft'];
+
+function define(viemChain: Chain, slug: string, name: string, explorerUrl: string, apis: readonly OneInchApi[]): ChainInfo {
+  return {
+    id: viemChain.id,
+    slug,
+    name,
+    explorerUrl,
+    nativeToken: { address: NATIVE_TOKEN_ADDRESS, ...viemChain.nativeCurrency },
+    apis,
+    viem: viemChain,
+  };
+}
+
+// Every chain the app talks to, in display order
+export const CHAINS: readonly ChainInfo[] = [
+  define(mainnet, 'ethereum', 'Ethereum', 'https://etherscan.io', ALL_APIS),
+  define(bsc, 'bsc', 'BSC', 'https://bscscan.com', ALL_APIS),
+  define(polygon, 'polygon', 'Polygon', 'https://polygonscan.com', ALL_APIS),
+  define(optimism, 'optimism', 'Optimism', 'https://optimistic.etherscan.io', ALL_APIS),
+  define(arbitrum, 'arbitrum', 'Arbitrum', 'https://arbiscan.io', ALL_APIS),
+  define(gnosis, 'gnosis', 'Gnosis', 'https://gnosisscan.io', ALL_APIS),
+  define(avalanche, 'avalanche', 'Avalanche', 'https://snowtrace.io', ALL_APIS),
+  define(fantom, 'fantom', 'Fantom', 'https://ftmscan.com', ['token', 'price', 'gas', 'history', 'traces', 'nft']),
+  define(klaytn, 'klaytn', 'Klaytn', 'https://kaiascan.io', ['token', 'gas', 'history', 'traces']),
+  define(aurora, 'aurora', 'Aurora', 'https://explorer.aurora.dev', ['token', 'gas', 'history', 'traces']),
+  define(zksync, 'zksync', 'zkSync Era', 'https://explorer.zksync.io', ['gas', 'portfolio', 'history']),
+];
+
+export const DEFAULT_CHAIN = CHAINS[0];
+
+// Looks a chain up by numeric id ("137", 137) or slug ("polygon")
+export function findChain(idOrSlug: string | number): ChainInfo | undefined {
+  const key = String(idOrSlug).trim().toLowerCase();
+  return CHAINS.find((chain) => String(chain.id) === key || chain.slug === key);
+}
+
+export function supportsApi(chain: ChainInfo, api: OneInchApi): boolean {
+  return chain.apis.includes(api);
+}
+
+export function chainsFor(api: OneInchApi): ChainInfo[] {
+  return CHAINS.filter((chain) => supportsApi(chain, api));
+}
+
+export function chainName(chainId: string | number): string {
+  return findChain(chainId)?.name ?? 'Unknown';
+}
+
+// Explorer link for a transaction, address or token on the given chain;
+// undefined for chains outside the registry rather than a link to the wrong network
+export function explorerLink(chainId: string | number, kind: 'tx' | 'address' | 'token', value: string): string | undefined {
+  const chain = findChain(chainId);
+  return chain && `${chain.explorerUrl}/${kind}/${value}`;
+}
+
+// Networks the wallet connector may offer without any 1inch API behind them:
+// Base and the testnets of the registry chains
+export const EXTRA_WALLET_CHAINS: readonly Chain[] = [
+  base,
+  sepolia,
+  polygonMumbai,
+  arbitrumSepolia,
+  optimismSepolia,
+  baseSepolia,
+  bscTestnet,
+  avalancheFuji,
+];
+
+// Chains offered by the wallet connector, as the non-empty tuple wagmi expects.
+// NEXT_PUBLIC_ENABLE_TESTNETS=1 adds EXTRA_WALLET_CHAINS after the registry chains.
+export function wagmiChains(includeExtra = process.env.NEXT_PUBLIC_ENABLE_TESTNETS === '1'): [Chain, ...Chain[]] {
+  const [first, ...rest] = CHAINS.map((chain) => chain.viem);
+  return includeExtra ? [first, ...rest, ...EXTRA_WALLET_CHAINS] : [first, ...rest];
+}
@@ -0,0 +1,206 @@
+import type { GasPrices } from "@/lib/oneinch";
+import type { CrossChainOrder } from "./types";
+
+// Fusion fills go through a Dutch auction: the amount a resolver must deliver
+// on the destination chain starts above the maker's minimum (`dstAmount`) and
+// falls to it along a piecewise-linear curve. Rate bumps are in 1e7 units
+// (10_000_000 = +100%), as in 1inch's settlement contracts.
+export const RATE_BUMP_DENOMINATOR = 10_000_000;
+
+export interface AuctionPoint {
+  // Seconds after the previous point (or the auction start)
+  delay: number;
+  rateBump: number;
+}
+
+export interface AuctionGasCost {
+  // Rate bump that pays for the fill's gas when the base fee is `gasPriceEstimate`
+  gasBumpEstimate: number;
+  // Base fee in wei the estimate was made at
+  gasPriceEstimate: bigint;
+}
+
+export interface AuctionDetails {
+  // Unix seconds
+  startTime: number;
+  duration: number;
+  initialRateBump: number;
+  // Intermediate corners of the curve; it always ends at 0 after `duration`
+  points: AuctionPoint[];
+  gasCost?: AuctionGasCost;
+}
+
+// JSON-safe form, as the order book stores and serves it
+export type AuctionJson = Omit<AuctionDetails, 'gasCost'> & {
+  gasCost?: { gasBumpEstimate: number; gasPriceEstimate: string };
+};
+
+export function toAuctionJson({ gasCost, ...auction }: AuctionDetails): AuctionJson {
+  return {
+    ...auction,
+    ...(gasCost && { gasCost: { ...gasCost, gasPriceEstimate: gasCost.gasPriceEstimate.toString() } }),
+  };
+}
+
+export interface AuctionQuote {
+  time: number;
+  // Curve bump minus the gas bump, never below 0
+  rateBump: number;
+  auctionBump: number;
+  gasBump: number;
+  makingAmount: bigint;
+  // What the resolver must deliver for `makingAmount` at `time`
+  takingAmount: bigint;
+}
+
+type AuctionOrder = Pick<CrossChainOrder, 'srcAmount' | 'dstAmount'>;
+
+export function assertValidAuction({ duration, initialRateBump, points }: AuctionDetails): void {
+  if (!Number.isInteger(duration) || duration <= 0) {
+    throw new Error('Auction duration must be a positive number of seconds');
+  }
+  const bumps = [initialRateBump, ...points.map(({ rateBump }) => rateBump)];
+  if (bumps.some((bump) => !Number.isInteger(bump) || bump < 0)) {
+    throw new Error('Rate bumps must be non-negative integers');
+  }
+  const delays = points.map(({ delay }) => delay);
+  if (delays.some((delay) => !Number.isInteger(delay) || delay < 0)) {
+    throw new Error('Auction point delays must be non-negative integers');
+  }
+  if (delays.reduce((sum, delay) => sum + delay, 0) > duration) {
+    throw new Error('Auction points must fall within the auction duration');
+  }
+}
+
+export interface CreateAuctionParams {
+  startTime: number;
+  duration: number;
+  // Maker's minimum on the destination chain (the order's dstAmount)
+  minAmount: bigint;
+  // What the auction opens at; the start/end amounts set the initial bump
+  startAmount: bigint;
+  // Corners as fractions of the way through the auction and of the initial bump,
+  // e.g. [{ time: 0.5, bump: 0.25 }] for a fast early drop
+  curve?: { time: number; bump: number }[];
+  gasCost?: AuctionGasCost;
+}
+
+export function createAuction({ startTime, duration, minAmount, startAmount, curve = [], gasCost }: CreateAuctionParams): AuctionDetails {
+  if (minAmount <= BigInt(0) || startAmount < minAmount) {
+    throw new Error('Auction start amount must be at least the minimum amount');
+  }
+  const initialRateBump = Number(((startAmount - minAmount) * BigInt(RATE_BUMP_DENOMINATOR)) / minAmount);
+
+  let elapsed = 0;
+  const points = [...curve]
+    .sort((a, b) => a.time - b.time)
+    .map(({ time, bump }) => {
+      const at = Math.round(time * duration);
+      const point = { delay: at - elapsed, rateBump: Math.round(bump * initialRateBump) };
+      elapsed = at;
+      return point;
+    });
+
+  const auction = { startTime, duration, initialRateBump, points, ...(gasCost && { gasCost }) };
+  assertValidAuction(auction);
+  return auction;
+}
+
+// Bump on the curve alone at `time`
+export function auctionRateBump({ startTime, duration, initialRateBump, points }: AuctionDetails, time: number): number {
+  if (time <= startTime) return initialRateBump;
+  const endTime = startTime + duration;
+  if (time >= endTime) return 0;
+
+  let fromTime = startTime;
+  let fromBump = initialRateBump;
+  for (const { delay, rateBump } of [...points, { delay: endTime - startTime, rateBump: 0 }]) {
+    const toTime = Math.min(fromTime + delay, endTime);
+    if (time < toTime) {
+      // Integer interpolation, so every party computes the same bump
+      return Math.floor(((toTime - time) * fromBump + (time - fromTime) * rateBump) / (toTime - fromTime));
+    }
+    fromTime = toTime;
+    fromBump = rateBump;
+  }
+  return 0;
+}
+
+// Share of the bump that pays for gas at the current base fee; 0 without one
+export function gasRateBump(gasCost: AuctionGasCost | undefined, baseFee: bigint | undefined): number {
+  if (!gasCost || !baseFee || gasCost.gasPriceEstimate <= BigInt(0)) return 0;
+  return Number((BigInt(gasCost.gasBumpEstimate) * baseFee) / gasCost.gasPriceEstimate);
+}
+
+// Base fee in wei from /api/gasprice (or the 1inch gas API) data
+export function baseFeeFromGasPrices(prices: Pick<GasPrices, 'baseFee'>): bigint | undefined {
+  return prices.baseFee && /^\d+$/.test(prices.baseFee) ? BigInt(prices.baseFee) : undefined;
+}
+
+// Gas cost info for an auction: `gasLimit` units at the current base fee, priced
+// in destination units through `nativeRate` (destination units per 1e18 wei)
+export function gasCostFromGasPrices(
+  prices: Pick<GasPrices, 'baseFee'>,
+  { gasLimit, nativeRate, dstAmount }: { gasLimit: bigint; nativeRate: bigint; dstAmount: bigint }
+): AuctionGasCost | undefined {
+  const baseFee = baseFeeFromGasPrices(prices);
+  if (!baseFee || dstAmount <= BigInt(0)) return undefined;
+  const costInDst = (baseFee * gasLimit * nativeRate) / BigInt(10) ** BigInt(18);
+  return {
+    gasBumpEstimate: Number((costInDst * BigInt(RATE_BUMP_DENOMINATOR)) / dstAmount),
+    gasPriceEstimate: baseFee,
+  };
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - BigInt(1)) / b;
+}
+
+export interface FillOptions {
+  // Part of the order's srcAmount being filled; defaults to all of it
+  makingAmount?: bigint;
+  // Base fee in wei at fill time
+  baseFee?: bigint;
+}
+
+// Prices a fill at an arbitrary timestamp. Rounds up, in the maker's favour.
+export function evaluateFill(
+  order: AuctionOrder,
+  auction: AuctionDetails,
+  time: number,
+  { makingAmount = order.srcAmount, baseFee }: FillOptions = {}
+): AuctionQuote {
+  if (makingAmount <= BigInt(0) || makingAmount > order.srcAmount) {
+    throw new Error('Fill amount must be positive and at most the order amount');
+  }
+  const auctionBump = auctionRateBump(auction, time);
+  const gasBump = gasRateBump(auction.gasCost, baseFee);
+  const rateBump = Math.max(0, auctionBump - gasBump);
+  const takingAmount = ceilDiv(
+    order.dstAmount * makingAmount * BigInt(RATE_BUMP_DENOMINATOR + rateBump),
+    order.srcAmount * BigInt(RATE_BUMP_DENOMINATOR)
+  );
+  return { time, rateBump, auctionBump, gasBump, makingAmount, takingAmount };
+}
+
+// Whole-order quotes across the auction for charts: every corner of the curve
+// plus `samples` evenly spaced points
+export function auctionCurve(
+  order: AuctionOrder,
+  auction: AuctionDetails,
+  { samples = 20, baseFee }: { samples?: number; baseFee?: bigint } = {}
+): AuctionQuote[] {
+  const { startTime, duration, points } = auction;
+  const times = new Set<number>([startTime, startTime + duration]);
+  let corner = startTime;
+  for (const { delay } of points) {
+    corner += delay;
+    times.add(Math.min(corner, startTime + duration));
+  }
+  for (let i = 1; i < samples; i++) {
+    times.add(startTime + Math.round((duration * i) / samples));
+  }
+  return [...times]
+    .sort((a, b) => a - b)
+    .map((time) => evaluateFill(order, auction, time, { baseFee }));
+}
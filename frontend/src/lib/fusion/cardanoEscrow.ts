@@ -0,0 +1,333 @@
+import { bytesToHex, Hex } from "viem";
+import {
+  BuiltTransaction,
+  buildTransaction,
+  CardanoUtxo,
+  constr,
+  decodePlutusData,
+  encodePlutusData,
+  ExUnits,
+  fromHex,
+  isConstr,
+  paymentCredential,
+  PlutusData,
+  PlutusScript,
+  ProtocolParameters,
+  scriptAddress,
+  scriptHash,
+  SlotConfig,
+  slotToUnix,
+  toHex,
+  unixToSlot,
+} from "@/lib/cardano";
+import type { EscrowSide } from "./lifecycle";
+import type { CrossChainOrder } from "./types";
+
+// Cardano escrow UTxO for one side of a swap, locked at the escrow validator
+// (cardano/validators/escrow.ak):
+//
+//   EscrowDatum = Constr 0 [side, orderHash, hashlock, maker, taker, asset,
+//                           amount, safetyDeposit, EscrowSlots]
+//   Side = Constr 0 [] (source) | Constr 1 [] (destination)
+//   EscrowSlots = Constr 0 [withdrawal, publicWithdrawal, cancellation,
+//                           publicCancellation]
+//   Redeemer = Withdraw (Constr 0 [secret]) | Cancel (Constr 1 [])
+//
+// maker and taker are payment key hashes. A withdrawal pays the asset to the
+// taker on the source side and to the maker on the destination side; a
+// cancellation refunds whoever locked it. The safety deposit goes to the
+// caller either way. Slots are absolute; the destination has no public
+// cancellation, so it repeats the cancellation slot. The hashlock is the
+// keccak256 of a single secret, and a transaction settles one escrow at most.
+
+export interface EscrowSlots {
+  withdrawal: number;
+  publicWithdrawal: number;
+  cancellation: number;
+  publicCancellation: number;
+}
+
+export interface CardanoEscrowDatum {
+  side: EscrowSide;
+  orderHash: Hex;
+  hashlock: Hex;
+  maker: string;
+  taker: string;
+  // "lovelace" or policy id + asset name hex
+  asset: string;
+  amount: bigint;
+  // Lovelace
+  safetyDeposit: bigint;
+  slots: EscrowSlots;
+}
+
+export interface CardanoEscrow {
+  utxo: CardanoUtxo;
+  datum: CardanoEscrowDatum;
+}
+
+// What every escrow transaction needs from the chain and the caller's wallet
+export interface EscrowTxContext {
+  script: PlutusScript;
+  params: ProtocolParameters;
+  slotConfig: SlotConfig;
+  // Current slot, normally the provider's tip
+  slot: number;
+  wallet: CardanoUtxo[];
+  // Receives change and the safety deposit
+  changeAddress: string;
+  exUnits?: ExUnits;
+}
+
+interface Blueprint {
+  preamble?: { plutusVersion?: string };
+  validators?: { title?: string; compiledCode?: string; hash?: string }[];
+}
+
+const BLUEPRINT_VERSIONS: Record<string, PlutusScript['version']> = { v2: 'PlutusV2', v3: 'PlutusV3' };
+
+// The escrow script from the plutus.json `aiken build` writes, once the
+// network's slot configuration is applied (see cardano/README.md)
+export function escrowScriptFromBlueprint(blueprint: Blueprint): PlutusScript {
+  const validator = blueprint.validators?.find(({ title }) => title === 'escrow.escrow.spend');
+  const version = BLUEPRINT_VERSIONS[blueprint.preamble?.plutusVersion ?? ''];
+  if (!validator?.compiledCode) throw new Error('The blueprint has no escrow.escrow.spend validator');
+  if (!version) throw new Error(`Unsupported Plutus version ${blueprint.preamble?.plutusVersion}`);
+
+  const script: PlutusScript = { cbor: validator.compiledCode, version };
+  if (validator.hash && validator.hash !== scriptHash(script)) {
+    throw new Error('The escrow validator hash does not match its compiled code');
+  }
+  return script;
+}
+
+export function escrowDatumToPlutusData({
+  side,
+  orderHash,
+  hashlock,
+  maker,
+  taker,
+  asset,
+  amount,
+  safetyDeposit,
+  slots,
+}: CardanoEscrowDatum): PlutusData {
+  return constr(0, [
+    constr(side === 'src' ? 0 : 1),
+    fromHex(orderHash),
+    fromHex(hashlock),
+    fromHex(maker),
+    fromHex(taker),
+    asset === 'lovelace' ? new Uint8Array() : fromHex(asset),
+    amount,
+    safetyDeposit,
+    constr(0, [slots.withdrawal, slots.publicWithdrawal, slots.cancellation, slots.publicCancellation].map(BigInt)),
+  ]);
+}
+
+export function encodeEscrowDatum(datum: CardanoEscrowDatum): string {
+  return encodePlutusData(escrowDatumToPlutusData(datum));
+}
+
+function field<T>(data: PlutusData | undefined, check: (data: PlutusData) => data is T & PlutusData, what: string): T {
+  if (data === undefined || !check(data)) throw new Error(`Escrow datum: invalid ${what}`);
+  return data;
+}
+
+const isInt = (data: PlutusData): data is bigint => typeof data === 'bigint';
+const isBytes = (data: PlutusData): data is Uint8Array => data instanceof Uint8Array;
+
+export function decodeEscrowDatum(cborHex: string): CardanoEscrowDatum {
+  const data = decodePlutusData(cborHex);
+  const { fields } = field(data, isConstr, 'datum');
+  if (fields.length !== 9) throw new Error('Escrow datum: expected 9 fields');
+  const [side, orderHash, hashlock, maker, taker, asset, amount, safetyDeposit, slots] = fields;
+  const slotFields = field(slots, isConstr, 'slots').fields.map((slot) => Number(field(slot, isInt, 'slot')));
+  if (slotFields.length !== 4) throw new Error('Escrow datum: expected 4 slots');
+  const assetBytes = field(asset, isBytes, 'asset');
+
+  return {
+    side: field(side, isConstr, 'side').index === 0 ? 'src' : 'dst',
+    orderHash: bytesToHex(field(orderHash, isBytes, 'orderHash')),
+    hashlock: bytesToHex(field(hashlock, isBytes, 'hashlock')),
+    maker: toHex(field(maker, isBytes, 'maker')),
+    taker: toHex(field(taker, isBytes, 'taker')),
+    asset: assetBytes.length === 0 ? 'lovelace' : toHex(assetBytes),
+    amount: field(amount, isInt, 'amount'),
+    safetyDeposit: field(safetyDeposit, isInt, 'safetyDeposit'),
+    slots: {
+      withdrawal: slotFields[0],
+      publicWithdrawal: slotFields[1],
+      cancellation: slotFields[2],
+      publicCancellation: slotFields[3],
+    },
+  };
+}
+
+export type EscrowRedeemer = { action: 'withdraw'; secret: Hex } | { action: 'cancel' };
+
+export function decodeEscrowRedeemer(data: PlutusData): EscrowRedeemer {
+  if (isConstr(data) && data.index === 0 && data.fields.length === 1 && isBytes(data.fields[0])) {
+    return { action: 'withdraw', secret: bytesToHex(data.fields[0]) };
+  }
+  if (isConstr(data) && data.index === 1 && data.fields.length === 0) return { action: 'cancel' };
+  throw new Error('Not an escrow redeemer');
+}
+
+// Absolute slots for an escrow deployed at `deployedAt` (Unix seconds)
+export function escrowSlots(order: CrossChainOrder, side: EscrowSide, deployedAt: number, slotConfig: SlotConfig): EscrowSlots {
+  const { timelocks } = order;
+  const slot = (offset: number) => unixToSlot(deployedAt + offset, slotConfig);
+  return side === 'src'
+    ? {
+      withdrawal: slot(timelocks.srcWithdrawal),
+      publicWithdrawal: slot(timelocks.srcPublicWithdrawal),
+      cancellation: slot(timelocks.srcCancellation),
+      publicCancellation: slot(timelocks.srcPublicCancellation),
+    }
+    : {
+      withdrawal: slot(timelocks.dstWithdrawal),
+      publicWithdrawal: slot(timelocks.dstPublicWithdrawal),
+      cancellation: slot(timelocks.dstCancellation),
+      publicCancellation: slot(timelocks.dstCancellation),
+    };
+}
+
+// Escrows for an order currently sitting at the script address
+export function findEscrows(utxos: CardanoUtxo[], orderHash: Hex): CardanoEscrow[] {
+  return utxos.flatMap((utxo) => {
+    if (!utxo.inlineDatum) return [];
+    try {
+      const datum = decodeEscrowDatum(utxo.inlineDatum);
+      return datum.orderHash.toLowerCase() === orderHash.toLowerCase() ? [{ utxo, datum }] : [];
+    } catch {
+      // Someone else's output at the same address
+      return [];
+    }
+  });
+}
+
+function assetValue(asset: string, amount: bigint) {
+  return asset === 'lovelace'
+    ? { lovelace: amount, assets: {} }
+    : { lovelace: BigInt(0), assets: { [asset]: amount } };
+}
+
+function keyHash(address: string, role: string): string {
+  const credential = paymentCredential(address);
+  if (credential.type !== 'key') throw new Error(`The ${role} address must be key-locked`);
+  return credential.hash;
+}
+
+export interface LockEscrowParams {
+  order: CrossChainOrder;
+  orderHash: Hex;
+  side: EscrowSide;
+  // Resolver filling the order; pays the destination escrow itself
+  takerAddress: string;
+  // Destination amount the resolver committed to; defaults to the order minimum
+  amount?: bigint;
+}
+
+// Locks the asset plus safety deposit at the script. The source escrow is the
+// maker's own funds, the destination escrow the resolver's.
+export function buildEscrowLock(
+  { order, orderHash, side, takerAddress, amount }: LockEscrowParams,
+  { script, params, slotConfig, slot, wallet, changeAddress }: EscrowTxContext
+): BuiltTransaction & { datum: CardanoEscrowDatum } {
+  const chain = side === 'src' ? order.srcChain : order.dstChain;
+  if (chain.kind !== 'cardano') throw new Error(`The ${side} chain of this order is not Cardano`);
+
+  const datum: CardanoEscrowDatum = {
+    side,
+    orderHash,
+    hashlock: order.hashlock,
+    maker: keyHash(side === 'src' ? order.maker : order.receiver, 'maker'),
+    taker: keyHash(takerAddress, 'taker'),
+    asset: side === 'src' ? order.srcAsset : order.dstAsset,
+    amount: side === 'src' ? order.srcAmount : amount ?? order.dstAmount,
+    safetyDeposit: side === 'src' ? order.srcSafetyDeposit : order.dstSafetyDeposit,
+    slots: escrowSlots(order, side, slotToUnix(slot, slotConfig), slotConfig),
+  };
+  if (side === 'dst' && datum.amount < order.dstAmount) {
+    throw new Error('Destination amount is below the order minimum');
+  }
+
+  const locked = assetValue(datum.asset, datum.amount);
+  const tx = buildTransaction({
+    params,
+    wallet,
+    changeAddress,
+    outputs: [{
+      address: scriptAddress(script, chain.network),
+      value: { ...locked, lovelace: locked.lovelace + datum.safetyDeposit },
+      inlineDatum: encodeEscrowDatum(datum),
+    }],
+  });
+  return { ...tx, datum };
+}
+
+export interface WithdrawEscrowParams {
+  escrow: CardanoEscrow;
+  secret: Hex;
+  // Where the asset goes: the taker's address on the source side, the
+  // maker's (the order receiver) on the destination side
+  recipient: string;
+}
+
+// Redeems with the secret. Only the taker may do so until public withdrawal
+// opens, and nobody once cancellation does.
+export function buildEscrowWithdraw(
+  { escrow: { utxo, datum }, secret, recipient }: WithdrawEscrowParams,
+  { script, params, slot, wallet, changeAddress, exUnits }: EscrowTxContext
+): BuiltTransaction {
+  const { slots } = datum;
+  if (slot < slots.withdrawal) throw new Error(`Escrow cannot be withdrawn before slot ${slots.withdrawal}`);
+  if (slot >= slots.cancellation) throw new Error(`Escrow withdrawal closed at slot ${slots.cancellation}`);
+  const expected = datum.side === 'src' ? datum.taker : datum.maker;
+  if (keyHash(recipient, 'recipient') !== expected) {
+    throw new Error(`Withdrawal must pay the escrow's ${datum.side === 'src' ? 'taker' : 'maker'}`);
+  }
+
+  return buildTransaction({
+    params,
+    wallet,
+    changeAddress,
+    scriptInputs: [{ utxo, script, redeemer: constr(0, [fromHex(secret)]), exUnits }],
+    outputs: [{ address: recipient, value: assetValue(datum.asset, datum.amount) }],
+    validFrom: slot,
+    validTo: slots.cancellation,
+    requiredSigners: slot < slots.publicWithdrawal ? [datum.taker] : [],
+  });
+}
+
+export interface CancelEscrowParams {
+  escrow: CardanoEscrow;
+  // Whoever locked it: the maker on the source side, the taker on the destination side
+  refundAddress: string;
+}
+
+// Returns the asset to whoever locked it once cancellation opens; before
+// public cancellation only the taker may trigger it.
+export function buildEscrowCancel(
+  { escrow: { utxo, datum }, refundAddress }: CancelEscrowParams,
+  { script, params, slot, wallet, changeAddress, exUnits }: EscrowTxContext
+): BuiltTransaction {
+  const { slots } = datum;
+  if (slot < slots.cancellation) throw new Error(`Escrow cannot be cancelled before slot ${slots.cancellation}`);
+  const expected = datum.side === 'src' ? datum.maker : datum.taker;
+  if (keyHash(refundAddress, 'refund') !== expected) {
+    throw new Error(`Cancellation must refund the escrow's ${datum.side === 'src' ? 'maker' : 'taker'}`);
+  }
+
+  const exclusive = datum.side === 'dst' || slot < slots.publicCancellation;
+  return buildTransaction({
+    params,
+    wallet,
+    changeAddress,
+    scriptInputs: [{ utxo, script, redeemer: constr(1), exUnits }],
+    outputs: [{ address: refundAddress, value: assetValue(datum.asset, datum.amount) }],
+    validFrom: slot,
+    requiredSigners: exclusive ? [datum.taker] : [],
+  });
+}
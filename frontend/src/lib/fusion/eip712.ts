@@ -0,0 +1,94 @@
+import { Address, Hex, hashTypedData, recoverTypedDataAddress } from "viem";
+import { chainKey } from "./order";
+import type { CrossChainOrder } from "./types";
+
+// No chainId: one order spans two chains, and both are part of the message
+export const ORDER_DOMAIN = {
+  name: 'Cardano 1inch Fusion+',
+  version: '1',
+} as const;
+
+export const ORDER_TYPES = {
+  CrossChainOrder: [
+    { name: 'salt', type: 'uint256' },
+    { name: 'maker', type: 'string' },
+    { name: 'receiver', type: 'string' },
+    { name: 'srcChain', type: 'string' },
+    { name: 'srcAsset', type: 'string' },
+    { name: 'srcAmount', type: 'uint256' },
+    { name: 'dstChain', type: 'string' },
+    { name: 'dstAsset', type: 'string' },
+    { name: 'dstAmount', type: 'uint256' },
+    { name: 'srcSafetyDeposit', type: 'uint256' },
+    { name: 'dstSafetyDeposit', type: 'uint256' },
+    { name: 'hashlock', type: 'bytes32' },
+    { name: 'timelocks', type: 'Timelocks' },
+    { name: 'resolverFee', type: 'ResolverFee' },
+    { name: 'allowPartialFills', type: 'bool' },
+    { name: 'expiresAt', type: 'uint64' },
+  ],
+  Timelocks: [
+    { name: 'srcWithdrawal', type: 'uint32' },
+    { name: 'srcPublicWithdrawal', type: 'uint32' },
+    { name: 'srcCancellation', type: 'uint32' },
+    { name: 'srcPublicCancellation', type: 'uint32' },
+    { name: 'dstWithdrawal', type: 'uint32' },
+    { name: 'dstPublicWithdrawal', type: 'uint32' },
+    { name: 'dstCancellation', type: 'uint32' },
+  ],
+  ResolverFee: [
+    { name: 'bps', type: 'uint16' },
+    { name: 'receiver', type: 'string' },
+  ],
+} as const;
+
+// Arguments for viem's / wagmi's signTypedData
+export function orderTypedData(order: CrossChainOrder) {
+  return {
+    domain: ORDER_DOMAIN,
+    types: ORDER_TYPES,
+    primaryType: 'CrossChainOrder' as const,
+    message: {
+      ...order,
+      srcChain: chainKey(order.srcChain),
+      dstChain: chainKey(order.dstChain),
+      expiresAt: BigInt(order.expiresAt),
+    },
+  };
+}
+
+export type OrderTypedData = ReturnType<typeof orderTypedData>;
+
+// The order's identity on every chain; Cardano makers sign these bytes too
+export function orderHash(order: CrossChainOrder): Hex {
+  return hashTypedData(orderTypedData(order));
+}
+
+export async function recoverEip712Signer(order: CrossChainOrder, signature: Hex): Promise<Address> {
+  return recoverTypedDataAddress({ ...orderTypedData(order), signature });
+}
+
+// Makers withdraw an unfilled order from the order book by signing its hash
+export const CANCEL_TYPES = {
+  CancelOrder: [{ name: 'orderHash', type: 'bytes32' }],
+} as const;
+
+export function cancellationTypedData(orderHash: Hex) {
+  return {
+    domain: ORDER_DOMAIN,
+    types: CANCEL_TYPES,
+    primaryType: 'CancelOrder' as const,
+    message: { orderHash },
+  };
+}
+
+export type CancellationTypedData = ReturnType<typeof cancellationTypedData>;
+
+// What Cardano makers sign with CIP-30 to cancel
+export function cancellationHash(orderHash: Hex): Hex {
+  return hashTypedData(cancellationTypedData(orderHash));
+}
+
+export async function recoverCancellationSigner(orderHash: Hex, signature: Hex): Promise<Address> {
+  return recoverTypedDataAddress({ ...cancellationTypedData(orderHash), signature });
+}
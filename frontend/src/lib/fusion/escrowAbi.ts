@@ -0,0 +1,198 @@
+// ABIs of the EVM escrow contracts in contracts/src, modelled on 1inch
+// cross-chain-swap. One factory deploys a minimal clone per escrow at a
+// deterministic address; every escrow call passes the immutables back in, and
+// the escrow checks them against its address. Source escrows are created from
+// the maker's signed order itself: the factory checks the EIP-712 signature,
+// derives the immutables from the order and pulls the maker's tokens through a
+// prior approval of the factory.
+
+const IMMUTABLES = {
+  name: 'immutables',
+  type: 'tuple',
+  components: [
+    { name: 'orderHash', type: 'bytes32' },
+    { name: 'hashlock', type: 'bytes32' },
+    { name: 'maker', type: 'address' },
+    { name: 'taker', type: 'address' },
+    // Zero address for the chain's native token
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'safetyDeposit', type: 'uint256' },
+    // Packed: deployedAt in the top 32 bits, then one uint32 offset per stage
+    { name: 'timelocks', type: 'uint256' },
+  ],
+} as const;
+
+// The order as ORDER_TYPES signs it, chains as keys such as "eip155:1"
+const ORDER = {
+  name: 'order',
+  type: 'tuple',
+  components: [
+    { name: 'salt', type: 'uint256' },
+    { name: 'maker', type: 'string' },
+    { name: 'receiver', type: 'string' },
+    { name: 'srcChain', type: 'string' },
+    { name: 'srcAsset', type: 'string' },
+    { name: 'srcAmount', type: 'uint256' },
+    { name: 'dstChain', type: 'string' },
+    { name: 'dstAsset', type: 'string' },
+    { name: 'dstAmount', type: 'uint256' },
+    { name: 'srcSafetyDeposit', type: 'uint256' },
+    { name: 'dstSafetyDeposit', type: 'uint256' },
+    { name: 'hashlock', type: 'bytes32' },
+    {
+      name: 'timelocks',
+      type: 'tuple',
+      components: [
+        { name: 'srcWithdrawal', type: 'uint32' },
+        { name: 'srcPublicWithdrawal', type: 'uint32' },
+        { name: 'srcCancellation', type: 'uint32' },
+        { name: 'srcPublicCancellation', type: 'uint32' },
+        { name: 'dstWithdrawal', type: 'uint32' },
+        { name: 'dstPublicWithdrawal', type: 'uint32' },
+        { name: 'dstCancellation', type: 'uint32' },
+      ],
+    },
+    {
+      name: 'resolverFee',
+      type: 'tuple',
+      components: [
+        { name: 'bps', type: 'uint16' },
+        { name: 'receiver', type: 'string' },
+      ],
+    },
+    { name: 'allowPartialFills', type: 'bool' },
+    { name: 'expiresAt', type: 'uint64' },
+  ],
+} as const;
+
+const TRANSFER_ERRORS = [
+  { type: 'error', name: 'NativeTokenSendingFailure', inputs: [] },
+  { type: 'error', name: 'TokenTransferFailed', inputs: [] },
+] as const;
+
+const ESCROW_ERRORS = [
+  { type: 'error', name: 'InvalidCaller', inputs: [] },
+  { type: 'error', name: 'InvalidImmutables', inputs: [] },
+  { type: 'error', name: 'InvalidSecret', inputs: [] },
+  { type: 'error', name: 'InvalidTime', inputs: [] },
+  ...TRANSFER_ERRORS,
+] as const;
+
+export const ESCROW_FACTORY_ABI = [
+  {
+    type: 'function',
+    name: 'createSrcEscrow',
+    stateMutability: 'payable',
+    // The whole source amount unless the order allows partial fills
+    inputs: [ORDER, { name: 'signature', type: 'bytes' }, { name: 'amount', type: 'uint256' }],
+    outputs: [{ name: 'escrow', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'createDstEscrow',
+    stateMutability: 'payable',
+    // The destination must be cancellable before the source is
+    inputs: [IMMUTABLES, { name: 'srcCancellationTimestamp', type: 'uint256' }],
+    outputs: [{ name: 'escrow', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'addressOfEscrowSrc',
+    stateMutability: 'view',
+    inputs: [IMMUTABLES],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'addressOfEscrowDst',
+    stateMutability: 'view',
+    inputs: [IMMUTABLES],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'event',
+    name: 'SrcEscrowCreated',
+    inputs: [
+      { name: 'escrow', type: 'address', indexed: true },
+      { name: 'orderHash', type: 'bytes32', indexed: true },
+      { ...IMMUTABLES, indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'DstEscrowCreated',
+    inputs: [
+      { name: 'escrow', type: 'address', indexed: true },
+      { name: 'orderHash', type: 'bytes32', indexed: true },
+      { ...IMMUTABLES, indexed: false },
+    ],
+  },
+  { type: 'error', name: 'InsufficientEscrowBalance', inputs: [] },
+  { type: 'error', name: 'InvalidAddress', inputs: [] },
+  { type: 'error', name: 'InvalidCreationTime', inputs: [] },
+  { type: 'error', name: 'InvalidFillAmount', inputs: [] },
+  { type: 'error', name: 'InvalidOrder', inputs: [] },
+  { type: 'error', name: 'InvalidSignature', inputs: [] },
+  { type: 'error', name: 'OrderExpired', inputs: [] },
+  { type: 'error', name: 'PartialFillsUnsupported', inputs: [] },
+  { type: 'error', name: 'ProxyDeploymentFailed', inputs: [] },
+  ...TRANSFER_ERRORS,
+] as const;
+
+// Source and destination escrows share this surface; publicCancel exists on
+// source escrows only
+export const ESCROW_ABI = [
+  {
+    type: 'function',
+    name: 'withdraw',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'secret', type: 'bytes32' }, IMMUTABLES],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'publicWithdraw',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'secret', type: 'bytes32' }, IMMUTABLES],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'cancel',
+    stateMutability: 'nonpayable',
+    inputs: [IMMUTABLES],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'publicCancel',
+    stateMutability: 'nonpayable',
+    inputs: [IMMUTABLES],
+    outputs: [],
+  },
+  {
+    type: 'event',
+    name: 'EscrowWithdrawal',
+    inputs: [{ name: 'secret', type: 'bytes32', indexed: false }],
+  },
+  { type: 'event', name: 'EscrowCancelled', inputs: [] },
+  ...ESCROW_ERRORS,
+] as const;
+
+export const ERC20_APPROVE_ABI = [
+  {
+    type: 'function',
+    name: 'allowance',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }, { name: 'spender', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'approve',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'spender', type: 'address' }, { name: 'amount', type: 'uint256' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+] as const;
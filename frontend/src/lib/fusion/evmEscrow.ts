@@ -0,0 +1,273 @@
+import {
+  Address,
+  Hex,
+  isAddressEqual,
+  Log,
+  parseEventLogs,
+  PublicClient,
+  TransactionReceipt,
+  WalletClient,
+  zeroAddress,
+} from "viem";
+import { NATIVE_TOKEN_ADDRESS } from "@/lib/chains";
+import { orderTypedData } from "./eip712";
+import { ERC20_APPROVE_ABI, ESCROW_ABI, ESCROW_FACTORY_ABI } from "./escrowAbi";
+import type { EscrowSide } from "./lifecycle";
+import { TIMELOCK_FIELDS } from "./order";
+import type { SignedOrder, Timelocks } from "./types";
+
+// Per-escrow parameters; the escrow address is derived from their hash
+export interface EscrowImmutables {
+  orderHash: Hex;
+  hashlock: Hex;
+  maker: Address;
+  taker: Address;
+  token: Address;
+  amount: bigint;
+  safetyDeposit: bigint;
+  timelocks: bigint;
+}
+
+export interface EvmEscrowDeployment {
+  txHash: Hex;
+  escrow: Address;
+  // As stamped by the factory; pass these to every later escrow call
+  immutables: EscrowImmutables;
+  // Unix seconds
+  deployedAt: number;
+}
+
+export type EscrowEvent =
+  | { type: 'created'; side: EscrowSide; escrow: Address; immutables: EscrowImmutables }
+  | { type: 'withdrawn'; escrow: Address; secret: Hex }
+  | { type: 'cancelled'; escrow: Address };
+
+const STAGE_BITS = BigInt(32);
+const STAGE_MASK = (BigInt(1) << STAGE_BITS) - BigInt(1);
+// deployedAt occupies the top 32 bits
+const DEPLOYED_AT_SHIFT = BigInt(224);
+
+export function packTimelocks(timelocks: Timelocks, deployedAt = 0): bigint {
+  return TIMELOCK_FIELDS.reduce(
+    (packed, field, stage) => packed | (BigInt(timelocks[field]) << (STAGE_BITS * BigInt(stage))),
+    BigInt(deployedAt) << DEPLOYED_AT_SHIFT
+  );
+}
+
+export function unpackTimelocks(packed: bigint): { timelocks: Timelocks; deployedAt: number } {
+  const stage = (field: keyof Timelocks) =>
+    Number((packed >> (STAGE_BITS * BigInt(TIMELOCK_FIELDS.indexOf(field)))) & STAGE_MASK);
+  const timelocks: Timelocks = {
+    srcWithdrawal: stage('srcWithdrawal'),
+    srcPublicWithdrawal: stage('srcPublicWithdrawal'),
+    srcCancellation: stage('srcCancellation'),
+    srcPublicCancellation: stage('srcPublicCancellation'),
+    dstWithdrawal: stage('dstWithdrawal'),
+    dstPublicWithdrawal: stage('dstPublicWithdrawal'),
+    dstCancellation: stage('dstCancellation'),
+  };
+  return { timelocks, deployedAt: Number(packed >> DEPLOYED_AT_SHIFT) };
+}
+
+// Contracts use the zero address for the native token, the 1inch APIs 0xeeee…
+export function escrowToken(asset: string): Address {
+  return asset.toLowerCase() === NATIVE_TOKEN_ADDRESS ? zeroAddress : asset as Address;
+}
+
+export interface ImmutablesParams {
+  side: EscrowSide;
+  // Resolver address that deploys and exclusively settles the escrow
+  taker: Address;
+  // Defaults to srcAmount / dstAmount; a destination fill may pay more
+  amount?: bigint;
+  // The factory stamps its own block time on creation
+  deployedAt?: number;
+}
+
+export function escrowImmutables(
+  { order, orderHash }: SignedOrder,
+  { side, taker, amount, deployedAt = 0 }: ImmutablesParams
+): EscrowImmutables {
+  const chain = side === 'src' ? order.srcChain : order.dstChain;
+  if (chain.kind !== 'evm') throw new Error(`The ${side} chain of this order is not an EVM chain`);
+  return {
+    orderHash,
+    hashlock: order.hashlock,
+    maker: (side === 'src' ? order.maker : order.receiver) as Address,
+    taker,
+    token: escrowToken(side === 'src' ? order.srcAsset : order.dstAsset),
+    amount: amount ?? (side === 'src' ? order.srcAmount : order.dstAmount),
+    safetyDeposit: side === 'src' ? order.srcSafetyDeposit : order.dstSafetyDeposit,
+    timelocks: packTimelocks(order.timelocks, deployedAt),
+  };
+}
+
+// Factory and escrow events in a receipt or log query, in log order
+export function parseEscrowEvents(logs: Log[]): EscrowEvent[] {
+  return parseEventLogs({ abi: [...ESCROW_FACTORY_ABI, ...ESCROW_ABI], logs }).map((log): EscrowEvent => {
+    switch (log.eventName) {
+      case 'SrcEscrowCreated':
+      case 'DstEscrowCreated':
+        return {
+          type: 'created',
+          side: log.eventName === 'SrcEscrowCreated' ? 'src' : 'dst',
+          escrow: log.args.escrow,
+          immutables: { ...log.args.immutables },
+        };
+      case 'EscrowWithdrawal':
+        return { type: 'withdrawn', escrow: log.address, secret: log.args.secret };
+      case 'EscrowCancelled':
+        return { type: 'cancelled', escrow: log.address };
+    }
+  });
+}
+
+export interface EvmEscrowClientOptions {
+  publicClient: PublicClient;
+  // Needed for anything that sends a transaction
+  walletClient?: WalletClient;
+  factory: Address;
+}
+
+// Typed access to the escrow factory and escrows on one EVM chain, for the
+// swap UI (through wagmi's clients) and the resolver alike
+export function createEvmEscrowClient({ publicClient, walletClient, factory }: EvmEscrowClientOptions) {
+  const wallet = () => {
+    if (!walletClient?.account) {
+      throw new Error('Sending escrow transactions needs a wallet client with an account');
+    }
+    return { client: walletClient, account: walletClient.account };
+  };
+
+  const confirm = async (hash: Hex): Promise<TransactionReceipt> => {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error(`Escrow transaction ${hash} reverted`);
+    }
+    return receipt;
+  };
+
+  const created = async (hash: Hex, side: EscrowSide): Promise<EvmEscrowDeployment> => {
+    const receipt = await confirm(hash);
+    const event = parseEscrowEvents(receipt.logs)
+      .find((entry) => entry.type === 'created' && entry.side === side);
+    if (event?.type !== 'created') {
+      throw new Error(`Transaction ${hash} did not create a ${side} escrow`);
+    }
+    const { deployedAt } = unpackTimelocks(event.immutables.timelocks);
+    return { txHash: hash, escrow: event.escrow, immutables: event.immutables, deployedAt };
+  };
+
+  return {
+    factory,
+
+    async addressOf(side: EscrowSide, immutables: EscrowImmutables): Promise<Address> {
+      return publicClient.readContract({
+        address: factory,
+        abi: ESCROW_FACTORY_ABI,
+        functionName: side === 'src' ? 'addressOfEscrowSrc' : 'addressOfEscrowDst',
+        args: [immutables],
+      });
+    },
+
+    // Lets the factory pull `amount` of an ERC-20; returns the approval hash, once mined, if one was needed
+    async approve(token: Address, amount: bigint): Promise<Hex | undefined> {
+      if (isAddressEqual(token, zeroAddress)) return undefined;
+      const { client, account } = wallet();
+      const allowance = await publicClient.readContract({
+        address: token,
+        abi: ERC20_APPROVE_ABI,
+        functionName: 'allowance',
+        args: [account.address, factory],
+      });
+      if (allowance >= amount) return undefined;
+      const hash = await client.writeContract({
+        account,
+        chain: client.chain ?? null,
+        address: token,
+        abi: ERC20_APPROVE_ABI,
+        functionName: 'approve',
+        args: [factory, amount],
+      });
+      await confirm(hash);
+      return hash;
+    },
+
+    // Sent by the resolver with the safety deposit. The factory checks the
+    // maker's signature over the order and builds the immutables from it, with
+    // the sender as taker; the maker's tokens move under their earlier approval.
+    async deploySrc({ order, signature }: SignedOrder, amount = order.srcAmount): Promise<EvmEscrowDeployment> {
+      if (signature.scheme !== 'eip712') {
+        throw new Error('EVM source escrows need an EIP-712 order signature');
+      }
+      // The factory refuses them: its escrows release on a single secret
+      if (order.allowPartialFills) {
+        throw new Error('The escrow factory does not fill orders that allow partial fills');
+      }
+      const { client, account } = wallet();
+      const hash = await client.writeContract({
+        account,
+        chain: client.chain ?? null,
+        address: factory,
+        abi: ESCROW_FACTORY_ABI,
+        functionName: 'createSrcEscrow',
+        args: [orderTypedData(order).message, signature.signature, amount],
+        value: order.srcSafetyDeposit,
+      });
+      return created(hash, 'src');
+    },
+
+    // ERC-20 amounts need approve() first; native amounts ride along with the deposit
+    async deployDst(immutables: EscrowImmutables, srcCancellationTimestamp: bigint): Promise<EvmEscrowDeployment> {
+      const { client, account } = wallet();
+      const native = isAddressEqual(immutables.token, zeroAddress);
+      const hash = await client.writeContract({
+        account,
+        chain: client.chain ?? null,
+        address: factory,
+        abi: ESCROW_FACTORY_ABI,
+        functionName: 'createDstEscrow',
+        args: [immutables, srcCancellationTimestamp],
+        value: immutables.safetyDeposit + (native ? immutables.amount : BigInt(0)),
+      });
+      return created(hash, 'dst');
+    },
+
+    // The taker withdraws during the exclusive window; anyone may once it is public
+    async withdraw(escrow: Address, immutables: EscrowImmutables, secret: Hex, { publicly = false } = {}): Promise<Hex> {
+      const { client, account } = wallet();
+      const hash = await client.writeContract({
+        account,
+        chain: client.chain ?? null,
+        address: escrow,
+        abi: ESCROW_ABI,
+        functionName: publicly ? 'publicWithdraw' : 'withdraw',
+        args: [secret, immutables],
+      });
+      await confirm(hash);
+      return hash;
+    },
+
+    async cancel(escrow: Address, immutables: EscrowImmutables, { publicly = false } = {}): Promise<Hex> {
+      const { client, account } = wallet();
+      const hash = await client.writeContract({
+        account,
+        chain: client.chain ?? null,
+        address: escrow,
+        abi: ESCROW_ABI,
+        functionName: publicly ? 'publicCancel' : 'cancel',
+        args: [immutables],
+      });
+      await confirm(hash);
+      return hash;
+    },
+
+    // Escrow events emitted by a transaction, e.g. to recover immutables later
+    async events(txHash: Hex): Promise<EscrowEvent[]> {
+      const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+      return parseEscrowEvents(receipt.logs);
+    },
+  };
+}
+
+export type EvmEscrowClient = ReturnType<typeof createEvmEscrowClient>;
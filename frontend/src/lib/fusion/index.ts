@@ -0,0 +1,12 @@
+export * from "./auction";
+export * from "./cardanoEscrow";
+export * from "./eip712";
+export * from "./escrowAbi";
+export * from "./evmEscrow";
+export * from "./lifecycle";
+export * from "./order";
+export * from "./schemas";
+export * from "./secrets";
+export * from "./signature";
+export * from "./store";
+export type * from "./types";
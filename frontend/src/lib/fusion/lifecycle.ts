@@ -0,0 +1,226 @@
+import type { CrossChainOrder, Timelocks } from "./types";
+
+// Order progress. Escrows go up source first; the maker reveals the secret
+// once both are final, and the order is done when both sides are withdrawn
+// (or refunded after the cancellation windows open).
+export type OrderState =
+  | 'announced'
+  | 'src-escrow-deployed'
+  | 'dst-escrow-deployed'
+  | 'secret-revealed'
+  | 'withdrawn'
+  | 'cancelled'
+  | 'expired';
+
+export type EscrowSide = 'src' | 'dst';
+
+// Window an escrow is in, counted from its deployment. The destination escrow
+// has no public cancellation: only the resolver that funded it can be refunded.
+export type EscrowPhase =
+  | 'finality-lock'
+  | 'exclusive-withdraw'
+  | 'public-withdraw'
+  | 'cancellation'
+  | 'public-cancellation';
+
+export type LifecycleEvent =
+  | { type: 'transition'; orderHash?: string; from: OrderState; to: OrderState; at: number }
+  | { type: 'phase'; orderHash?: string; side: EscrowSide; phase: EscrowPhase; at: number };
+
+export type LifecycleListener = (event: LifecycleEvent) => void;
+
+export class LifecycleTransitionError extends Error {
+  constructor(public readonly from: OrderState, action: string, reason?: string) {
+    super(`Cannot ${action} while the order is ${from}${reason ? `: ${reason}` : ''}`);
+    this.name = 'LifecycleTransitionError';
+  }
+}
+
+// Phase of one side's escrow `now - deployedAt` seconds after deployment
+export function escrowPhase(timelocks: Timelocks, side: EscrowSide, deployedAt: number, now: number): EscrowPhase {
+  const elapsed = now - deployedAt;
+  if (side === 'src') {
+    if (elapsed < timelocks.srcWithdrawal) return 'finality-lock';
+    if (elapsed < timelocks.srcPublicWithdrawal) return 'exclusive-withdraw';
+    if (elapsed < timelocks.srcCancellation) return 'public-withdraw';
+    if (elapsed < timelocks.srcPublicCancellation) return 'cancellation';
+    return 'public-cancellation';
+  }
+  if (elapsed < timelocks.dstWithdrawal) return 'finality-lock';
+  if (elapsed < timelocks.dstPublicWithdrawal) return 'exclusive-withdraw';
+  if (elapsed < timelocks.dstCancellation) return 'public-withdraw';
+  return 'cancellation';
+}
+
+const WITHDRAWABLE: EscrowPhase[] = ['exclusive-withdraw', 'public-withdraw'];
+const CANCELLABLE: EscrowPhase[] = ['cancellation', 'public-cancellation'];
+
+export interface LifecycleSnapshot {
+  state: OrderState;
+  // Unix seconds of each recorded step
+  srcDeployedAt?: number;
+  dstDeployedAt?: number;
+  revealedAt?: number;
+  withdrawn: EscrowSide[];
+  cancelled: EscrowSide[];
+  // Last phase announced per side, so restored machines do not re-emit it
+  phases: Partial<Record<EscrowSide, EscrowPhase>>;
+}
+
+export interface LifecycleOptions {
+  // Unix seconds; inject a fake clock in tests
+  now?: () => number;
+  orderHash?: string;
+  snapshot?: LifecycleSnapshot;
+}
+
+// States no record*() call or tick can leave
+export const TERMINAL_STATES: OrderState[] = ['withdrawn', 'cancelled', 'expired'];
+
+// Deterministic lifecycle of one order: every change comes from a record*()
+// call or from tick() observing the clock, and is announced to subscribers
+export function createOrderLifecycle(
+  order: Pick<CrossChainOrder, 'timelocks' | 'expiresAt'>,
+  { now = () => Math.floor(Date.now() / 1000), orderHash, snapshot }: LifecycleOptions = {}
+) {
+  const state: LifecycleSnapshot = snapshot
+    ? { ...snapshot, withdrawn: [...snapshot.withdrawn], cancelled: [...snapshot.cancelled], phases: { ...snapshot.phases } }
+    : { state: 'announced', withdrawn: [], cancelled: [], phases: {} };
+  const listeners = new Set<LifecycleListener>();
+
+  const emit = (event: LifecycleEvent) => {
+    for (const listener of [...listeners]) listener(event);
+  };
+
+  const transition = (to: OrderState, at: number) => {
+    const from = state.state;
+    if (from === to) return;
+    state.state = to;
+    emit({ type: 'transition', orderHash, from, to, at });
+  };
+
+  const deployedAt = (side: EscrowSide) => (side === 'src' ? state.srcDeployedAt : state.dstDeployedAt);
+
+  const phase = (side: EscrowSide, at = now()): EscrowPhase | undefined => {
+    const deployed = deployedAt(side);
+    return deployed === undefined ? undefined : escrowPhase(order.timelocks, side, deployed, at);
+  };
+
+  const assertState = (allowed: OrderState[], action: string) => {
+    if (!allowed.includes(state.state)) {
+      throw new LifecycleTransitionError(state.state, action);
+    }
+  };
+
+  // Announces phase changes and applies the clock-driven transitions
+  const tick = (at = now()) => {
+    for (const side of ['src', 'dst'] as const) {
+      const current = phase(side, at);
+      if (current && current !== state.phases[side] && !state.withdrawn.includes(side) && !state.cancelled.includes(side)) {
+        state.phases[side] = current;
+        emit({ type: 'phase', orderHash, side, phase: current, at });
+      }
+    }
+    if (state.state === 'announced' && at >= order.expiresAt) {
+      transition('expired', at);
+    }
+  };
+
+  // Whether the maker may hand out the secret now: both escrows exist and are
+  // past finality, and neither can be cancelled yet
+  const canRevealSecret = (at = now()): boolean => {
+    if (state.state !== 'dst-escrow-deployed') return false;
+    const src = phase('src', at);
+    const dst = phase('dst', at);
+    return !!src && !!dst && WITHDRAWABLE.includes(src) && WITHDRAWABLE.includes(dst);
+  };
+
+  const settle = (at: number) => {
+    const deployedSides = (['src', 'dst'] as const).filter((side) => deployedAt(side) !== undefined);
+    const closed = (side: EscrowSide) => state.withdrawn.includes(side) || state.cancelled.includes(side);
+    if (!deployedSides.every(closed)) return;
+    transition(state.withdrawn.length === deployedSides.length ? 'withdrawn' : 'cancelled', at);
+  };
+
+  return {
+    get state(): OrderState {
+      return state.state;
+    },
+
+    get isTerminal(): boolean {
+      return TERMINAL_STATES.includes(state.state);
+    },
+
+    phase,
+    canRevealSecret,
+    tick,
+
+    recordSrcEscrowDeployed(at = now()) {
+      assertState(['announced'], 'deploy the source escrow');
+      if (at >= order.expiresAt) {
+        throw new LifecycleTransitionError(state.state, 'deploy the source escrow', 'the order has expired');
+      }
+      state.srcDeployedAt = at;
+      transition('src-escrow-deployed', at);
+      tick(at);
+    },
+
+    recordDstEscrowDeployed(at = now()) {
+      assertState(['src-escrow-deployed'], 'deploy the destination escrow');
+      // Too late once the maker can already take the source funds back
+      if (CANCELLABLE.includes(phase('src', at)!)) {
+        throw new LifecycleTransitionError(state.state, 'deploy the destination escrow', 'the source escrow is cancellable');
+      }
+      state.dstDeployedAt = at;
+      transition('dst-escrow-deployed', at);
+      tick(at);
+    },
+
+    recordSecretRevealed(at = now()) {
+      assertState(['dst-escrow-deployed'], 'reveal the secret');
+      if (!canRevealSecret(at)) {
+        throw new LifecycleTransitionError(state.state, 'reveal the secret', 'an escrow is not in a withdrawal window');
+      }
+      state.revealedAt = at;
+      transition('secret-revealed', at);
+    },
+
+    recordWithdrawn(side: EscrowSide, at = now()) {
+      assertState(['secret-revealed'], `withdraw the ${side} escrow`);
+      const current = phase(side, at)!;
+      // Both escrows refuse a withdrawal once their cancellation window opens
+      if (!WITHDRAWABLE.includes(current)) {
+        throw new LifecycleTransitionError(state.state, `withdraw the ${side} escrow`, `it is in ${current}`);
+      }
+      if (!state.withdrawn.includes(side)) state.withdrawn.push(side);
+      settle(at);
+    },
+
+    recordCancelled(side: EscrowSide, at = now()) {
+      assertState(['src-escrow-deployed', 'dst-escrow-deployed', 'secret-revealed'], `cancel the ${side} escrow`);
+      const current = phase(side, at);
+      if (!current || !CANCELLABLE.includes(current)) {
+        throw new LifecycleTransitionError(state.state, `cancel the ${side} escrow`, current ? `it is in ${current}` : 'it is not deployed');
+      }
+      if (!state.cancelled.includes(side)) state.cancelled.push(side);
+      settle(at);
+    },
+
+    // The maker withdraws an order no resolver has started filling
+    recordOrderCancelled(at = now()) {
+      assertState(['announced'], 'cancel the order');
+      transition('cancelled', at);
+    },
+
+    subscribe(listener: LifecycleListener): () => void {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    snapshot(): LifecycleSnapshot {
+      return { ...state, withdrawn: [...state.withdrawn], cancelled: [...state.cancelled], phases: { ...state.phases } };
+    },
+  };
+}
+
+export type OrderLifecycle = ReturnType<typeof createOrderLifecycle>;
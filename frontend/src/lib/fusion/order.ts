@@ -0,0 +1,116 @@
+import { bytesToBigInt } from "viem";
+import { parseInput } from "@/lib/validation";
+import { crossChainOrderSchema } from "./schemas";
+import type { ChainRef, CrossChainOrder, Timelocks } from "./types";
+
+// Phase offsets used when the caller does not pick its own
+export const DEFAULT_TIMELOCKS: Timelocks = {
+  srcWithdrawal: 60,
+  srcPublicWithdrawal: 600,
+  srcCancellation: 1800,
+  srcPublicCancellation: 2400,
+  dstWithdrawal: 60,
+  dstPublicWithdrawal: 540,
+  dstCancellation: 1500,
+};
+
+// Stage order shared by the Cardano datum and the packed EVM timelocks
+export const TIMELOCK_FIELDS: readonly (keyof Timelocks)[] = [
+  'srcWithdrawal',
+  'srcPublicWithdrawal',
+  'srcCancellation',
+  'srcPublicCancellation',
+  'dstWithdrawal',
+  'dstPublicWithdrawal',
+  'dstCancellation',
+];
+
+// Orders stay fillable for an hour unless told otherwise
+const DEFAULT_ORDER_LIFETIME_SECONDS = 3600;
+
+// CAIP-2 style key, e.g. "eip155:1" or "cardano:mainnet"
+export function chainKey(chain: ChainRef): string {
+  return chain.kind === 'evm' ? `eip155:${chain.chainId}` : `cardano:${chain.network}`;
+}
+
+export function parseChainKey(key: string): ChainRef | undefined {
+  const [namespace, reference] = key.split(':');
+  if (namespace === 'eip155' && /^\d+$/.test(reference ?? '')) {
+    return { kind: 'evm', chainId: Number(reference) };
+  }
+  if (namespace === 'cardano' && (reference === 'mainnet' || reference === 'testnet')) {
+    return { kind: 'cardano', network: reference };
+  }
+  return undefined;
+}
+
+export function randomSalt(): bigint {
+  return bytesToBigInt(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export type CreateOrderParams = Pick<
+  CrossChainOrder,
+  'maker' | 'receiver' | 'srcChain' | 'srcAsset' | 'srcAmount' | 'dstChain' | 'dstAsset' | 'dstAmount' | 'hashlock'
+> & Partial<Omit<CrossChainOrder, 'timelocks'>> & {
+  timelocks?: Partial<Timelocks>;
+  // Unix seconds; defaults to the current time
+  now?: number;
+};
+
+// Fills in defaults and validates; invalid orders throw RequestValidationError
+export function createOrder({ now = Math.floor(Date.now() / 1000), timelocks, ...params }: CreateOrderParams): CrossChainOrder {
+  return parseInput(crossChainOrderSchema, toOrderJson({
+    salt: randomSalt(),
+    srcSafetyDeposit: BigInt(0),
+    dstSafetyDeposit: BigInt(0),
+    resolverFee: { bps: 0, receiver: '' },
+    allowPartialFills: false,
+    expiresAt: now + DEFAULT_ORDER_LIFETIME_SECONDS,
+    ...params,
+    timelocks: { ...DEFAULT_TIMELOCKS, ...timelocks },
+  }));
+}
+
+type Jsonify<T> = T extends bigint ? string : T extends object ? { [K in keyof T]: Jsonify<T[K]> } : T;
+
+// JSON-safe form with integers as decimal strings
+export type OrderJson = Jsonify<CrossChainOrder>;
+
+export function toOrderJson(order: CrossChainOrder): OrderJson {
+  return {
+    ...order,
+    salt: order.salt.toString(),
+    srcAmount: order.srcAmount.toString(),
+    dstAmount: order.dstAmount.toString(),
+    srcSafetyDeposit: order.srcSafetyDeposit.toString(),
+    dstSafetyDeposit: order.dstSafetyDeposit.toString(),
+  };
+}
+
+// Validates an order received as JSON (e.g. from a request body)
+export function parseOrder(value: unknown): CrossChainOrder {
+  return parseInput(crossChainOrderSchema, value);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+// Canonical JSON: sorted keys, integers as decimal strings, no whitespace
+export function serializeOrder(order: CrossChainOrder): string {
+  return JSON.stringify(sortKeys(toOrderJson(order)));
+}
+
+export function deserializeOrder(json: string): CrossChainOrder {
+  return parseOrder(JSON.parse(json));
+}
+
+export function isExpired(order: CrossChainOrder, now = Math.floor(Date.now() / 1000)): boolean {
+  return now >= order.expiresAt;
+}
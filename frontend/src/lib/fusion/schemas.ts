@@ -0,0 +1,165 @@
+import { Hex, isAddress } from "viem";
+import { z } from "zod";
+import { addressFromBech32, addressNetwork } from "@/lib/cardano";
+import type { AuctionDetails } from "./auction";
+import type { ChainRef, CrossChainOrder } from "./types";
+
+const UINT32_MAX = 2 ** 32 - 1;
+
+const amount = (name: string) =>
+  z
+    .union([z.string().regex(/^\d+$/), z.number().int().nonnegative(), z.bigint().nonnegative()], {
+      errorMap: () => ({ message: `${name} must be a non-negative integer` }),
+    })
+    .transform((value) => BigInt(value));
+
+const seconds = (name: string) =>
+  z.number({ invalid_type_error: `${name} must be a number of seconds` })
+    .int(`${name} must be a whole number of seconds`)
+    .min(0, `${name} must not be negative`)
+    .max(UINT32_MAX, `${name} is too large`);
+
+export const chainRefSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('evm'), chainId: z.number().int().positive() }),
+  z.object({ kind: z.literal('cardano'), network: z.enum(['mainnet', 'testnet']) }),
+], { errorMap: () => ({ message: "Chain must be { kind: 'evm', chainId } or { kind: 'cardano', network }" }) });
+
+export const timelocksSchema = z.object({
+  srcWithdrawal: seconds('srcWithdrawal'),
+  srcPublicWithdrawal: seconds('srcPublicWithdrawal'),
+  srcCancellation: seconds('srcCancellation'),
+  srcPublicCancellation: seconds('srcPublicCancellation'),
+  dstWithdrawal: seconds('dstWithdrawal'),
+  dstPublicWithdrawal: seconds('dstPublicWithdrawal'),
+  dstCancellation: seconds('dstCancellation'),
+});
+
+// Whether `value` is an address on `chain`
+export function isChainAddress(chain: ChainRef, value: string): boolean {
+  if (chain.kind === 'evm') {
+    return isAddress(value, { strict: false });
+  }
+  try {
+    addressFromBech32(value);
+    return addressNetwork(value) === chain.network;
+  } catch {
+    return false;
+  }
+}
+
+// ERC-20 address on EVM; "lovelace" or policy id (28 bytes) + asset name (≤ 32 bytes) on Cardano
+export function isChainAsset(chain: ChainRef, value: string): boolean {
+  if (chain.kind === 'evm') {
+    return isAddress(value, { strict: false });
+  }
+  return value === 'lovelace' || /^[0-9a-f]{56}(?:[0-9a-f]{2}){0,32}$/.test(value);
+}
+
+// Lowercases EVM addresses so equal orders hash the same regardless of checksum casing
+function canonical(chain: ChainRef, value: string): string {
+  return chain.kind === 'evm' ? value.toLowerCase() : value;
+}
+
+// JSON form of a CrossChainOrder: integers may arrive as decimal strings
+export const crossChainOrderSchema = z
+  .object({
+    salt: amount('salt'),
+    maker: z.string({ required_error: 'maker is required' }),
+    receiver: z.string({ required_error: 'receiver is required' }),
+    srcChain: chainRefSchema,
+    srcAsset: z.string({ required_error: 'srcAsset is required' }),
+    srcAmount: amount('srcAmount'),
+    dstChain: chainRefSchema,
+    dstAsset: z.string({ required_error: 'dstAsset is required' }),
+    dstAmount: amount('dstAmount'),
+    srcSafetyDeposit: amount('srcSafetyDeposit'),
+    dstSafetyDeposit: amount('dstSafetyDeposit'),
+    hashlock: z
+      .string({ required_error: 'hashlock is required' })
+      .regex(/^0x[0-9a-fA-F]{64}$/, 'hashlock must be a 32-byte hex string')
+      .transform((value) => value.toLowerCase() as Hex),
+    timelocks: timelocksSchema,
+    resolverFee: z.object({
+      bps: z.number().int().min(0).max(10_000, 'resolverFee.bps must be at most 10000'),
+      receiver: z.string().default(''),
+    }),
+    allowPartialFills: z.boolean().default(false),
+    expiresAt: z.number().int().positive('expiresAt must be a unix timestamp in seconds'),
+  })
+  .superRefine((order, ctx) => {
+    const issue = (path: string, message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: path.split('.'), message });
+    const { srcChain, dstChain, timelocks: t } = order;
+
+    if (JSON.stringify(srcChain) === JSON.stringify(dstChain)) {
+      issue('dstChain', 'Source and destination chains must differ');
+    }
+    if (!isChainAddress(srcChain, order.maker)) issue('maker', 'maker is not an address on the source chain');
+    if (!isChainAddress(dstChain, order.receiver)) issue('receiver', 'receiver is not an address on the destination chain');
+    if (!isChainAsset(srcChain, order.srcAsset)) issue('srcAsset', 'srcAsset is not an asset on the source chain');
+    if (!isChainAsset(dstChain, order.dstAsset)) issue('dstAsset', 'dstAsset is not an asset on the destination chain');
+    if (order.srcAmount === BigInt(0)) issue('srcAmount', 'srcAmount must be positive');
+    if (order.dstAmount === BigInt(0)) issue('dstAmount', 'dstAmount must be positive');
+    if (order.resolverFee.receiver && !isChainAddress(dstChain, order.resolverFee.receiver)) {
+      issue('resolverFee.receiver', 'resolverFee.receiver is not an address on the destination chain');
+    }
+
+    // Each side's phases must follow one another, and the destination escrow
+    // must become cancellable before the source one so the resolver is never
+    // left with the maker's funds refunded while its own are still locked
+    const ordered: [keyof typeof t, keyof typeof t][] = [
+      ['srcWithdrawal', 'srcPublicWithdrawal'],
+      ['srcPublicWithdrawal', 'srcCancellation'],
+      ['srcCancellation', 'srcPublicCancellation'],
+      ['dstWithdrawal', 'dstPublicWithdrawal'],
+      ['dstPublicWithdrawal', 'dstCancellation'],
+      ['dstCancellation', 'srcCancellation'],
+    ];
+    for (const [earlier, later] of ordered) {
+      if (t[earlier] >= t[later]) issue(`timelocks.${later}`, `timelocks.${later} must be after ${earlier}`);
+    }
+  })
+  .transform((order): CrossChainOrder => ({
+    ...order,
+    maker: canonical(order.srcChain, order.maker),
+    receiver: canonical(order.dstChain, order.receiver),
+    srcAsset: canonical(order.srcChain, order.srcAsset),
+    dstAsset: canonical(order.dstChain, order.dstAsset),
+    resolverFee: { ...order.resolverFee, receiver: canonical(order.dstChain, order.resolverFee.receiver) },
+  }));
+
+const rateBump = (name: string) =>
+  z.number({ invalid_type_error: `${name} must be a number` })
+    .int(`${name} must be an integer`)
+    .min(0, `${name} must not be negative`);
+
+// JSON form of AuctionDetails: gasPriceEstimate may arrive as a decimal string
+export const auctionDetailsSchema = z
+  .object({
+    startTime: z.number().int().positive('startTime must be a unix timestamp in seconds'),
+    duration: z.number().int().positive('duration must be a positive number of seconds'),
+    initialRateBump: rateBump('initialRateBump'),
+    points: z.array(z.object({ delay: seconds('delay'), rateBump: rateBump('rateBump') })).default([]),
+    gasCost: z.object({
+      gasBumpEstimate: rateBump('gasBumpEstimate'),
+      gasPriceEstimate: amount('gasPriceEstimate'),
+    }).optional(),
+  })
+  .refine(
+    ({ duration, points }) => points.reduce((sum, { delay }) => sum + delay, 0) <= duration,
+    { message: 'Auction points must fall within the auction duration', path: ['points'] }
+  )
+  .transform((auction): AuctionDetails => auction);
+
+export const orderSignatureSchema = z.discriminatedUnion('scheme', [
+  z.object({
+    scheme: z.literal('eip712'),
+    signature: z.string().regex(/^0x[0-9a-fA-F]+$/, 'Invalid signature').transform((value) => value as Hex),
+  }),
+  z.object({ scheme: z.literal('cip30'), signature: z.string().regex(/^[0-9a-f]+$/i), key: z.string().regex(/^[0-9a-f]+$/i) }),
+], { errorMap: () => ({ message: "Signature scheme must be 'eip712' or 'cip30'" }) });
+
+export const signedOrderSchema = z.object({
+  order: crossChainOrderSchema,
+  signature: orderSignatureSchema,
+});
@@ -0,0 +1,227 @@
+import { bytesToHex, concat, Hex, hexToBigInt, keccak256, numberToHex, sha256 } from "viem";
+import { blake2b256, fromHex } from "@/lib/cardano";
+
+// Hash functions both escrows can check: keccak256 natively on EVM (and as a
+// Plutus V3 builtin), sha256 on both, blake2b256 natively on Cardano
+export type HashAlgorithm = 'keccak256' | 'sha256' | 'blake2b256';
+
+export function hashBytes(data: Hex, algorithm: HashAlgorithm = 'keccak256'): Hex {
+  switch (algorithm) {
+    case 'keccak256':
+      return keccak256(data);
+    case 'sha256':
+      return sha256(data);
+    case 'blake2b256':
+      return bytesToHex(blake2b256(fromHex(data)));
+  }
+}
+
+export function generateSecret(): Hex {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export function hashSecret(secret: Hex, algorithm: HashAlgorithm = 'keccak256'): Hex {
+  return hashBytes(secret, algorithm);
+}
+
+// Partial fills: the order's hashlock is the Merkle root of the secrets with
+// the parts count in its top 16 bits, as in 1inch's cross-chain SDK. Leaves are
+// H(uint64 index ‖ H(secret)); pairs are hashed in sorted order, so proofs need
+// no left/right flags.
+const PARTS_SHIFT = BigInt(240);
+const PARTS_MASK = (BigInt(1) << PARTS_SHIFT) - BigInt(1);
+export const MAX_PARTS = 0xffff;
+
+export function merkleLeaf(index: number, secretHash: Hex, algorithm: HashAlgorithm = 'keccak256'): Hex {
+  return hashBytes(concat([numberToHex(index, { size: 8 }), secretHash]), algorithm);
+}
+
+function hashPair(a: Hex, b: Hex, algorithm: HashAlgorithm): Hex {
+  return hashBytes(hexToBigInt(a) <= hexToBigInt(b) ? concat([a, b]) : concat([b, a]), algorithm);
+}
+
+// Tree levels from the leaves up; an odd node out is carried up unchanged
+function merkleLevels(leaves: Hex[], algorithm: HashAlgorithm): Hex[][] {
+  if (leaves.length === 0) {
+    throw new Error('A Merkle tree needs at least one leaf');
+  }
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: Hex[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1], algorithm) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export function merkleRoot(leaves: Hex[], algorithm: HashAlgorithm = 'keccak256'): Hex {
+  const levels = merkleLevels(leaves, algorithm);
+  return levels[levels.length - 1][0];
+}
+
+export function merkleProof(leaves: Hex[], index: number, algorithm: HashAlgorithm = 'keccak256'): Hex[] {
+  const proof: Hex[] = [];
+  let position = index;
+  for (const level of merkleLevels(leaves, algorithm).slice(0, -1)) {
+    const sibling = position ^ 1;
+    if (sibling < level.length) proof.push(level[sibling]);
+    position >>= 1;
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(leaf: Hex, proof: Hex[], root: Hex, algorithm: HashAlgorithm = 'keccak256'): boolean {
+  const computed = proof.reduce((node, sibling) => hashPair(node, sibling, algorithm), leaf);
+  return hexToBigInt(computed) === hexToBigInt(root);
+}
+
+// Hashlock for N partial fills (N + 1 secrets): root with N in the top 16 bits
+export function multipleFillsHashlock(root: Hex, partsCount: number): Hex {
+  return numberToHex((hexToBigInt(root) & PARTS_MASK) | (BigInt(partsCount) << PARTS_SHIFT), { size: 32 });
+}
+
+export function partsCountOf(hashlock: Hex): number {
+  return Number(hexToBigInt(hashlock) >> PARTS_SHIFT);
+}
+
+// Whether `root` is the Merkle root committed to by a multiple-fills hashlock
+export function matchesHashlock(root: Hex, hashlock: Hex): boolean {
+  return (hexToBigInt(root) & PARTS_MASK) === (hexToBigInt(hashlock) & PARTS_MASK);
+}
+
+// Secret a fill must reveal. With N parts, filling up to the k-th Nth of the
+// order uses secret k - 1; the fill that completes the order uses the extra
+// secret N, so a resolver can never finish the order with an earlier secret.
+export function secretIndexForFill(totalAmount: bigint, filledAmount: bigint, fillAmount: bigint, partsCount: number): number {
+  const filledAfter = filledAmount + fillAmount;
+  if (fillAmount <= BigInt(0) || filledAfter > totalAmount) {
+    throw new Error('Fill amount exceeds the remaining order amount');
+  }
+  if (filledAfter === totalAmount) {
+    return partsCount;
+  }
+  return Number(((filledAfter - BigInt(1)) * BigInt(partsCount)) / totalAmount);
+}
+
+export interface SecretManagerState {
+  algorithm: HashAlgorithm;
+  secrets: Hex[];
+  // Partial fills only; 0 means a single secret for one full fill
+  partsCount: number;
+  revealed: number[];
+  // Decimal string so the state stays JSON-safe
+  filledAmount: string;
+}
+
+export interface RevealedSecret {
+  index: number;
+  secret: Hex;
+  secretHash: Hex;
+  // Merkle proof of the leaf for partial fills, empty for single fills
+  proof: Hex[];
+}
+
+export interface SecretManagerOptions {
+  // Number of partial fills; omit (or 0) for orders filled at once
+  parts?: number;
+  algorithm?: HashAlgorithm;
+}
+
+// Maker-side secret custody: generates the secrets, exposes only their hashes,
+// and hands out each secret once, for the fill that is entitled to it
+export function createSecretManager(options: SecretManagerOptions | SecretManagerState = {}) {
+  const state: SecretManagerState = 'secrets' in options
+    ? { ...options, secrets: [...options.secrets], revealed: [...options.revealed] }
+    : {
+      algorithm: options.algorithm ?? 'keccak256',
+      partsCount: options.parts ?? 0,
+      secrets: Array.from({ length: (options.parts ?? 0) + 1 }, generateSecret),
+      revealed: [],
+      filledAmount: '0',
+    };
+
+  if (!Number.isInteger(state.partsCount) || state.partsCount < 0 || state.partsCount > MAX_PARTS) {
+    throw new Error(`Parts count must be an integer between 0 and ${MAX_PARTS}`);
+  }
+  if (state.partsCount === 1 || state.secrets.length !== state.partsCount + 1) {
+    throw new Error('Partial fills need at least 2 parts, with one secret per part plus one');
+  }
+
+  const { algorithm, partsCount } = state;
+  const secretHashes = state.secrets.map((secret) => hashSecret(secret, algorithm));
+  const leaves = secretHashes.map((hash, index) => merkleLeaf(index, hash, algorithm));
+  const hashlock = partsCount === 0
+    ? secretHashes[0]
+    : multipleFillsHashlock(merkleRoot(leaves, algorithm), partsCount);
+
+  const filledAmount = () => BigInt(state.filledAmount);
+
+  // Secret index the next fill of `fillAmount` would unlock
+  const indexForFill = (totalAmount: bigint, fillAmount: bigint): number => {
+    if (partsCount === 0) {
+      if (fillAmount !== totalAmount - filledAmount()) {
+        throw new Error('Orders without partial fills must be filled at once');
+      }
+      return 0;
+    }
+    return secretIndexForFill(totalAmount, filledAmount(), fillAmount, partsCount);
+  };
+
+  return {
+    algorithm,
+    partsCount,
+    hashlock,
+    // Safe to publish: resolvers need them to build escrows
+    secretHashes,
+    filledAmount,
+    indexForFill,
+
+    // Call once both escrows for the fill are funded and checked
+    revealForFill(totalAmount: bigint, fillAmount: bigint): RevealedSecret {
+      const index = indexForFill(totalAmount, fillAmount);
+      // Each fill must move to a later secret than every earlier one
+      if (state.revealed.some((revealed) => revealed >= index)) {
+        throw new Error(`Secret ${index} has already been revealed or superseded`);
+      }
+      state.revealed.push(index);
+      state.filledAmount = (filledAmount() + fillAmount).toString();
+      return {
+        index,
+        secret: state.secrets[index],
+        secretHash: secretHashes[index],
+        proof: partsCount === 0 ? [] : merkleProof(leaves, index, algorithm),
+      };
+    },
+
+    isRevealed(index: number): boolean {
+      return state.revealed.includes(index);
+    },
+
+    // Snapshot for persistence; contains the secrets, so keep it private
+    exportState(): SecretManagerState {
+      return { ...state, secrets: [...state.secrets], revealed: [...state.revealed] };
+    },
+  };
+}
+
+export type SecretManager = ReturnType<typeof createSecretManager>;
+
+// Resolver/escrow-side check that a revealed secret unlocks `hashlock`
+export function verifyRevealedSecret(
+  hashlock: Hex,
+  { index, secret, proof }: Pick<RevealedSecret, 'index' | 'secret' | 'proof'>,
+  algorithm: HashAlgorithm = 'keccak256'
+): boolean {
+  const secretHash = hashSecret(secret, algorithm);
+  // Single-fill hashlocks are the secret hash itself; Merkle proofs are never empty
+  if (proof.length === 0) {
+    return secretHash === hashlock.toLowerCase();
+  }
+  if (index > partsCountOf(hashlock)) return false;
+  const leaf = merkleLeaf(index, secretHash, algorithm);
+  const computed = proof.reduce((node, sibling) => hashPair(node, sibling, algorithm), leaf);
+  return matchesHashlock(computed, hashlock);
+}
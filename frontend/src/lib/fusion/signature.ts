@@ -0,0 +1,139 @@
+import { Address, Hex, isAddressEqual } from "viem";
+import {
+  addressFromBech32,
+  blake2b224,
+  CborValue,
+  Cip30Api,
+  decodeCbor,
+  encodeCbor,
+  fromHex,
+  paymentCredential,
+  toHex,
+} from "@/lib/cardano";
+import {
+  cancellationHash,
+  CancellationTypedData,
+  cancellationTypedData,
+  orderHash,
+  OrderTypedData,
+  orderTypedData,
+  recoverCancellationSigner,
+  recoverEip712Signer,
+} from "./eip712";
+import type { CrossChainOrder, OrderSignature, SignedOrder } from "./types";
+
+// wagmi's signTypedDataAsync, or (data) => account.signTypedData(data) with viem
+export type TypedDataSigner = (typedData: OrderTypedData) => Promise<Hex>;
+export type CancellationSigner = (typedData: CancellationTypedData) => Promise<Hex>;
+
+// EVM makers sign the EIP-712 struct
+export async function signOrderEip712(order: CrossChainOrder, signTypedData: TypedDataSigner): Promise<SignedOrder> {
+  const signature = await signTypedData(orderTypedData(order));
+  return { order, orderHash: orderHash(order), signature: { scheme: 'eip712', signature } };
+}
+
+// Cardano makers sign the same order hash with CIP-30 signData (a CIP-8 COSE_Sign1)
+export async function signOrderCip30(order: CrossChainOrder, api: Cip30Api): Promise<SignedOrder> {
+  const hash = orderHash(order);
+  const { signature, key } = await api.signData(addressFromBech32(order.maker), hash.slice(2));
+  return { order, orderHash: hash, signature: { scheme: 'cip30', signature, key } };
+}
+
+export async function signCancellationEip712(orderHash: Hex, signTypedData: CancellationSigner): Promise<OrderSignature> {
+  return { scheme: 'eip712', signature: await signTypedData(cancellationTypedData(orderHash)) };
+}
+
+export async function signCancellationCip30(maker: string, orderHash: Hex, api: Cip30Api): Promise<OrderSignature> {
+  const { signature, key } = await api.signData(addressFromBech32(maker), cancellationHash(orderHash).slice(2));
+  return { scheme: 'cip30', signature, key };
+}
+
+// COSE header labels (RFC 9052) and CIP-8's address header
+const COSE_KEY_X = -2;
+const ADDRESS_HEADER = 'address';
+const HASHED_HEADER = 'hashed';
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+async function verifyEd25519(publicKey: Uint8Array, signature: Uint8Array, message: Uint8Array): Promise<boolean> {
+  const key = await crypto.subtle.importKey('raw', Uint8Array.from(publicKey), { name: 'Ed25519' }, false, ['verify']);
+  return crypto.subtle.verify({ name: 'Ed25519' }, key, Uint8Array.from(signature), Uint8Array.from(message));
+}
+
+// Checks a CIP-30 signData result: signed by the maker's payment key, over the
+// maker's address, with `hash` as payload
+async function verifyCip30(maker: string, hash: Hex, signature: string, key: string): Promise<boolean> {
+  const sign1 = decodeCbor(signature);
+  const coseKey = decodeCbor(key);
+  if (!Array.isArray(sign1) || sign1.length !== 4 || !(coseKey instanceof Map)) return false;
+
+  const [protectedBytes, unprotected, payload, signatureBytes] = sign1 as [CborValue, CborValue, CborValue, CborValue];
+  const publicKey = coseKey.get(COSE_KEY_X);
+  if (
+    !(protectedBytes instanceof Uint8Array) ||
+    !(payload instanceof Uint8Array) ||
+    !(signatureBytes instanceof Uint8Array) ||
+    !(publicKey instanceof Uint8Array)
+  ) {
+    return false;
+  }
+
+  const headers = decodeCbor(protectedBytes);
+  const signedAddress = headers instanceof Map ? headers.get(ADDRESS_HEADER) : undefined;
+  if (!(signedAddress instanceof Uint8Array) || toHex(signedAddress) !== addressFromBech32(maker)) {
+    return false;
+  }
+
+  const credential = paymentCredential(maker);
+  if (credential.type !== 'key' || toHex(blake2b224(publicKey)) !== credential.hash) {
+    return false;
+  }
+
+  const hashed = unprotected instanceof Map && unprotected.get(HASHED_HEADER) === true;
+  const expected = hashed ? blake2b224(fromHex(hash)) : fromHex(hash);
+  if (!bytesEqual(payload, expected)) {
+    return false;
+  }
+
+  const sigStructure = encodeCbor(['Signature1', protectedBytes, new Uint8Array(), payload]);
+  return verifyEd25519(publicKey, signatureBytes, sigStructure);
+}
+
+// Whether the signature authorises exactly this order for its maker
+export async function verifyOrderSignature(order: CrossChainOrder, signature: OrderSignature): Promise<boolean> {
+  const hash = orderHash(order);
+  try {
+    if (signature.scheme === 'eip712') {
+      if (order.srcChain.kind !== 'evm') return false;
+      const signer = await recoverEip712Signer(order, signature.signature);
+      return isAddressEqual(signer, order.maker as Address);
+    }
+    if (order.srcChain.kind !== 'cardano') return false;
+    return await verifyCip30(order.maker, hash, signature.signature, signature.key);
+  } catch {
+    // Malformed signatures are simply invalid
+    return false;
+  }
+}
+
+export async function verifySignedOrder({ order, orderHash: claimedHash, signature }: SignedOrder): Promise<boolean> {
+  return claimedHash.toLowerCase() === orderHash(order) && verifyOrderSignature(order, signature);
+}
+
+// Whether the maker of `order` asked to cancel it
+export async function verifyCancellationSignature(order: CrossChainOrder, signature: OrderSignature): Promise<boolean> {
+  const hash = orderHash(order);
+  try {
+    if (signature.scheme === 'eip712') {
+      if (order.srcChain.kind !== 'evm') return false;
+      const signer = await recoverCancellationSigner(hash, signature.signature);
+      return isAddressEqual(signer, order.maker as Address);
+    }
+    if (order.srcChain.kind !== 'cardano') return false;
+    return await verifyCip30(order.maker, cancellationHash(hash), signature.signature, signature.key);
+  } catch {
+    return false;
+  }
+}
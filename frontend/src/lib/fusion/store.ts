@@ -0,0 +1,19 @@
+import type { Hex } from "viem";
+import { deserializeOrder, serializeOrder } from "./order";
+import type { OrderSignature, SignedOrder } from "./types";
+
+// Serialized form, so stored orders survive JSON backends and cannot be mutated in place.
+// The relayer's record stores (src/lib/relayer) persist orders in this shape.
+export interface StoredOrder {
+  orderHash: Hex;
+  order: string;
+  signature: OrderSignature;
+}
+
+export function toStoredOrder({ order, orderHash, signature }: SignedOrder): StoredOrder {
+  return { orderHash, order: serializeOrder(order), signature };
+}
+
+export function fromStoredOrder({ orderHash, order, signature }: StoredOrder): SignedOrder {
+  return { orderHash, order: deserializeOrder(order), signature };
+}
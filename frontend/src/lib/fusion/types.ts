@@ -0,0 +1,69 @@
+import type { Hex } from "viem";
+import type { CardanoNetwork } from "@/lib/cardano";
+
+// Fusion+-style cross-chain swap orders between EVM chains and Cardano. The
+// maker locks `srcAmount` of `srcAsset` on the source chain; a resolver locks
+// `dstAmount` of `dstAsset` for `receiver` on the destination chain, and the
+// maker's secret (whose hash is `hashlock`) unlocks both escrows.
+
+export type ChainRef =
+  | { kind: 'evm'; chainId: number }
+  | { kind: 'cardano'; network: CardanoNetwork };
+
+// Seconds after the escrow on that side is deployed. Withdrawals need the
+// secret; "public" phases let any resolver act once the exclusive one passes.
+export interface Timelocks {
+  srcWithdrawal: number;
+  srcPublicWithdrawal: number;
+  srcCancellation: number;
+  srcPublicCancellation: number;
+  dstWithdrawal: number;
+  dstPublicWithdrawal: number;
+  dstCancellation: number;
+}
+
+export interface ResolverFee {
+  // Share of the destination amount paid to the filling resolver
+  bps: number;
+  // Fixed fee receiver; empty means whichever resolver fills the order
+  receiver: string;
+}
+
+export interface CrossChainOrder {
+  // Random nonce that makes otherwise identical orders distinct
+  salt: bigint;
+  // Maker address on the source chain: 0x for EVM, bech32 for Cardano
+  maker: string;
+  // Maker address on the destination chain
+  receiver: string;
+  srcChain: ChainRef;
+  // ERC-20 address (NATIVE_TOKEN_ADDRESS for ETH etc.), or "lovelace" / policy id + asset name hex
+  srcAsset: string;
+  srcAmount: bigint;
+  dstChain: ChainRef;
+  dstAsset: string;
+  // Minimum the maker accepts on the destination chain
+  dstAmount: bigint;
+  // Deposits resolvers lock next to each escrow, in the chain's native unit
+  srcSafetyDeposit: bigint;
+  dstSafetyDeposit: bigint;
+  // Hash of the maker's secret; with partial fills, the Merkle root of the
+  // secrets with the parts count in the top 16 bits (see secrets.ts)
+  hashlock: Hex;
+  timelocks: Timelocks;
+  resolverFee: ResolverFee;
+  allowPartialFills: boolean;
+  // Unix seconds after which the order can no longer be filled
+  expiresAt: number;
+}
+
+// How the maker authorised the order: EIP-712 on EVM, CIP-30 signData on Cardano
+export type OrderSignature =
+  | { scheme: 'eip712'; signature: Hex }
+  | { scheme: 'cip30'; signature: string; key: string };
+
+export interface SignedOrder {
+  order: CrossChainOrder;
+  orderHash: Hex;
+  signature: OrderSignature;
+}
@@ -0,0 +1,18 @@
+import type { CachePolicy } from "@/lib/cache";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+// Per-endpoint TTLs, tuned to how fast each upstream dataset actually changes
+export const CACHE_POLICIES = {
+  // Token lists change a few times a day
+  tokenList: { ttlMs: HOUR, staleMs: 24 * HOUR },
+  tokenSearch: { ttlMs: 5 * MINUTE, staleMs: HOUR },
+  tokenCustom: { ttlMs: HOUR, staleMs: 24 * HOUR },
+  // Domain provider metadata is effectively static
+  domainProviders: { ttlMs: HOUR, staleMs: 24 * HOUR },
+  // Prices and gas move every block; keep them short and only briefly stale
+  spotPrices: { ttlMs: 30 * SECOND, staleMs: 30 * SECOND },
+  gasPrices: { ttlMs: 10 * SECOND, staleMs: 20 * SECOND },
+} satisfies Record<string, CachePolicy>;
@@ -0,0 +1,43 @@
+import type { CacheStatus } from "@/lib/cache";
+import { createRequester, OneInchConfig } from "./http";
+import { createTokenApi } from "./token";
+import { createPriceApi } from "./price";
+import { createGasApi } from "./gas";
+import { createPortfolioApi } from "./portfolio";
+import { createHistoryApi } from "./history";
+import { createTracesApi } from "./traces";
+import { createDomainsApi } from "./domains";
+import { createNftApi } from "./nft";
+
+// Typed 1inch client grouped by API family, sharing one authenticated transport
+export function createOneInchClient(config: OneInchConfig = {}) {
+  const statuses = new Set<CacheStatus>();
+  const request = createRequester({
+    ...config,
+    onCacheStatus: (status) => {
+      statuses.add(status);
+      config.onCacheStatus?.(status);
+    },
+  });
+
+  return {
+    // Worst cache outcome across the cached calls made so far, if any
+    cacheStatus(): CacheStatus | undefined {
+      if (statuses.size === 0) return undefined;
+      if (statuses.has('MISS')) return 'MISS';
+      if (statuses.has('STALE')) return 'STALE';
+      return 'HIT';
+    },
+
+    token: createTokenApi(request),
+    price: createPriceApi(request),
+    gas: createGasApi(request),
+    portfolio: createPortfolioApi(request),
+    history: createHistoryApi(request),
+    traces: createTracesApi(request),
+    domains: createDomainsApi(request),
+    nft: createNftApi(request),
+  };
+}
+
+export type OneInchClient = ReturnType<typeof createOneInchClient>;
@@ -0,0 +1,33 @@
+import { CACHE_POLICIES } from "./cachePolicies";
+import { Requester, segment } from "./http";
+import { domainLookupSchema, domainProvidersDataSchema, domainReverseLookupSchema } from "./schemas";
+import type { DomainLookup, DomainProvidersData, DomainReverseLookup } from "./types";
+
+// Domains API v2.0
+export function createDomainsApi(request: Requester) {
+  return {
+    lookup(domain: string) {
+      return request<DomainLookup>({
+        path: `/domains/v2.0/${segment(domain)}/lookup`,
+        schema: domainLookupSchema,
+      });
+    },
+
+    reverseLookup(address: string) {
+      return request<DomainReverseLookup>({
+        path: `/domains/v2.0/${segment(address)}/reverse-lookup`,
+        schema: domainReverseLookupSchema,
+      });
+    },
+
+    providersData() {
+      return request<DomainProvidersData>({
+        path: '/domains/v2.0/get-providers-data-with-avatar',
+        schema: domainProvidersDataSchema,
+        cache: CACHE_POLICIES.domainProviders,
+      });
+    },
+  };
+}
+
+export type DomainsApi = ReturnType<typeof createDomainsApi>;
@@ -0,0 +1,96 @@
+export type OneInchErrorCode =
+  | 'auth'
+  | 'rate_limited'
+  | 'not_found'
+  | 'upstream_unavailable'
+  | 'validation';
+
+// Base class for every failure the client surfaces. `status` is the HTTP
+// status our own routes should answer with, not necessarily the upstream one.
+export class OneInchError extends Error {
+  constructor(
+    public readonly code: OneInchErrorCode,
+    public readonly status: number,
+    message: string,
+    public readonly upstreamStatus?: number
+  ) {
+    super(message);
+    this.name = 'OneInchError';
+  }
+}
+
+export class AuthError extends OneInchError {
+  constructor(message = 'Invalid or missing 1inch API key', upstreamStatus?: number) {
+    super('auth', 401, message, upstreamStatus);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitedError extends OneInchError {
+  constructor(message = 'Rate limit exceeded', public readonly retryAfterMs?: number) {
+    super('rate_limited', 429, message, 429);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class NotFoundError extends OneInchError {
+  constructor(message = 'Resource not found', upstreamStatus?: number) {
+    super('not_found', 404, message, upstreamStatus);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class UpstreamUnavailableError extends OneInchError {
+  constructor(message = '1inch API is unavailable', upstreamStatus?: number, status = 502) {
+    super('upstream_unavailable', status, message, upstreamStatus);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+export class ValidationError extends OneInchError {
+  constructor(message: string, upstreamStatus?: number) {
+    super('validation', 400, message, upstreamStatus);
+    this.name = 'ValidationError';
+  }
+}
+
+// Parses Retry-After as either delay-seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Maps a non-2xx upstream response onto the error taxonomy
+export function errorFromResponse(response: Response, body: string): OneInchError {
+  const { status, statusText } = response;
+  const message = `1inch API request failed: ${status} ${statusText}${body ? ` - ${body}` : ''}`;
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message, status);
+  }
+  if (status === 429) {
+    return new RateLimitedError(message, parseRetryAfter(response.headers.get('retry-after')));
+  }
+  if (status === 404) {
+    return new NotFoundError(message, status);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, status);
+  }
+  return new UpstreamUnavailableError(message, status);
+}
+
+// Transient failures worth retrying: 429, 5xx, network resets and timeouts.
+// A 2xx with an unreadable or unexpected body is not retried.
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof RateLimitedError) return true;
+  return error instanceof UpstreamUnavailableError &&
+    (error.upstreamStatus === undefined || error.upstreamStatus >= 500);
+}
@@ -0,0 +1,19 @@
+import { CACHE_POLICIES } from "./cachePolicies";
+import { Requester, segment } from "./http";
+import { gasPricesSchema } from "./schemas";
+import type { GasPrices } from "./types";
+
+// Gas Price API v1.4
+export function createGasApi(request: Requester) {
+  return {
+    prices(chainId: string) {
+      return request<GasPrices>({
+        path: `/gas-price/v1.4/${segment(chainId)}`,
+        schema: gasPricesSchema,
+        cache: CACHE_POLICIES.gasPrices,
+      });
+    },
+  };
+}
+
+export type GasApi = ReturnType<typeof createGasApi>;
@@ -0,0 +1,25 @@
+import { Requester, segment } from "./http";
+import { historyEventsSchema } from "./schemas";
+import type { HistoryEvents } from "./types";
+
+export interface HistoryQuery {
+  chainId?: string;
+  limit?: number | string;
+  fromTimestampMs?: number;
+  toTimestampMs?: number;
+}
+
+// History API v2.0
+export function createHistoryApi(request: Requester) {
+  return {
+    events(address: string, { chainId, limit, fromTimestampMs, toTimestampMs }: HistoryQuery = {}) {
+      return request<HistoryEvents>({
+        path: `/history/v2.0/history/${segment(address)}/events`,
+        schema: historyEventsSchema,
+        query: { chainId, limit, fromTimestampMs, toTimestampMs },
+      });
+    },
+  };
+}
+
+export type HistoryApi = ReturnType<typeof createHistoryApi>;
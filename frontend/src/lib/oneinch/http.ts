@@ -0,0 +1,210 @@
+import type { ZodType } from "zod";
+import type { CachePolicy, CacheStatus, ResponseCache } from "@/lib/cache";
+import type { RateLimiter } from "./rateLimiter";
+import {
+  errorFromResponse,
+  isRetryable,
+  RateLimitedError,
+  UpstreamUnavailableError,
+} from "./errors";
+
+export const DEFAULT_BASE_URL = "https://api.1inch.dev";
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Give up instead of waiting when the server asks for a longer pause
+  maxRetryAfterMs?: number;
+}
+
+export interface OneInchConfig {
+  // Falls back to ONEINCH_API_KEY at request time
+  apiKey?: string;
+  // Falls back to ONEINCH_BASE_URL, then the public 1inch endpoint
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  // Shared request budget; every upstream call waits for a slot
+  limiter?: RateLimiter;
+  // Caller identity used to queue fairly between users
+  clientId?: string;
+  // Per-attempt timeout enforced with an AbortController
+  timeoutMs?: number;
+  retry?: RetryOptions;
+  sleep?: (ms: number) => Promise<void>;
+  // Response cache consulted for requests that declare a cache policy
+  cache?: ResponseCache | null;
+  onCacheStatus?: (status: CacheStatus) => void;
+}
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export interface RequestSpec {
+  path: string;
+  method?: 'GET' | 'POST';
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  // Opt-in caching for this endpoint
+  cache?: CachePolicy;
+  // Expected response shape; mismatches surface as upstream errors
+  schema?: ZodType;
+}
+
+export type Requester = <T>(spec: RequestSpec) => Promise<T>;
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  maxRetryAfterMs: 30_000,
+};
+
+// Non-negative integer from the environment, or the fallback
+function envNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Builds `${base}${path}?query`, skipping empty query values
+export function buildUrl(baseUrl: string, path: string, query?: Record<string, QueryValue>): string {
+  const url = `${baseUrl.replace(/\/+$/, '')}${path}`;
+  if (!query) return url;
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === '') continue;
+    params.set(key, String(value));
+  }
+
+  const search = params.toString();
+  return search ? `${url}?${search}` : url;
+}
+
+// Encodes a single path segment supplied by a caller (addresses, domains, hashes)
+export function segment(value: string | number): string {
+  return encodeURIComponent(String(value));
+}
+
+// Full-jitter exponential backoff, overridden by the server's Retry-After
+export function backoffDelay(attemptNumber: number, error: unknown, retry: Required<RetryOptions>): number {
+  if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attemptNumber);
+  return Math.round(Math.random() * ceiling);
+}
+
+// One HTTP attempt, translating transport failures into the error taxonomy
+async function attempt<T>(doFetch: typeof fetch, url: string, init: RequestInit, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    let response: Response;
+    try {
+      response = await doFetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new UpstreamUnavailableError(`1inch API request timed out after ${timeoutMs} ms`, undefined, 504);
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new UpstreamUnavailableError(`1inch API request failed: ${reason}`);
+    }
+
+    if (!response.ok) {
+      throw errorFromResponse(response, await response.text());
+    }
+
+    const text = await response.text();
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new UpstreamUnavailableError('1inch API returned malformed JSON', response.status);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Rejects a 2xx body that no longer matches the shape the app depends on
+function conform<T>(data: T, schema: ZodType | undefined, path: string): T {
+  if (!schema) return data;
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const at = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    throw new UpstreamUnavailableError(
+      `1inch API response for ${path} did not match the expected shape: ${at}: ${issue.message}`,
+      200
+    );
+  }
+  return data;
+}
+
+// Shared authenticated transport used by every API family
+export function createRequester(config: OneInchConfig = {}): Requester {
+  const retry = {
+    ...DEFAULT_RETRY,
+    retries: envNumber(process.env.ONEINCH_MAX_RETRIES, DEFAULT_RETRY.retries),
+    ...config.retry,
+  };
+  const timeoutMs = config.timeoutMs ?? envNumber(process.env.ONEINCH_TIMEOUT_MS, DEFAULT_TIMEOUT_MS);
+  const sleep = config.sleep ?? defaultSleep;
+
+  return async <T>({ path, method = 'GET', query, body, cache, schema }: RequestSpec): Promise<T> => {
+    const baseUrl = config.baseUrl || process.env.ONEINCH_BASE_URL || DEFAULT_BASE_URL;
+    const apiKey = config.apiKey ?? process.env.ONEINCH_API_KEY;
+    const doFetch = config.fetch ?? fetch;
+    const url = buildUrl(baseUrl, path, query);
+
+    const requestInit: RequestInit = {
+      method,
+      headers: {
+        // Without a key the request goes out unauthenticated, e.g. to the mock
+        ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+    };
+
+    if (body !== undefined && method === 'POST') {
+      requestInit.body = JSON.stringify(body);
+    }
+
+    const send = async (): Promise<T> => {
+      for (let attemptNumber = 0; ; attemptNumber++) {
+        // Retries spend from the same budget as first attempts
+        await config.limiter?.acquire(config.clientId);
+
+        try {
+          return conform(await attempt<T>(doFetch, url, requestInit, timeoutMs), schema, path);
+        } catch (error) {
+          if (!isRetryable(error) || attemptNumber >= retry.retries) {
+            throw error;
+          }
+
+          const waitMs = backoffDelay(attemptNumber, error, retry);
+          if (waitMs > retry.maxRetryAfterMs) {
+            throw error;
+          }
+          await sleep(waitMs);
+        }
+      }
+    };
+
+    if (!cache || !config.cache) {
+      return send();
+    }
+
+    // The key deliberately leaves out the API key: cached data is not per-user
+    const key = `${method} ${url} ${requestInit.body ?? ''}`;
+    const { value, status } = await config.cache.fetch(key, cache, send);
+    config.onCacheStatus?.(status);
+    return value;
+  };
+}
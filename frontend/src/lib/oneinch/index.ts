@@ -0,0 +1,54 @@
+import { sharedResponseCache } from "@/lib/cache";
+import { createOneInchClient } from "./client";
+import { sharedRateLimiter } from "./rateLimiter";
+
+export { createOneInchClient } from "./client";
+export type { OneInchClient } from "./client";
+export { DEFAULT_BASE_URL } from "./http";
+export type { OneInchConfig, RetryOptions } from "./http";
+export {
+  OneInchError,
+  AuthError,
+  RateLimitedError,
+  NotFoundError,
+  UpstreamUnavailableError,
+  ValidationError,
+} from "./errors";
+export type { OneInchErrorCode } from "./errors";
+export { createRateLimiter, sharedRateLimiter } from "./rateLimiter";
+export { CACHE_POLICIES } from "./cachePolicies";
+export * from "./schemas";
+export type { RateLimiter } from "./rateLimiter";
+export type * from "./types";
+
+// Default server-side client configured from ONEINCH_API_KEY / ONEINCH_BASE_URL
+export const oneinch = createOneInchClient({
+  limiter: sharedRateLimiter(),
+  cache: sharedResponseCache(),
+});
+
+// Identifies the end user behind an incoming request for fair queueing.
+// Forwarding headers are set by whoever sends the request, so they are only
+// read when ONEINCH_TRUST_PROXY says a proxy in front of the app overwrites
+// them; otherwise every caller shares one queue.
+export function clientIdFor(request: Request, trustProxy = process.env.ONEINCH_TRUST_PROXY === '1'): string {
+  if (!trustProxy) {
+    return 'anonymous';
+  }
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip') || 'anonymous';
+}
+
+// Client scoped to one incoming request, sharing the process-wide rate limit.
+// Route handlers can fire their upstream calls concurrently (batches, several
+// datasets at once): the shared limiter queues them to the configured pace.
+export function clientFor(request: Request) {
+  return createOneInchClient({
+    limiter: sharedRateLimiter(),
+    cache: sharedResponseCache(),
+    clientId: clientIdFor(request),
+  });
+}
@@ -0,0 +1,25 @@
+import { Requester } from "./http";
+import { nftsByAddressSchema } from "./schemas";
+import type { NftsByAddress } from "./types";
+
+export interface NftQuery {
+  address: string;
+  chainIds?: string;
+  limit?: number | string;
+  offset?: number | string;
+}
+
+// NFT API v1
+export function createNftApi(request: Requester) {
+  return {
+    byAddress({ address, chainIds = '1', limit = 50, offset = 0 }: NftQuery) {
+      return request<NftsByAddress>({
+        path: '/nft/v1/byaddress',
+        schema: nftsByAddressSchema,
+        query: { address, chainIds, limit, offset },
+      });
+    },
+  };
+}
+
+export type NftApi = ReturnType<typeof createNftApi>;
@@ -0,0 +1,51 @@
+import { Requester } from "./http";
+import { portfolioCurrentValueSchema, portfolioProfitAndLossSchema, portfolioTokenDetailsSchema } from "./schemas";
+import type { PortfolioCurrentValue, PortfolioProfitAndLoss, PortfolioTokenDetails } from "./types";
+
+const PATH = '/portfolio/portfolio/v4/overview/erc20';
+
+export interface PortfolioQuery {
+  addresses: string[];
+  chainId?: string;
+}
+
+export interface ProfitAndLossQuery extends PortfolioQuery {
+  fromTimestamp: string;
+  toTimestamp: string;
+}
+
+// Portfolio API v4 (ERC-20 overview)
+export function createPortfolioApi(request: Requester) {
+  return {
+    currentValue({ addresses, chainId }: PortfolioQuery) {
+      return request<PortfolioCurrentValue>({
+        path: `${PATH}/current_value`,
+        schema: portfolioCurrentValueSchema,
+        query: { addresses: addresses.join(','), chain_id: chainId },
+      });
+    },
+
+    profitAndLoss({ addresses, chainId, fromTimestamp, toTimestamp }: ProfitAndLossQuery) {
+      return request<PortfolioProfitAndLoss>({
+        path: `${PATH}/profit_and_loss`,
+        schema: portfolioProfitAndLossSchema,
+        query: {
+          addresses: addresses.join(','),
+          chain_id: chainId,
+          from_timestamp: fromTimestamp,
+          to_timestamp: toTimestamp,
+        },
+      });
+    },
+
+    tokenDetails({ addresses, chainId }: PortfolioQuery) {
+      return request<PortfolioTokenDetails>({
+        path: `${PATH}/details`,
+        schema: portfolioTokenDetailsSchema,
+        query: { addresses: addresses.join(','), chain_id: chainId },
+      });
+    },
+  };
+}
+
+export type PortfolioApi = ReturnType<typeof createPortfolioApi>;
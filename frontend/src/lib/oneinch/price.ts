@@ -0,0 +1,44 @@
+import { CACHE_POLICIES } from "./cachePolicies";
+import { Requester, segment } from "./http";
+import { spotPricesSchema } from "./schemas";
+import type { SpotPrices } from "./types";
+
+export interface PriceOptions {
+  // Quote currency, e.g. USD; omitted means native currency wei
+  currency?: string;
+}
+
+// Spot Price API v1.1
+export function createPriceApi(request: Requester) {
+  return {
+    whitelisted(chainId: string, { currency }: PriceOptions = {}) {
+      return request<SpotPrices>({
+        path: `/price/v1.1/${segment(chainId)}`,
+        schema: spotPricesSchema,
+        query: { currency },
+        cache: CACHE_POLICIES.spotPrices,
+      });
+    },
+
+    byAddresses(chainId: string, addresses: string[], { currency }: PriceOptions = {}) {
+      return request<SpotPrices>({
+        path: `/price/v1.1/${segment(chainId)}/${addresses.map(segment).join(',')}`,
+        schema: spotPricesSchema,
+        query: { currency },
+        cache: CACHE_POLICIES.spotPrices,
+      });
+    },
+
+    requested(chainId: string, tokens: string[], { currency }: PriceOptions = {}) {
+      return request<SpotPrices>({
+        path: `/price/v1.1/${segment(chainId)}`,
+        schema: spotPricesSchema,
+        method: 'POST',
+        body: { tokens, ...(currency && { currency }) },
+        cache: CACHE_POLICIES.spotPrices,
+      });
+    },
+  };
+}
+
+export type PriceApi = ReturnType<typeof createPriceApi>;
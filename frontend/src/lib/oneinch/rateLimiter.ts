@@ -0,0 +1,105 @@
+export interface RateLimiterOptions {
+  // Sustained request budget, e.g. 1 for the 1inch dev plan
+  requestsPerSecond: number;
+  // Bucket capacity; defaults to one second worth of requests
+  burst?: number;
+  now?: () => number;
+}
+
+export interface RateLimiter {
+  // Resolves once a request slot is available for the given client
+  acquire(clientId?: string): Promise<void>;
+  // Number of callers still waiting for a slot
+  pending(): number;
+}
+
+const ANONYMOUS = 'anonymous';
+
+// Token bucket shared by every caller. Waiters are queued per client and
+// served round-robin so one busy user cannot starve the others.
+export function createRateLimiter({
+  requestsPerSecond,
+  burst = Math.max(1, requestsPerSecond),
+  now = Date.now,
+}: RateLimiterOptions): RateLimiter {
+  if (!(requestsPerSecond > 0)) {
+    throw new Error('requestsPerSecond must be a positive number');
+  }
+
+  const refillPerMs = requestsPerSecond / 1000;
+  const queues = new Map<string, (() => void)[]>();
+  let tokens = burst;
+  let lastRefill = now();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let waiting = 0;
+
+  const refill = () => {
+    const current = now();
+    tokens = Math.min(burst, tokens + (current - lastRefill) * refillPerMs);
+    lastRefill = current;
+  };
+
+  const drain = () => {
+    timer = null;
+    refill();
+
+    while (tokens >= 1 && queues.size > 0) {
+      // Map keeps insertion order: take the head client, then move it to the back
+      const [clientId, queue] = queues.entries().next().value!;
+      const release = queue.shift()!;
+      queues.delete(clientId);
+      if (queue.length > 0) {
+        queues.set(clientId, queue);
+      }
+
+      tokens -= 1;
+      waiting -= 1;
+      release();
+    }
+
+    if (queues.size > 0) {
+      const waitMs = Math.ceil((1 - tokens) / refillPerMs);
+      timer = setTimeout(drain, waitMs);
+    }
+  };
+
+  return {
+    acquire(clientId = ANONYMOUS) {
+      return new Promise<void>((resolve) => {
+        const queue = queues.get(clientId);
+        if (queue) {
+          queue.push(resolve);
+        } else {
+          queues.set(clientId, [resolve]);
+        }
+        waiting += 1;
+
+        if (!timer) {
+          drain();
+        }
+      });
+    },
+
+    pending() {
+      return waiting;
+    },
+  };
+}
+
+// Parses ONEINCH_RPS, falling back to the free plan's 1 request per second
+export function requestsPerSecondFromEnv(value = process.env.ONEINCH_RPS): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1;
+}
+
+const globalForLimiter = globalThis as unknown as { __oneinchRateLimiter?: RateLimiter };
+
+// Process-wide limiter; kept on globalThis so dev hot reloads do not reset the budget
+export function sharedRateLimiter(): RateLimiter {
+  if (!globalForLimiter.__oneinchRateLimiter) {
+    globalForLimiter.__oneinchRateLimiter = createRateLimiter({
+      requestsPerSecond: requestsPerSecondFromEnv(),
+    });
+  }
+  return globalForLimiter.__oneinchRateLimiter;
+}
@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+// Runtime shapes for the upstream fields the app reads. Objects pass unknown
+// keys through so additive upstream changes are not treated as drift.
+
+const numeric = z.union([z.string(), z.number()]);
+
+// Token API
+export const tokenInfoSchema = z.object({
+  address: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  decimals: z.number().int().nonnegative(),
+  logoURI: z.string().nullish(),
+  tags: z.array(z.string()).optional(),
+}).passthrough();
+
+export const tokenInfoListSchema = z.array(tokenInfoSchema);
+
+export const tokenMapSchema = z.record(tokenInfoSchema);
+
+export const tokenListSchema = z.object({
+  tokens: z.array(tokenInfoSchema),
+}).passthrough();
+
+// Spot Price API
+export const spotPricesSchema = z.record(z.string());
+
+// Gas Price API; legacy chains return flat values instead of fee levels
+const gasFeeLevelSchema = z.object({
+  maxPriorityFeePerGas: z.string(),
+  maxFeePerGas: z.string(),
+}).passthrough();
+
+export const gasPricesSchema = z.object({
+  baseFee: z.string().optional(),
+  low: gasFeeLevelSchema.optional(),
+  medium: gasFeeLevelSchema.optional(),
+  high: gasFeeLevelSchema.optional(),
+  instant: gasFeeLevelSchema.optional(),
+}).passthrough();
+
+// Portfolio API
+const portfolioMetaSchema = z.record(z.unknown()).optional();
+
+export const portfolioCurrentValueSchema = z.object({
+  result: z.object({
+    total: z.number(),
+    by_address: z.array(z.object({ value_usd: z.number(), address: z.string() }).passthrough()),
+    by_chain: z.array(z.object({ chain_id: z.number().nullable(), value_usd: z.number() }).passthrough()),
+  }).passthrough(),
+  meta: portfolioMetaSchema,
+}).passthrough();
+
+export const portfolioProfitAndLossSchema = z.object({
+  result: z.array(z.object({
+    chain_id: z.number().nullable(),
+    abs_profit_usd: z.number(),
+    roi: z.number(),
+  }).passthrough()),
+  meta: portfolioMetaSchema,
+}).passthrough();
+
+export const portfolioTokenDetailsSchema = z.object({
+  result: z.array(z.object({
+    chain_id: z.number(),
+    contract_address: z.string(),
+    symbol: z.string(),
+    amount: z.number(),
+    value_usd: z.number(),
+  }).passthrough()),
+  meta: portfolioMetaSchema,
+}).passthrough();
+
+// History API
+export const historyEventsSchema = z.object({
+  items: z.array(z.object({
+    id: z.string(),
+    type: numeric,
+    timeMs: z.number(),
+    details: z.object({
+      txHash: z.string(),
+      chainId: z.number(),
+      status: z.string(),
+      fromAddress: z.string(),
+      toAddress: z.string(),
+    }).passthrough(),
+  }).passthrough()),
+  cache_counter: z.number().optional(),
+}).passthrough();
+
+// Traces API
+export const syncedIntervalSchema = z.object({
+  from: z.number(),
+  to: z.number(),
+}).passthrough();
+
+export const blockTraceSchema = z.object({
+  number: z.number(),
+  blockHash: z.string(),
+  traces: z.array(z.unknown()),
+}).passthrough();
+
+export const transactionTraceSchema = z.object({
+  transactionTrace: z.unknown(),
+}).passthrough();
+
+// Domains API
+export const domainLookupSchema = z.object({
+  result: z.object({ protocol: z.string(), address: z.string() }).passthrough(),
+}).passthrough();
+
+export const domainReverseLookupSchema = z.object({
+  result: z.object({ protocol: z.string(), domain: z.string() }).passthrough(),
+}).passthrough();
+
+export const domainProvidersDataSchema = z.object({
+  result: z.array(z.object({ protocol: z.string() }).passthrough()),
+}).passthrough();
+
+// NFT API
+export const nftsByAddressSchema = z.object({
+  assets: z.array(z.object({
+    id: numeric,
+    token_id: z.string(),
+    chainId: z.number(),
+    asset_contract: z.object({ address: z.string() }).passthrough(),
+  }).passthrough()),
+}).passthrough();
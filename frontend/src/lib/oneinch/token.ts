@@ -0,0 +1,52 @@
+import { CACHE_POLICIES } from "./cachePolicies";
+import { Requester, segment } from "./http";
+import { tokenInfoListSchema, tokenListSchema, tokenMapSchema } from "./schemas";
+import type { TokenInfo, TokenList, TokenMap } from "./types";
+
+export interface TokenSearchOptions {
+  query: string;
+  limit?: number | string;
+  ignoreListed?: boolean | string;
+}
+
+// Token API v1.2
+export function createTokenApi(request: Requester) {
+  return {
+    search(chainId: string, { query, limit = 10, ignoreListed = false }: TokenSearchOptions) {
+      return request<TokenInfo[]>({
+        path: `/token/v1.2/${segment(chainId)}/search`,
+        schema: tokenInfoListSchema,
+        query: { query, limit, ignore_listed: ignoreListed },
+        cache: CACHE_POLICIES.tokenSearch,
+      });
+    },
+
+    custom(chainId: string, addresses: string[]) {
+      return request<TokenMap>({
+        path: `/token/v1.2/${segment(chainId)}/custom/${addresses.map(segment).join(',')}`,
+        schema: tokenMapSchema,
+        cache: CACHE_POLICIES.tokenCustom,
+      });
+    },
+
+    all(chainId: string, provider = '1inch') {
+      return request<TokenMap>({
+        path: `/token/v1.2/${segment(chainId)}`,
+        schema: tokenMapSchema,
+        query: { provider },
+        cache: CACHE_POLICIES.tokenList,
+      });
+    },
+
+    tokenList(chainId: string, provider = '1inch') {
+      return request<TokenList>({
+        path: `/token/v1.2/${segment(chainId)}/token-list`,
+        schema: tokenListSchema,
+        query: { provider },
+        cache: CACHE_POLICIES.tokenList,
+      });
+    },
+  };
+}
+
+export type TokenApi = ReturnType<typeof createTokenApi>;
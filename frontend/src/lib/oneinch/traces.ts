@@ -0,0 +1,31 @@
+import { Requester, segment } from "./http";
+import { blockTraceSchema, syncedIntervalSchema, transactionTraceSchema } from "./schemas";
+import type { BlockTrace, SyncedInterval, TransactionTrace } from "./types";
+
+// Traces API v1.0
+export function createTracesApi(request: Requester) {
+  return {
+    syncedInterval(chainId: string) {
+      return request<SyncedInterval>({
+        path: `/traces/v1.0/chain/${segment(chainId)}/synced-interval`,
+        schema: syncedIntervalSchema,
+      });
+    },
+
+    blockTrace(chainId: string, blockNumber: string | number) {
+      return request<BlockTrace>({
+        path: `/traces/v1.0/chain/${segment(chainId)}/block-trace/${segment(blockNumber)}`,
+        schema: blockTraceSchema,
+      });
+    },
+
+    txTrace(chainId: string, blockNumber: string | number, txHash: string) {
+      return request<TransactionTrace>({
+        path: `/traces/v1.0/chain/${segment(chainId)}/block-trace/${segment(blockNumber)}/tx-hash/${segment(txHash)}`,
+        schema: transactionTraceSchema,
+      });
+    },
+  };
+}
+
+export type TracesApi = ReturnType<typeof createTracesApi>;
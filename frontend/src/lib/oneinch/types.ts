@@ -0,0 +1,206 @@
+// Response models for the 1inch Developer Portal APIs used by the app.
+// Only the fields we read are typed strictly; everything else passes through.
+
+// Token API
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+  chainId?: number;
+  eip2612?: boolean;
+  isFoT?: boolean;
+  providers?: string[];
+}
+
+// GET /token/v1.2/{chain} is keyed by token address
+export type TokenMap = Record<string, TokenInfo>;
+
+export interface TokenList {
+  name?: string;
+  timestamp?: string;
+  version?: { major: number; minor: number; patch: number };
+  keywords?: string[];
+  tokens: TokenInfo[];
+  logoURI?: string;
+}
+
+// Spot Price API: token address -> price in native currency wei
+export type SpotPrices = Record<string, string>;
+
+// Gas Price API
+export interface GasFeeLevel {
+  maxPriorityFeePerGas: string;
+  maxFeePerGas: string;
+}
+
+export interface GasPrices {
+  baseFee?: string;
+  low?: GasFeeLevel;
+  medium?: GasFeeLevel;
+  high?: GasFeeLevel;
+  instant?: GasFeeLevel;
+  // Legacy (non EIP-1559) chains return flat wei values per level
+  [level: string]: unknown;
+}
+
+// Portfolio API
+export interface PortfolioChainValue {
+  chain_id: number | null;
+  value_usd: number;
+}
+
+export interface PortfolioCurrentValue {
+  result: {
+    total: number;
+    by_address: { value_usd: number; address: string }[];
+    by_category: { value_usd: number; category_id: string; category_name: string }[];
+    by_protocol_group: { value_usd: number; protocol_group_id: string; protocol_group_name: string }[];
+    by_chain: (PortfolioChainValue & { chain_name?: string })[];
+  };
+  meta?: Record<string, unknown>;
+}
+
+export interface PortfolioProfitAndLoss {
+  result: {
+    chain_id: number | null;
+    abs_profit_usd: number;
+    roi: number;
+  }[];
+  meta?: Record<string, unknown>;
+}
+
+export interface PortfolioTokenDetails {
+  result: {
+    chain_id: number;
+    contract_address: string;
+    name: string;
+    symbol: string;
+    amount: number;
+    price_to_usd: number;
+    value_usd: number;
+    abs_profit_usd: number | null;
+    roi: number | null;
+    status: number;
+  }[];
+  meta?: Record<string, unknown>;
+}
+
+// History API
+export interface HistoryTokenAction {
+  chainId: string;
+  address: string;
+  standard: string;
+  fromAddress: string;
+  toAddress: string;
+  amount?: string;
+  direction: string;
+}
+
+export interface HistoryEvent {
+  id: string;
+  address: string;
+  type: number | string;
+  rating: string;
+  timeMs: number;
+  details: {
+    txHash: string;
+    chainId: number;
+    blockNumber: number;
+    blockTimeSec: number;
+    status: string;
+    type: string;
+    tokenActions: HistoryTokenAction[];
+    fromAddress: string;
+    toAddress: string;
+    nonce: number;
+    feeInSmallestNative: string;
+    // Present on simple transfers
+    amount?: string;
+    token?: Partial<TokenInfo>;
+  };
+  // Older response shapes flatten these onto the item
+  txHash?: string;
+  timeStamp?: number;
+  status?: string;
+}
+
+export interface HistoryEvents {
+  items: HistoryEvent[];
+  cache_counter?: number;
+}
+
+// Traces API
+export interface SyncedInterval {
+  from: number;
+  to: number;
+}
+
+export interface BlockTrace {
+  type: string;
+  version: string;
+  number: number;
+  blockHash: string;
+  blockTimestamp: string;
+  traces: unknown[];
+}
+
+export interface TransactionTrace {
+  transactionTrace: unknown;
+  type: string;
+}
+
+// Domains API
+export interface DomainLookup {
+  result: {
+    protocol: string;
+    address: string;
+    checkUrl: string;
+  };
+}
+
+export interface DomainReverseLookup {
+  result: {
+    protocol: string;
+    domain: string;
+    checkUrl: string;
+  };
+}
+
+export interface DomainProvidersData {
+  result: {
+    protocol: string;
+    domain: string;
+    address: string;
+    avatar: unknown;
+  }[];
+}
+
+// NFT API
+export interface NftAsset {
+  id: string | number;
+  token_id: string;
+  provider: string;
+  name?: string;
+  chainId: number;
+  priority?: number;
+  asset_contract: {
+    address: string;
+    schema_name?: string;
+    image_url?: string;
+  };
+  image_url?: string;
+  image_preview_url?: string;
+  animation_url?: string;
+  external_link?: string;
+  permalink?: string;
+  description?: string;
+}
+
+export interface NftsByAddress {
+  assets: NftAsset[];
+  openseaNextToken?: string;
+  openseaPrevToken?: string;
+}
@@ -0,0 +1,154 @@
+import { chainName } from "@/lib/chains";
+import type { PortfolioApi } from "@/lib/oneinch/portfolio";
+
+// Windows the dashboard offers for profit and loss
+export const PNL_WINDOWS = ['1d', '7d', '30d', 'ytd'] as const;
+
+export type PnlWindow = typeof PNL_WINDOWS[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WINDOW_DAYS: Record<Exclude<PnlWindow, 'ytd'>, number> = { '1d': 1, '7d': 7, '30d': 30 };
+
+export interface ChainHolding {
+  chainId: string;
+  name: string;
+  valueUsd: number;
+  // Share of the total value, 0..1
+  allocation: number;
+  // null when 1inch has no profit and loss for the chain in the window
+  profitUsd: number | null;
+  roi: number | null;
+}
+
+export interface TokenHolding {
+  chainId: string;
+  address: string;
+  symbol: string;
+  name: string;
+  amount: number;
+  priceUsd: number;
+  valueUsd: number;
+  allocation: number;
+}
+
+export interface PortfolioOverview {
+  totalUsd: number;
+  window: PnlWindow;
+  fromTimestamp: string;
+  toTimestamp: string;
+  profitUsd: number;
+  // Profit over the cost basis of the chains that report one; null without any
+  roi: number | null;
+  chains: ChainHolding[];
+  tokens: TokenHolding[];
+  // Why profit and loss is missing when its upstream call failed; the
+  // value and holdings still stand
+  profitError: string | null;
+}
+
+export interface OverviewQuery {
+  addresses: string[];
+  chainIds: string[];
+  window: PnlWindow;
+  now?: Date;
+}
+
+// ISO range a window covers, ending now; YTD starts on 1 January UTC
+export function windowRange(window: PnlWindow, now = new Date()): { fromTimestamp: string; toTimestamp: string } {
+  const from = window === 'ytd'
+    ? Date.UTC(now.getUTCFullYear(), 0, 1)
+    : now.getTime() - WINDOW_DAYS[window] * DAY_MS;
+  return { fromTimestamp: new Date(from).toISOString(), toTimestamp: now.toISOString() };
+}
+
+interface ChainSnapshot {
+  chainId: string;
+  valueUsd: number;
+  profitUsd: number | null;
+  roi: number | null;
+  tokens: Omit<TokenHolding, 'allocation'>[];
+}
+
+type CurrentValue = Awaited<ReturnType<PortfolioApi['currentValue']>>;
+type TokenDetails = Awaited<ReturnType<PortfolioApi['tokenDetails']>>;
+type ProfitAndLoss = Awaited<ReturnType<PortfolioApi['profitAndLoss']>>;
+
+// One chain's rows out of the all-chain answers
+function chainSnapshot(chainId: string, current: CurrentValue, details: TokenDetails, pnl: ProfitAndLoss | null): ChainSnapshot {
+  const id = Number(chainId);
+  const profit = pnl?.result.find((row) => row.chain_id === id);
+
+  return {
+    chainId,
+    valueUsd: current.result.by_chain.find((row) => row.chain_id === id)?.value_usd ?? 0,
+    profitUsd: profit?.abs_profit_usd ?? null,
+    roi: profit?.roi ?? null,
+    tokens: details.result
+      .filter((token) => token.chain_id === id)
+      .map((token) => ({
+        chainId,
+        address: token.contract_address.toLowerCase(),
+        symbol: token.symbol,
+        name: token.name || token.symbol,
+        amount: token.amount,
+        priceUsd: token.price_to_usd,
+        valueUsd: token.value_usd,
+      })),
+  };
+}
+
+// What the chain held at the start of the window, recovered from its ROI
+function costBasis({ valueUsd, profitUsd, roi }: ChainSnapshot): number | undefined {
+  if (profitUsd === null) return undefined;
+  return roi ? profitUsd / roi : valueUsd - profitUsd;
+}
+
+const byValue = (a: { valueUsd: number }, b: { valueUsd: number }) => b.valueUsd - a.valueUsd;
+
+// Value, holdings and profit and loss across chains, from three upstream
+// calls over every chain split by chain id. Profit and loss is optional: when
+// it fails the overview carries `profitError`; the other two must succeed.
+export async function fetchPortfolioOverview(portfolio: PortfolioApi, query: OverviewQuery): Promise<PortfolioOverview> {
+  const { addresses, chainIds, window } = query;
+  const range = windowRange(window, query.now);
+
+  const [current, details, pnl] = await Promise.all([
+    portfolio.currentValue({ addresses }),
+    portfolio.tokenDetails({ addresses }),
+    portfolio.profitAndLoss({ addresses, ...range }).then(
+      (value) => ({ value, error: null }),
+      (reason) => ({ value: null, error: reason instanceof Error ? reason.message : 'Unknown error' })
+    ),
+  ]);
+  const snapshots = chainIds.map((chainId) => chainSnapshot(chainId, current, details, pnl.value));
+
+  const totalUsd = snapshots.reduce((sum, chain) => sum + chain.valueUsd, 0);
+  const share = (valueUsd: number) => (totalUsd > 0 ? valueUsd / totalUsd : 0);
+  const profitUsd = snapshots.reduce((sum, chain) => sum + (chain.profitUsd ?? 0), 0);
+  const bases = snapshots.map(costBasis).filter((basis): basis is number => basis !== undefined);
+  const basis = bases.reduce((sum, value) => sum + value, 0);
+
+  return {
+    totalUsd,
+    window,
+    ...range,
+    profitUsd,
+    roi: bases.length && basis > 0 ? profitUsd / basis : null,
+    chains: snapshots
+      .filter((chain) => chain.valueUsd > 0 || chain.tokens.length > 0 || chain.profitUsd)
+      .map(({ chainId, valueUsd, profitUsd, roi }) => ({
+        chainId,
+        name: chainName(chainId),
+        valueUsd,
+        allocation: share(valueUsd),
+        profitUsd,
+        roi,
+      }))
+      .sort(byValue),
+    tokens: snapshots
+      .flatMap((chain) => chain.tokens)
+      .map((token) => ({ ...token, allocation: share(token.valueUsd) }))
+      .sort(byValue),
+    profitError: pnl.error,
+  };
+}
@@ -0,0 +1,23 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { UnauthorizedError } from "@/lib/api/apiErrors";
+
+// Bearer tokens of the resolvers allowed to report escrows, comma-separated in
+// RESOLVER_API_KEYS. With none configured nobody can report.
+export function resolverApiKeys(value = process.env.RESOLVER_API_KEYS): string[] {
+  return (value ?? '').split(',').map((key) => key.trim()).filter(Boolean);
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+// Throws unless the request carries one of the keys as `Authorization: Bearer <key>`
+export function authenticateResolver(request: Request, keys = resolverApiKeys()): void {
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!token) {
+    throw new UnauthorizedError('Escrow reports need a resolver API key');
+  }
+  // Compare digests so the check takes the same time whatever the token
+  const presented = digest(token);
+  if (!keys.some((key) => timingSafeEqual(digest(key), presented))) {
+    throw new UnauthorizedError('Unknown resolver API key');
+  }
+}
@@ -0,0 +1,43 @@
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { OrderRecord, OrderRecordStore } from "./types";
+
+// One JSON file per order, named by its hash; survives restarts and is shared
+// by every worker on the host
+export function createFileRecordStore(directory: string): OrderRecordStore {
+  const fileFor = (orderHash: string) => path.join(directory, `${orderHash.toLowerCase()}.json`);
+
+  const read = async (file: string) => {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as OrderRecord;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    get(orderHash) {
+      // Hashes come from URLs; never let one escape the directory
+      return /^0x[0-9a-fA-F]{64}$/.test(orderHash) ? read(fileFor(orderHash)) : Promise.resolve(undefined);
+    },
+
+    async put(record) {
+      await mkdir(directory, { recursive: true });
+      // Write then rename, so readers never see a half-written record
+      const file = fileFor(record.orderHash);
+      const temporary = `${file}.${process.pid}.tmp`;
+      await writeFile(temporary, JSON.stringify(record));
+      await rename(temporary, file);
+    },
+
+    async list() {
+      const files = await readdir(directory).catch(() => [] as string[]);
+      const records = await Promise.all(
+        files.filter((file) => file.endsWith('.json')).map((file) => read(path.join(directory, file)))
+      );
+      return records
+        .filter((record): record is OrderRecord => record !== undefined)
+        .sort((a, b) => a.createdAt - b.createdAt);
+    },
+  };
+}
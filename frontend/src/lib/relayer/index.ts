@@ -0,0 +1,75 @@
+import path from "node:path";
+import { Address, createPublicClient, http } from "viem";
+import { addressNetwork, CardanoNetwork, createBlockfrostProvider } from "@/lib/cardano";
+import { findChain } from "@/lib/chains";
+import { createFileRecordStore } from "./file";
+import { createMemoryRecordStore } from "./memory";
+import { createOrderBook, OrderBook } from "./orderBook";
+import type { OrderRecordStore } from "./types";
+import { CardanoEscrowChain, createEscrowVerifier, EscrowVerifier, EvmEscrowChain } from "./verify";
+
+export { createFileRecordStore } from "./file";
+export { createMemoryRecordStore } from "./memory";
+export { createOrderBook } from "./orderBook";
+export type { OrderBook, OrderBookOptions, SubmitOrderInput } from "./orderBook";
+export { authenticateResolver, resolverApiKeys } from "./auth";
+export { createEscrowVerifier, EscrowVerificationError } from "./verify";
+export type { CardanoEscrowChain, EscrowVerifier, EscrowVerifierOptions, EvmEscrowChain, VerifiedEscrow } from "./verify";
+export type * from "./types";
+
+const globalForOrderBook = globalThis as unknown as { __orderBook?: OrderBook };
+
+// Backend picked by ORDER_STORE: memory (default, lost on restart) or file
+function storeFromEnv(): OrderRecordStore {
+  switch (process.env.ORDER_STORE || 'memory') {
+    case 'file':
+      return createFileRecordStore(process.env.ORDER_STORE_DIR || path.join(process.cwd(), '.cache', 'orders'));
+    default:
+      return createMemoryRecordStore();
+  }
+}
+
+// "1=https://…,137=https://…" pairs of chain id and RPC URL
+function evmRpcUrls(value = ''): [number, string][] {
+  return value.split(',').filter(Boolean).map((entry) => {
+    const [chainId, url] = entry.split('=', 2).map((part) => part.trim());
+    if (!findChain(chainId) || !url) {
+      throw new Error(`RELAYER_EVM_RPC_URLS entries must look like 1=https://rpc.example, got ${entry}`);
+    }
+    return [Number(chainId), url];
+  });
+}
+
+// On-chain checks for escrow reports: RELAYER_EVM_RPC_URLS with
+// RELAYER_ESCROW_FACTORY for EVM chains, RELAYER_CARDANO_ESCROW_ADDRESSES
+// (read through Blockfrost) for Cardano. Reports for chains left out are
+// rejected; RELAYER_TRUST_ESCROW_REPORTS=1 accepts them all unchecked, for
+// local runs against simulated escrows only.
+function verifierFromEnv(): EscrowVerifier | undefined {
+  if (process.env.RELAYER_TRUST_ESCROW_REPORTS === '1') return undefined;
+
+  const factory = process.env.RELAYER_ESCROW_FACTORY as Address | undefined;
+  const evm: Record<number, EvmEscrowChain> = {};
+  if (factory) {
+    for (const [chainId, url] of evmRpcUrls(process.env.RELAYER_EVM_RPC_URLS)) {
+      evm[chainId] = { publicClient: createPublicClient({ chain: findChain(chainId)?.viem, transport: http(url) }), factory };
+    }
+  }
+
+  const cardano: Partial<Record<CardanoNetwork, CardanoEscrowChain>> = {};
+  for (const escrowAddress of (process.env.RELAYER_CARDANO_ESCROW_ADDRESSES ?? '').split(',').map((value) => value.trim()).filter(Boolean)) {
+    const network = addressNetwork(escrowAddress);
+    const projectId = network === 'mainnet' ? process.env.BLOCKFROST_PROJECT_ID : process.env.BLOCKFROST_PREPROD_PROJECT_ID;
+    cardano[network] = { provider: createBlockfrostProvider({ network, projectId }), escrowAddress };
+  }
+
+  return createEscrowVerifier({ evm, cardano });
+}
+
+// Process-wide order book, kept on globalThis so dev hot reloads keep the orders
+export function sharedOrderBook(): OrderBook {
+  if (!globalForOrderBook.__orderBook) {
+    globalForOrderBook.__orderBook = createOrderBook({ store: storeFromEnv(), verifyEscrow: verifierFromEnv() });
+  }
+  return globalForOrderBook.__orderBook;
+}
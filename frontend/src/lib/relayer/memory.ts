@@ -0,0 +1,21 @@
+import type { OrderRecord, OrderRecordStore } from "./types";
+
+// In-process store; records are copied through JSON so callers cannot mutate them
+export function createMemoryRecordStore(): OrderRecordStore {
+  const records = new Map<string, string>();
+
+  return {
+    async get(orderHash) {
+      const record = records.get(orderHash.toLowerCase());
+      return record === undefined ? undefined : (JSON.parse(record) as OrderRecord);
+    },
+
+    async put(record) {
+      records.set(record.orderHash.toLowerCase(), JSON.stringify(record));
+    },
+
+    async list() {
+      return [...records.values()].map((record) => JSON.parse(record) as OrderRecord);
+    },
+  };
+}
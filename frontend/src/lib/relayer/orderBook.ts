@@ -0,0 +1,264 @@
+import type { Hex } from "viem";
+import {
+  AuctionDetails,
+  chainKey,
+  createOrderLifecycle,
+  CrossChainOrder,
+  deserializeOrder,
+  EscrowPhase,
+  EscrowSide,
+  fromStoredOrder,
+  isExpired,
+  LifecycleTransitionError,
+  orderHash,
+  OrderLifecycle,
+  OrderSignature,
+  SignedOrder,
+  TERMINAL_STATES,
+  toAuctionJson,
+  toOrderJson,
+  toStoredOrder,
+  verifyCancellationSignature,
+  verifyOrderSignature,
+  verifyRevealedSecret,
+} from "@/lib/fusion";
+import { ConflictError } from "@/lib/api/apiErrors";
+import { NotFoundError } from "@/lib/oneinch/errors";
+import { RequestValidationError } from "@/lib/validation";
+import type {
+  EscrowReport,
+  OrderQuery,
+  OrderRecord,
+  OrderRecordStore,
+  OrderView,
+  RevealedSecretInput,
+} from "./types";
+import { EscrowVerificationError, EscrowVerifier } from "./verify";
+
+export interface OrderBookOptions {
+  store: OrderRecordStore;
+  // Unix seconds
+  now?: () => number;
+  // Confirms a resolver's report on chain before the order book accepts it and
+  // supplies the time to record; without one, reports are taken on trust and
+  // recorded at arrival
+  verifyEscrow?: EscrowVerifier;
+}
+
+export interface SubmitOrderInput {
+  order: CrossChainOrder;
+  signature: OrderSignature;
+  // Optional client-computed hash, checked against the order
+  orderHash?: Hex;
+  auction?: AuctionDetails;
+}
+
+function invalid(path: string, message: string) {
+  return new RequestValidationError([{ path, message }]);
+}
+
+// Shared order book: makers submit and cancel orders and reveal secrets,
+// resolvers report escrows, and every change lands on the order's timeline
+export function createOrderBook({ store, now = () => Math.floor(Date.now() / 1000), verifyEscrow }: OrderBookOptions) {
+  // Changes to one order run one at a time, so read-modify-write never interleaves
+  const queues = new Map<string, Promise<unknown>>();
+
+  const exclusive = <T>(hash: string, task: () => Promise<T>): Promise<T> => {
+    const key = hash.toLowerCase();
+    const result = (queues.get(key) ?? Promise.resolve()).then(task);
+    const settled = result.catch(() => undefined);
+    queues.set(key, settled);
+    settled.then(() => {
+      if (queues.get(key) === settled) queues.delete(key);
+    });
+    return result;
+  };
+
+  const load = async (hash: string): Promise<OrderRecord> => {
+    const record = await store.get(hash);
+    if (!record) {
+      throw new NotFoundError(`Order ${hash} not found`);
+    }
+    return record;
+  };
+
+  // Restores the record's lifecycle; its events go straight onto the timeline
+  const lifecycleOf = (record: OrderRecord, order: CrossChainOrder, at: number): OrderLifecycle => {
+    const lifecycle = createOrderLifecycle(order, { now: () => at, snapshot: record.lifecycle });
+    lifecycle.subscribe((event) => {
+      record.events.push(event);
+    });
+    return lifecycle;
+  };
+
+  // The record as of `at`, with clock-driven phases and expiry applied
+  const view = (stored: OrderRecord, at: number): OrderView => {
+    const record = { ...stored, events: [...stored.events] };
+    const order = deserializeOrder(record.order);
+    const lifecycle = lifecycleOf(record, order, at);
+    lifecycle.tick();
+
+    const phases: Partial<Record<EscrowSide, EscrowPhase>> = {};
+    for (const side of ['src', 'dst'] as const) {
+      const phase = lifecycle.phase(side);
+      if (phase) phases[side] = phase;
+    }
+
+    return {
+      orderHash: record.orderHash,
+      order: toOrderJson(order),
+      signature: record.signature,
+      ...(record.auction && { auction: record.auction }),
+      status: lifecycle.state,
+      phases,
+      canRevealSecret: lifecycle.canRevealSecret(),
+      escrows: record.escrows,
+      secrets: record.secrets,
+      events: record.events,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  };
+
+  const update = (
+    hash: string,
+    change: (record: OrderRecord, lifecycle: OrderLifecycle, signed: SignedOrder, at: number) => void | Promise<void>
+  ) =>
+    exclusive(hash, async () => {
+      const record = await load(hash);
+      const signed = fromStoredOrder(record);
+      const at = now();
+      const lifecycle = lifecycleOf(record, signed.order, at);
+
+      try {
+        await change(record, lifecycle, signed, at);
+      } catch (error) {
+        throw error instanceof LifecycleTransitionError ? new ConflictError(error.message) : error;
+      }
+      lifecycle.tick();
+
+      record.lifecycle = lifecycle.snapshot();
+      record.status = lifecycle.state;
+      record.updatedAt = at;
+      await store.put(record);
+      return view(record, at);
+    });
+
+  return {
+    async submit({ order, signature, orderHash: claimed, auction }: SubmitOrderInput): Promise<OrderView> {
+      const hash = orderHash(order);
+      const at = now();
+      if (claimed && claimed.toLowerCase() !== hash) {
+        throw invalid('orderHash', 'orderHash does not match the order');
+      }
+      if (isExpired(order, at)) {
+        throw invalid('order.expiresAt', 'Order has already expired');
+      }
+      if (!(await verifyOrderSignature(order, signature))) {
+        throw invalid('signature', 'Signature is not valid for the order maker');
+      }
+
+      return exclusive(hash, async () => {
+        if (await store.get(hash)) {
+          throw new ConflictError(`Order ${hash} has already been submitted`);
+        }
+        const lifecycle = createOrderLifecycle(order, { now: () => at });
+        const record: OrderRecord = {
+          ...toStoredOrder({ order, orderHash: hash, signature }),
+          ...(auction && { auction: toAuctionJson(auction) }),
+          status: lifecycle.state,
+          lifecycle: lifecycle.snapshot(),
+          escrows: {},
+          secrets: [],
+          events: [{ type: 'submitted', at }],
+          createdAt: at,
+          updatedAt: at,
+        };
+        await store.put(record);
+        return view(record, at);
+      });
+    },
+
+    async get(hash: string): Promise<OrderView> {
+      return view(await load(hash), now());
+    },
+
+    // Newest first
+    async list({ maker, srcChain, dstChain, status, limit }: OrderQuery = {}): Promise<OrderView[]> {
+      const at = now();
+      const views = (await store.list())
+        .map((record) => view(record, at))
+        .filter(({ order, status: current }) =>
+          (!maker || order.maker.toLowerCase() === maker.toLowerCase()) &&
+          (!srcChain || chainKey(order.srcChain) === chainKey(srcChain)) &&
+          (!dstChain || chainKey(order.dstChain) === chainKey(dstChain)) &&
+          (!status || (status === 'active' ? !TERMINAL_STATES.includes(current) : current === status))
+        )
+        .sort((a, b) => b.createdAt - a.createdAt);
+      return limit === undefined ? views : views.slice(0, limit);
+    },
+
+    reportEscrow(hash: string, report: EscrowReport): Promise<OrderView> {
+      return update(hash, async (record, lifecycle, signed, at) => {
+        const { side, action, txHash, escrow } = report;
+        let reportedAt = at;
+        if (verifyEscrow) {
+          try {
+            // Block clocks may run slightly ahead of ours
+            reportedAt = Math.min(at, (await verifyEscrow(signed, report, record.escrows[side])).at);
+          } catch (error) {
+            throw error instanceof EscrowVerificationError ? invalid('txHash', error.message) : error;
+          }
+        }
+
+        record.events.push({ type: 'escrow', side, action, txHash, ...(escrow && { escrow }), at: reportedAt });
+        switch (action) {
+          case 'deployed':
+            if (side === 'src') {
+              lifecycle.recordSrcEscrowDeployed(reportedAt);
+            } else {
+              lifecycle.recordDstEscrowDeployed(reportedAt);
+            }
+            record.escrows[side] = { txHash, ...(escrow && { escrow }), deployedAt: reportedAt };
+            break;
+          case 'withdrawn':
+            lifecycle.recordWithdrawn(side, reportedAt);
+            break;
+          case 'cancelled':
+            lifecycle.recordCancelled(side, reportedAt);
+            break;
+        }
+      });
+    },
+
+    // Accepted once both escrows are past finality; later parts of a partial
+    // fill may add further secrets
+    revealSecret(hash: string, { algorithm = 'keccak256', ...secret }: RevealedSecretInput): Promise<OrderView> {
+      return update(hash, (record, lifecycle, { order }, at) => {
+        if (!verifyRevealedSecret(order.hashlock, secret, algorithm)) {
+          throw invalid('secret', 'Secret does not match the order hashlock');
+        }
+        if (record.secrets.some(({ index }) => index >= secret.index)) {
+          throw new ConflictError(`Secret ${secret.index} has already been revealed or superseded`);
+        }
+        if (!(lifecycle.state === 'secret-revealed' && order.allowPartialFills)) {
+          lifecycle.recordSecretRevealed(at);
+        }
+        record.secrets.push({ index: secret.index, secret: secret.secret, proof: secret.proof });
+        record.events.push({ type: 'secret', index: secret.index, at });
+      });
+    },
+
+    // The maker withdraws an order before any escrow is deployed
+    cancel(hash: string, signature: OrderSignature): Promise<OrderView> {
+      return update(hash, async (_record, lifecycle, { order }, at) => {
+        if (!(await verifyCancellationSignature(order, signature))) {
+          throw invalid('signature', 'Signature is not a cancellation by the order maker');
+        }
+        lifecycle.recordOrderCancelled(at);
+      });
+    },
+  };
+}
+
+export type OrderBook = ReturnType<typeof createOrderBook>;
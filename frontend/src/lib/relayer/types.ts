@@ -0,0 +1,90 @@
+import type { Hex } from "viem";
+import type {
+  AuctionJson,
+  ChainRef,
+  EscrowPhase,
+  EscrowSide,
+  HashAlgorithm,
+  LifecycleEvent,
+  LifecycleSnapshot,
+  OrderJson,
+  OrderSignature,
+  OrderState,
+  RevealedSecret,
+  StoredOrder,
+} from "@/lib/fusion";
+
+export type EscrowAction = 'deployed' | 'withdrawn' | 'cancelled';
+
+// What a resolver tells the relayer it did on chain
+export interface EscrowReport {
+  side: EscrowSide;
+  action: EscrowAction;
+  txHash: string;
+  // Escrow address (EVM) or script output reference (Cardano), when deployed
+  escrow?: string;
+}
+
+export type RevealedSecretInput = Pick<RevealedSecret, 'index' | 'secret' | 'proof'> & {
+  algorithm?: HashAlgorithm;
+};
+
+// Timeline entry: lifecycle changes plus what the relayer was told
+export type OrderEvent =
+  | LifecycleEvent
+  | { type: 'submitted'; at: number }
+  | { type: 'escrow'; side: EscrowSide; action: EscrowAction; txHash: string; escrow?: string; at: number }
+  | { type: 'secret'; index: number; at: number };
+
+export interface EscrowInfo {
+  txHash: string;
+  escrow?: string;
+  deployedAt: number;
+}
+
+// Everything the relayer keeps per order; JSON-safe so any backend can hold it
+export interface OrderRecord extends StoredOrder {
+  // Advisory auction for resolvers; not signed, since the maker's signed
+  // dstAmount is the floor every fill is held to anyway
+  auction?: AuctionJson;
+  status: OrderState;
+  lifecycle: LifecycleSnapshot;
+  escrows: Partial<Record<EscrowSide, EscrowInfo>>;
+  secrets: Pick<RevealedSecret, 'index' | 'secret' | 'proof'>[];
+  events: OrderEvent[];
+  // Unix seconds
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Storage backend behind the order book, keyed by lowercase order hash
+export interface OrderRecordStore {
+  get(orderHash: string): Promise<OrderRecord | undefined>;
+  put(record: OrderRecord): Promise<void>;
+  list(): Promise<OrderRecord[]>;
+}
+
+export interface OrderQuery {
+  maker?: string;
+  srcChain?: ChainRef;
+  dstChain?: ChainRef;
+  // 'active' is every state that can still change
+  status?: OrderState | 'active';
+  limit?: number;
+}
+
+// Order as the API returns it, with the phases as of the response
+export interface OrderView {
+  orderHash: Hex;
+  order: OrderJson;
+  signature: OrderSignature;
+  auction?: AuctionJson;
+  status: OrderState;
+  phases: Partial<Record<EscrowSide, EscrowPhase>>;
+  canRevealSecret: boolean;
+  escrows: Partial<Record<EscrowSide, EscrowInfo>>;
+  secrets: Pick<RevealedSecret, 'index' | 'secret' | 'proof'>[];
+  events: OrderEvent[];
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,194 @@
+import { Address, Hex, isAddressEqual, PublicClient } from "viem";
+import {
+  addressNetwork,
+  CardanoNetwork,
+  CardanoProvider,
+  decodeTransaction,
+  paymentCredential,
+  SLOT_CONFIGS,
+  SlotConfig,
+  slotToUnix,
+  spendRedeemer,
+} from "@/lib/cardano";
+import {
+  chainKey,
+  ChainRef,
+  CrossChainOrder,
+  decodeEscrowRedeemer,
+  EscrowSide,
+  escrowImmutables,
+  escrowSlots,
+  findEscrows,
+  parseEscrowEvents,
+  SignedOrder,
+  unpackTimelocks,
+} from "@/lib/fusion";
+import type { EscrowInfo, EscrowReport } from "./types";
+
+// What the chain says about a reported transaction
+export interface VerifiedEscrow {
+  // Unix seconds the order book records the step at: the escrow's own
+  // deployment time for deployments, the block time otherwise
+  at: number;
+}
+
+// Checks a resolver's report against the chain. `deployed` is the escrow the
+// order book already holds for that side, for withdrawals and cancellations.
+export type EscrowVerifier = (order: SignedOrder, report: EscrowReport, deployed?: EscrowInfo) => Promise<VerifiedEscrow>;
+
+// The report does not match the chain; the order book answers 400
+export class EscrowVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EscrowVerificationError';
+  }
+}
+
+export interface EvmEscrowChain {
+  publicClient: PublicClient;
+  factory: Address;
+}
+
+export interface CardanoEscrowChain {
+  provider: CardanoProvider;
+  // Script address the escrow validator locks funds at
+  escrowAddress: string;
+  slotConfig?: SlotConfig;
+}
+
+export interface EscrowVerifierOptions {
+  // Keyed by chain id
+  evm?: Record<number, EvmEscrowChain>;
+  cardano?: Partial<Record<CardanoNetwork, CardanoEscrowChain>>;
+}
+
+function fail(message: string): never {
+  throw new EscrowVerificationError(message);
+}
+
+// Amount the escrow must hold: the signed amounts for a single fill; with
+// partial fills any part of the source and a non-zero destination
+function checkAmount(order: CrossChainOrder, side: EscrowSide, amount: bigint) {
+  const ok = side === 'src'
+    ? (order.allowPartialFills ? amount > BigInt(0) && amount <= order.srcAmount : amount === order.srcAmount)
+    : (order.allowPartialFills ? amount > BigInt(0) : amount >= order.dstAmount);
+  if (!ok) fail(`The ${side} escrow holds ${amount}, which the order does not allow`);
+}
+
+async function verifyEvm({ publicClient, factory }: EvmEscrowChain, signed: SignedOrder, report: EscrowReport, deployed?: EscrowInfo): Promise<VerifiedEscrow> {
+  const { side, action } = report;
+  const hash = (report.txHash.startsWith('0x') ? report.txHash : `0x${report.txHash}`) as Hex;
+  const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => undefined);
+  if (!receipt) fail(`Transaction ${hash} is not on chain`);
+  if (receipt.status !== 'success') fail(`Transaction ${hash} reverted`);
+
+  if (action === 'deployed') {
+    if (!report.escrow) fail('A deployment report needs the escrow address');
+    // Only the factory's own events count; anyone can emit a lookalike
+    const created = parseEscrowEvents(receipt.logs.filter((log) => isAddressEqual(log.address, factory)))
+      .find((event) => event.type === 'created' && event.side === side && isAddressEqual(event.escrow, report.escrow as Address));
+    if (created?.type !== 'created') fail(`Transaction ${hash} did not create ${side} escrow ${report.escrow}`);
+
+    const { immutables } = created;
+    const { deployedAt } = unpackTimelocks(immutables.timelocks);
+    const expected = escrowImmutables(signed, { side, taker: immutables.taker, amount: immutables.amount, deployedAt });
+    const mismatch = (['orderHash', 'hashlock', 'maker', 'token', 'safetyDeposit', 'timelocks'] as const).find((field) =>
+      String(immutables[field]).toLowerCase() !== String(expected[field]).toLowerCase()
+    );
+    if (mismatch) fail(`The ${side} escrow's ${mismatch} does not match the order`);
+    checkAmount(signed.order, side, immutables.amount);
+    return { at: deployedAt };
+  }
+
+  if (!deployed?.escrow) fail(`No ${side} escrow address is on record to check against`);
+  const type = action === 'withdrawn' ? 'withdrawn' : 'cancelled';
+  const settled = parseEscrowEvents(receipt.logs)
+    .some((event) => event.type === type && isAddressEqual(event.escrow, deployed.escrow as Address));
+  if (!settled) fail(`Transaction ${hash} did not ${action === 'withdrawn' ? 'withdraw' : 'cancel'} escrow ${deployed.escrow}`);
+  const block = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+  return { at: Number(block.timestamp) };
+}
+
+// "txHash#index" output reference
+function outputRef(ref: string): { txHash: string; index: number } {
+  const [txHash, index] = ref.split('#');
+  if (!txHash || !/^\d+$/.test(index ?? '')) fail(`${ref} is not an output reference such as txHash#0`);
+  return { txHash: txHash.toLowerCase(), index: Number(index) };
+}
+
+async function verifyCardano({ provider, escrowAddress, slotConfig = SLOT_CONFIGS[provider.network] }: CardanoEscrowChain, signed: SignedOrder, report: EscrowReport, deployed?: EscrowInfo): Promise<VerifiedEscrow> {
+  const { side, action, txHash } = report;
+  const { order, orderHash } = signed;
+  const confirmation = await provider.awaitTx(txHash, { timeoutMs: 0 }).catch(() => undefined);
+  if (!confirmation) fail(`Transaction ${txHash} is not on chain`);
+
+  if (action === 'deployed') {
+    const utxos = await provider.utxosAt(escrowAddress);
+    const ref = outputRef(report.escrow ?? '');
+    if (ref.txHash !== txHash.toLowerCase()) fail(`Escrow ${report.escrow} is not an output of ${txHash}`);
+    const escrow = findEscrows(utxos, orderHash)
+      .find(({ utxo }) => utxo.txHash.toLowerCase() === ref.txHash && utxo.outputIndex === ref.index);
+    if (!escrow) fail(`No ${side} escrow for this order sits at ${report.escrow}`);
+
+    const { datum, utxo } = escrow;
+    const makerAddress = side === 'src' ? order.maker : order.receiver;
+    const asset = side === 'src' ? order.srcAsset : order.dstAsset;
+    if (datum.side !== side) fail(`Escrow ${report.escrow} is a ${datum.side} escrow`);
+    if (datum.hashlock.toLowerCase() !== order.hashlock.toLowerCase()) fail(`The ${side} escrow's hashlock does not match the order`);
+    if (datum.maker !== paymentCredential(makerAddress).hash) fail(`The ${side} escrow's maker does not match the order`);
+    if (datum.asset !== asset) fail(`The ${side} escrow's asset does not match the order`);
+    if (datum.safetyDeposit !== (side === 'src' ? order.srcSafetyDeposit : order.dstSafetyDeposit)) {
+      fail(`The ${side} escrow's safety deposit does not match the order`);
+    }
+    checkAmount(order, side, datum.amount);
+
+    const locked = asset === 'lovelace' ? utxo.value.lovelace - datum.safetyDeposit : utxo.value.assets[asset] ?? BigInt(0);
+    if (locked < datum.amount || utxo.value.lovelace < datum.safetyDeposit) fail(`Escrow ${report.escrow} holds less than its datum says`);
+
+    // The slots are laid out from when the lock was built, which is at or
+    // before the block that included it
+    const offset = side === 'src' ? order.timelocks.srcWithdrawal : order.timelocks.dstWithdrawal;
+    const deployedAt = slotToUnix(datum.slots.withdrawal, slotConfig) - offset;
+    const expected = escrowSlots(order, side, deployedAt, slotConfig);
+    if (deployedAt > confirmation.time || JSON.stringify(expected) !== JSON.stringify(datum.slots)) {
+      fail(`The ${side} escrow's timelocks do not match the order`);
+    }
+    return { at: deployedAt };
+  }
+
+  // The reported transaction itself must spend the escrow, with the redeemer
+  // matching the action
+  if (!deployed?.escrow) fail(`No ${side} escrow output is on record to check against`);
+  const ref = outputRef(deployed.escrow);
+  const cbor = await provider.transaction(txHash);
+  if (!cbor) fail(`Transaction ${txHash} is not on chain`);
+  const redeemer = spendRedeemer(decodeTransaction(cbor), { txHash: ref.txHash, outputIndex: ref.index });
+  if (!redeemer) fail(`Transaction ${txHash} does not spend escrow ${deployed.escrow}`);
+  const expected = action === 'withdrawn' ? 'withdraw' : 'cancel';
+  let spent: string | undefined;
+  try {
+    spent = decodeEscrowRedeemer(redeemer).action;
+  } catch {
+    // Not the escrow validator's redeemer
+  }
+  if (spent !== expected) fail(`Transaction ${txHash} does not ${expected} escrow ${deployed.escrow}`);
+  return { at: confirmation.time };
+}
+
+// Verifier over the configured chains; a report for any other chain is rejected
+export function createEscrowVerifier({ evm = {}, cardano = {} }: EscrowVerifierOptions): EscrowVerifier {
+  return async (signed, report, deployed) => {
+    const chain: ChainRef = report.side === 'src' ? signed.order.srcChain : signed.order.dstChain;
+    if (chain.kind === 'evm') {
+      const config = evm[chain.chainId];
+      if (!config) fail(`Escrows on ${chainKey(chain)} cannot be verified by this relayer`);
+      return verifyEvm(config, signed, report, deployed);
+    }
+    const config = cardano[chain.network];
+    if (!config) fail(`Escrows on ${chainKey(chain)} cannot be verified by this relayer`);
+    if (addressNetwork(config.escrowAddress) !== chain.network) {
+      throw new Error(`The ${chain.network} escrow address belongs to another network`);
+    }
+    return verifyCardano(config, signed, report, deployed);
+  };
+}
@@ -0,0 +1,155 @@
+import { createPrivateKey, createPublicKey, sign } from "node:crypto";
+import {
+  addressToBech32,
+  blake2b224,
+  blake2b256,
+  BuiltTransaction,
+  CardanoNetwork,
+  CardanoProvider,
+  CborValue,
+  cborTag,
+  decodeCbor,
+  decodeCborItem,
+  encodeCbor,
+  fromHex,
+  isTag,
+  PlutusScript,
+  scriptAddress,
+  SLOT_CONFIGS,
+  SlotConfig,
+  slotToUnix,
+  toHex,
+} from "@/lib/cardano";
+import {
+  buildEscrowCancel,
+  buildEscrowLock,
+  buildEscrowWithdraw,
+  CardanoEscrow,
+  ChainRef,
+  EscrowSide,
+  findEscrows,
+  SignedOrder,
+} from "@/lib/fusion";
+import type { EscrowAdapter, EscrowDeployment } from "./types";
+
+export interface CardanoSigner {
+  // Enterprise address of the key on the given network
+  address(network: CardanoNetwork): string;
+  // Adds the key's witness to a transaction built here
+  signTx(cborHex: string): Promise<string>;
+}
+
+// PKCS#8 wrapping of a raw 32-byte Ed25519 seed, which node:crypto imports
+const ED25519_PKCS8_PREFIX = '302e020100300506032b657004220420';
+
+// Signs with a plain Ed25519 payment key, given as the 32-byte seed in hex
+// (the cborHex of a cardano-cli signing key without its 5820 prefix)
+export function createCardanoKeySigner(seedHex: string): CardanoSigner {
+  if (!/^[0-9a-f]{64}$/i.test(seedHex)) throw new Error('A Cardano signing key is 32 bytes of hex');
+  const privateKey = createPrivateKey({ key: Buffer.from(ED25519_PKCS8_PREFIX + seedHex, 'hex'), format: 'der', type: 'pkcs8' });
+  const publicKey = createPublicKey(privateKey).export({ format: 'der', type: 'spki' }).subarray(-32);
+  const keyHash = toHex(blake2b224(publicKey));
+
+  return {
+    address(network) {
+      return addressToBech32(`${network === 'mainnet' ? '61' : '60'}${keyHash}`);
+    },
+
+    async signTx(cborHex) {
+      const bytes = fromHex(cborHex);
+      const { end } = decodeCborItem(bytes, 1);
+      const [, witnesses, isValid, auxiliary] = decodeCbor(bytes) as [CborValue, Map<CborValue, CborValue>, CborValue, CborValue];
+      const body = bytes.subarray(1, end);
+      const signature = sign(null, blake2b256(body), privateKey);
+
+      const existing = witnesses.get(0);
+      const keys = existing === undefined ? [] : isTag(existing) ? existing.value as CborValue[] : existing as CborValue[];
+      witnesses.set(0, cborTag(258, [...keys, [Uint8Array.from(publicKey), Uint8Array.from(signature)]]));
+      // The body keeps its original bytes so the transaction hash is unchanged
+      return toHex(Uint8Array.from([0x84, ...body, ...encodeCbor(witnesses), ...encodeCbor(isValid ?? true), ...encodeCbor(auxiliary ?? null)]));
+    },
+  };
+}
+
+export interface CardanoEscrowAdapterOptions {
+  provider: CardanoProvider;
+  // The escrow validator for this network (see escrowScriptFromBlueprint)
+  script: PlutusScript;
+  // The resolver's key: pays destination escrows, fees and collateral, and
+  // receives source withdrawals and destination refunds
+  signer: CardanoSigner;
+  slotConfig?: SlotConfig;
+  // Lovelace one escrow costs over its life, the lock plus its script spend
+  feePerEscrow?: bigint;
+}
+
+const DEFAULT_FEE_PER_ESCROW = BigInt(1_500_000);
+
+// Drives escrows at the Cardano escrow validator. Only destination escrows are
+// deployed here: a Cardano source escrow holds the maker's own funds, which
+// only the maker's wallet can lock.
+export function createCardanoEscrowAdapter(
+  chain: Extract<ChainRef, { kind: 'cardano' }>,
+  { provider, script, signer, slotConfig = SLOT_CONFIGS[chain.network], feePerEscrow = DEFAULT_FEE_PER_ESCROW }: CardanoEscrowAdapterOptions
+): EscrowAdapter {
+  if (provider.network !== chain.network) throw new Error(`The Cardano provider is on ${provider.network}, not ${chain.network}`);
+  const address = signer.address(chain.network);
+  const escrowAddress = scriptAddress(script, chain.network);
+
+  const context = async () => ({
+    script,
+    params: await provider.protocolParameters(),
+    slotConfig,
+    slot: (await provider.tip()).slot,
+    wallet: await provider.utxosAt(address),
+    changeAddress: address,
+  });
+
+  const submit = async (tx: BuiltTransaction) => {
+    const txHash = await provider.submitTx(await signer.signTx(tx.cborHex));
+    await provider.awaitTx(txHash);
+    return txHash;
+  };
+
+  // The escrow output a deployment points at, while it is still unspent
+  const escrowAt = async ({ orderHash }: SignedOrder, side: EscrowSide, { escrow }: EscrowDeployment): Promise<CardanoEscrow> => {
+    const found = findEscrows(await provider.utxosAt(escrowAddress), orderHash)
+      .find(({ utxo, datum }) => `${utxo.txHash}#${utxo.outputIndex}` === escrow && datum.side === side);
+    if (!found) throw new Error(`No unspent ${side} escrow at ${escrow}`);
+    return found;
+  };
+
+  return {
+    chain,
+
+    async estimateFee() {
+      return feePerEscrow;
+    },
+
+    async deployDstEscrow(signed, quote) {
+      const tx = buildEscrowLock(
+        { order: signed.order, orderHash: signed.orderHash, side: 'dst', takerAddress: address, amount: quote.takingAmount },
+        await context()
+      );
+      const txHash = await submit(tx);
+      const index = tx.outputs.findIndex((output) => output.address === escrowAddress);
+      // The timelocks run from the slot the lock was built at
+      const at = slotToUnix(tx.datum.slots.withdrawal, slotConfig) - signed.order.timelocks.dstWithdrawal;
+      return { txHash, escrow: `${txHash}#${index}`, at };
+    },
+
+    async withdraw(side, signed, deployment, secret) {
+      const escrow = await escrowAt(signed, side, deployment);
+      // Source funds go to the resolver, destination funds to the maker's receiver
+      const recipient = side === 'src' ? address : signed.order.receiver;
+      return submit(buildEscrowWithdraw({ escrow, secret, recipient }, await context()));
+    },
+
+    async cancel(side, signed, deployment) {
+      const escrow = await escrowAt(signed, side, deployment);
+      const refundAddress = side === 'src' ? signed.order.maker : address;
+      return submit(buildEscrowCancel({ escrow, refundAddress }, await context()));
+    },
+  };
+}
+
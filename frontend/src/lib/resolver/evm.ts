@@ -0,0 +1,73 @@
+import { Address, Hex, isAddressEqual, zeroAddress } from "viem";
+import {
+  ChainRef,
+  EscrowSide,
+  escrowImmutables,
+  EvmEscrowClient,
+  EvmEscrowDeployment,
+} from "@/lib/fusion";
+import type { EscrowAdapter, EscrowDeployment } from "./types";
+
+export interface EvmEscrowAdapterOptions {
+  // The resolver account the client's wallet sends from
+  taker: Address;
+  // Gas one escrow costs over its life, deployment plus withdrawal or cancellation
+  gasPerEscrow?: bigint;
+  gasPrice: () => Promise<bigint>;
+}
+
+const DEFAULT_GAS_PER_ESCROW = BigInt(300_000);
+
+// Drives escrows through the factory on one EVM chain. Immutables are not
+// kept: later calls read them back from the deployment's creation event.
+export function createEvmEscrowAdapter(
+  chain: Extract<ChainRef, { kind: 'evm' }>,
+  client: EvmEscrowClient,
+  { taker, gasPerEscrow = DEFAULT_GAS_PER_ESCROW, gasPrice }: EvmEscrowAdapterOptions
+): EscrowAdapter {
+  const deployment = ({ txHash, escrow, deployedAt }: EvmEscrowDeployment): EscrowDeployment => ({
+    txHash,
+    escrow,
+    at: deployedAt,
+  });
+
+  const immutablesOf = async (side: EscrowSide, { txHash, escrow }: EscrowDeployment) => {
+    const event = (await client.events(txHash as Hex)).find((entry) => entry.type === 'created' &&
+      entry.side === side && isAddressEqual(entry.escrow, escrow as Address));
+    if (event?.type !== 'created') {
+      throw new Error(`No ${side} escrow ${escrow} was created by ${txHash}`);
+    }
+    return event.immutables;
+  };
+
+  return {
+    chain,
+
+    async estimateFee() {
+      return gasPerEscrow * (await gasPrice());
+    },
+
+    async deploySrcEscrow(signed, quote) {
+      return deployment(await client.deploySrc(signed, quote.makingAmount));
+    },
+
+    async deployDstEscrow(signed, quote) {
+      const immutables = escrowImmutables(signed, { side: 'dst', taker, amount: quote.takingAmount });
+      if (!isAddressEqual(immutables.token, zeroAddress)) {
+        await client.approve(immutables.token, immutables.amount);
+      }
+      // The source escrow went out after the quote, so this is never later
+      // than its real cancellation time
+      const srcCancellation = BigInt(quote.time + signed.order.timelocks.srcCancellation);
+      return deployment(await client.deployDst(immutables, srcCancellation));
+    },
+
+    async withdraw(side, _order, escrow, secret) {
+      return client.withdraw(escrow.escrow as Address, await immutablesOf(side, escrow), secret);
+    },
+
+    async cancel(side, _order, escrow) {
+      return client.cancel(escrow.escrow as Address, await immutablesOf(side, escrow));
+    },
+  };
+}
@@ -0,0 +1,8 @@
+export * from "./cardano";
+export * from "./evm";
+export * from "./market";
+export * from "./orderBookClient";
+export * from "./positions";
+export * from "./resolver";
+export * from "./simulated";
+export type * from "./types";
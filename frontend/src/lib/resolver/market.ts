@@ -0,0 +1,122 @@
+import { formatUnits } from "viem";
+import { NATIVE_TOKEN_ADDRESS } from "@/lib/chains";
+import {
+  AuctionDetails,
+  AuctionQuote,
+  baseFeeFromGasPrices,
+  chainKey,
+  ChainRef,
+  EscrowSide,
+  evaluateFill,
+  SignedOrder,
+} from "@/lib/fusion";
+import type { GasPrices } from "@/lib/oneinch";
+import type { TokenPrice } from "@/lib/spotPrices";
+import type { AssetPrice, BaseFeeOracle, PriceOracle } from "./types";
+
+// Asset the chain's fees are paid in
+export function nativeAsset(chain: ChainRef): string {
+  return chain.kind === 'evm' ? NATIVE_TOKEN_ADDRESS : 'lovelace';
+}
+
+async function getJson<T>(fetchImpl: typeof fetch, url: string): Promise<T> {
+  const response = await fetchImpl(url);
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status}`);
+  }
+  return response.json();
+}
+
+// EVM prices from the app's /api/spotprice route; other chains are left to other oracles
+export function spotPriceOracle(apiUrl: string, fetchImpl: typeof fetch = fetch): PriceOracle {
+  return async (chain, asset) => {
+    if (chain.kind !== 'evm') return undefined;
+    const params = new URLSearchParams({ action: 'addresses', chainId: String(chain.chainId), addresses: asset });
+    const body = await getJson<{ prices?: Record<string, TokenPrice> }>(fetchImpl, `${apiUrl}/api/spotprice?${params}`);
+    const price = body.prices?.[asset.toLowerCase()];
+    return price?.usd != null && price.decimals != null
+      ? { usd: Number(price.usd), decimals: price.decimals }
+      : undefined;
+  };
+}
+
+// Fixed prices keyed by "<chain key>/<asset>", e.g. "cardano:mainnet/lovelace"
+export function staticPriceOracle(prices: Record<string, AssetPrice>): PriceOracle {
+  return async (chain, asset) => prices[`${chainKey(chain)}/${asset}`];
+}
+
+// First oracle that knows the asset wins
+export function firstPriceOracle(...oracles: PriceOracle[]): PriceOracle {
+  return async (chain, asset) => {
+    for (const oracle of oracles) {
+      const price = await oracle(chain, asset);
+      if (price) return price;
+    }
+    return undefined;
+  };
+}
+
+// EVM base fees from the app's /api/gasprice route
+export function gasPriceOracle(apiUrl: string, fetchImpl: typeof fetch = fetch): BaseFeeOracle {
+  return async (chain) => {
+    if (chain.kind !== 'evm') return undefined;
+    // The route wraps 1inch's gas prices in its { success, data } envelope
+    const body = await getJson<{ data?: Pick<GasPrices, 'baseFee'> }>(fetchImpl, `${apiUrl}/api/gasprice?chainId=${chain.chainId}`);
+    return body.data && baseFeeFromGasPrices(body.data);
+  };
+}
+
+// Orders without an auction fill at the maker's minimum
+const FLAT_AUCTION: AuctionDetails = { startTime: 0, duration: 1, initialRateBump: 0, points: [] };
+
+export interface Profitability {
+  quote: AuctionQuote;
+  // What the resolver receives on the source chain, plus its fee
+  revenueUsd: number;
+  // What it delivers on the destination chain
+  costUsd: number;
+  feesUsd: number;
+  profitUsd: number;
+}
+
+export interface ProfitabilityInput {
+  signed: SignedOrder;
+  auction?: AuctionDetails;
+  time: number;
+  prices: PriceOracle;
+  baseFees?: BaseFeeOracle;
+  // Native units spent on each side's escrow
+  estimateFee: (side: EscrowSide) => Promise<bigint>;
+}
+
+function usd(amount: bigint, { usd, decimals }: AssetPrice): number {
+  return Number(formatUnits(amount, decimals)) * usd;
+}
+
+// Profit of filling the whole order at `time`; undefined when an asset has no price
+export async function evaluateProfitability({
+  signed: { order },
+  auction = FLAT_AUCTION,
+  time,
+  prices,
+  baseFees,
+  estimateFee,
+}: ProfitabilityInput): Promise<Profitability | undefined> {
+  const dstBaseFee = await baseFees?.(order.dstChain);
+  const quote = evaluateFill(order, auction, time, { baseFee: dstBaseFee });
+
+  const [srcPrice, dstPrice, srcNative, dstNative] = await Promise.all([
+    prices(order.srcChain, order.srcAsset),
+    prices(order.dstChain, order.dstAsset),
+    prices(order.srcChain, nativeAsset(order.srcChain)),
+    prices(order.dstChain, nativeAsset(order.dstChain)),
+  ]);
+  if (!srcPrice || !dstPrice || !srcNative || !dstNative) return undefined;
+
+  const [srcFee, dstFee] = await Promise.all([estimateFee('src'), estimateFee('dst')]);
+  const costUsd = usd(quote.takingAmount, dstPrice);
+  const revenueUsd = usd(order.srcAmount, srcPrice) + (costUsd * order.resolverFee.bps) / 10_000;
+  const feesUsd = usd(srcFee, srcNative) + usd(dstFee, dstNative);
+
+  return { quote, revenueUsd, costUsd, feesUsd, profitUsd: revenueUsd - costUsd - feesUsd };
+}
@@ -0,0 +1,54 @@
+import { chainKey } from "@/lib/fusion";
+import type { OrderView } from "@/lib/relayer";
+import type { OrderBookClient } from "./types";
+
+export interface HttpOrderBookOptions {
+  // This resolver's key, one of the relayer's RESOLVER_API_KEYS; needed to report escrows
+  apiKey?: string;
+  fetch?: typeof fetch;
+}
+
+// Talks to the /api/orders routes of a running app
+export function createHttpOrderBookClient(apiUrl: string, { apiKey, fetch: fetchImpl = fetch }: HttpOrderBookOptions = {}): OrderBookClient {
+  const call = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const response = await fetchImpl(`${apiUrl}/api/orders${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+        ...init?.headers,
+      },
+    });
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(`Order book request failed: ${response.status} - ${body.details ?? body.error}`);
+    }
+    return body;
+  };
+
+  return {
+    async list({ maker, srcChain, dstChain, status, limit } = {}) {
+      const params = new URLSearchParams();
+      if (maker) params.set('maker', maker);
+      if (srcChain) params.set('srcChain', chainKey(srcChain));
+      if (dstChain) params.set('dstChain', chainKey(dstChain));
+      if (status) params.set('status', status);
+      if (limit !== undefined) params.set('limit', String(limit));
+      const { orders } = await call<{ orders: OrderView[] }>(`?${params}`);
+      return orders;
+    },
+
+    async get(orderHash) {
+      const { order } = await call<{ order: OrderView }>(`/${orderHash}`);
+      return order;
+    },
+
+    async reportEscrow(orderHash, report) {
+      const { order } = await call<{ order: OrderView }>(`/${orderHash}/escrows`, {
+        method: 'POST',
+        body: JSON.stringify(report),
+      });
+      return order;
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fromStoredOrder, toStoredOrder } from "@/lib/fusion";
+import type { Position, PositionStore, StoredPosition } from "./types";
+
+export function toStoredPosition({ signed, quote, src, dst, settled }: Position): StoredPosition {
+  return {
+    order: toStoredOrder(signed),
+    quote: { ...quote, makingAmount: quote.makingAmount.toString(), takingAmount: quote.takingAmount.toString() },
+    ...(src && { src }),
+    ...(dst && { dst }),
+    settled: [...settled],
+  };
+}
+
+export function fromStoredPosition({ order, quote, src, dst, settled }: StoredPosition): Position {
+  return {
+    signed: fromStoredOrder(order),
+    quote: { ...quote, makingAmount: BigInt(quote.makingAmount), takingAmount: BigInt(quote.takingAmount) },
+    ...(src && { src }),
+    ...(dst && { dst }),
+    settled: [...settled],
+  };
+}
+
+// In-process store: positions are lost with the process
+export function createMemoryPositionStore(): PositionStore {
+  const positions = new Map<string, StoredPosition>();
+
+  return {
+    async list() {
+      return [...positions.values()].map(fromStoredPosition);
+    },
+
+    async put(position) {
+      positions.set(position.signed.orderHash.toLowerCase(), toStoredPosition(position));
+    },
+
+    async delete(orderHash) {
+      positions.delete(orderHash.toLowerCase());
+    },
+  };
+}
+
+// Every open position in one JSON file, rewritten on each change
+export function createFilePositionStore(file: string): PositionStore {
+  // Changes are applied one at a time so concurrent writes never drop each other
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<Record<string, StoredPosition>> => {
+    try {
+      return JSON.parse(await readFile(file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  };
+
+  const change = (apply: (positions: Record<string, StoredPosition>) => void): Promise<void> => {
+    const next = queue.then(async () => {
+      const positions = await read();
+      apply(positions);
+      await mkdir(path.dirname(file), { recursive: true });
+      // Write then rename, so a crash never leaves half a file behind
+      const temporary = `${file}.${process.pid}.tmp`;
+      await writeFile(temporary, JSON.stringify(positions));
+      await rename(temporary, file);
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    async list() {
+      await queue;
+      return Object.values(await read()).map(fromStoredPosition);
+    },
+
+    put(position) {
+      return change((positions) => {
+        positions[position.signed.orderHash.toLowerCase()] = toStoredPosition(position);
+      });
+    },
+
+    delete(orderHash) {
+      return change((positions) => {
+        delete positions[orderHash.toLowerCase()];
+      });
+    },
+  };
+}
@@ -0,0 +1,227 @@
+import {
+  auctionDetailsSchema,
+  chainKey,
+  ChainRef,
+  EscrowPhase,
+  EscrowSide,
+  parseOrder,
+  SignedOrder,
+} from "@/lib/fusion";
+import type { OrderView } from "@/lib/relayer";
+import { parseInput } from "@/lib/validation";
+import { evaluateProfitability } from "./market";
+import { createMemoryPositionStore } from "./positions";
+import type {
+  BaseFeeOracle,
+  EscrowAdapter,
+  OrderBookClient,
+  Position,
+  PositionStore,
+  PriceOracle,
+} from "./types";
+
+export interface ResolverOptions {
+  orderBook: OrderBookClient;
+  // One per chain the resolver holds liquidity on
+  adapters: EscrowAdapter[];
+  prices: PriceOracle;
+  baseFees?: BaseFeeOracle;
+  // Where open positions are kept; a file store lets a restart pick them up
+  store?: PositionStore;
+  // Orders below this expected profit are left to other resolvers
+  minProfitUsd?: number;
+  // Unix seconds
+  now?: () => number;
+  log?: (message: string) => void;
+}
+
+export type ResolverAction =
+  | { orderHash: string; action: 'skipped'; reason: string }
+  | { orderHash: string; action: 'deployed' | 'withdrawn' | 'cancelled'; side: EscrowSide; txHash: string }
+  | { orderHash: string; action: 'failed'; reason: string };
+
+const WITHDRAWABLE: EscrowPhase[] = ['exclusive-withdraw', 'public-withdraw'];
+const CANCELLABLE: EscrowPhase[] = ['cancellation', 'public-cancellation'];
+
+// Reference resolver: picks profitable orders off the order book, deploys both
+// escrows, waits for the maker's secret and withdraws (or cancels once the
+// timelocks allow it). Each tick() is one pass; start() polls.
+export function createResolver({
+  orderBook,
+  adapters,
+  prices,
+  baseFees,
+  store = createMemoryPositionStore(),
+  minProfitUsd = 0,
+  now = () => Math.floor(Date.now() / 1000),
+  log = () => {},
+}: ResolverOptions) {
+  const positions = new Map<string, Position>();
+  // Positions left by an earlier run, read before the first pass
+  let loaded: Promise<void> | undefined;
+  const load = () => (loaded ??= store.list().then((stored) => {
+    for (const position of stored) positions.set(position.signed.orderHash, position);
+  }).catch((error) => {
+    loaded = undefined;
+    throw error;
+  }));
+
+  const forget = async (orderHash: string) => {
+    positions.delete(orderHash);
+    await store.delete(orderHash);
+  };
+
+  const adapterFor = (chain: ChainRef) => adapters.find((adapter) => chainKey(adapter.chain) === chainKey(chain));
+  const sideChain = ({ order }: SignedOrder, side: EscrowSide) => (side === 'src' ? order.srcChain : order.dstChain);
+
+  const deploy = async (position: Position, side: EscrowSide): Promise<ResolverAction> => {
+    const { signed, quote } = position;
+    const adapter = adapterFor(sideChain(signed, side))!;
+    const escrow = side === 'src'
+      ? await adapter.deploySrcEscrow!(signed, quote)
+      : await adapter.deployDstEscrow(signed, quote);
+    position[side] = escrow;
+    // Saved before reporting, so a crash cannot lose an escrow holding funds
+    await store.put(position);
+    await orderBook.reportEscrow(signed.orderHash, {
+      side,
+      action: 'deployed',
+      txHash: escrow.txHash,
+      escrow: escrow.escrow,
+    });
+    return { orderHash: signed.orderHash, action: 'deployed', side, txHash: escrow.txHash };
+  };
+
+  // Prices an announced order and, when it pays, deploys both escrows
+  const open = async (view: OrderView): Promise<ResolverAction[]> => {
+    const signed = { order: parseOrder(view.order), orderHash: view.orderHash, signature: view.signature };
+    if (!adapterFor(signed.order.srcChain)?.deploySrcEscrow || !adapterFor(signed.order.dstChain)) return [];
+
+    const profitability = await evaluateProfitability({
+      signed,
+      auction: view.auction && parseInput(auctionDetailsSchema, view.auction),
+      time: now(),
+      prices,
+      baseFees,
+      estimateFee: (side) => adapterFor(sideChain(signed, side))!.estimateFee(side, signed),
+    });
+    if (!profitability) {
+      return [{ orderHash: signed.orderHash, action: 'skipped', reason: 'No price for an order asset' }];
+    }
+    if (profitability.profitUsd < minProfitUsd) {
+      return [{
+        orderHash: signed.orderHash,
+        action: 'skipped',
+        reason: `Expected profit ${profitability.profitUsd.toFixed(2)} USD is below ${minProfitUsd} USD`,
+      }];
+    }
+
+    const position: Position = { signed, quote: profitability.quote, settled: [] };
+    positions.set(signed.orderHash, position);
+    await store.put(position);
+    return [await deploy(position, 'src'), await deploy(position, 'dst')];
+  };
+
+  // Withdraws with the revealed secret while the escrow's withdrawal window is
+  // open, destination first so the maker is paid before the resolver. Once
+  // cancellation opens the escrow refuses withdrawals, secret or not, so it is
+  // refunded instead.
+  const settle = async (position: Position, view: OrderView): Promise<ResolverAction[]> => {
+    const { signed } = position;
+    const secret = view.secrets[view.secrets.length - 1]?.secret;
+    const actions: ResolverAction[] = [];
+
+    for (const side of ['dst', 'src'] as const) {
+      const escrow = position[side];
+      const phase = view.phases[side];
+      if (!escrow || position.settled.includes(side)) continue;
+
+      const adapter = adapterFor(sideChain(signed, side))!;
+      let action: 'withdrawn' | 'cancelled';
+      let txHash: string;
+      if (phase && CANCELLABLE.includes(phase)) {
+        action = 'cancelled';
+        txHash = await adapter.cancel(side, signed, escrow);
+      } else if (secret && view.status === 'secret-revealed' && phase && WITHDRAWABLE.includes(phase)) {
+        action = 'withdrawn';
+        txHash = await adapter.withdraw(side, signed, escrow, secret);
+      } else {
+        continue;
+      }
+
+      position.settled.push(side);
+      await store.put(position);
+      await orderBook.reportEscrow(signed.orderHash, { side, action, txHash });
+      actions.push({ orderHash: signed.orderHash, action, side, txHash });
+    }
+
+    if ((['src', 'dst'] as const).every((side) => !position[side] || position.settled.includes(side))) {
+      await forget(signed.orderHash);
+    }
+    return actions;
+  };
+
+  const handle = async (view: OrderView): Promise<ResolverAction[]> => {
+    const position = positions.get(view.orderHash);
+    if (!position) {
+      return view.status === 'announced' ? open(view) : [];
+    }
+    // A destination deployment that failed last pass is retried while it still can be
+    if (!position.dst && view.status === 'src-escrow-deployed' && !CANCELLABLE.includes(view.phases.src!)) {
+      return [await deploy(position, 'dst')];
+    }
+    return settle(position, view);
+  };
+
+  const tick = async (): Promise<ResolverAction[]> => {
+    await load();
+    const views = await orderBook.list({ status: 'active' });
+    const active = new Set<string>(views.map(({ orderHash }) => orderHash));
+    const actions: ResolverAction[] = [];
+
+    for (const view of views) {
+      try {
+        actions.push(...(await handle(view)));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        actions.push({ orderHash: view.orderHash, action: 'failed', reason });
+      }
+    }
+
+    // Orders that reached a final state need nothing more from us
+    for (const orderHash of positions.keys()) {
+      if (!active.has(orderHash)) await forget(orderHash);
+    }
+
+    for (const action of actions) {
+      const detail = 'side' in action ? `${action.side} ${action.txHash}` : action.reason;
+      log(`${action.orderHash} ${action.action}: ${detail}`);
+    }
+    return actions;
+  };
+
+  return {
+    tick,
+
+    // Polls every `intervalMs`, never overlapping passes; returns a stop function
+    start(intervalMs = 5000): () => void {
+      let running = false;
+      const timer = setInterval(() => {
+        if (running) return;
+        running = true;
+        tick()
+          .catch((error) => log(`Resolver pass failed: ${error instanceof Error ? error.message : error}`))
+          .finally(() => {
+            running = false;
+          });
+      }, intervalMs);
+      return () => clearInterval(timer);
+    },
+
+    positions(): string[] {
+      return [...positions.keys()];
+    },
+  };
+}
+
+export type Resolver = ReturnType<typeof createResolver>;
@@ -0,0 +1,70 @@
+import type { Hex } from "viem";
+import type { AuctionQuote, ChainRef, EscrowSide, SignedOrder, StoredOrder } from "@/lib/fusion";
+import type { EscrowReport, OrderQuery, OrderView } from "@/lib/relayer";
+
+export interface EscrowDeployment {
+  txHash: string;
+  // Escrow address (EVM) or script output reference (Cardano)
+  escrow: string;
+  // Unix seconds of the block that included it
+  at: number;
+}
+
+// One chain's escrow operations. Real adapters talk to a node; the simulated
+// one keeps escrows in memory for tests and local runs.
+export interface EscrowAdapter {
+  readonly chain: ChainRef;
+  // Native units (wei / lovelace) the resolver spends deploying and settling one escrow
+  estimateFee(side: EscrowSide, order: SignedOrder): Promise<bigint>;
+  // Locks the maker's srcAmount, authorised by the order signature, plus the
+  // safety deposit. Absent where only the maker's own wallet can lock it (Cardano).
+  deploySrcEscrow?(order: SignedOrder, quote: AuctionQuote): Promise<EscrowDeployment>;
+  // Locks the resolver's takingAmount for the receiver, plus the safety deposit
+  deployDstEscrow(order: SignedOrder, quote: AuctionQuote): Promise<EscrowDeployment>;
+  // Both return the transaction hash
+  withdraw(side: EscrowSide, order: SignedOrder, escrow: EscrowDeployment, secret: Hex): Promise<string>;
+  cancel(side: EscrowSide, order: SignedOrder, escrow: EscrowDeployment): Promise<string>;
+}
+
+// Escrows this resolver deployed for one order, kept until both are settled
+export interface Position {
+  signed: SignedOrder;
+  // Price the resolver committed to when it took the order
+  quote: AuctionQuote;
+  src?: EscrowDeployment;
+  dst?: EscrowDeployment;
+  settled: EscrowSide[];
+}
+
+// JSON-safe form of a position, for stores that write it out
+export interface StoredPosition {
+  order: StoredOrder;
+  quote: Omit<AuctionQuote, 'makingAmount' | 'takingAmount'> & { makingAmount: string; takingAmount: string };
+  src?: EscrowDeployment;
+  dst?: EscrowDeployment;
+  settled: EscrowSide[];
+}
+
+// Where open positions live, so a restarted resolver still settles them
+export interface PositionStore {
+  list(): Promise<Position[]>;
+  put(position: Position): Promise<void>;
+  delete(orderHash: string): Promise<void>;
+}
+
+// The order book as a resolver sees it: the in-process one, or /api/orders over HTTP
+export interface OrderBookClient {
+  list(query?: OrderQuery): Promise<OrderView[]>;
+  get(orderHash: string): Promise<OrderView>;
+  reportEscrow(orderHash: string, report: EscrowReport): Promise<OrderView>;
+}
+
+export interface AssetPrice {
+  usd: number;
+  decimals: number;
+}
+
+export type PriceOracle = (chain: ChainRef, asset: string) => Promise<AssetPrice | undefined>;
+
+// Current base fee in wei; undefined where the chain has none (Cardano)
+export type BaseFeeOracle = (chain: ChainRef) => Promise<bigint | undefined>;
@@ -0,0 +1,48 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { inRange } from "./memory";
+import type { PortfolioSnapshot, SnapshotStore } from "./types";
+
+// One JSON Lines file per address. Appends are a single write each, so a
+// crash loses at most the last line, which readers skip.
+export function createFileSnapshotStore(directory: string): SnapshotStore {
+  const fileFor = (address: string) => path.join(directory, `${address.toLowerCase()}.jsonl`);
+  // Addresses come from URLs; never let one escape the directory
+  const valid = (address: string) => /^0x[0-9a-fA-F]{40}$/.test(address);
+
+  const parse = (line: string): PortfolioSnapshot | undefined => {
+    try {
+      return JSON.parse(line) as PortfolioSnapshot;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    async append(snapshots) {
+      await mkdir(directory, { recursive: true });
+      const lines = new Map<string, string>();
+      for (const snapshot of snapshots) {
+        if (!valid(snapshot.address)) {
+          throw new Error(`Invalid snapshot address ${snapshot.address}`);
+        }
+        const address = snapshot.address.toLowerCase();
+        lines.set(address, `${lines.get(address) ?? ''}${JSON.stringify({ ...snapshot, address })}\n`);
+      }
+      for (const [address, text] of lines) {
+        await appendFile(fileFor(address), text);
+      }
+    },
+
+    async list(address, range) {
+      if (!valid(address)) return [];
+      const text = await readFile(fileFor(address), 'utf8').catch(() => '');
+      return text
+        .split('\n')
+        .filter(Boolean)
+        .map(parse)
+        .filter((snapshot): snapshot is PortfolioSnapshot => snapshot !== undefined && inRange(snapshot, range))
+        .sort((a, b) => a.at - b.at);
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import path from "node:path";
+import { oneinch } from "@/lib/oneinch";
+import { EVM_ADDRESS } from "@/lib/validation/primitives";
+import { createFileSnapshotStore } from "./file";
+import { createMemorySnapshotStore } from "./memory";
+import { createSnapshotRecorder, SnapshotRecorder } from "./recorder";
+import type { SnapshotStore } from "./types";
+
+export { createFileSnapshotStore } from "./file";
+export { createMemorySnapshotStore } from "./memory";
+export { createSnapshotRecorder } from "./recorder";
+export { downsample } from "./series";
+export type { HistoryQuery, PortfolioHistory, SnapshotRecorder, SnapshotRecorderOptions } from "./recorder";
+export type { DownsampleOptions } from "./series";
+export type * from "./types";
+
+const globalForSnapshots = globalThis as unknown as { __snapshotRecorder?: SnapshotRecorder };
+
+// Backend picked by PORTFOLIO_SNAPSHOT_STORE: file (default) or memory
+function storeFromEnv(): SnapshotStore {
+  switch (process.env.PORTFOLIO_SNAPSHOT_STORE || 'file') {
+    case 'memory':
+      return createMemorySnapshotStore();
+    default:
+      return createFileSnapshotStore(
+        process.env.PORTFOLIO_SNAPSHOT_DIR || path.join(process.cwd(), '.cache', 'portfolio-snapshots')
+      );
+  }
+}
+
+// Addresses in PORTFOLIO_SNAPSHOT_ADDRESSES, the only ones snapshots are
+// recorded for; an empty list when unset
+export function snapshotAddresses(): string[] {
+  const addresses = (process.env.PORTFOLIO_SNAPSHOT_ADDRESSES || '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (!addresses.every((address) => EVM_ADDRESS.test(address))) {
+    throw new Error('PORTFOLIO_SNAPSHOT_ADDRESSES must be a comma-separated list of EVM addresses');
+  }
+  return addresses;
+}
+
+// Process-wide recorder, kept on globalThis so dev hot reloads keep its state
+export function sharedSnapshotRecorder(): SnapshotRecorder {
+  if (!globalForSnapshots.__snapshotRecorder) {
+    globalForSnapshots.__snapshotRecorder = createSnapshotRecorder({
+      portfolio: oneinch.portfolio,
+      store: storeFromEnv(),
+      intervalMs: Number(process.env.PORTFOLIO_SNAPSHOT_INTERVAL_MS) || undefined,
+      log: (message) => console.error(message),
+    });
+  }
+  return globalForSnapshots.__snapshotRecorder;
+}
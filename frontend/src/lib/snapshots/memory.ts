@@ -0,0 +1,26 @@
+import type { PortfolioSnapshot, SnapshotRange, SnapshotStore } from "./types";
+
+export function inRange({ at }: PortfolioSnapshot, { fromMs, toMs }: SnapshotRange = {}): boolean {
+  return (fromMs === undefined || at >= fromMs) && (toMs === undefined || at <= toMs);
+}
+
+// In-process store, lost on restart
+export function createMemorySnapshotStore(): SnapshotStore {
+  const byAddress = new Map<string, PortfolioSnapshot[]>();
+
+  return {
+    async append(snapshots) {
+      for (const snapshot of snapshots) {
+        const address = snapshot.address.toLowerCase();
+        byAddress.set(address, [...(byAddress.get(address) ?? []), { ...snapshot, address }]);
+      }
+    },
+
+    async list(address, range) {
+      return (byAddress.get(address.toLowerCase()) ?? [])
+        .filter((snapshot) => inRange(snapshot, range))
+        .map((snapshot) => ({ ...snapshot }))
+        .sort((a, b) => a.at - b.at);
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import { chainsFor } from "@/lib/chains";
+import type { PortfolioApi } from "@/lib/oneinch/portfolio";
+import { PnlWindow, windowRange } from "@/lib/portfolio";
+import { downsample } from "./series";
+import type { PortfolioSnapshot, SeriesPoint, SnapshotStore } from "./types";
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface SnapshotRecorderOptions {
+  portfolio: PortfolioApi;
+  store: SnapshotStore;
+  // Chains recorded; a chain missing from the upstream breakdown is recorded as 0
+  chainIds?: string[];
+  // Least time between two recordings of one address
+  intervalMs?: number;
+  now?: () => number;
+  log?: (message: string) => void;
+}
+
+export interface HistoryQuery {
+  addresses: string[];
+  window: PnlWindow;
+  points: number;
+  // Only these chains; every recorded chain otherwise
+  chainIds?: string[];
+}
+
+export interface PortfolioHistory {
+  window: PnlWindow;
+  fromTimestamp: string;
+  toTimestamp: string;
+  points: SeriesPoint[];
+}
+
+// Records portfolio value per address and chain and reads it back as a
+// downsampled time series
+export function createSnapshotRecorder(options: SnapshotRecorderOptions) {
+  const {
+    portfolio,
+    store,
+    chainIds = chainsFor('portfolio').map((chain) => String(chain.id)),
+    intervalMs = DEFAULT_INTERVAL_MS,
+    now = Date.now,
+    log = () => {},
+  } = options;
+  const lastRecorded = new Map<string, number>();
+  // Concurrent requests for one address share a single recording
+  const inFlight = new Map<string, Promise<PortfolioSnapshot[]>>();
+
+  // One upstream call without a chain id covers every chain at once
+  const record = async (address: string): Promise<PortfolioSnapshot[]> => {
+    const key = address.toLowerCase();
+    const { result } = await portfolio.currentValue({ addresses: [key] });
+    const at = now();
+    const snapshots = chainIds.map((chainId) => ({
+      address: key,
+      chainId,
+      valueUsd: result.by_chain.find((row) => String(row.chain_id) === chainId)?.value_usd ?? 0,
+      at,
+    }));
+    await store.append(snapshots);
+    lastRecorded.set(key, at);
+    return snapshots;
+  };
+
+  const lastRecordedAt = async (address: string): Promise<number | undefined> => {
+    const known = lastRecorded.get(address);
+    if (known !== undefined) return known;
+    const recent = await store.list(address, { fromMs: now() - intervalMs });
+    return recent.length ? recent[recent.length - 1].at : undefined;
+  };
+
+  // Records unless the address was recorded less than `intervalMs` ago
+  const recordIfDue = (address: string): Promise<PortfolioSnapshot[]> => {
+    const key = address.toLowerCase();
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const attempt = (async () => {
+      const last = await lastRecordedAt(key);
+      return last !== undefined && now() - last < intervalMs ? [] : record(key);
+    })().finally(() => inFlight.delete(key));
+    inFlight.set(key, attempt);
+    return attempt;
+  };
+
+  return {
+    record,
+    recordIfDue,
+
+    async history({ addresses, window, points, chainIds: only }: HistoryQuery): Promise<PortfolioHistory> {
+      const range = windowRange(window, new Date(now()));
+      const fromMs = Date.parse(range.fromTimestamp);
+      const toMs = Date.parse(range.toTimestamp);
+      const snapshots = (await Promise.all(addresses.map((address) => store.list(address, { fromMs, toMs }))))
+        .flat()
+        .filter((snapshot) => !only || only.includes(snapshot.chainId));
+      return { window, ...range, points: downsample(snapshots, { fromMs, toMs, points }) };
+    },
+
+    // Records every address whenever it is due; returns a stop function
+    start(addresses: string[], pollMs = intervalMs): () => void {
+      let running = false;
+      const pass = () => {
+        if (running) return;
+        running = true;
+        Promise.all(addresses.map((address) =>
+          recordIfDue(address).catch((error) =>
+            log(`Snapshot of ${address} failed: ${error instanceof Error ? error.message : error}`)
+          )
+        )).finally(() => {
+          running = false;
+        });
+      };
+      pass();
+      const timer = setInterval(pass, pollMs);
+      return () => clearInterval(timer);
+    },
+  };
+}
+
+export type SnapshotRecorder = ReturnType<typeof createSnapshotRecorder>;
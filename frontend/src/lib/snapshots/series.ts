@@ -0,0 +1,40 @@
+import type { PortfolioSnapshot, SeriesPoint } from "./types";
+
+export interface DownsampleOptions {
+  fromMs: number;
+  toMs: number;
+  // Most points to return
+  points: number;
+}
+
+// Splits [fromMs, toMs] into at most `points` equal buckets and keeps, per
+// bucket, the last value of every address/chain series. A series missing from
+// a bucket carries its previous value forward, since holdings persist between
+// recordings. Buckets without any snapshot are left out rather than invented.
+export function downsample(snapshots: PortfolioSnapshot[], { fromMs, toMs, points }: DownsampleOptions): SeriesPoint[] {
+  const stepMs = Math.max(1, Math.ceil((toMs - fromMs) / Math.max(1, points)));
+  const latest = new Map<string, PortfolioSnapshot>();
+  const series: SeriesPoint[] = [];
+  let bucket: number | undefined;
+
+  const close = (at: number) => {
+    const byChain: Record<string, number> = {};
+    for (const { chainId, valueUsd } of latest.values()) {
+      byChain[chainId] = (byChain[chainId] ?? 0) + valueUsd;
+    }
+    const valueUsd = Object.values(byChain).reduce((sum, value) => sum + value, 0);
+    series.push({ at, valueUsd, byChain });
+  };
+
+  let lastAt = fromMs;
+  for (const snapshot of [...snapshots].sort((a, b) => a.at - b.at)) {
+    if (snapshot.at < fromMs || snapshot.at > toMs) continue;
+    const index = Math.min(Math.floor((snapshot.at - fromMs) / stepMs), points - 1);
+    if (bucket !== undefined && index !== bucket) close(lastAt);
+    bucket = index;
+    lastAt = snapshot.at;
+    latest.set(`${snapshot.address.toLowerCase()}/${snapshot.chainId}`, snapshot);
+  }
+  if (bucket !== undefined) close(lastAt);
+  return series;
+}
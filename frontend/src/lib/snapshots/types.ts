@@ -0,0 +1,28 @@
+// Portfolio value of one address on one chain at one moment
+export interface PortfolioSnapshot {
+  // Lowercase EVM address
+  address: string;
+  chainId: string;
+  valueUsd: number;
+  // Milliseconds since the epoch; every chain of one recording shares it
+  at: number;
+}
+
+export interface SnapshotRange {
+  fromMs?: number;
+  toMs?: number;
+}
+
+// Storage backend behind the recorder; snapshots are append-only
+export interface SnapshotStore {
+  append(snapshots: PortfolioSnapshot[]): Promise<void>;
+  // Oldest first, within the range when one is given
+  list(address: string, range?: SnapshotRange): Promise<PortfolioSnapshot[]>;
+}
+
+// One downsampled point: the value at the end of its bucket
+export interface SeriesPoint {
+  at: number;
+  valueUsd: number;
+  byChain: Record<string, number>;
+}
@@ -0,0 +1,91 @@
+import { formatUnits } from "viem";
+import type { ChainInfo } from "@/lib/chains";
+import type { OneInchClient, SpotPrices, TokenInfo, TokenMap } from "@/lib/oneinch";
+import type { PriceOptions } from "@/lib/oneinch/price";
+
+// Above this many tokens the full token list is cheaper than a custom lookup
+const CUSTOM_LOOKUP_LIMIT = 50;
+
+// The Spot Price API scales native-currency rates by 1e18 per token base unit
+const RATE_DECIMALS = 18;
+
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+export interface TokenPrice {
+  symbol: string | null;
+  decimals: number | null;
+  // Price of one whole token in the chain's native currency, e.g. "0.000263"
+  native: string | null;
+  // Price of one whole token in US dollars, as returned by the API
+  usd: string | null;
+}
+
+export interface NormalizedPrices {
+  // Raw upstream rates, keyed by lowercased token address
+  data: SpotPrices;
+  prices: Record<string, TokenPrice>;
+  // Tokens without decimals, so their native price cannot be computed
+  missingMetadata: string[];
+}
+
+// Exact native-currency price of one whole token from a raw spot price rate
+export function nativePrice(rate: string, tokenDecimals: number, nativeDecimals: number): string | null {
+  if (!/^\d+$/.test(rate)) return null;
+  return formatUnits(BigInt(rate) * BigInt(10) ** BigInt(tokenDecimals), RATE_DECIMALS + nativeDecimals);
+}
+
+// Joins native and USD rates with token metadata; the token set comes from the native rates
+export function normalizePrices(
+  chain: ChainInfo,
+  native: SpotPrices,
+  usd: SpotPrices,
+  metadata: TokenMap
+): NormalizedPrices {
+  const data: SpotPrices = {};
+  const prices: Record<string, TokenPrice> = {};
+  const missingMetadata: string[] = [];
+  const usdByAddress = lowercaseKeys(usd);
+  const tokens = lowercaseKeys(metadata);
+
+  for (const [rawAddress, rate] of Object.entries(native)) {
+    const address = rawAddress.toLowerCase();
+    const token: Pick<TokenInfo, 'symbol' | 'decimals'> | undefined =
+      tokens[address] ?? (address === chain.nativeToken.address ? chain.nativeToken : undefined);
+    const usdPrice = usdByAddress[address];
+
+    if (!token) missingMetadata.push(address);
+    data[address] = rate;
+    prices[address] = {
+      symbol: token?.symbol ?? null,
+      decimals: token?.decimals ?? null,
+      native: token ? nativePrice(rate, token.decimals, chain.nativeToken.decimals) : null,
+      usd: usdPrice && DECIMAL.test(usdPrice) ? usdPrice : null,
+    };
+  }
+
+  return { data, prices, missingMetadata };
+}
+
+// Fetches native and USD rates through `fetchPrices` plus metadata for every priced token
+export async function fetchNormalizedPrices(
+  oneinch: OneInchClient,
+  chain: ChainInfo,
+  fetchPrices: (options: PriceOptions) => Promise<SpotPrices>
+): Promise<NormalizedPrices> {
+  const chainId = String(chain.id);
+  const [native, usd] = await Promise.all([fetchPrices({}), fetchPrices({ currency: 'USD' })]);
+  const addresses = Object.keys(native);
+
+  let metadata: TokenMap = {};
+  if (addresses.length > CUSTOM_LOOKUP_LIMIT) {
+    metadata = await oneinch.token.all(chainId);
+  } else if (addresses.length > 0) {
+    metadata = await oneinch.token.custom(chainId, addresses);
+  }
+
+  return normalizePrices(chain, native, usd, metadata);
+}
+
+function lowercaseKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value]));
+}
@@ -0,0 +1,224 @@
+import {
+  AuctionDetails,
+  AuctionQuote,
+  auctionCurve,
+  ChainRef,
+  createAuction,
+  EscrowSide,
+  gasCostFromGasPrices,
+  OrderState,
+  parseOrder,
+} from "@/lib/fusion";
+import type { EscrowAction, OrderView } from "@/lib/relayer";
+// Not the relayer index, which pulls in the server-side stores
+import { EscrowVerificationError, EscrowVerifier } from "@/lib/relayer/verify";
+import type { AssetPrice } from "@/lib/resolver";
+
+// Quotes and progress for the dashboard's swap section. Prices come from the
+// same oracles the resolver uses, so the maker's minimum is one a resolver
+// will actually find profitable.
+
+export const DEFAULT_SLIPPAGE_BPS = 100;
+export const DEFAULT_AUCTION_DURATION = 180;
+// Half of the premium goes in the first quarter of the auction
+export const DEFAULT_AUCTION_CURVE = [{ time: 0.25, bump: 0.5 }];
+// Gas a resolver spends on the destination escrow, as the resolver estimates it
+const DESTINATION_GAS_LIMIT = BigInt(300_000);
+
+// USD prices as fixed-point integers, so conversions stay in bigint
+const PRICE_SCALE = 1e12;
+
+// `amount` base units of one asset in base units of another, at USD prices
+export function convertAmount(amount: bigint, from: AssetPrice, to: AssetPrice): bigint {
+  const fromUsd = BigInt(Math.round(from.usd * PRICE_SCALE));
+  const toUsd = BigInt(Math.round(to.usd * PRICE_SCALE));
+  if (toUsd === BigInt(0)) {
+    throw new Error('Cannot quote against an asset priced at zero');
+  }
+  return (amount * fromUsd * BigInt(10) ** BigInt(to.decimals)) / (toUsd * BigInt(10) ** BigInt(from.decimals));
+}
+
+export interface SwapQuoteParams {
+  dstChain: ChainRef;
+  srcAmount: bigint;
+  srcPrice: AssetPrice;
+  dstPrice: AssetPrice;
+  // The destination chain's native currency; needed to price the resolver's gas
+  dstNativePrice?: AssetPrice;
+  // Destination base fee in wei; EVM destinations only
+  baseFee?: bigint;
+  // Unix seconds the auction starts at
+  now: number;
+  slippageBps?: number;
+  duration?: number;
+  curve?: { time: number; bump: number }[];
+}
+
+export interface SwapQuote {
+  // Destination amount at spot prices, where the auction opens
+  marketAmount: bigint;
+  // The maker's signed minimum (the order's dstAmount), where the auction ends
+  minAmount: bigint;
+  auction: AuctionDetails;
+  // Destination amounts along the auction, for charting
+  curve: AuctionQuote[];
+  // Resolver gas for the destination escrow, in wei and in destination units
+  gasFee?: { native: bigint; dstAmount: bigint };
+  srcUsd: number;
+}
+
+export function quoteSwap({
+  dstChain,
+  srcAmount,
+  srcPrice,
+  dstPrice,
+  dstNativePrice,
+  baseFee,
+  now,
+  slippageBps = DEFAULT_SLIPPAGE_BPS,
+  duration = DEFAULT_AUCTION_DURATION,
+  curve = DEFAULT_AUCTION_CURVE,
+}: SwapQuoteParams): SwapQuote {
+  if (srcAmount <= BigInt(0)) {
+    throw new Error('Enter an amount to swap');
+  }
+  if (!Number.isInteger(slippageBps) || slippageBps <= 0 || slippageBps >= 10_000) {
+    throw new Error('Slippage must be between 0.01% and 99.99%');
+  }
+  const marketAmount = convertAmount(srcAmount, srcPrice, dstPrice);
+  const minAmount = (marketAmount * BigInt(10_000 - slippageBps)) / BigInt(10_000);
+  if (minAmount <= BigInt(0)) {
+    throw new Error('Amount is too small to quote');
+  }
+
+  const gasFee = dstChain.kind === 'evm' && baseFee && dstNativePrice
+    ? { native: baseFee * DESTINATION_GAS_LIMIT, dstAmount: convertAmount(baseFee * DESTINATION_GAS_LIMIT, dstNativePrice, dstPrice) }
+    : undefined;
+  const gasCost = gasFee && dstNativePrice
+    ? gasCostFromGasPrices({ baseFee: baseFee!.toString() }, {
+        gasLimit: DESTINATION_GAS_LIMIT,
+        nativeRate: convertAmount(BigInt(10) ** BigInt(18), dstNativePrice, dstPrice),
+        dstAmount: minAmount,
+      })
+    : undefined;
+
+  const auction = createAuction({ startTime: now, duration, minAmount, startAmount: marketAmount, curve, gasCost });
+  return {
+    marketAmount,
+    minAmount,
+    auction,
+    curve: auctionCurve({ srcAmount, dstAmount: minAmount }, auction, { baseFee }),
+    ...(gasFee && { gasFee }),
+    srcUsd: Number(srcAmount) / 10 ** srcPrice.decimals * srcPrice.usd,
+  };
+}
+
+export type SwapStepId = 'submitted' | 'src-escrow' | 'dst-escrow' | 'secret' | 'withdrawal' | 'refund';
+export type SwapStepStatus = 'done' | 'active' | 'pending' | 'failed';
+
+export interface SwapStep {
+  id: SwapStepId;
+  label: string;
+  status: SwapStepStatus;
+  txHash?: string;
+  // Unix seconds the step completed
+  at?: number;
+}
+
+type ProgressView = Pick<OrderView, 'order' | 'status' | 'phases' | 'canRevealSecret' | 'escrows' | 'secrets' | 'events' | 'createdAt'>;
+
+const FAILED_STATES: OrderState[] = ['cancelled', 'expired'];
+
+function escrowEvent({ events }: ProgressView, side: EscrowSide, action: EscrowAction) {
+  for (let i = events.length - 1; i >= 0; i--) {
+    const event = events[i];
+    if (event.type === 'escrow' && event.side === side && event.action === action) return event;
+  }
+  return undefined;
+}
+
+// Step-by-step state of a submitted order, from the relayer's view of it
+export function swapProgress(view: ProgressView): SwapStep[] {
+  const failed = FAILED_STATES.includes(view.status);
+  const step = (id: SwapStepId, label: string, done: boolean, started: boolean, extra: Partial<SwapStep> = {}): SwapStep => ({
+    id,
+    label,
+    status: done ? 'done' : failed ? 'failed' : started ? 'active' : 'pending',
+    ...extra,
+  });
+
+  const submitted = view.events.find((event) => event.type === 'submitted');
+  const { src, dst } = view.escrows;
+  const secret = view.events.find((event) => event.type === 'secret');
+  const withdrawn = escrowEvent(view, 'dst', 'withdrawn');
+  const steps = [
+    step('submitted', 'Order signed and submitted', true, true, { at: submitted?.at ?? view.createdAt }),
+    step('src-escrow', 'Source escrow deployed', !!src, true, src && { txHash: src.txHash, at: src.deployedAt }),
+    step('dst-escrow', 'Destination escrow deployed', !!dst, !!src, dst && { txHash: dst.txHash, at: dst.deployedAt }),
+    step('secret', 'Secret revealed', !!secret, !!dst, secret && { at: secret.at }),
+    step('withdrawal', 'Funds withdrawn to you', !!withdrawn || view.status === 'withdrawn', !!secret,
+      withdrawn && { txHash: withdrawn.txHash, at: withdrawn.at }),
+  ];
+
+  // Once a source escrow is up but the swap cannot finish, the maker's funds come back
+  const refunded = escrowEvent(view, 'src', 'cancelled');
+  const refunding = !!src && !withdrawn && (view.status === 'cancelled' ||
+    view.phases.src === 'cancellation' || view.phases.src === 'public-cancellation');
+  if (refunded || refunding) {
+    steps.push({
+      id: 'refund',
+      label: 'Source funds refunded',
+      status: refunded ? 'done' : 'active',
+      ...(refunded && { txHash: refunded.txHash, at: refunded.at }),
+    });
+  }
+  return steps;
+}
+
+export interface SwapActions {
+  // Nobody has picked the order up, so the maker may withdraw it with a signature
+  cancelOrder: boolean;
+  revealSecret: boolean;
+  // Anyone may cancel the source escrow, returning the funds to the maker
+  refund: boolean;
+  // Unix seconds public cancellation of the source escrow opens
+  refundAt?: number;
+}
+
+export function swapActions(view: ProgressView): SwapActions {
+  const { src } = view.escrows;
+  const closed = !!escrowEvent(view, 'src', 'withdrawn') || !!escrowEvent(view, 'src', 'cancelled');
+  return {
+    cancelOrder: view.status === 'announced',
+    revealSecret: view.canRevealSecret,
+    refund: !!src && !closed && view.phases.src === 'public-cancellation',
+    ...(src && !closed && { refundAt: src.deployedAt + view.order.timelocks.srcPublicCancellation }),
+  };
+}
+
+export type DestinationCheck =
+  | { status: 'verified' }
+  // Nothing here can read the destination chain; the maker has to check it
+  | { status: 'unchecked'; reason: string }
+  // The escrow does not pay what the order asks, so the secret must stay private
+  | { status: 'mismatch'; reason: string };
+
+// Checks the destination escrow on chain (amount, receiver, hashlock and
+// timelocks) before the maker hands out the secret that unlocks their funds
+export async function checkDestinationEscrow(
+  view: Pick<OrderView, 'orderHash' | 'order' | 'signature' | 'escrows'>,
+  verify?: EscrowVerifier
+): Promise<DestinationCheck> {
+  const dst = view.escrows.dst;
+  if (!dst) return { status: 'mismatch', reason: 'No destination escrow is on record' };
+  if (!verify) return { status: 'unchecked', reason: 'No node for the destination chain is configured' };
+
+  const signed = { order: parseOrder(view.order), orderHash: view.orderHash, signature: view.signature };
+  try {
+    await verify(signed, { side: 'dst', action: 'deployed', txHash: dst.txHash, escrow: dst.escrow });
+    return { status: 'verified' };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return error instanceof EscrowVerificationError ? { status: 'mismatch', reason } : { status: 'unchecked', reason };
+  }
+}
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { batch, byAction, evmAddress, requiredString } from "./primitives";
+
+const ACTIONS = 'lookup, reverseLookup, or providersData';
+const domain = (required: string) =>
+  requiredString(required).refine((value) => value.includes('.'), 'Invalid domain format');
+
+// GET /api/domainapi
+export const domainQuerySchema = byAction(
+  [
+    z.object({ action: z.literal('lookup'), domain: domain('Domain parameter is required for lookup action') }),
+    z.object({
+      action: z.literal('reverseLookup'),
+      address: evmAddress('Invalid wallet address format', 'Address parameter is required for reverseLookup action'),
+    }),
+    z.object({ action: z.literal('providersData') }),
+  ],
+  `Action parameter is required. Use: ${ACTIONS}`,
+  () => `Invalid action. Use: ${ACTIONS}`
+);
+
+// One entry of POST /api/domainapi { operations }
+export const domainOperationSchema = byAction(
+  [
+    z.object({ action: z.literal('lookup'), domain: domain('Domain is required for lookup action') }),
+    z.object({
+      action: z.literal('reverseLookup'),
+      address: evmAddress('Invalid wallet address format', 'Address is required for reverseLookup action'),
+    }),
+    z.object({ action: z.literal('providersData') }),
+  ],
+  'Action is required for each operation',
+  (action) => `Invalid action: ${action}`
+);
+
+export const domainBatchSchema = z.object({
+  operations: batch('Operations array is required'),
+});
@@ -0,0 +1,12 @@
+import { z } from "zod";
+import { batch, chainSelector } from "./primitives";
+
+// GET /api/gasprice
+export const gasQuerySchema = z.object(chainSelector('gas'));
+
+// One entry of POST /api/gasprice { chains }
+export const gasChainSchema = z.object(chainSelector('gas'));
+
+export const gasBatchSchema = z.object({
+  chains: batch('Chains array is required'),
+});
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { ValidationError } from "@/lib/oneinch/errors";
+
+export { selectedChain } from "./primitives";
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+// 400 carrying every failing field; the message is the first one for display
+export class RequestValidationError extends ValidationError {
+  constructor(public readonly fields: FieldError[]) {
+    super(fields[0]?.message ?? 'Invalid request');
+    this.name = 'RequestValidationError';
+  }
+}
+
+export function fieldErrors(error: z.ZodError, prefix: (string | number)[] = []): FieldError[] {
+  return error.issues.map((issue) => ({
+    path: [...prefix, ...issue.path].join('.') || '(root)',
+    message: issue.message,
+  }));
+}
+
+// Validates an arbitrary value (a JSON body or one batch item)
+export function parseInput<S extends z.ZodTypeAny>(schema: S, value: unknown, prefix: (string | number)[] = []): z.output<S> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new RequestValidationError(fieldErrors(result.error, prefix));
+  }
+  return result.data;
+}
+
+// Validates URL query parameters; absent and empty parameters both read as undefined
+export function parseQuery<S extends z.ZodTypeAny>(schema: S, searchParams: URLSearchParams): z.output<S> {
+  const params: Record<string, string> = {};
+  searchParams.forEach((value, key) => {
+    if (value !== '') params[key] = value;
+  });
+  return parseInput(schema, params);
+}
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { DEFAULT_CHAIN } from "@/lib/chains";
+import { batch, evmAddress, integer, supportedChainList } from "./primitives";
+
+const nftPage = {
+  // Normalized back to the "1,137" form the upstream expects
+  chainIds: supportedChainList('nft')
+    .transform((chains) => chains.map((chain) => chain.id).join(','))
+    .default(String(DEFAULT_CHAIN.id)),
+  limit: integer('Limit must be a number between 1 and 100', { min: 1, max: 100 }).default(50),
+  offset: integer('Offset must be a non-negative number', { min: 0 }).default(0),
+};
+
+// GET /api/NFTapi
+export const nftQuerySchema = z.object({
+  address: evmAddress('Invalid wallet address format', 'Address parameter is required'),
+  ...nftPage,
+});
+
+// One entry of POST /api/NFTapi { requests }
+export const nftRequestSchema = z.object({
+  address: evmAddress('Invalid wallet address format', 'Address is required for each request'),
+  ...nftPage,
+});
+
+export const nftBatchSchema = z.object({
+  requests: batch('Requests array is required'),
+});
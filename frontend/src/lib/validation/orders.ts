@@ -0,0 +1,98 @@
+import type { Hex } from "viem";
+import { z } from "zod";
+import {
+  auctionDetailsSchema,
+  EscrowSide,
+  HashAlgorithm,
+  orderSignatureSchema,
+  OrderState,
+  parseChainKey,
+  signedOrderSchema,
+} from "@/lib/fusion";
+import type { EscrowAction } from "@/lib/relayer";
+import { integer, oneOf, requiredString, TX_HASH } from "./primitives";
+
+const bytes32 = (message: string) =>
+  z.string({ required_error: message, invalid_type_error: message })
+    .regex(TX_HASH, message)
+    .transform((value) => value.toLowerCase() as Hex);
+
+const chainKey = (name: string) =>
+  z
+    .string()
+    .transform((value, ctx) => {
+      const chain = parseChainKey(value);
+      if (!chain) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${name} must be a chain key such as eip155:1 or cardano:mainnet` });
+        return z.NEVER;
+      }
+      return chain;
+    })
+    .optional();
+
+const STATUSES = [
+  'announced',
+  'src-escrow-deployed',
+  'dst-escrow-deployed',
+  'secret-revealed',
+  'withdrawn',
+  'cancelled',
+  'expired',
+  'active',
+  'all',
+] as const satisfies readonly (OrderState | 'active' | 'all')[];
+const SIDES = ['src', 'dst'] as const satisfies readonly EscrowSide[];
+const ESCROW_ACTIONS = ['deployed', 'withdrawn', 'cancelled'] as const satisfies readonly EscrowAction[];
+const ALGORITHMS = ['keccak256', 'sha256', 'blake2b256'] as const satisfies readonly HashAlgorithm[];
+
+// /api/orders/[orderHash]
+export const orderHashSchema = bytes32('Invalid order hash');
+
+// GET /api/orders
+export const orderListQuerySchema = z.object({
+  maker: z.string().optional(),
+  srcChain: chainKey('srcChain'),
+  dstChain: chainKey('dstChain'),
+  // 'active' (default) is every order that can still change; 'all' lists everything
+  status: oneOf([...STATUSES], 'status is required', `status must be one of ${STATUSES.join(', ')}`)
+    .default('active')
+    .transform((status) => (status === 'all' ? undefined : status)),
+  limit: integer('Limit must be a number between 1 and 100', { min: 1, max: 100 }).default(50),
+});
+
+// POST /api/orders
+export const submitOrderSchema = signedOrderSchema.extend({
+  orderHash: bytes32('Invalid order hash').optional(),
+  auction: auctionDetailsSchema.optional(),
+});
+
+// POST /api/orders/[orderHash]/escrows
+export const escrowReportSchema = z.object({
+  side: oneOf([...SIDES], 'side is required', "side must be 'src' or 'dst'"),
+  action: oneOf(
+    [...ESCROW_ACTIONS],
+    'action is required',
+    "action must be 'deployed', 'withdrawn' or 'cancelled'"
+  ),
+  // 0x-prefixed on EVM, bare hex on Cardano
+  txHash: requiredString('txHash is required').regex(/^(0x)?[0-9a-fA-F]{64}$/, 'Invalid transaction hash'),
+  escrow: z.string().min(1).optional(),
+});
+
+// POST /api/orders/[orderHash]/secret
+export const secretRevealSchema = z.object({
+  secret: bytes32('secret must be 32 bytes of 0x-prefixed hex'),
+  // Merkle index and proof for partial fills; omit both for a single fill
+  index: integer('index must be a non-negative integer', { min: 0 }).default(0),
+  proof: z.array(bytes32('Invalid Merkle proof')).default([]),
+  algorithm: oneOf(
+    [...ALGORITHMS],
+    'algorithm is required',
+    "algorithm must be 'keccak256', 'sha256' or 'blake2b256'"
+  ).optional(),
+});
+
+// POST /api/orders/[orderHash]/cancel
+export const cancelOrderSchema = z.object({
+  signature: orderSignatureSchema,
+});
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { parseChainKey } from "@/lib/fusion";
+import { digits } from "./primitives";
+
+const chainKey = (name: string) =>
+  z
+    .string()
+    .refine((value) => !!parseChainKey(value), `${name} must be a chain key such as eip155:1 or cardano:mainnet`)
+    .optional();
+
+const asset = z.string().transform((value) => value.toLowerCase()).optional();
+
+// GET /api/pairs
+export const pairQuerySchema = z
+  .object({
+    srcChain: chainKey('srcChain'),
+    srcAsset: asset,
+    dstChain: chainKey('dstChain'),
+    dstAsset: asset,
+    // Source base units; keeps only routes whose limits allow it
+    amount: digits('amount is required', 'amount must be an integer in source base units')
+      .transform((value) => BigInt(value))
+      .optional(),
+  })
+  .refine(({ amount, srcChain, srcAsset }) => amount === undefined || (srcChain && srcAsset), {
+    message: 'amount needs srcChain and srcAsset',
+    path: ['amount'],
+  });
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { chainsFor, DEFAULT_CHAIN } from "@/lib/chains";
+import { PNL_WINDOWS, PnlWindow } from "@/lib/portfolio";
+import { batch, byAction, evmAddressList, integer, oneOf, supportedChainId, supportedChainList, timestamp } from "./primitives";
+
+const ACTIONS = 'currentValue, profitAndLoss, tokenDetails, all, overview, or history';
+const FROM_INVALID = 'fromTimestamp must be an ISO 8601 timestamp';
+const TO_INVALID = 'toTimestamp must be an ISO 8601 timestamp';
+
+const chainId = supportedChainId('portfolio').default(DEFAULT_CHAIN.id);
+const range = (required: string) => ({
+  fromTimestamp: timestamp(required, FROM_INVALID),
+  toTimestamp: timestamp(required, TO_INVALID),
+});
+
+// Time window ending now, for PnL and value history
+const pnlWindow = oneOf(
+  [...PNL_WINDOWS] as [PnlWindow, ...PnlWindow[]],
+  'window is required',
+  `window must be one of ${PNL_WINDOWS.join(', ')}`
+);
+const chainIds = supportedChainList('portfolio');
+const toIds = (chains: { id: number }[]) => chains.map((chain) => String(chain.id));
+
+// GET /api/portfolioapi
+const addresses = evmAddressList('Invalid wallet address format', 'Wallet addresses parameter is required');
+
+export const portfolioQuerySchema = byAction(
+  [
+    z.object({ action: z.literal('currentValue'), addresses, chainId }),
+    z.object({
+      action: z.literal('profitAndLoss'),
+      addresses,
+      chainId,
+      ...range('fromTimestamp and toTimestamp parameters are required for profitAndLoss action'),
+    }),
+    z.object({ action: z.literal('tokenDetails'), addresses, chainId }),
+    // Profit and loss is included only when both ends of the range are given
+    z.object({
+      action: z.literal('all'),
+      addresses,
+      chainId,
+      fromTimestamp: timestamp(FROM_INVALID, FROM_INVALID).optional(),
+      toTimestamp: timestamp(TO_INVALID, TO_INVALID).optional(),
+    }),
+    // Aggregated across chains; every portfolio chain unless chainIds narrows it
+    z.object({
+      action: z.literal('overview'),
+      addresses,
+      chainIds: chainIds.default(chainsFor('portfolio').map((chain) => chain.id).join(',')).transform(toIds),
+      window: pnlWindow.default('7d'),
+    }),
+    // Recorded snapshots, downsampled to at most `points` values
+    z.object({
+      action: z.literal('history'),
+      addresses,
+      chainIds: chainIds.transform(toIds).optional(),
+      window: pnlWindow.default('30d'),
+      points: integer('points must be a number between 2 and 1000', { min: 2, max: 1000 }).default(200),
+    }),
+  ],
+  `Action parameter is required. Use: ${ACTIONS}`,
+  () => `Invalid action. Use: ${ACTIONS}`
+);
+
+// One entry of POST /api/portfolioapi { operations }
+const operationAddresses = evmAddressList('Invalid wallet address format', 'addresses is required for all operations');
+
+export const portfolioOperationSchema = byAction(
+  [
+    z.object({ action: z.literal('currentValue'), addresses: operationAddresses, chainId }),
+    z.object({
+      action: z.literal('profitAndLoss'),
+      addresses: operationAddresses,
+      chainId,
+      ...range('fromTimestamp and toTimestamp are required for profitAndLoss'),
+    }),
+    z.object({ action: z.literal('tokenDetails'), addresses: operationAddresses, chainId }),
+  ],
+  'Action is required for each operation',
+  (action) => `Invalid action: ${action}`
+);
+
+export const portfolioBatchSchema = z.object({
+  operations: batch('Operations array is required'),
+});
@@ -0,0 +1,149 @@
+import { z } from "zod";
+import { API_NAMES, ChainInfo, DEFAULT_CHAIN, findChain, OneInchApi, supportsApi } from "@/lib/chains";
+
+export const EVM_ADDRESS = /^0x[a-fA-F0-9]{40}$/;
+export const TX_HASH = /^0x[a-fA-F0-9]{64}$/;
+
+// Largest batch a single POST may fan out to upstream
+export const MAX_BATCH_SIZE = 50;
+
+// Required string with a custom message for both "missing" and "empty"
+export function requiredString(message: string) {
+  return z.string({ required_error: message, invalid_type_error: message }).min(1, message);
+}
+
+export function evmAddress(invalid: string, required = invalid) {
+  return requiredString(required).regex(EVM_ADDRESS, invalid);
+}
+
+// "0xabc...,0xdef..." -> trimmed address list
+export function evmAddressList(invalid: string, required = invalid) {
+  return requiredString(required)
+    .transform((value) => value.split(',').map((address) => address.trim()))
+    .refine((addresses) => addresses.every((address) => EVM_ADDRESS.test(address)), invalid);
+}
+
+// Array of addresses given directly in a JSON body
+export function evmAddressArray(invalid: string, required = invalid) {
+  return z
+    .array(z.string(), { required_error: required, invalid_type_error: required })
+    .refine((addresses) => addresses.every((address) => EVM_ADDRESS.test(address)), invalid);
+}
+
+// Enum whose missing and unknown values get distinct messages
+export function oneOf<T extends [string, ...string[]]>(values: T, required: string, invalid: string) {
+  return z.enum(values, {
+    errorMap: (issue, ctx) => ({
+      message: issue.code === 'invalid_type' && ctx.data === undefined ? required : invalid,
+    }),
+  });
+}
+
+// Integer given as a query string or JSON number
+export function integer(message: string, { min, max }: { min?: number; max?: number } = {}) {
+  return z
+    .union([z.string(), z.number()], { errorMap: () => ({ message }) })
+    .transform((value) => Number(value))
+    .pipe(
+      z.number({ invalid_type_error: message })
+        .int(message)
+        .min(min ?? Number.MIN_SAFE_INTEGER, message)
+        .max(max ?? Number.MAX_SAFE_INTEGER, message)
+    );
+}
+
+// Unsigned integer kept as a decimal string, e.g. a block number
+export function digits(required: string, invalid: string) {
+  return z
+    .union([z.string(), z.number()], { errorMap: () => ({ message: required }) })
+    .transform((value) => String(value))
+    .pipe(z.string().min(1, required).regex(/^\d+$/, invalid));
+}
+
+// ISO 8601 timestamp such as 2025-01-01T00:00:00Z
+export function timestamp(required: string, invalid: string) {
+  return requiredString(required).refine((value) => !Number.isNaN(Date.parse(value)), invalid);
+}
+
+// Chain given by id or slug, resolved through the registry and checked
+// against the 1inch API the route calls
+export function supportedChain(api: OneInchApi) {
+  return z
+    .union([z.string(), z.number()], { errorMap: () => ({ message: 'Chain must be a chain id or name' }) })
+    .transform((value, ctx) => {
+      const chain = findChain(value);
+      if (!chain) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown chain: ${value}` });
+        return z.NEVER;
+      }
+      if (!supportsApi(chain, api)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${chain.name} is not supported by the 1inch ${API_NAMES[api]} API`,
+        });
+        return z.NEVER;
+      }
+      return chain;
+    });
+}
+
+// Same check, yielding the chain id as the string the 1inch client takes
+export function supportedChainId(api: OneInchApi) {
+  return supportedChain(api).transform((chain) => String(chain.id));
+}
+
+// Comma-separated chain list such as "1,137"
+export function supportedChainList(api: OneInchApi) {
+  return z
+    .union([z.string(), z.number()], { errorMap: () => ({ message: 'Chains must be a comma-separated list' }) })
+    .transform((value) => String(value).split(',').map((item) => item.trim()))
+    .pipe(z.array(supportedChain(api)));
+}
+
+// Optional `chain` name and `chainId`, combined by selectedChain()
+export function chainSelector(api: OneInchApi) {
+  return {
+    chain: supportedChain(api).optional(),
+    chainId: supportedChain(api).optional(),
+  };
+}
+
+// chainId wins over chain; neither means Ethereum
+export function selectedChain({ chain, chainId }: { chain?: ChainInfo; chainId?: ChainInfo }): ChainInfo {
+  return chainId ?? chain ?? DEFAULT_CHAIN;
+}
+
+// Batch array of objects with the route's "X array is required" message. Items
+// are validated one by one by the route so a bad entry fails only its own result.
+export function batch(required: string) {
+  return z
+    .array(z.record(z.any()), { required_error: required, invalid_type_error: required })
+    .max(MAX_BATCH_SIZE, `At most ${MAX_BATCH_SIZE} entries are allowed per batch`);
+}
+
+type ActionOption = z.ZodDiscriminatedUnionOption<'action'>;
+
+// Union keyed on `action`, with the route's messages for a missing or unknown action
+export function byAction<T extends [ActionOption, ...ActionOption[]]>(
+  options: T,
+  required: string,
+  invalid: (action: unknown) => string
+) {
+  return z.discriminatedUnion('action', options, {
+    errorMap: (issue, ctx) => {
+      if (issue.code !== 'invalid_union_discriminator') {
+        return { message: ctx.defaultError };
+      }
+      const action = (ctx.data as { action?: unknown } | undefined)?.action;
+      return { message: action === undefined ? required : invalid(action) };
+    },
+  });
+}
+
+// Fills in defaults before validation, e.g. an implied action
+export function withDefaults<T extends z.ZodTypeAny>(defaults: Record<string, unknown>, schema: T) {
+  return z.preprocess(
+    (value) => (value && typeof value === 'object' ? { ...defaults, ...value } : value),
+    schema
+  );
+}
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { DEFAULT_CHAIN } from "@/lib/chains";
+import {
+  batch,
+  byAction,
+  chainSelector,
+  evmAddressArray,
+  evmAddressList,
+  supportedChain,
+  withDefaults,
+} from "./primitives";
+
+// GET /api/spotprice; the action defaults to whitelisted
+export const spotPriceQuerySchema = withDefaults(
+  { action: 'whitelisted' },
+  byAction(
+    [
+      z.object({ action: z.literal('whitelisted'), ...chainSelector('price') }),
+      z.object({
+        action: z.literal('addresses'),
+        ...chainSelector('price'),
+        addresses: evmAddressList('Invalid token address format', 'Addresses parameter is required for addresses action'),
+      }),
+    ],
+    'Invalid action. Use: whitelisted or addresses',
+    () => 'Invalid action. Use: whitelisted or addresses'
+  )
+);
+
+// POST /api/spotprice
+export const spotPriceBodySchema = byAction(
+  [
+    z.object({
+      action: z.literal('requested'),
+      chainId: supportedChain('price').default(DEFAULT_CHAIN.id),
+      tokens: evmAddressArray('Invalid token address format', 'Tokens array is required for requested action'),
+    }),
+    z.object({
+      action: z.literal('batch'),
+      chains: batch('Chains array is required for batch action'),
+    }),
+  ],
+  'Invalid action. Use: requested or batch',
+  () => 'Invalid action. Use: requested or batch'
+);
+
+// One entry of POST /api/spotprice { action: 'batch', chains }
+export const spotPriceChainSchema = z.object({
+  ...chainSelector('price'),
+  tokens: evmAddressArray('Invalid token address format').optional(),
+  addresses: evmAddressList('Invalid token address format').optional(),
+});
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { CardanoNetwork, isCardanoUnit } from "@/lib/cardano";
+import {
+  batch,
+  byAction,
+  chainSelector,
+  evmAddressList,
+  integer,
+  oneOf,
+  requiredString,
+  withDefaults,
+} from "./primitives";
+
+const ACTIONS = 'search, custom, all, or tokenList';
+const provider = z.string().default('1inch');
+const search = {
+  limit: integer('Limit must be a number between 1 and 100', { min: 1, max: 100 }).default(10),
+  ignoreListed: oneOf(['true', 'false'], 'ignoreListed must be true or false', 'ignoreListed must be true or false')
+    .default('false'),
+};
+
+// GET /api/tokenapi; the action defaults to all
+export const tokenQuerySchema = withDefaults(
+  { action: 'all' },
+  byAction(
+    [
+      z.object({
+        action: z.literal('search'),
+        ...chainSelector('token'),
+        query: requiredString('Query parameter is required for search action'),
+        ...search,
+      }),
+      z.object({
+        action: z.literal('custom'),
+        ...chainSelector('token'),
+        addresses: evmAddressList('Invalid token address format', 'Addresses parameter is required for custom action'),
+      }),
+      z.object({ action: z.literal('all'), ...chainSelector('token'), provider }),
+      z.object({ action: z.literal('tokenList'), ...chainSelector('token'), provider }),
+    ],
+    `Invalid action. Use: ${ACTIONS}`,
+    () => `Invalid action. Use: ${ACTIONS}`
+  )
+);
+
+// One entry of POST /api/tokenapi { operations }
+export const tokenOperationSchema = byAction(
+  [
+    z.object({
+      action: z.literal('search'),
+      ...chainSelector('token'),
+      query: requiredString('Query is required for search action'),
+      ...search,
+    }),
+    z.object({
+      action: z.literal('custom'),
+      ...chainSelector('token'),
+      addresses: evmAddressList('Invalid token address format', 'Addresses are required for custom action'),
+    }),
+    z.object({ action: z.literal('all'), ...chainSelector('token'), provider }),
+    z.object({ action: z.literal('tokenList'), ...chainSelector('token'), provider }),
+  ],
+  'Action is required for each operation',
+  (action) => `Invalid action: ${action}`
+);
+
+// `chain=cardano` answers from the Cardano token registry instead of 1inch
+export const CARDANO_TOKEN_CHAIN = 'cardano';
+
+export function isCardanoTokenRequest(params: { chain?: unknown }): boolean {
+  return params.chain === CARDANO_TOKEN_CHAIN;
+}
+
+const CARDANO_NETWORKS = ['mainnet', 'testnet'] as const satisfies readonly CardanoNetwork[];
+
+const cardano = {
+  chain: z.literal(CARDANO_TOKEN_CHAIN),
+  network: oneOf([...CARDANO_NETWORKS], 'network is required', "network must be 'mainnet' or 'testnet'").default('mainnet'),
+};
+
+// "lovelace,<policy id + asset name hex>,..." -> trimmed, lowercased unit list
+function cardanoUnitList(invalid: string, required: string) {
+  return requiredString(required)
+    .transform((value) => value.split(',').map((unit) => unit.trim().toLowerCase()))
+    .refine((units) => units.every(isCardanoUnit), invalid);
+}
+
+const cardanoActions = (required: string) => [
+  z.object({
+    action: z.literal('search'),
+    ...cardano,
+    query: requiredString(required),
+    limit: search.limit,
+  }),
+  z.object({
+    action: z.literal('custom'),
+    ...cardano,
+    addresses: cardanoUnitList('Invalid Cardano asset unit format', 'Addresses parameter is required for custom action'),
+  }),
+  z.object({ action: z.literal('all'), ...cardano }),
+  z.object({ action: z.literal('tokenList'), ...cardano }),
+] as const;
+
+// GET /api/tokenapi?chain=cardano; the action defaults to all
+export const cardanoTokenQuerySchema = withDefaults(
+  { action: 'all' },
+  byAction([...cardanoActions('Query parameter is required for search action')], `Invalid action. Use: ${ACTIONS}`, () => `Invalid action. Use: ${ACTIONS}`)
+);
+
+// One entry of POST /api/tokenapi { operations } with chain "cardano"
+export const cardanoTokenOperationSchema = byAction(
+  [...cardanoActions('Query is required for search action')],
+  'Action is required for each operation',
+  (action) => `Invalid action: ${action}`
+);
+
+export const tokenBatchSchema = z.object({
+  operations: batch('Operations array is required'),
+});
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { DEFAULT_CHAIN } from "@/lib/chains";
+import { batch, byAction, digits, requiredString, supportedChainId, TX_HASH } from "./primitives";
+
+const ACTIONS = 'syncedInterval, blockTrace, or txTrace';
+const chain = supportedChainId('traces').default(DEFAULT_CHAIN.id);
+const txHash = (required: string) =>
+  requiredString(required).regex(TX_HASH, 'Invalid transaction hash format');
+const blockNumber = (required: string) => digits(required, 'blockNumber must be a non-negative integer');
+
+// GET /api/Traceapi
+export const traceQuerySchema = byAction(
+  [
+    z.object({ action: z.literal('syncedInterval'), chain }),
+    z.object({
+      action: z.literal('blockTrace'),
+      chain,
+      blockNumber: blockNumber('blockNumber parameter is required for blockTrace action'),
+    }),
+    z.object({
+      action: z.literal('txTrace'),
+      chain,
+      blockNumber: blockNumber('blockNumber and txHash parameters are required for txTrace action'),
+      txHash: txHash('blockNumber and txHash parameters are required for txTrace action'),
+    }),
+  ],
+  `Action parameter is required. Use: ${ACTIONS}`,
+  () => `Invalid action. Use: ${ACTIONS}`
+);
+
+// One entry of POST /api/Traceapi { operations }
+export const traceOperationSchema = byAction(
+  [
+    z.object({ action: z.literal('syncedInterval'), chain }),
+    z.object({
+      action: z.literal('blockTrace'),
+      chain,
+      blockNumber: blockNumber('blockNumber is required for blockTrace'),
+    }),
+    z.object({
+      action: z.literal('txTrace'),
+      chain,
+      blockNumber: blockNumber('blockNumber and txHash are required for txTrace'),
+      txHash: txHash('blockNumber and txHash are required for txTrace'),
+    }),
+  ],
+  'Action is required for each operation',
+  (action) => `Invalid action: ${action}`
+);
+
+export const traceBatchSchema = z.object({
+  operations: batch('Operations array is required'),
+});
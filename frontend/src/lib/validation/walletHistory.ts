@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { decodeCursor } from "@/lib/walletHistory";
+import { chainSelector, evmAddress, integer, supportedChainList } from "./primitives";
+
+const timestampMs = (name: string) =>
+  integer(`${name} must be a timestamp in milliseconds`, { min: 0 }).optional();
+
+// GET /api/wallethistory
+export const walletHistoryQuerySchema = z.object({
+  address: evmAddress('Invalid wallet address format', 'wallet address is Required'),
+  limit: integer('Limit must be a number between 1 and 100', { min: 1, max: 100 }).default(10),
+  // Several chains at once, e.g. "1,137"; otherwise the single chain/chainId
+  chainIds: supportedChainList('history').optional(),
+  ...chainSelector('history'),
+  cursor: z
+    .string()
+    .transform((value, ctx) => {
+      const cursor = decodeCursor(value);
+      if (!cursor) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+        return z.NEVER;
+      }
+      return cursor;
+    })
+    .optional(),
+  fromTimestampMs: timestampMs('fromTimestampMs'),
+  toTimestampMs: timestampMs('toTimestampMs'),
+}).refine(
+  ({ fromTimestampMs, toTimestampMs }) =>
+    fromTimestampMs === undefined || toTimestampMs === undefined || fromTimestampMs <= toTimestampMs,
+  { message: 'fromTimestampMs must not be after toTimestampMs', path: ['fromTimestampMs'] }
+);
@@ -0,0 +1,153 @@
+import type { HistoryApi } from "@/lib/oneinch/history";
+import type { HistoryEvent } from "@/lib/oneinch/types";
+
+// Position after the last event of a page: its timestamp plus the ids already
+// returned at that timestamp, so events sharing it are neither lost nor repeated
+export interface HistoryCursor {
+  beforeMs: number;
+  seenIds: string[];
+}
+
+export interface WalletTransaction {
+  id: string;
+  hash: string;
+  // Milliseconds since the epoch
+  timestamp: number;
+  from: string;
+  to: string;
+  value?: string;
+  token?: HistoryEvent['details']['token'];
+  type: string;
+  status: string;
+  chainId: string;
+}
+
+export interface HistoryPageQuery {
+  address: string;
+  chainIds: string[];
+  limit: number;
+  cursor?: HistoryCursor;
+  fromTimestampMs?: number;
+  toTimestampMs?: number;
+}
+
+export interface HistoryPage {
+  transactions: WalletTransaction[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export function encodeCursor(cursor: HistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Returns undefined for anything that is not a cursor this module issued
+export function decodeCursor(value: string): HistoryCursor | undefined {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      Number.isSafeInteger(parsed?.beforeMs) &&
+      Array.isArray(parsed.seenIds) &&
+      parsed.seenIds.every((id: unknown) => typeof id === 'string')
+    ) {
+      return { beforeMs: parsed.beforeMs, seenIds: parsed.seenIds };
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+export function toTransaction(event: HistoryEvent): WalletTransaction {
+  const { details } = event;
+  return {
+    id: event.id,
+    hash: details.txHash,
+    timestamp: event.timeMs,
+    from: details.fromAddress,
+    to: details.toAddress,
+    value: details.amount,
+    token: details.token,
+    type: details.type,
+    status: details.status || 'completed',
+    chainId: String(details.chainId),
+  };
+}
+
+// Newest first; ids break ties so the order is stable across pages
+function newestFirst(a: HistoryEvent, b: HistoryEvent): number {
+  return b.timeMs - a.timeMs || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+// Most events the History API returns per request
+export const HISTORY_EVENTS_MAX_LIMIT = 100;
+
+interface ChainEventsQuery {
+  limit: number;
+  seen: ReadonlySet<string>;
+  fromTimestampMs?: number;
+  toTimestampMs?: number;
+}
+
+// Up to `limit` unseen events on one chain, newest first, walking back through
+// upstream pages of at most HISTORY_EVENTS_MAX_LIMIT events. `exhausted` means
+// the chain has nothing older within the range.
+async function fetchChainEvents(history: HistoryApi, address: string, chainId: string, query: ChainEventsQuery): Promise<{ items: HistoryEvent[]; exhausted: boolean }> {
+  const { limit, fromTimestampMs } = query;
+  const pageSize = Math.min(limit + query.seen.size, HISTORY_EVENTS_MAX_LIMIT);
+  const ids = new Set(query.seen);
+  const items: HistoryEvent[] = [];
+  let toTimestampMs = query.toTimestampMs;
+
+  for (;;) {
+    const { items: page } = await history.events(address, { chainId, limit: pageSize, fromTimestampMs, toTimestampMs });
+    const fresh = page.filter((event) => !ids.has(event.id));
+    for (const event of fresh) {
+      ids.add(event.id);
+      items.push(event);
+    }
+    if (page.length < pageSize) return { items, exhausted: true };
+    if (items.length >= limit) return { items, exhausted: false };
+    // The bound is inclusive, so the next page repeats the oldest timestamp and
+    // the ids above drop what was already taken. A full page of nothing new
+    // means more events share that timestamp than a page holds; step past it.
+    const oldest = Math.min(...page.map((event) => event.timeMs));
+    toTimestampMs = fresh.length ? oldest : oldest - 1;
+  }
+}
+
+// Fetches one page of events across chains, merged by timestamp
+export async function fetchHistoryPage(history: HistoryApi, query: HistoryPageQuery): Promise<HistoryPage> {
+  const { address, chainIds, limit, cursor, fromTimestampMs } = query;
+  const seen = new Set(cursor?.seenIds);
+  const toTimestampMs = cursor
+    ? Math.min(cursor.beforeMs, query.toTimestampMs ?? Number.MAX_SAFE_INTEGER)
+    : query.toTimestampMs;
+
+  const perChain = await Promise.all(chainIds.map((chainId) =>
+    fetchChainEvents(history, address, chainId, { limit, seen, fromTimestampMs, toTimestampMs })
+  ));
+
+  const merged = perChain
+    .flatMap(({ items }) => items)
+    .sort(newestFirst);
+
+  const page = merged.slice(0, limit);
+  const hasMore = merged.length > limit || perChain.some(({ exhausted }) => !exhausted);
+  const last = page[page.length - 1];
+
+  let nextCursor: string | null = null;
+  if (hasMore && last) {
+    const seenIds = page.filter((event) => event.timeMs === last.timeMs).map((event) => event.id);
+    if (cursor && cursor.beforeMs === last.timeMs) {
+      seenIds.push(...cursor.seenIds);
+    }
+    nextCursor = encodeCursor({ beforeMs: last.timeMs, seenIds });
+  }
+
+  return {
+    transactions: page.map(toTransaction),
+    nextCursor,
+    hasMore: nextCursor !== null,
+  };
+}
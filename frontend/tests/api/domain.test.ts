@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { GET, POST } from "@/app/api/domainapi/route";
+import { get, post, read, useMockUpstream, WALLET } from "../helpers";
+
+describe('/api/domainapi', () => {
+  useMockUpstream();
+
+  describe('GET', () => {
+    it('requires an action', async () => {
+      const { status, body } = await read(await GET(get('/api/domainapi')));
+      expect(status).toBe(400);
+      expect(body.error).toMatch(/^Action parameter is required/);
+    });
+
+    it('validates the domain for lookup', async () => {
+      const missing = await read(await GET(get('/api/domainapi', { action: 'lookup' })));
+      expect(missing.status).toBe(400);
+      expect(missing.body.error).toBe('Domain parameter is required for lookup action');
+
+      const invalid = await read(await GET(get('/api/domainapi', { action: 'lookup', domain: 'vitalik' })));
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe('Invalid domain format');
+    });
+
+    it('validates the address for reverseLookup', async () => {
+      const { status, body } = await read(await GET(get('/api/domainapi', { action: 'reverseLookup', address: '0xabc' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Invalid wallet address format');
+    });
+
+    it('resolves a domain', async () => {
+      const { status, body } = await read(await GET(get('/api/domainapi', { action: 'lookup', domain: 'vitalik.eth' })));
+      expect(status).toBe(200);
+      expect(body).toMatchObject({
+        success: true,
+        action: 'lookup',
+        domain: 'vitalik.eth',
+        data: { result: { address: WALLET } },
+      });
+    });
+
+    it('returns provider data', async () => {
+      const { status, body } = await read(await GET(get('/api/domainapi', { action: 'providersData' })));
+      expect(status).toBe(200);
+      expect(body.data.result).toHaveLength(2);
+    });
+  });
+
+  describe('POST', () => {
+    it('counts successes and failures', async () => {
+      const { status, body } = await read(await POST(post('/api/domainapi', {
+        operations: [
+          { action: 'lookup', domain: 'vitalik.eth' },
+          { action: 'reverseLookup', address: WALLET },
+          { action: 'lookup' },
+        ],
+      })));
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, total: 3, successful: 2, failed: 1 });
+      expect(body.results[2]).toMatchObject({ success: false, action: 'lookup', error: 'Domain is required for lookup action' });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { GET, POST } from "@/app/api/gasprice/route";
+import { createMemoryStore, createResponseCache, ResponseCache } from "@/lib/cache";
+import { get, post, read, useMockUpstream } from "../helpers";
+
+describe('/api/gasprice', () => {
+  const mock = useMockUpstream();
+
+  describe('GET', () => {
+    it('defaults to Ethereum and converts fees to gwei', async () => {
+      const { status, body } = await read(await GET(get('/api/gasprice')));
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, chainId: '1', chain: 'ethereum' });
+      expect(body.data.gasPricesGwei.baseFee).toBe('1.54');
+      expect(body.data.gasPricesGwei.medium.maxFeePerGasGwei).toBe('1.95');
+    });
+
+    it('resolves chain names to ids', async () => {
+      const { status, body } = await read(await GET(get('/api/gasprice', { chain: 'polygon' })));
+      expect(status).toBe(200);
+      expect(body.chainId).toBe('137');
+      expect(mock.requests[0].path).toBe('/gas-price/v1.4/137');
+    });
+
+    it('maps upstream rate limiting to 429', async () => {
+      mock.setScenario('rate-limited');
+      const { status, body } = await read(await GET(get('/api/gasprice')));
+      expect(status).toBe(429);
+      expect(body.code).toBe('rate_limited');
+    });
+
+    it('reports upstream shape drift as 502 without retrying', async () => {
+      mock.setScenario('unexpected-shape');
+      const { status, body } = await read(await GET(get('/api/gasprice')));
+      expect(status).toBe(502);
+      expect(body.code).toBe('upstream_unavailable');
+      expect(body.details).toMatch(/did not match the expected shape/);
+      expect(mock.requests).toHaveLength(1);
+    });
+
+    it('rejects unknown chains instead of falling back to Ethereum', async () => {
+      const { status, body } = await read(await GET(get('/api/gasprice', { chain: 'mainnet' })));
+      expect(status).toBe(400);
+      expect(body.fields).toEqual([{ path: 'chain', message: 'Unknown chain: mainnet' }]);
+      expect(mock.requests).toHaveLength(0);
+    });
+  });
+
+  describe('POST', () => {
+    it('requires a chains array', async () => {
+      const { status, body } = await read(await POST(post('/api/gasprice', {})));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Chains array is required');
+    });
+
+    it('caps the batch size', async () => {
+      const chains = Array.from({ length: 51 }, () => ({ chain: 'ethereum' }));
+      const { status, body } = await read(await POST(post('/api/gasprice', { chains })));
+      expect(status).toBe(400);
+      expect(body.fields[0].path).toBe('chains');
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it('fetches every chain in the batch', async () => {
+      const { status, body } = await read(await POST(post('/api/gasprice', {
+        chains: [{ chain: 'ethereum' }, { chainId: '42161' }],
+      })));
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, total: 2, successful: 2, failed: 0 });
+      expect(body.results.map((r: { chainId: string }) => r.chainId)).toEqual(['1', '42161']);
+    });
+  });
+
+  describe('with the response cache enabled', () => {
+    const globalForCache = globalThis as unknown as { __responseCache?: ResponseCache | null };
+    let previous: ResponseCache | null | undefined;
+
+    beforeEach(() => {
+      previous = globalForCache.__responseCache;
+      globalForCache.__responseCache = createResponseCache({ store: createMemoryStore() });
+    });
+
+    afterEach(() => {
+      globalForCache.__responseCache = previous;
+    });
+
+    it('answers a repeat request from the cache and reports it', async () => {
+      const first = await GET(get('/api/gasprice'));
+      expect(first.headers.get('X-Cache-Status')).toBe('MISS');
+
+      const second = await GET(get('/api/gasprice'));
+      expect(second.headers.get('X-Cache-Status')).toBe('HIT');
+      expect((await read(second)).body.data.gasPricesGwei.baseFee).toBe('1.54');
+      expect(mock.requests).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { GET, POST } from "@/app/api/NFTapi/route";
+import { get, post, read, useMockUpstream, WALLET } from "../helpers";
+
+describe('/api/NFTapi', () => {
+  const mock = useMockUpstream();
+
+  describe('GET', () => {
+    it('requires an address', async () => {
+      const { status, body } = await read(await GET(get('/api/NFTapi')));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Address parameter is required');
+    });
+
+    it('rejects malformed addresses', async () => {
+      const { status, body } = await read(await GET(get('/api/NFTapi', { address: '0x123' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Invalid wallet address format');
+    });
+
+    it.each(['0', '101', 'abc'])('rejects limit=%s', async (limit) => {
+      const { status, body } = await read(await GET(get('/api/NFTapi', { address: WALLET, limit })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Limit must be a number between 1 and 100');
+    });
+
+    it('lists every invalid field', async () => {
+      const { status, body } = await read(await GET(get('/api/NFTapi', { address: '0x123', limit: '0' })));
+      expect(status).toBe(400);
+      expect(body).toMatchObject({ error: 'Invalid wallet address format', code: 'validation' });
+      expect(body.fields).toEqual([
+        { path: 'address', message: 'Invalid wallet address format' },
+        { path: 'limit', message: 'Limit must be a number between 1 and 100' },
+      ]);
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it('rejects negative offsets', async () => {
+      const { status, body } = await read(await GET(get('/api/NFTapi', { address: WALLET, offset: '-1' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Offset must be a non-negative number');
+    });
+
+    it('returns assets with pagination metadata', async () => {
+      const { status, body } = await read(await GET(get('/api/NFTapi', { address: WALLET, limit: '1' })));
+      expect(status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.data.assets).toHaveLength(1);
+      expect(body.data).toMatchObject({
+        address: WALLET,
+        chainIds: '1',
+        limit: 1,
+        offset: 0,
+        totalItems: 1,
+        hasMore: true,
+        nextOffset: 1,
+      });
+      expect(mock.requests[0].path).toBe('/nft/v1/byaddress');
+    });
+
+    it('maps upstream auth failures to 401', async () => {
+      mock.setScenario('unauthorized');
+      const { status, body } = await read(await GET(get('/api/NFTapi', { address: WALLET })));
+      expect(status).toBe(401);
+      expect(body).toMatchObject({ error: 'Failed to fetch NFT data', code: 'auth' });
+    });
+  });
+
+  describe('POST', () => {
+    it('requires a requests array', async () => {
+      const { status, body } = await read(await POST(post('/api/NFTapi', {})));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Requests array is required');
+    });
+
+    it('reports per-item success and failure counts', async () => {
+      const { status, body } = await read(await POST(post('/api/NFTapi', {
+        requests: [
+          { address: WALLET },
+          { address: 'not-an-address' },
+          { limit: '10' },
+        ],
+      })));
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, total: 3, successful: 1, failed: 2 });
+      expect(body.results[0]).toMatchObject({ success: true, address: WALLET });
+      expect(body.results[1]).toMatchObject({ success: false, error: 'Invalid wallet address format', code: 'validation' });
+      expect(body.results[2]).toMatchObject({ success: false, address: 'unknown', error: 'Address is required for each request' });
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { NextRequest } from "next/server";
+import { privateKeyToAccount } from "viem/accounts";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET as listOrders, POST as submitOrder } from "@/app/api/orders/route";
+import { GET as getOrder } from "@/app/api/orders/[orderHash]/route";
+import { POST as cancelOrder } from "@/app/api/orders/[orderHash]/cancel/route";
+import { POST as reportEscrow } from "@/app/api/orders/[orderHash]/escrows/route";
+import { POST as revealSecret } from "@/app/api/orders/[orderHash]/secret/route";
+import { addressToBech32 } from "@/lib/cardano";
+import {
+  createOrder,
+  hashSecret,
+  parseOrder,
+  signCancellationEip712,
+  signOrderEip712,
+  toOrderJson,
+} from "@/lib/fusion";
+import { createMemoryRecordStore, createOrderBook, EscrowVerificationError, OrderBook } from "@/lib/relayer";
+import { get, post, read, USDC } from "../helpers";
+
+// Hardhat's first and second test accounts
+const maker = privateKeyToAccount('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcb4c6b8d7f4fae0fd');
+const stranger = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+
+const RECEIVER = addressToBech32(`60${'11'.repeat(28)}`);
+const SECRET = `0x${'01'.repeat(32)}` as const;
+const START = 1_750_000_000;
+const TX = `0x${'cd'.repeat(32)}`;
+const CARDANO_TX = 'ab'.repeat(32);
+const RESOLVER_KEY = 'test-resolver-key';
+
+const globalForOrderBook = globalThis as unknown as { __orderBook?: OrderBook };
+
+// Transactions the fake chain has included, with the time each one counts from
+const onChain = new Map<string, number>();
+
+async function signedOrder() {
+  const order = createOrder({
+    maker: maker.address,
+    receiver: RECEIVER,
+    srcChain: { kind: 'evm', chainId: 1 },
+    srcAsset: USDC,
+    srcAmount: BigInt(100_000_000),
+    dstChain: { kind: 'cardano', network: 'testnet' },
+    dstAsset: 'lovelace',
+    dstAmount: BigInt(250_000_000),
+    hashlock: hashSecret(SECRET),
+    now: START,
+  });
+  const signed = await signOrderEip712(order, (data) => maker.signTypedData(data));
+  return { ...signed, order: toOrderJson(order) };
+}
+
+async function submit() {
+  const signed = await signedOrder();
+  const { status, body } = await read(await submitOrder(post('/api/orders', signed)));
+  expect(status).toBe(201);
+  return { signed, hash: body.order.orderHash as `0x${string}` };
+}
+
+const params = (orderHash: string) => ({ params: Promise.resolve({ orderHash }) });
+
+function report(orderHash: string, body: unknown, key: string | null = RESOLVER_KEY) {
+  const request = new NextRequest(new URL(`/api/orders/${orderHash}/escrows`, 'http://localhost:3000'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(key && { 'Authorization': `Bearer ${key}` }) },
+    body: JSON.stringify(body),
+  });
+  return reportEscrow(request, params(orderHash));
+}
+
+function advance(seconds: number) {
+  vi.setSystemTime(Date.now() + seconds * 1000);
+}
+
+describe('/api/orders', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START * 1000);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('RESOLVER_API_KEYS', RESOLVER_KEY);
+    onChain.clear();
+    globalForOrderBook.__orderBook = createOrderBook({
+      store: createMemoryRecordStore(),
+      verifyEscrow: async (_order, { txHash }) => {
+        const at = onChain.get(txHash);
+        if (at === undefined) throw new EscrowVerificationError(`Transaction ${txHash} is not on chain`);
+        return { at };
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    delete globalForOrderBook.__orderBook;
+  });
+
+  it('accepts signed orders and lists them by maker and chain pair', async () => {
+    const { signed, hash } = await submit();
+    expect(hash).toBe(signed.orderHash);
+
+    const { body } = await read(await listOrders(get('/api/orders', {
+      maker: maker.address,
+      srcChain: 'eip155:1',
+      dstChain: 'cardano:testnet',
+    })));
+    expect(body.orders.map((order: { orderHash: string }) => order.orderHash)).toContain(hash);
+    expect(body.orders.find((order: { orderHash: string }) => order.orderHash === hash)).toMatchObject({
+      status: 'announced',
+      order: { srcAmount: '100000000', maker: maker.address.toLowerCase() },
+      events: [{ type: 'submitted', at: START }],
+    });
+
+    const other = await read(await listOrders(get('/api/orders', { dstChain: 'eip155:137' })));
+    expect(other.body.orders).toEqual([]);
+  });
+
+  it('rejects forged and duplicate orders', async () => {
+    const signed = await signedOrder();
+    const bySomeoneElse = await signOrderEip712(parseOrder(signed.order), (data) => stranger.signTypedData(data));
+    const wrongSigner = { ...signed, signature: bySomeoneElse.signature };
+    const rejected = await read(await submitOrder(post('/api/orders', wrongSigner)));
+    expect(rejected.status).toBe(400);
+    expect(rejected.body.fields).toEqual([{ path: 'signature', message: 'Signature is not valid for the order maker' }]);
+
+    expect((await submitOrder(post('/api/orders', signed))).status).toBe(201);
+    const duplicate = await read(await submitOrder(post('/api/orders', signed)));
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body.code).toBe('conflict');
+  });
+
+  it('tracks escrows, the secret and withdrawals on the timeline', async () => {
+    const { hash } = await submit();
+
+    advance(30);
+    onChain.set(TX, START + 20);
+    onChain.set(CARDANO_TX, START + 30);
+    // The chain's time wins over anything the resolver claims
+    expect((await report(hash, { side: 'src', action: 'deployed', txHash: TX, escrow: maker.address, at: START })).status).toBe(200);
+    await report(hash, { side: 'dst', action: 'deployed', txHash: CARDANO_TX, escrow: `${CARDANO_TX}#0` });
+
+    const early = await read(await revealSecret(post(`/api/orders/${hash}/secret`, { secret: SECRET }), params(hash)));
+    expect(early.status).toBe(409);
+    expect(early.body.details).toContain('not in a withdrawal window');
+
+    advance(60);
+    const wrong = await read(await revealSecret(post(`/api/orders/${hash}/secret`, { secret: `0x${'02'.repeat(32)}` }), params(hash)));
+    expect(wrong.status).toBe(400);
+
+    const revealed = await read(await revealSecret(post(`/api/orders/${hash}/secret`, { secret: SECRET }), params(hash)));
+    expect(revealed.status).toBe(200);
+    expect(revealed.body.order).toMatchObject({
+      status: 'secret-revealed',
+      phases: { src: 'exclusive-withdraw', dst: 'exclusive-withdraw' },
+      secrets: [{ index: 0, secret: SECRET, proof: [] }],
+    });
+
+    const withdrawals = [`0x${'e1'.repeat(32)}`, 'e2'.repeat(32)];
+    withdrawals.forEach((txHash) => onChain.set(txHash, START + 90));
+    await report(hash, { side: 'dst', action: 'withdrawn', txHash: withdrawals[1] });
+    await report(hash, { side: 'src', action: 'withdrawn', txHash: withdrawals[0] });
+
+    const { body } = await read(await getOrder(get(`/api/orders/${hash}`), params(hash)));
+    expect(body.order.status).toBe('withdrawn');
+    expect(body.order.escrows.src).toEqual({ txHash: TX, escrow: maker.address, deployedAt: START + 20 });
+    expect(body.order.events.filter((event: { type: string }) => event.type === 'transition').map((event: { to: string }) => event.to))
+      .toEqual(['src-escrow-deployed', 'dst-escrow-deployed', 'secret-revealed', 'withdrawn']);
+
+    const active = await read(await listOrders(get('/api/orders')));
+    expect(active.body.orders.map((order: { orderHash: string }) => order.orderHash)).not.toContain(hash);
+  });
+
+  it('takes escrow reports only from known resolvers and only when the chain agrees', async () => {
+    const { hash } = await submit();
+    const deployed = { side: 'src', action: 'deployed', txHash: TX, escrow: maker.address };
+
+    const anonymous = await read(await report(hash, deployed, null));
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.body.code).toBe('unauthorized');
+    expect((await report(hash, deployed, 'someone-else')).status).toBe(401);
+
+    const unverified = await read(await report(hash, deployed));
+    expect(unverified.status).toBe(400);
+    expect(unverified.body.fields).toEqual([{ path: 'txHash', message: `Transaction ${TX} is not on chain` }]);
+
+    const { body } = await read(await getOrder(get(`/api/orders/${hash}`), params(hash)));
+    expect(body.order.status).toBe('announced');
+  });
+
+  it('lets only the maker cancel an unfilled order', async () => {
+    const { hash } = await submit();
+    const byStranger = await signCancellationEip712(hash, (data) => stranger.signTypedData(data));
+    const rejected = await read(await cancelOrder(post(`/api/orders/${hash}/cancel`, { signature: byStranger }), params(hash)));
+    expect(rejected.status).toBe(400);
+
+    const signature = await signCancellationEip712(hash, (data) => maker.signTypedData(data));
+    const { status, body } = await read(await cancelOrder(post(`/api/orders/${hash}/cancel`, { signature }), params(hash)));
+    expect(status).toBe(200);
+    expect(body.order.status).toBe('cancelled');
+
+    const again = await read(await cancelOrder(post(`/api/orders/${hash}/cancel`, { signature }), params(hash)));
+    expect(again.status).toBe(409);
+  });
+
+  it('answers 404 for unknown orders and 400 for malformed hashes', async () => {
+    const unknown = `0x${'ee'.repeat(32)}`;
+    expect((await getOrder(get(`/api/orders/${unknown}`), params(unknown))).status).toBe(404);
+
+    const { status, body } = await read(await getOrder(get('/api/orders/nope'), params('nope')));
+    expect(status).toBe(400);
+    expect(body.fields).toEqual([{ path: 'orderHash', message: 'Invalid order hash' }]);
+  });
+});
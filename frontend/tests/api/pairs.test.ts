@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/pairs/route";
+import { ASSET_PAIR_LIST } from "@/lib/assetPairs";
+import { get, read, useMockUpstream, USDC } from "../helpers";
+
+describe('/api/pairs', () => {
+  useMockUpstream();
+
+  it('lists every route of the current version', async () => {
+    const { status, body } = await read(await GET(get('/api/pairs')));
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ success: true, version: ASSET_PAIR_LIST.version, total: ASSET_PAIR_LIST.pairs.length * 2 });
+  });
+
+  it('filters by source and reports limits as strings', async () => {
+    const { body } = await read(await GET(get('/api/pairs', { srcChain: 'eip155:1', srcAsset: USDC, dstChain: 'cardano:mainnet' })));
+    expect(body.routes).toEqual([expect.objectContaining({
+      pairId: 'usdc-ethereum',
+      direction: 'evm-to-cardano',
+      src: expect.objectContaining({ address: USDC }),
+      dst: expect.objectContaining({ symbol: 'USDC', chain: 'cardano:mainnet' }),
+      minAmount: '10000000',
+      maxAmount: '50000000000',
+    })]);
+  });
+
+  it('converts an amount and drops routes it does not fit', async () => {
+    const fits = await read(await GET(get('/api/pairs', { srcChain: 'cardano:mainnet', srcAsset: 'lovelace', amount: '50000000' })));
+    expect(fits.body.routes).toHaveLength(1);
+    expect(fits.body.routes[0].dstAmount).toBe('50000000000000000000');
+
+    const tooSmall = await read(await GET(get('/api/pairs', { srcChain: 'cardano:mainnet', srcAsset: 'lovelace', amount: '1' })));
+    expect(tooSmall.body.total).toBe(0);
+  });
+
+  it('validates chain keys and amounts', async () => {
+    const chain = await read(await GET(get('/api/pairs', { srcChain: 'ethereum' })));
+    expect(chain.status).toBe(400);
+    expect(chain.body.error).toBe('srcChain must be a chain key such as eip155:1 or cardano:mainnet');
+
+    const amount = await read(await GET(get('/api/pairs', { amount: '100' })));
+    expect(amount.status).toBe(400);
+    expect(amount.body.error).toBe('amount needs srcChain and srcAsset');
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "@/app/api/portfolioapi/route";
+import { get, post, read, useMockUpstream, WALLET } from "../helpers";
+
+const RANGE = { fromTimestamp: '2025-01-01T00:00:00Z', toTimestamp: '2025-01-31T23:59:59Z' };
+
+describe('/api/portfolioapi', () => {
+  const mock = useMockUpstream();
+
+  describe('GET', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('requires an action', async () => {
+      const { status, body } = await read(await GET(get('/api/portfolioapi', { addresses: WALLET })));
+      expect(status).toBe(400);
+      expect(body.error).toMatch(/^Action parameter is required/);
+    });
+
+    it('requires addresses', async () => {
+      const { status, body } = await read(await GET(get('/api/portfolioapi', { action: 'currentValue' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Wallet addresses parameter is required');
+    });
+
+    it('rejects malformed addresses', async () => {
+      const { status, body } = await read(await GET(get('/api/portfolioapi', {
+        action: 'currentValue',
+        addresses: `${WALLET},0x12`,
+      })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Invalid wallet address format');
+    });
+
+    it('requires both timestamps for profitAndLoss', async () => {
+      const { status, body } = await read(await GET(get('/api/portfolioapi', {
+        action: 'profitAndLoss',
+        addresses: WALLET,
+        fromTimestamp: RANGE.fromTimestamp,
+      })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('fromTimestamp and toTimestamp parameters are required for profitAndLoss action');
+    });
+
+    it('returns the current value', async () => {
+      const { status, body } = await read(await GET(get('/api/portfolioapi', { action: 'currentValue', addresses: WALLET })));
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, action: 'currentValue', addresses: WALLET, chainId: '1' });
+      expect(body.data.result.total).toBe(15234.57);
+    });
+
+    it('combines every dataset for the all action', async () => {
+      const { status, body } = await read(await GET(get('/api/portfolioapi', {
+        action: 'all',
+        addresses: WALLET,
+        ...RANGE,
+      })));
+      expect(status).toBe(200);
+      expect(Object.keys(body.data)).toEqual(['currentValue', 'tokenDetails', 'profitAndLoss']);
+      expect(body.data.profitAndLoss.result[0].abs_profit_usd).toBe(842.11);
+      expect(mock.requests).toHaveLength(3);
+    });
+
+    it('skips profitAndLoss in the all action without a range', async () => {
+      const { body } = await read(await GET(get('/api/portfolioapi', { action: 'all', addresses: WALLET })));
+      expect(body.data.profitAndLoss).toBeNull();
+      expect(mock.requests).toHaveLength(2);
+    });
+
+    it('aggregates every portfolio chain for the overview action', async () => {
+      const { status, body } = await read(await GET(get('/api/portfolioapi', {
+        action: 'overview',
+        addresses: WALLET,
+        chainIds: '1,137',
+        window: '30d',
+      })));
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, action: 'overview', chainIds: ['1', '137'] });
+      expect(body.data).toMatchObject({ window: '30d', profitError: null });
+      expect(body.data.totalUsd).toBeCloseTo(15234.57);
+      expect(body.data.chains).toHaveLength(2);
+      // One request per dataset whatever the number of chains
+      expect(mock.requests).toHaveLength(3);
+      expect(mock.requests.every((r) => !r.search.includes('chain_id='))).toBe(true);
+      expect(mock.requests.find((r) => r.path.endsWith('/profit_and_loss'))?.search).toContain('from_timestamp=');
+    });
+
+    it('defaults the overview to every portfolio chain over 7 days', async () => {
+      const { body } = await read(await GET(get('/api/portfolioapi', { action: 'overview', addresses: WALLET })));
+      expect(body.chainIds).toEqual(['1', '56', '137', '10', '42161', '100', '43114', '324']);
+      expect(body.data.window).toBe('7d');
+    });
+
+    it('only reads the history of addresses it does not track', async () => {
+      const { status, body } = await read(await GET(get('/api/portfolioapi', { action: 'history', addresses: WALLET, window: '1d' })));
+      expect(status).toBe(200);
+      expect(body.data).toMatchObject({ window: '1d', points: [] });
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it('records a snapshot of a tracked address when due and answers with the value history', async () => {
+      vi.stubEnv('PORTFOLIO_SNAPSHOT_ADDRESSES', WALLET.toLowerCase());
+      const query = { action: 'history', addresses: WALLET, window: '1d' };
+      const { status, body } = await read(await GET(get('/api/portfolioapi', query)));
+      expect(status).toBe(200);
+      expect(body.data).toMatchObject({ window: '1d', points: [{ valueUsd: 15234.57, byChain: { '1': 12034.57, '137': 3200 } }] });
+      expect(mock.requests.map((r) => r.path)).toEqual(['/portfolio/portfolio/v4/overview/erc20/current_value']);
+
+      // Already recorded within the interval
+      await GET(get('/api/portfolioapi', query));
+      expect(mock.requests).toHaveLength(1);
+    });
+
+    it('validates the history resolution', async () => {
+      const { status, body } = await read(await GET(get('/api/portfolioapi', { action: 'history', addresses: WALLET, points: '1' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('points must be a number between 2 and 1000');
+    });
+
+    it('rejects unknown overview windows and chains', async () => {
+      const window = await read(await GET(get('/api/portfolioapi', { action: 'overview', addresses: WALLET, window: '2w' })));
+      expect(window.status).toBe(400);
+      expect(window.body.error).toBe('window must be one of 1d, 7d, 30d, ytd');
+
+      const chains = await read(await GET(get('/api/portfolioapi', { action: 'overview', addresses: WALLET, chainIds: '1,250' })));
+      expect(chains.status).toBe(400);
+      expect(chains.body.error).toBe('Fantom is not supported by the 1inch Portfolio API');
+    });
+  });
+
+  describe('POST', () => {
+    it('requires an operations array', async () => {
+      const { status, body } = await read(await POST(post('/api/portfolioapi', { operations: null })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Operations array is required');
+    });
+
+    it('reports per-operation results', async () => {
+      const { status, body } = await read(await POST(post('/api/portfolioapi', {
+        operations: [
+          { action: 'currentValue', addresses: WALLET },
+          { action: 'profitAndLoss', addresses: WALLET },
+          { action: 'tokenDetails' },
+        ],
+      })));
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, total: 3, successful: 1, failed: 2 });
+      expect(body.results[1].error).toBe('fromTimestamp and toTimestamp are required for profitAndLoss');
+      expect(body.results[2].error).toBe('addresses is required for all operations');
+    });
+  });
+});
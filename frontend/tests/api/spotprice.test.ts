@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { GET, POST } from "@/app/api/spotprice/route";
+import { NATIVE_TOKEN_ADDRESS } from "@/lib/chains";
+import { get, post, read, useMockUpstream, USDC, ONE_INCH } from "../helpers";
+
+const WBTC = '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599';
+const DAI = '0x6b175474e89094c44da98b954eedeac495271d0f';
+
+describe('/api/spotprice', () => {
+  const mock = useMockUpstream();
+
+  describe('GET', () => {
+    it('returns whitelisted prices by default', async () => {
+      const { status, body } = await read(await GET(get('/api/spotprice')));
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, action: 'whitelisted', chainId: '1' });
+      expect(Object.keys(body.data)).toContain(USDC);
+      expect(body.prices).toBeDefined();
+    });
+
+    it('normalizes prices by token decimals in native currency and USD', async () => {
+      const { status, body } = await read(await GET(get('/api/spotprice', {
+        action: 'addresses',
+        addresses: [USDC, WBTC, NATIVE_TOKEN_ADDRESS].join(','),
+      })));
+      expect(status).toBe(200);
+      expect(body.prices[USDC]).toEqual({ symbol: 'USDC', decimals: 6, native: '0.000263157894736842', usd: '0.9999' });
+      expect(body.prices[WBTC]).toMatchObject({ decimals: 8, native: '30.52631578947368421', usd: '116000.5' });
+      expect(body.prices[NATIVE_TOKEN_ADDRESS]).toMatchObject({ native: '1', usd: '3800.12' });
+      expect(body.missingMetadata).toEqual([]);
+      const priceSearches = mock.requests.filter((r) => r.path.startsWith('/price/')).map((r) => r.search);
+      expect(priceSearches).toHaveLength(2);
+      expect(priceSearches).toContain('?currency=USD');
+    });
+
+    it('flags tokens without metadata instead of guessing their decimals', async () => {
+      const { status, body } = await read(await GET(get('/api/spotprice')));
+      expect(status).toBe(200);
+      expect(body.missingMetadata).toEqual([DAI]);
+      expect(body.prices[DAI]).toEqual({ symbol: null, decimals: null, native: null, usd: '1.0001' });
+      expect(body.data[DAI]).toBe('263157894736842');
+    });
+
+    it('requires addresses for the addresses action', async () => {
+      const { status, body } = await read(await GET(get('/api/spotprice', { action: 'addresses' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Addresses parameter is required for addresses action');
+    });
+
+    it('rejects malformed token addresses', async () => {
+      const { status, body } = await read(await GET(get('/api/spotprice', { action: 'addresses', addresses: 'usdc' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Invalid token address format');
+    });
+
+    it('rejects chains the Spot Price API does not cover', async () => {
+      const { status, body } = await read(await GET(get('/api/spotprice', { chain: 'klaytn' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Klaytn is not supported by the 1inch Spot Price API');
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it('rejects unknown actions', async () => {
+      const { status, body } = await read(await GET(get('/api/spotprice', { action: 'nope' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Invalid action. Use: whitelisted or addresses');
+    });
+
+    it('maps malformed upstream JSON to 502', async () => {
+      mock.setScenario('malformed-json');
+      const { status, body } = await read(await GET(get('/api/spotprice')));
+      expect(status).toBe(502);
+      expect(body.code).toBe('upstream_unavailable');
+    });
+  });
+
+  describe('POST', () => {
+    it('requires a tokens array for requested', async () => {
+      const { status, body } = await read(await POST(post('/api/spotprice', { action: 'requested' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Tokens array is required for requested action');
+    });
+
+    it('prices the requested tokens', async () => {
+      const { status, body } = await read(await POST(post('/api/spotprice', {
+        action: 'requested',
+        tokens: [USDC, ONE_INCH],
+      })));
+      expect(status).toBe(200);
+      expect(body.requestedTokens).toEqual([USDC, ONE_INCH]);
+      expect(Object.keys(body.data)).toEqual([USDC, ONE_INCH]);
+      expect(body.prices[ONE_INCH]).toMatchObject({ symbol: '1INCH', native: '0.000105263157894736', usd: '0.4' });
+    });
+
+    it('batches across chains', async () => {
+      const { status, body } = await read(await POST(post('/api/spotprice', {
+        action: 'batch',
+        chains: [{ chain: 'ethereum' }, { chainId: '1', tokens: [USDC] }],
+      })));
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, action: 'batch', total: 2, successful: 2, failed: 0 });
+    });
+
+    it('rejects unknown actions', async () => {
+      const { status, body } = await read(await POST(post('/api/spotprice', { action: 'nope' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Invalid action. Use: requested or batch');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { GET, POST } from "@/app/api/tokenapi/route";
+import { get, post, read, useMockUpstream, USDC } from "../helpers";
+
+describe('/api/tokenapi', () => {
+  const mock = useMockUpstream();
+
+  describe('GET', () => {
+    it('requires a query for search', async () => {
+      const { status, body } = await read(await GET(get('/api/tokenapi', { action: 'search' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Query parameter is required for search action');
+    });
+
+    it('searches tokens', async () => {
+      const { status, body } = await read(await GET(get('/api/tokenapi', { action: 'search', query: 'usdc' })));
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, action: 'search', query: 'usdc', chainId: '1' });
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].symbol).toBe('USDC');
+    });
+
+    it('validates custom addresses', async () => {
+      const { status, body } = await read(await GET(get('/api/tokenapi', { action: 'custom', addresses: '0xnope' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Invalid token address format');
+    });
+
+    it('returns all tokens for the default action', async () => {
+      const { status, body } = await read(await GET(get('/api/tokenapi')));
+      expect(status).toBe(200);
+      expect(body.action).toBe('all');
+      expect(body.data[USDC].decimals).toBe(6);
+      expect(mock.requests[0].search).toBe('?provider=1inch');
+    });
+
+    it('rejects unknown actions', async () => {
+      const { status, body } = await read(await GET(get('/api/tokenapi', { action: 'nope' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Invalid action. Use: search, custom, all, or tokenList');
+    });
+
+    it('searches Cardano tokens without calling 1inch', async () => {
+      const { status, body } = await read(await GET(get('/api/tokenapi', { action: 'search', chain: 'cardano', query: 'djed' })));
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, action: 'search', chain: 'cardano', network: 'mainnet', query: 'djed' });
+      expect(body.data[0]).toMatchObject({ symbol: 'DJED', decimals: 6 });
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it('resolves custom Cardano units', async () => {
+      const unit = `${'CD'.repeat(28)}544f4b454e`;
+      const { status, body } = await read(await GET(get('/api/tokenapi', {
+        action: 'custom',
+        chain: 'cardano',
+        network: 'testnet',
+        addresses: `lovelace, ${unit}`,
+      })));
+      expect(status).toBe(200);
+      expect(body.data.lovelace.symbol).toBe('ADA');
+      expect(body.data[unit.toLowerCase()]).toMatchObject({ symbol: 'TOKEN', decimals: 0, tags: ['unverified'] });
+    });
+
+    it('validates Cardano units and networks', async () => {
+      const invalid = await read(await GET(get('/api/tokenapi', { action: 'custom', chain: 'cardano', addresses: USDC })));
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe('Invalid Cardano asset unit format');
+
+      const network = await read(await GET(get('/api/tokenapi', { chain: 'cardano', network: 'preview' })));
+      expect(network.status).toBe(400);
+      expect(network.body.error).toBe("network must be 'mainnet' or 'testnet'");
+    });
+  });
+
+  describe('POST', () => {
+    it('requires an operations array', async () => {
+      const { status, body } = await read(await POST(post('/api/tokenapi', {})));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Operations array is required');
+    });
+
+    it('reports per-operation results', async () => {
+      const { status, body } = await read(await POST(post('/api/tokenapi', {
+        operations: [
+          { action: 'tokenList' },
+          { action: 'custom', addresses: USDC },
+          { action: 'search' },
+          { action: 'search', chain: 'cardano', query: 'snek' },
+        ],
+      })));
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, total: 4, successful: 3, failed: 1 });
+      expect(body.results[1].data[USDC].symbol).toBe('USDC');
+      expect(body.results[2]).toMatchObject({ success: false, error: 'Query is required for search action', code: 'validation' });
+      expect(body.results[3]).toMatchObject({ success: true, chain: 'cardano', data: [{ symbol: 'SNEK' }] });
+    });
+  });
+});
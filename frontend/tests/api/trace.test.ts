@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { GET, POST } from "@/app/api/Traceapi/route";
+import { get, post, read, useMockUpstream } from "../helpers";
+
+const TX_HASH = '0x5b7f5c7c6e1f6b8a7d2e4c3b1a0f9e8d7c6b5a4f3e2d1c0b9a8f7e6d5c4b3a21';
+
+describe('/api/Traceapi', () => {
+  const mock = useMockUpstream();
+
+  describe('GET', () => {
+    it('requires an action', async () => {
+      const { status, body } = await read(await GET(get('/api/Traceapi')));
+      expect(status).toBe(400);
+      expect(body.error).toMatch(/^Action parameter is required/);
+    });
+
+    it('rejects unknown actions', async () => {
+      const { status, body } = await read(await GET(get('/api/Traceapi', { action: 'nope' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Invalid action. Use: syncedInterval, blockTrace, or txTrace');
+    });
+
+    it('requires blockNumber for blockTrace', async () => {
+      const { status, body } = await read(await GET(get('/api/Traceapi', { action: 'blockTrace' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('blockNumber parameter is required for blockTrace action');
+    });
+
+    it('requires blockNumber and txHash for txTrace', async () => {
+      const { status, body } = await read(await GET(get('/api/Traceapi', { action: 'txTrace', blockNumber: '15000000' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('blockNumber and txHash parameters are required for txTrace action');
+    });
+
+    it('returns the synced interval', async () => {
+      const { status, body } = await read(await GET(get('/api/Traceapi', { action: 'syncedInterval' })));
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, action: 'syncedInterval', chain: '1', data: { from: 0 } });
+    });
+
+    it('returns a transaction trace', async () => {
+      const { status, body } = await read(await GET(get('/api/Traceapi', {
+        action: 'txTrace',
+        chain: '1',
+        blockNumber: '15000000',
+        txHash: TX_HASH,
+      })));
+      expect(status).toBe(200);
+      expect(body.data.type).toBe('TransactionTrace');
+      expect(mock.requests[0].path).toBe(`/traces/v1.0/chain/1/block-trace/15000000/tx-hash/${TX_HASH}`);
+    });
+
+    it('retries a transient upstream failure', async () => {
+      mock.script('unavailable');
+      const { status } = await read(await GET(get('/api/Traceapi', { action: 'syncedInterval' })));
+      expect(status).toBe(200);
+      expect(mock.requests.map(r => r.scenario)).toEqual(['unavailable', 'ok']);
+    });
+
+    it('maps persistent upstream failures to 502', async () => {
+      mock.setScenario('server-error');
+      const { status, body } = await read(await GET(get('/api/Traceapi', { action: 'syncedInterval' })));
+      expect(status).toBe(502);
+      expect(body).toMatchObject({ error: 'Failed to fetch trace data', code: 'upstream_unavailable' });
+    });
+  });
+
+  describe('POST', () => {
+    it('requires an operations array', async () => {
+      const { status, body } = await read(await POST(post('/api/Traceapi', { operations: 'x' })));
+      expect(status).toBe(400);
+      expect(body.error).toBe('Operations array is required');
+    });
+
+    it('rejects a malformed JSON body', async () => {
+      const { status, body } = await read(await POST(post('/api/Traceapi', '{"operations": [')));
+      expect(status).toBe(400);
+      expect(body.code).toBe('validation');
+    });
+
+    it('runs each operation and counts failures', async () => {
+      const { status, body } = await read(await POST(post('/api/Traceapi', {
+        operations: [
+          { action: 'syncedInterval' },
+          { action: 'blockTrace', blockNumber: '15000000' },
+          { action: 'blockTrace' },
+          { action: 'bogus' },
+        ],
+      })));
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, total: 4, successful: 2, failed: 2 });
+      expect(body.results[2].error).toBe('blockNumber is required for blockTrace');
+      expect(body.results[3].error).toBe('Invalid action: bogus');
+    });
+
+    it('attaches field errors to the failing operation', async () => {
+      const { body } = await read(await POST(post('/api/Traceapi', {
+        operations: [{ action: 'txTrace', blockNumber: '15000000', txHash: '0x1234' }],
+      })));
+
+      expect(body.results[0]).toMatchObject({
+        success: false,
+        code: 'validation',
+        fields: [{ path: 'operations.0.txHash', message: 'Invalid transaction hash format' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/wallethistory/route";
+import { get, read, useMockUpstream, WALLET } from "../helpers";
+
+describe('/api/wallethistory', () => {
+  const mock = useMockUpstream();
+
+  it('requires an address', async () => {
+    const { status, body } = await read(await GET(get('/api/wallethistory')));
+    expect(status).toBe(400);
+    expect(body.error).toBe('wallet address is Required');
+  });
+
+  it('returns transformed transactions', async () => {
+    const { status, body } = await read(await GET(get('/api/wallethistory', { address: WALLET, limit: '20' })));
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ success: true, address: WALLET, total: 2, metadata: { limit: 20, apiProvider: '1inch' } });
+    expect(body.transactions[0]).toMatchObject({
+      from: WALLET,
+      value: '250000000',
+      token: { symbol: 'USDC' },
+    });
+  });
+
+  it('queries the requested chain', async () => {
+    const { body } = await read(await GET(get('/api/wallethistory', { address: WALLET, chain: 'polygon' })));
+    expect(body.chainIds).toEqual(['137']);
+    expect(body.transactions.map((tx: { chainId: string }) => tx.chainId)).toEqual(['137', '137']);
+    expect(mock.requests[0].search).toContain('chainId=137');
+  });
+
+  it('merges several chains newest first', async () => {
+    const { status, body } = await read(await GET(get('/api/wallethistory', { address: WALLET, chainIds: '1,137' })));
+    expect(status).toBe(200);
+    expect(body.transactions.map((tx: { id: string }) => tx.id)).toEqual([
+      '1753874000000-0xabc1',
+      '1753872200000-0xdef1',
+      '1753870400000-0xdef0',
+      '1753870400000-0xabc0',
+    ]);
+    expect(body.transactions[0]).toMatchObject({ timestamp: 1753874000000, hash: expect.stringMatching(/^0x/) });
+    expect(body).toMatchObject({ hasMore: false, nextCursor: null });
+  });
+
+  it.each([2, 3])('pages through every event exactly once with limit=%i', async (limit) => {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const params: Record<string, string> = { address: WALLET, chainIds: '1,137', limit: String(limit) };
+      if (cursor) params.cursor = cursor;
+      const { body } = await read(await GET(get('/api/wallethistory', params)));
+      ids.push(...body.transactions.map((tx: { id: string }) => tx.id));
+      cursor = body.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(ids).toHaveLength(4);
+    expect(new Set(ids).size).toBe(4);
+  });
+
+  it('filters by time range', async () => {
+    const { body } = await read(await GET(get('/api/wallethistory', {
+      address: WALLET,
+      chainIds: '1,137',
+      fromTimestampMs: '1753871000000',
+    })));
+    expect(body.transactions.map((tx: { id: string }) => tx.id)).toEqual(['1753874000000-0xabc1', '1753872200000-0xdef1']);
+  });
+
+  it('rejects a tampered cursor', async () => {
+    const { status, body } = await read(await GET(get('/api/wallethistory', { address: WALLET, cursor: 'not-a-cursor' })));
+    expect(status).toBe(400);
+    expect(body.fields).toEqual([{ path: 'cursor', message: 'Invalid cursor' }]);
+  });
+
+  it('rejects chains the History API does not cover', async () => {
+    const { status, body } = await read(await GET(get('/api/wallethistory', { address: WALLET, chainIds: '1,999' })));
+    expect(status).toBe(400);
+    expect(body.error).toBe('Unknown chain: 999');
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it('maps upstream auth failures to 401', async () => {
+    mock.setScenario('unauthorized');
+    const { status, body } = await read(await GET(get('/api/wallethistory', { address: WALLET })));
+    expect(status).toBe(401);
+    expect(body.code).toBe('auth');
+  });
+});
@@ -0,0 +1,46 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, vi } from "vitest";
+import { createMockOneInch, MockOneInch } from "../mock/handler";
+
+export const WALLET = '0xd8da6bf26964af9d7eed9e03e53415d37aa96045';
+export const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+export const ONE_INCH = '0x111111111117dc0aa78b770fa6a738034120c302';
+
+// Routes a test file's upstream traffic to a fresh mock 1inch per test
+export function useMockUpstream(): MockOneInch {
+  const mock = createMockOneInch({ retryAfterSeconds: 0 });
+
+  beforeEach(() => {
+    mock.reset();
+    vi.stubGlobal('fetch', mock.fetch);
+    // Routes log every upstream failure; keep expected ones out of the output
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  return mock;
+}
+
+export function get(path: string, params: Record<string, string> = {}): NextRequest {
+  const url = new URL(path, 'http://localhost:3000');
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return new NextRequest(url);
+}
+
+export function post(path: string, body: unknown): NextRequest {
+  return new NextRequest(new URL(path, 'http://localhost:3000'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+export async function read(response: Response) {
+  return { status: response.status, body: await response.json() };
+}
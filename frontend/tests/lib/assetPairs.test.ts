@@ -0,0 +1,74 @@
+import { getAddress } from "viem";
+import { describe, expect, it } from "vitest";
+import {
+  ASSET_PAIR_LIST,
+  AssetPairList,
+  assetPairs,
+  checkPairAmount,
+  convertPairAmount,
+  createAssetPairRegistry,
+  validateAssetPairs,
+} from "@/lib/assetPairs";
+import { USDC } from "../helpers";
+
+const ADA_BSC = '0x3ee2200efb3400fabb9aacf31297cbdd1d435d47';
+const [usdcPair] = ASSET_PAIR_LIST.pairs;
+
+const withPair = (changes: object): AssetPairList => ({
+  ...ASSET_PAIR_LIST,
+  pairs: [{ ...usdcPair, ...changes }],
+});
+
+describe('asset pair registry', () => {
+  it('ships a consistent curated list', () => {
+    expect(validateAssetPairs(ASSET_PAIR_LIST)).toEqual([]);
+    expect(assetPairs.version).toBe(ASSET_PAIR_LIST.version);
+  });
+
+  it('reports mismatched metadata, limits and duplicates', () => {
+    expect(validateAssetPairs(withPair({ cardano: { ...usdcPair.cardano, decimals: 8 } }))).toEqual([
+      'usdc-ethereum: USDC has 6 decimals on cardano:mainnet, not 8',
+    ]);
+    expect(validateAssetPairs(withPair({ evm: { ...usdcPair.evm, symbol: 'USDT' } }))).toEqual([
+      'usdc-ethereum: symbols USDT and USDC do not match',
+    ]);
+    expect(validateAssetPairs(withPair({ cardano: { ...usdcPair.cardano, chain: 'eip155:1' } }))[0])
+      .toBe('usdc-ethereum: eip155:1 is not a Cardano chain key');
+    expect(validateAssetPairs(withPair({ directions: [] }))).toEqual([
+      'usdc-ethereum: directions must be a non-empty subset of evm-to-cardano, cardano-to-evm',
+    ]);
+    expect(validateAssetPairs(withPair({ minAmount: '0.0000001' }))).toEqual([
+      'usdc-ethereum: limits must be token amounts with at most 6 decimals',
+    ]);
+    expect(validateAssetPairs(withPair({ minAmount: '100', maxAmount: '10' }))).toEqual([
+      'usdc-ethereum: minAmount must be positive and no more than maxAmount',
+    ]);
+    expect(validateAssetPairs({ ...ASSET_PAIR_LIST, pairs: [usdcPair, { ...usdcPair, id: 'again' }] })).toEqual([
+      'again: USDC on eip155:1 is already paired by usdc-ethereum',
+      'again: USDC on cardano:mainnet is already paired by usdc-ethereum',
+    ]);
+    expect(() => createAssetPairRegistry({ ...ASSET_PAIR_LIST, version: 0 })).toThrow('Asset pair list v0 is invalid: invalid version 0');
+  });
+
+  it('lists directional routes with limits in source units', () => {
+    expect(assetPairs.routes({ srcChain: 'eip155:1', srcAsset: getAddress(USDC) })).toEqual([
+      expect.objectContaining({ pairId: 'usdc-ethereum', direction: 'evm-to-cardano', minAmount: BigInt(10_000_000) }),
+    ]);
+
+    const ada = assetPairs.route({ chain: 'cardano:mainnet', address: 'lovelace' }, { chain: 'eip155:56', address: ADA_BSC })!;
+    expect(ada).toMatchObject({ minAmount: BigInt(20_000_000), maxAmount: BigInt(100_000_000_000) });
+    expect(convertPairAmount(ada, BigInt(25_000_000))).toBe(BigInt(25) * BigInt(10) ** BigInt(18));
+
+    const back = assetPairs.route({ chain: 'eip155:56', address: ADA_BSC }, { chain: 'cardano:mainnet', address: 'lovelace' })!;
+    // Dropping decimals rounds down
+    expect(convertPairAmount(back, BigInt(10) ** BigInt(18) + BigInt(999))).toBe(BigInt(1_000_000));
+    expect(assetPairs.route({ chain: 'eip155:1', address: USDC }, { chain: 'eip155:56', address: ADA_BSC })).toBeUndefined();
+  });
+
+  it('enforces per-swap limits', () => {
+    const route = assetPairs.routes({ srcChain: 'cardano:mainnet', srcAsset: 'lovelace' })[0];
+    expect(() => checkPairAmount(route, BigInt(20_000_000))).not.toThrow();
+    expect(() => checkPairAmount(route, BigInt(19_500_000))).toThrow('Minimum for ADA to eip155:56 is 20 ADA');
+    expect(() => checkPairAmount(route, BigInt(100_000_000_001))).toThrow('Maximum for ADA to eip155:56 is 100000 ADA');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  auctionCurve,
+  auctionRateBump,
+  AuctionDetails,
+  baseFeeFromGasPrices,
+  createAuction,
+  evaluateFill,
+  gasCostFromGasPrices,
+} from "@/lib/fusion";
+
+const START = 1_750_000_000;
+const ORDER = { srcAmount: BigInt(1_000_000), dstAmount: BigInt(2_000_000) };
+
+// Opens 10% above the minimum, halves the bump in the first minute, then decays
+const AUCTION: AuctionDetails = {
+  startTime: START,
+  duration: 180,
+  initialRateBump: 1_000_000,
+  points: [{ delay: 60, rateBump: 500_000 }],
+};
+
+describe('dutch auction', () => {
+  it('follows the piecewise-linear curve', () => {
+    expect(auctionRateBump(AUCTION, START - 10)).toBe(1_000_000);
+    expect(auctionRateBump(AUCTION, START + 30)).toBe(750_000);
+    expect(auctionRateBump(AUCTION, START + 60)).toBe(500_000);
+    expect(auctionRateBump(AUCTION, START + 120)).toBe(250_000);
+    expect(auctionRateBump(AUCTION, START + 180)).toBe(0);
+  });
+
+  it('builds an auction from start and end amounts', () => {
+    const auction = createAuction({
+      startTime: START,
+      duration: 180,
+      minAmount: ORDER.dstAmount,
+      startAmount: BigInt(2_200_000),
+      curve: [{ time: 1 / 3, bump: 0.5 }],
+    });
+    expect(auction).toEqual(AUCTION);
+    expect(() => createAuction({ ...auction, minAmount: BigInt(10), startAmount: BigInt(5) })).toThrow('at least the minimum');
+  });
+
+  it('prices partial fills in the maker\'s favour and subtracts gas', () => {
+    expect(evaluateFill(ORDER, AUCTION, START).takingAmount).toBe(BigInt(2_200_000));
+    expect(evaluateFill(ORDER, AUCTION, START + 30, { makingAmount: BigInt(333_333) }).takingAmount).toBe(BigInt(716_666));
+
+    const gasCost = gasCostFromGasPrices(
+      { baseFee: '20000000000' },
+      { gasLimit: BigInt(150_000), nativeRate: BigInt(10_000_000), dstAmount: ORDER.dstAmount }
+    );
+    // 0.003 ETH of gas at 10^7 destination units per ETH is 30_000 units, 1.5% of the order
+    expect(gasCost).toEqual({ gasBumpEstimate: 150_000, gasPriceEstimate: BigInt(20_000_000_000) });
+
+    const quote = evaluateFill(ORDER, { ...AUCTION, gasCost }, START + 60, {
+      baseFee: baseFeeFromGasPrices({ baseFee: '10000000000' }),
+    });
+    expect(quote).toMatchObject({ auctionBump: 500_000, gasBump: 75_000, rateBump: 425_000, takingAmount: BigInt(2_085_000) });
+    expect(evaluateFill(ORDER, { ...AUCTION, gasCost }, START + 179, { baseFee: BigInt(20_000_000_000) }).rateBump).toBe(0);
+  });
+
+  it('previews every corner of the curve', () => {
+    const curve = auctionCurve(ORDER, AUCTION, { samples: 3 });
+    expect(curve.map(({ time }) => time - START)).toEqual([0, 60, 120, 180]);
+    expect(curve.map(({ takingAmount }) => takingAmount)).toEqual(
+      [2_200_000, 2_100_000, 2_050_000, 2_000_000].map(BigInt)
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { CacheStore, createFileStore, createMemoryStore, createResponseCache, createSqliteStore } from "@/lib/cache";
+
+const POLICY = { ttlMs: 1000, staleMs: 1000 };
+
+// Loader returning "v1", "v2", ... so each refresh is visible
+function counter() {
+  let calls = 0;
+  return {
+    load: vi.fn(async () => `v${++calls}`),
+    get calls() {
+      return calls;
+    },
+  };
+}
+
+describe('response cache', () => {
+  it('misses, hits until the TTL, then serves stale while revalidating', async () => {
+    let now = 0;
+    const cache = createResponseCache({ store: createMemoryStore(), now: () => now });
+    const source = counter();
+
+    expect(await cache.fetch('k', POLICY, source.load)).toEqual({ value: 'v1', status: 'MISS' });
+    now = 999;
+    expect(await cache.fetch('k', POLICY, source.load)).toEqual({ value: 'v1', status: 'HIT' });
+
+    now = 1500;
+    expect(await cache.fetch('k', POLICY, source.load)).toEqual({ value: 'v1', status: 'STALE' });
+    await vi.waitFor(() => expect(source.calls).toBe(2));
+    expect(await cache.fetch('k', POLICY, source.load)).toEqual({ value: 'v2', status: 'HIT' });
+  });
+
+  it('drops entries past the stale window', async () => {
+    let now = 0;
+    const cache = createResponseCache({ store: createMemoryStore(), now: () => now });
+    const source = counter();
+
+    await cache.fetch('k', POLICY, source.load);
+    now = 2000;
+    expect(await cache.fetch('k', POLICY, source.load)).toEqual({ value: 'v2', status: 'MISS' });
+  });
+
+  it('keeps the stale copy when revalidation fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    let now = 0;
+    const cache = createResponseCache({ store: createMemoryStore(), now: () => now });
+    await cache.fetch('k', POLICY, async () => 'good');
+
+    now = 1500;
+    const failing = vi.fn(async () => { throw new Error('upstream down'); });
+    expect(await cache.fetch('k', POLICY, failing)).toEqual({ value: 'good', status: 'STALE' });
+    await vi.waitFor(() => expect(console.error).toHaveBeenCalled());
+    expect(await cache.fetch('k', POLICY, failing)).toEqual({ value: 'good', status: 'STALE' });
+    vi.restoreAllMocks();
+  });
+
+  it('coalesces concurrent loads of one key', async () => {
+    const cache = createResponseCache({ store: createMemoryStore() });
+    const source = counter();
+
+    const results = await Promise.all([1, 2, 3].map(() => cache.fetch('k', POLICY, source.load)));
+    expect(results.map((result) => result.value)).toEqual(['v1', 'v1', 'v1']);
+    expect(source.load).toHaveBeenCalledTimes(1);
+  });
+
+  it('evicts the least recently used memory entry', async () => {
+    const store = createMemoryStore(2);
+    const entry = { value: 1, storedAt: 0, expiresAt: 1, staleUntil: 1 };
+    await store.set('a', entry);
+    await store.set('b', entry);
+    await store.get('a');
+    await store.set('c', entry);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('a')).toMatchObject(entry);
+  });
+});
+
+describe('persistent stores', () => {
+  const directories: string[] = [];
+  const temporary = async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'cache-'));
+    directories.push(directory);
+    return directory;
+  };
+
+  afterAll(async () => {
+    await Promise.all(directories.map((directory) => rm(directory, { recursive: true, force: true })));
+  });
+
+  const stores: [string, (directory: string) => CacheStore][] = [
+    ['file', (directory) => createFileStore(directory)],
+    ['sqlite', (directory) => createSqliteStore(path.join(directory, 'cache.db'), () => 5)],
+  ];
+
+  it.each(stores)('%s store round-trips, deletes and clears entries', async (_name, create) => {
+    const directory = await temporary();
+    const store = create(directory);
+    const entry = { value: { price: '1.5' }, storedAt: 1, expiresAt: 10, staleUntil: 20 };
+
+    await store.set('a', entry);
+    await store.set('b', entry);
+    expect(await store.get('a')).toMatchObject(entry);
+    // A second instance over the same location sees the same data
+    expect(await create(directory).get('b')).toMatchObject(entry);
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+    await store.clear();
+    expect(await store.get('b')).toBeUndefined();
+  });
+
+  it('prunes sqlite entries past their stale window on write', async () => {
+    const store = createSqliteStore(path.join(await temporary(), 'cache.db'), () => 100);
+    await store.set('old', { value: 1, storedAt: 0, expiresAt: 10, staleUntil: 50 });
+    await store.set('new', { value: 2, storedAt: 90, expiresAt: 110, staleUntil: 150 });
+    expect(await store.get('old')).toBeUndefined();
+    expect(await store.get('new')).toMatchObject({ value: 2 });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  addressFromBech32,
+  addressNetwork,
+  addressToBech32,
+  blake2b,
+  blake2b224,
+  blake2b256,
+  cborTag,
+  decodeCbor,
+  decodeUtxo,
+  decodeValue,
+  discoverWallets,
+  encodeCbor,
+  encodeCborHex,
+  fromHex,
+  paymentCredential,
+  toHex,
+} from "@/lib/cardano";
+
+// CIP-19 test vectors
+const PAYMENT_KEY_HASH = '9493315cd92eb5d8c4304e67b7e16ae36d61d34502694657811a2c8e';
+const STAKE_KEY_HASH = '337b62cfff6403a06a3acbc34f8c46003c69fe79a3628cefa9c47251';
+const BASE_ADDRESS = 'addr1qx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgse35a3x';
+const BASE_ADDRESS_HEX = `01${PAYMENT_KEY_HASH}${STAKE_KEY_HASH}`;
+
+describe('CBOR codec', () => {
+  it('round-trips nested structures', () => {
+    const value = [
+      0, 23, 24, 1000, 2 ** 40, -1, -500,
+      BigInt('18446744073709551616'),
+      'fusion', fromHex('deadbeef'), true, null,
+      new Map<any, any>([[0, 'a'], [fromHex('01'), [1, 2]]]),
+      cborTag(121, [fromHex('ab'), 5]),
+    ];
+    const decoded = decodeCbor(encodeCbor(value)) as unknown[];
+    expect(decoded.slice(0, 8)).toEqual(value.slice(0, 8));
+    expect(decoded[8]).toBe('fusion');
+    expect(toHex(decoded[9] as Uint8Array)).toBe('deadbeef');
+    expect((decoded[12] as Map<unknown, unknown>).get(0)).toBe('a');
+    expect(decoded[13]).toEqual({ tag: 121, value: [fromHex('ab'), 5] });
+  });
+
+  it('uses the shortest header for each length', () => {
+    expect(encodeCborHex(23)).toBe('17');
+    expect(encodeCborHex(24)).toBe('1818');
+    expect(encodeCborHex(1000)).toBe('1903e8');
+    expect(encodeCborHex(-1)).toBe('20');
+    expect(encodeCborHex([1, 2])).toBe('820102');
+  });
+
+  it('decodes indefinite-length items', () => {
+    expect(decodeCbor('9f0102ff')).toEqual([1, 2]);
+    expect(toHex(decodeCbor('5f42010243030405ff') as Uint8Array)).toBe('0102030405');
+  });
+
+  it('rejects truncated and trailing input', () => {
+    expect(() => decodeCbor('8201')).toThrow('Unexpected end of CBOR input');
+    expect(() => decodeCbor('0101')).toThrow('Trailing bytes after CBOR item');
+  });
+});
+
+describe('BLAKE2b', () => {
+  it('matches reference digests for each length', () => {
+    expect(toHex(blake2b256(new TextEncoder().encode('abc'))))
+      .toBe('bddd813c634239723171ef3fee98579b94964e3bb1cb3e427262c8c068d52319');
+    expect(toHex(blake2b224(new Uint8Array()))).toBe('836cc68931c2e4e3e838602eca1902591d216837bafddfe6f0c8cb07');
+    expect(blake2b(new Uint8Array(300), 64)).toHaveLength(64);
+  });
+});
+
+describe('Cardano addresses', () => {
+  it('encodes raw address bytes as bech32', () => {
+    expect(addressToBech32(BASE_ADDRESS_HEX)).toBe(BASE_ADDRESS);
+    expect(addressFromBech32(BASE_ADDRESS)).toBe(BASE_ADDRESS_HEX);
+  });
+
+  it('picks the prefix from the header network and type', () => {
+    expect(addressToBech32(`00${PAYMENT_KEY_HASH}${STAKE_KEY_HASH}`)).toMatch(/^addr_test1/);
+    expect(addressToBech32(`e1${STAKE_KEY_HASH}`)).toMatch(/^stake1/);
+    expect(addressNetwork(BASE_ADDRESS)).toBe('mainnet');
+    expect(addressNetwork(`60${PAYMENT_KEY_HASH}`)).toBe('testnet');
+  });
+
+  it('extracts the payment credential', () => {
+    expect(paymentCredential(BASE_ADDRESS)).toEqual({ type: 'key', hash: PAYMENT_KEY_HASH });
+    expect(paymentCredential(`71${PAYMENT_KEY_HASH}`).type).toBe('script');
+  });
+
+  it('rejects a corrupted checksum', () => {
+    expect(() => addressFromBech32(`${BASE_ADDRESS.slice(0, -1)}q`)).toThrow('Invalid bech32 checksum');
+  });
+});
+
+describe('CIP-30 payloads', () => {
+  const policyId = 'aa'.repeat(28);
+
+  it('decodes a balance with native assets', () => {
+    const balance = encodeCborHex([
+      BigInt(12_500_000),
+      new Map([[fromHex(policyId), new Map([[fromHex('4d494e'), 42]])]]),
+    ]);
+    expect(decodeValue(balance)).toEqual({ lovelace: BigInt(12_500_000), assets: { [`${policyId}4d494e`]: BigInt(42) } });
+    expect(decodeValue(encodeCborHex(5)).lovelace).toBe(BigInt(5));
+  });
+
+  it('decodes legacy and post-Alonzo UTxOs', () => {
+    const txHash = fromHex('11'.repeat(32));
+    const legacy = decodeUtxo(encodeCborHex([[txHash, 1], [fromHex(BASE_ADDRESS_HEX), 2_000_000]]));
+    expect(legacy).toMatchObject({ txHash: '11'.repeat(32), outputIndex: 1, address: BASE_ADDRESS });
+    expect(legacy.value.lovelace).toBe(BigInt(2_000_000));
+
+    const datum = encodeCbor(cborTag(121, []));
+    const babbage = decodeUtxo(encodeCborHex([
+      [txHash, 0],
+      new Map<any, any>([[0, fromHex(BASE_ADDRESS_HEX)], [1, 3_000_000], [2, [1, cborTag(24, datum)]]]),
+    ]));
+    expect(babbage.inlineDatum).toBe(toHex(datum));
+  });
+
+  it('discovers installed wallets in preference order', () => {
+    const wallet = (name: string) => ({ name, icon: '', apiVersion: '0.1.0', enable: async () => ({}) as never, isEnabled: async () => false });
+    const found = discoverWallets({
+      someWallet: wallet('Some Wallet'),
+      nami: wallet('Nami'),
+      eternl: wallet('Eternl'),
+      ccvault: wallet('Eternl'),
+      notAWallet: { name: 'broken' },
+    });
+    expect(found.map((info) => info.id)).toEqual(['eternl', 'nami', 'someWallet']);
+    expect(discoverWallets(undefined)).toEqual([]);
+  });
+});
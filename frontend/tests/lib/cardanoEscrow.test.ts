@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import {
+  addressToBech32,
+  createCardanoEmulator,
+  decodeTransaction,
+  EMULATOR_PROTOCOL_PARAMETERS,
+  minAda,
+  PlutusScript,
+  SLOT_CONFIGS,
+  scriptAddress,
+  scriptHash,
+  unixToSlot,
+} from "@/lib/cardano";
+import {
+  buildEscrowCancel,
+  buildEscrowLock,
+  buildEscrowWithdraw,
+  createOrder,
+  decodeEscrowDatum,
+  escrowScriptFromBlueprint,
+  EscrowTxContext,
+  findEscrows,
+  hashSecret,
+  orderHash,
+} from "@/lib/fusion";
+import { USDC, WALLET } from "../helpers";
+
+// Always-succeeds PlutusV2 validator; the emulator runs no scripts anyway
+const SCRIPT: PlutusScript = { cbor: '49480100002221200101', version: 'PlutusV2' };
+const SECRET = `0x${'07'.repeat(32)}` as const;
+const START = 1_750_000_000;
+const TOKEN = `${'ab'.repeat(28)}484f534b59`;
+
+const MAKER_HEX = `60${'11'.repeat(28)}`;
+const RESOLVER_HEX = `60${'22'.repeat(28)}`;
+const MAKER = addressToBech32(MAKER_HEX);
+const RESOLVER = addressToBech32(RESOLVER_HEX);
+const ESCROWS = scriptAddress(SCRIPT, 'testnet');
+
+const ada = (amount: number) => BigInt(amount) * BigInt(1_000_000);
+
+function setup() {
+  let clock = START;
+  const emulator = createCardanoEmulator({ now: () => clock });
+  const context = async (address: string): Promise<EscrowTxContext> => ({
+    script: SCRIPT,
+    params: EMULATOR_PROTOCOL_PARAMETERS,
+    slotConfig: SLOT_CONFIGS.testnet,
+    slot: (await emulator.tip()).slot,
+    wallet: await emulator.utxosAt(address),
+    changeAddress: address,
+  });
+  return { emulator, context, advance: (seconds: number) => (clock += seconds) };
+}
+
+const balance = async (emulator: ReturnType<typeof createCardanoEmulator>, address: string) => {
+  const utxos = await emulator.utxosAt(address);
+  return {
+    lovelace: utxos.reduce((total, { value }) => total + value.lovelace, BigInt(0)),
+    token: utxos.reduce((total, { value }) => total + (value.assets[TOKEN] ?? BigInt(0)), BigInt(0)),
+  };
+};
+
+describe('Cardano escrow transactions', () => {
+  it('locks the destination escrow and pays the maker on withdrawal', async () => {
+    const { emulator, context, advance } = setup();
+    emulator.fund(RESOLVER, { lovelace: ada(500) });
+    emulator.fund(RESOLVER, { lovelace: ada(10) });
+
+    const order = createOrder({
+      maker: WALLET,
+      receiver: MAKER,
+      srcChain: { kind: 'evm', chainId: 1 },
+      srcAsset: USDC,
+      srcAmount: BigInt(100_000_000),
+      dstChain: { kind: 'cardano', network: 'testnet' },
+      dstAsset: 'lovelace',
+      dstAmount: ada(190),
+      dstSafetyDeposit: ada(2),
+      hashlock: hashSecret(SECRET),
+      now: START,
+    });
+    const hash = orderHash(order);
+
+    const lock = buildEscrowLock({ order, orderHash: hash, side: 'dst', takerAddress: RESOLVER, amount: ada(195) }, await context(RESOLVER));
+    expect(lock.datum.slots.withdrawal).toBe(unixToSlot(START + order.timelocks.dstWithdrawal, SLOT_CONFIGS.testnet));
+    expect(await emulator.submitTx(lock.cborHex)).toBe(lock.txHash);
+
+    const [escrow] = findEscrows(await emulator.utxosAt(ESCROWS), hash);
+    expect(escrow.utxo.value.lovelace).toBe(ada(197));
+    expect(decodeEscrowDatum(escrow.utxo.inlineDatum!)).toEqual(lock.datum);
+
+    // Still in the finality lock
+    await expect(async () => buildEscrowWithdraw({ escrow, secret: SECRET, recipient: MAKER }, await context(RESOLVER)))
+      .rejects.toThrow('cannot be withdrawn before slot');
+
+    advance(order.timelocks.dstWithdrawal);
+    await expect(async () => buildEscrowWithdraw({ escrow, secret: SECRET, recipient: RESOLVER }, await context(RESOLVER)))
+      .rejects.toThrow("must pay the escrow's maker");
+
+    const withdraw = buildEscrowWithdraw({ escrow, secret: SECRET, recipient: MAKER }, await context(RESOLVER));
+    const decoded = decodeTransaction(withdraw.cborHex);
+    expect(decoded.requiredSigners).toEqual([lock.datum.taker]);
+    expect(decoded.validTo).toBe(lock.datum.slots.cancellation);
+    await emulator.submitTx(withdraw.cborHex);
+
+    expect(await balance(emulator, MAKER)).toEqual({ lovelace: ada(195), token: BigInt(0) });
+    // The resolver gets its deposit back and pays two fees
+    expect((await balance(emulator, RESOLVER)).lovelace).toBe(ada(510) - ada(195) - lock.fee - withdraw.fee);
+    expect(findEscrows(await emulator.utxosAt(ESCROWS), hash)).toEqual([]);
+  });
+
+  it('refunds a native-token source escrow to the maker after the timeout', async () => {
+    const { emulator, context, advance } = setup();
+    emulator.fund(MAKER, { lovelace: ada(20), assets: { [TOKEN]: BigInt(1_000) } });
+    emulator.fund(RESOLVER, { lovelace: ada(50) });
+
+    const order = createOrder({
+      maker: MAKER,
+      receiver: WALLET,
+      srcChain: { kind: 'cardano', network: 'testnet' },
+      srcAsset: TOKEN,
+      srcAmount: BigInt(400),
+      dstChain: { kind: 'evm', chainId: 1 },
+      dstAsset: USDC,
+      dstAmount: BigInt(100_000_000),
+      hashlock: hashSecret(SECRET),
+      now: START,
+    });
+    const hash = orderHash(order);
+
+    const lock = buildEscrowLock({ order, orderHash: hash, side: 'src', takerAddress: RESOLVER }, await context(MAKER));
+    await emulator.submitTx(lock.cborHex);
+    const [escrow] = findEscrows(await emulator.utxosAt(ESCROWS), hash);
+    // No deposit, so the output carries just the min-ADA for its tokens and datum
+    expect(escrow.utxo.value).toEqual({
+      lovelace: minAda({ ...escrow.utxo, value: { ...escrow.utxo.value, lovelace: BigInt(0) } }, EMULATOR_PROTOCOL_PARAMETERS),
+      assets: { [TOKEN]: BigInt(400) },
+    });
+    expect(await balance(emulator, MAKER)).toMatchObject({ token: BigInt(600) });
+
+    advance(order.timelocks.srcCancellation - 1);
+    await expect(async () => buildEscrowCancel({ escrow, refundAddress: MAKER }, await context(RESOLVER)))
+      .rejects.toThrow('cannot be cancelled before slot');
+
+    // Exclusive cancellation: the resolver signs
+    advance(1);
+    const cancel = buildEscrowCancel({ escrow, refundAddress: MAKER }, await context(RESOLVER));
+    expect(decodeTransaction(cancel.cborHex).requiredSigners).toEqual([lock.datum.taker]);
+    await emulator.submitTx(cancel.cborHex);
+
+    expect(await balance(emulator, MAKER)).toMatchObject({ token: BigInt(1_000) });
+    expect(findEscrows(await emulator.utxosAt(ESCROWS), hash)).toEqual([]);
+  });
+
+  it('fails clearly when the wallet cannot cover the lock', async () => {
+    const { emulator, context } = setup();
+    emulator.fund(RESOLVER, { lovelace: ada(3) });
+    const order = createOrder({
+      maker: WALLET,
+      receiver: MAKER,
+      srcChain: { kind: 'evm', chainId: 1 },
+      srcAsset: USDC,
+      srcAmount: BigInt(1),
+      dstChain: { kind: 'cardano', network: 'testnet' },
+      dstAsset: TOKEN,
+      dstAmount: BigInt(5),
+      hashlock: hashSecret(SECRET),
+      now: START,
+    });
+    await expect(async () => buildEscrowLock(
+      { order, orderHash: orderHash(order), side: 'dst', takerAddress: RESOLVER },
+      await context(RESOLVER)
+    )).rejects.toThrow(`Insufficient funds: wallet is short of tokens ${TOKEN}`);
+  });
+});
+
+describe('escrow validator blueprint', () => {
+  const blueprint = (plutusVersion: string, hash = scriptHash(SCRIPT)) => ({
+    preamble: { plutusVersion },
+    validators: [
+      { title: 'escrow.escrow.else', compiledCode: 'ff', hash: '00' },
+      { title: 'escrow.escrow.spend', compiledCode: SCRIPT.cbor, hash },
+    ],
+  });
+
+  it('reads the spend validator and checks its hash', () => {
+    expect(escrowScriptFromBlueprint(blueprint('v2'))).toEqual(SCRIPT);
+    expect(() => escrowScriptFromBlueprint(blueprint('v2', '00'.repeat(28)))).toThrow('does not match');
+    expect(() => escrowScriptFromBlueprint(blueprint('v1'))).toThrow('Unsupported Plutus version v1');
+    expect(() => escrowScriptFromBlueprint({ validators: [] })).toThrow('no escrow.escrow.spend validator');
+  });
+});
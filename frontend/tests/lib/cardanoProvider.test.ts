@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  addressToBech32,
+  cborTag,
+  constr,
+  createBlockfrostProvider,
+  createCardanoEmulator,
+  decodeTransaction,
+  encodeCborHex,
+  encodePlutusData,
+  fromHex,
+  SLOT_CONFIGS,
+  toCborValue,
+  unixToSlot,
+} from "@/lib/cardano";
+
+const ALICE_HEX = `60${'11'.repeat(28)}`;
+const BOB_HEX = `60${'22'.repeat(28)}`;
+const ALICE = addressToBech32(ALICE_HEX);
+const BOB = addressToBech32(BOB_HEX);
+const START = 1_750_000_000;
+
+const ada = (amount: number) => BigInt(amount) * BigInt(1_000_000);
+
+function transaction({
+  inputs,
+  outputs,
+  fee,
+  ttl,
+  datums = [],
+}: {
+  inputs: [string, number][];
+  outputs: [string, bigint][];
+  fee: bigint;
+  ttl?: number;
+  datums?: string[];
+}): string {
+  const body = new Map<any, any>([
+    [0, cborTag(258, inputs.map(([txHash, index]) => [fromHex(txHash), index]))],
+    [1, outputs.map(([address, lovelace]) => new Map<any, any>([[0, fromHex(address)], [1, lovelace]]))],
+    [2, fee],
+  ]);
+  if (ttl !== undefined) body.set(3, ttl);
+  const witnesses = new Map<any, any>([[4, datums.map((datum) => toCborValue(constr(0, [fromHex(datum)])))]]);
+  return encodeCborHex([body, witnesses, true, null]);
+}
+
+describe('Cardano emulator', () => {
+  const setup = () => {
+    let clock = START;
+    const emulator = createCardanoEmulator({ now: () => clock });
+    return { emulator, advance: (seconds: number) => (clock += seconds) };
+  };
+
+  it('spends outputs and records witness datums', async () => {
+    const { emulator } = setup();
+    const funding = emulator.fund(ALICE, { lovelace: ada(10) });
+
+    const tx = transaction({
+      inputs: [[funding.txHash, 0]],
+      outputs: [[BOB_HEX, ada(4)], [ALICE_HEX, ada(6) - BigInt(200_000)]],
+      fee: BigInt(200_000),
+      datums: ['cafe'],
+    });
+    const txHash = await emulator.submitTx(tx);
+    expect(txHash).toBe(decodeTransaction(tx).txHash);
+
+    expect(await emulator.utxosAt(BOB)).toEqual([
+      { txHash, outputIndex: 0, address: BOB, value: { lovelace: ada(4), assets: {} } },
+    ]);
+    expect((await emulator.utxosAt(ALICE)).map(({ txHash }) => txHash)).toEqual([txHash]);
+    expect(await emulator.awaitTx(txHash)).toMatchObject({ txHash, height: 1 });
+    expect(await emulator.transaction(txHash)).toBe(tx);
+    expect(await emulator.tip()).toMatchObject({ height: 1, hash: txHash, slot: unixToSlot(START, SLOT_CONFIGS.testnet) });
+
+    const [datumHash] = Object.keys(decodeTransaction(tx).datums);
+    expect(await emulator.datum(datumHash)).toBe(encodePlutusData(constr(0, [fromHex('cafe')])));
+
+    await expect(emulator.submitTx(transaction({
+      inputs: [[funding.txHash, 0]],
+      outputs: [[BOB_HEX, ada(10)]],
+      fee: BigInt(0),
+    }))).rejects.toThrow('is not unspent');
+  });
+
+  it('rejects unbalanced and expired transactions', async () => {
+    const { emulator, advance } = setup();
+    const { txHash } = emulator.fund(ALICE, { lovelace: ada(10) });
+
+    await expect(emulator.submitTx(transaction({
+      inputs: [[txHash, 0]],
+      outputs: [[BOB_HEX, ada(10)]],
+      fee: BigInt(170_000),
+    }))).rejects.toThrow('do not balance');
+
+    const ttl = unixToSlot(START + 60, SLOT_CONFIGS.testnet);
+    advance(60);
+    await expect(emulator.submitTx(transaction({
+      inputs: [[txHash, 0]],
+      outputs: [[BOB_HEX, ada(10) - BigInt(170_000)]],
+      fee: BigInt(170_000),
+      ttl,
+    }))).rejects.toThrow(`expired at slot ${ttl}`);
+    expect(emulator.utxos()).toHaveLength(1);
+  });
+});
+
+describe('Blockfrost provider', () => {
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+  it('pages through UTxOs and treats unknown addresses as empty', async () => {
+    const page = (count: number, offset: number) => Array.from({ length: count }, (_, index) => ({
+      address: ALICE,
+      tx_hash: 'ab'.repeat(32),
+      output_index: offset + index,
+      amount: [{ unit: 'lovelace', quantity: '2000000' }, { unit: `${'cd'.repeat(28)}4f4b`, quantity: '5' }],
+      data_hash: null,
+      inline_datum: index === 0 ? 'd87980' : null,
+    }));
+    const fetchMock = vi.fn(async (url: string | URL | Request) => {
+      const { pathname, searchParams } = new URL(String(url));
+      if (pathname.includes(BOB)) return json({ status_code: 404, message: 'Not found' }, 404);
+      return json(searchParams.get('page') === '1' ? page(100, 0) : page(3, 100));
+    });
+    const provider = createBlockfrostProvider({ network: 'testnet', projectId: 'preprodKey', fetch: fetchMock });
+
+    const utxos = await provider.utxosAt(ALICE);
+    expect(utxos).toHaveLength(103);
+    expect(utxos[0]).toEqual({
+      txHash: 'ab'.repeat(32),
+      outputIndex: 0,
+      address: ALICE,
+      value: { lovelace: BigInt(2_000_000), assets: { [`${'cd'.repeat(28)}4f4b`]: BigInt(5) } },
+      inlineDatum: 'd87980',
+    });
+    expect(await provider.utxosAt(BOB)).toEqual([]);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe(`https://cardano-preprod.blockfrost.io/api/v0/addresses/${ALICE}/utxos?count=100&page=1`);
+    expect(init.headers).toMatchObject({ project_id: 'preprodKey' });
+  });
+
+  it('submits raw CBOR and polls until the transaction lands', async () => {
+    const txHash = 'ef'.repeat(32);
+    let lookups = 0;
+    const fetchMock = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+      const { pathname } = new URL(String(url));
+      if (pathname.endsWith('/tx/submit')) {
+        expect(init?.headers).toMatchObject({ 'Content-Type': 'application/cbor' });
+        expect(init?.body).toEqual(fromHex('84a0a0f5f6'));
+        return json(txHash);
+      }
+      if (pathname.endsWith('/datum/00/cbor')) return json({ error: 'Not Found' }, 404);
+      if (pathname.endsWith(`/txs/${txHash}/cbor`)) return json({ cbor: '84a0a0f5f6' });
+      return ++lookups < 3
+        ? json({ error: 'Not Found' }, 404)
+        : json({ hash: txHash, slot: 90_000, block_height: 12, block_time: START });
+    });
+    const provider = createBlockfrostProvider({ apiUrl: 'http://blockfrost.local', fetch: fetchMock });
+
+    expect(await provider.submitTx('84a0a0f5f6')).toBe(txHash);
+    expect(await provider.awaitTx(txHash, { pollMs: 1 })).toEqual({ txHash, slot: 90_000, height: 12, time: START });
+    expect(lookups).toBe(3);
+    expect(await provider.datum('00')).toBeUndefined();
+    expect(await provider.transaction(txHash)).toBe('84a0a0f5f6');
+  });
+
+  it('surfaces node rejections with the upstream message', async () => {
+    const provider = createBlockfrostProvider({
+      apiUrl: 'http://blockfrost.local',
+      fetch: async () => json({ status_code: 400, error: 'Bad Request', message: 'BadInputsUTxO' }, 400),
+    });
+    await expect(provider.submitTx('84a0a0f5f6')).rejects.toMatchObject({
+      name: 'CardanoProviderError',
+      status: 400,
+      message: 'Blockfrost request failed: 400 - BadInputsUTxO',
+    });
+  });
+});
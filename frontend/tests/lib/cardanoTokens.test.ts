@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  CardanoTokenSource,
+  createBlockfrostTokenSource,
+  createCardanoTokenRegistry,
+  logoUrl,
+  parseUnit,
+  toCardanoToken,
+} from "@/lib/cardano";
+
+const POLICY = 'cd'.repeat(28);
+const USDM = 'c48cbb3d5e57ed56e276bc45f99ab39abe94e6cd7ac39fb402da47ad0014df105553444d';
+// "TOKEN" under a test policy
+const UNKNOWN = `${POLICY}544f4b454e`;
+
+describe('Cardano asset units', () => {
+  it('splits policy id and asset name and decodes CIP-68 labels', () => {
+    expect(parseUnit(UNKNOWN)).toEqual({ policyId: POLICY, assetName: '544f4b454e', displayName: 'TOKEN' });
+    expect(parseUnit(USDM)).toMatchObject({ assetName: '0014df105553444d', label: 333, displayName: 'USDM' });
+    // Binary names stay hex; a bare policy falls back to its prefix
+    expect(parseUnit(`${POLICY}00ff`).displayName).toBe('00ff');
+    expect(parseUnit(POLICY).displayName).toBe('cdcdcdcd');
+    expect(() => parseUnit('0xnope')).toThrow('Invalid Cardano asset unit');
+  });
+
+  it('turns registry logos into loadable URLs', () => {
+    expect(logoUrl('ipfs://QmLogo')).toBe('https://ipfs.io/ipfs/QmLogo');
+    expect(logoUrl('https://example.com/logo.png')).toBe('https://example.com/logo.png');
+    expect(logoUrl('iVBORw0KGgo=')).toBe('data:image/png;base64,iVBORw0KGgo=');
+    expect(toCardanoToken(UNKNOWN)).toMatchObject({ symbol: 'TOKEN', decimals: 0, tags: ['unverified'] });
+  });
+});
+
+describe('Cardano token registry', () => {
+  it('searches the snapshot by ticker, name and unit', async () => {
+    const registry = createCardanoTokenRegistry();
+
+    const [djed, ...rest] = await registry.search('DJED');
+    expect(djed).toMatchObject({ symbol: 'DJED', name: 'Djed', decimals: 6, tags: ['registry'] });
+    expect(rest).toEqual([]);
+    // Same rank sorts by ticker
+    expect((await registry.search('indigo')).map(({ symbol }) => symbol)).toEqual(['INDY', 'iUSD']);
+    expect((await registry.search(USDM.slice(0, 20)))[0].symbol).toBe('USDM');
+    expect(await registry.search('ada')).toEqual([expect.objectContaining({ address: 'lovelace', symbol: 'ADA' })]);
+    expect(await registry.search('nothing-like-this')).toEqual([]);
+    expect(await registry.search('', { limit: 3 })).toHaveLength(3);
+
+    const list = await registry.tokenList();
+    expect(list.name).toBe('Cardano mainnet tokens');
+    expect(list.tokens).toHaveLength(13);
+  });
+
+  it('resolves unknown units through the remote source and caches the answer', async () => {
+    let now = 0;
+    const source: CardanoTokenSource = {
+      lookup: vi.fn(async (unit: string) => (unit === UNKNOWN ? { name: 'Test Token', ticker: 'TT', decimals: 2, standard: 'cip68' as const } : undefined)),
+      assetsOfPolicy: vi.fn(async (policyId: string) => [`${policyId}01`, `${policyId}02`]),
+    };
+    const registry = createCardanoTokenRegistry({ network: 'testnet', source, ttlMs: 1000, now: () => now });
+
+    expect(await registry.search(UNKNOWN)).toEqual([expect.objectContaining({ symbol: 'TT', decimals: 2, tags: ['cip68'] })]);
+    // Resolved tokens become searchable by ticker
+    expect((await registry.search('tt'))[0].address).toBe(UNKNOWN);
+
+    const custom = await registry.custom([UNKNOWN, `${POLICY}00ff`]);
+    expect(custom[`${POLICY}00ff`]).toMatchObject({ symbol: '00ff', tags: ['unverified'] });
+    expect(source.lookup).toHaveBeenCalledTimes(2);
+
+    now = 1001;
+    await registry.resolve(UNKNOWN);
+    expect(source.lookup).toHaveBeenCalledTimes(3);
+
+    // A policy id with no known assets lists what the source has minted under it
+    const other = 'ef'.repeat(28);
+    expect((await registry.search(other, { limit: 1 })).map(({ address }) => address)).toEqual([`${other}01`]);
+    expect(source.assetsOfPolicy).toHaveBeenCalledWith(other);
+  });
+
+  it('reads registry and on-chain metadata from Blockfrost', async () => {
+    const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+    const fetchMock = vi.fn(async (url: string | URL | Request) => {
+      const { pathname } = new URL(String(url));
+      if (pathname.endsWith(UNKNOWN)) {
+        return json({
+          asset: UNKNOWN,
+          onchain_metadata: { name: 'On-chain name', image: ['ipfs://Qm', 'Image'], decimals: 3 },
+          onchain_metadata_standard: 'CIP68v1',
+          metadata: { name: 'Registry name', ticker: null, decimals: null, logo: null },
+        });
+      }
+      if (pathname.includes('/assets/policy/')) return json([{ asset: UNKNOWN, quantity: '1' }]);
+      return json({ status_code: 404, message: 'Not found' }, 404);
+    });
+    const source = createBlockfrostTokenSource({ network: 'testnet', projectId: 'preprodKey', fetch: fetchMock });
+
+    expect(await source.lookup(UNKNOWN)).toEqual({
+      name: 'Registry name',
+      ticker: undefined,
+      decimals: 3,
+      logo: 'ipfs://QmImage',
+      description: undefined,
+      standard: 'registry',
+    });
+    expect(await source.lookup(`${POLICY}00ff`)).toBeUndefined();
+    expect(await source.assetsOfPolicy!(POLICY)).toEqual([UNKNOWN]);
+    expect(String(fetchMock.mock.calls[2][0])).toBe(`https://cardano-preprod.blockfrost.io/api/v0/assets/policy/${POLICY}?count=100`);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { chainsFor, CHAINS, explorerLink, EXTRA_WALLET_CHAINS, findChain, wagmiChains } from "@/lib/chains";
+
+describe('chain registry', () => {
+  it('finds chains by id or slug', () => {
+    expect(findChain('137')?.slug).toBe('polygon');
+    expect(findChain(42161)?.name).toBe('Arbitrum');
+    expect(findChain('Optimism')?.id).toBe(10);
+    expect(findChain('base-sepolia')).toBeUndefined();
+  });
+
+  it('has unique ids and slugs', () => {
+    expect(new Set(CHAINS.map((chain) => chain.id)).size).toBe(CHAINS.length);
+    expect(new Set(CHAINS.map((chain) => chain.slug)).size).toBe(CHAINS.length);
+  });
+
+  it('lists the chains each API supports', () => {
+    expect(chainsFor('price').map((chain) => chain.slug)).not.toContain('zksync');
+    expect(chainsFor('gas').map((chain) => chain.slug)).toContain('zksync');
+  });
+
+  it('builds explorer links only for registry chains', () => {
+    expect(explorerLink('56', 'tx', '0xabc')).toBe('https://bscscan.com/tx/0xabc');
+    expect(explorerLink('999', 'token', '0xdef')).toBeUndefined();
+  });
+
+  it('hands wagmi the registry chains in order', () => {
+    expect(wagmiChains(false).map((chain) => chain.id)).toEqual(CHAINS.map((chain) => chain.id));
+  });
+
+  it('adds Base and the testnets behind the flag', () => {
+    const ids = wagmiChains(true).map((chain) => chain.id);
+    expect(ids.slice(0, CHAINS.length)).toEqual(CHAINS.map((chain) => chain.id));
+    expect(ids).toEqual(expect.arrayContaining([8453, 11155111, 84532]));
+    expect(ids).toHaveLength(CHAINS.length + EXTRA_WALLET_CHAINS.length);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
@@ -0,0 +1,194 @@
+import { Address, encodeAbiParameters, encodeEventTopics, getAddress, Hex, PublicClient } from "viem";
+import { describe, expect, it } from "vitest";
+import {
+  addressToBech32,
+  createCardanoEmulator,
+  EMULATOR_PROTOCOL_PARAMETERS,
+  PlutusScript,
+  SLOT_CONFIGS,
+  scriptAddress,
+} from "@/lib/cardano";
+import {
+  buildEscrowCancel,
+  buildEscrowLock,
+  buildEscrowWithdraw,
+  createOrder,
+  ESCROW_ABI,
+  ESCROW_FACTORY_ABI,
+  EscrowImmutables,
+  escrowImmutables,
+  findEscrows,
+  hashSecret,
+  orderHash,
+} from "@/lib/fusion";
+import { createEscrowVerifier, EscrowReport } from "@/lib/relayer";
+import { USDC, WALLET } from "../helpers";
+
+const FACTORY = getAddress('0x5fbdb2315678afecb367f032d93f642f64180aa3');
+const ESCROW = getAddress('0xa16e02e87b7454126e5e10d957a927a7f5b5d2be');
+const RESOLVER = getAddress('0x70997970c51812dc3a010c7d01b50e0dea79c8c8');
+const SECRET = `0x${'05'.repeat(32)}` as const;
+const START = 1_750_000_000;
+
+const MAKER = addressToBech32(`60${'11'.repeat(28)}`);
+const CARDANO_RESOLVER = addressToBech32(`60${'22'.repeat(28)}`);
+const SCRIPT: PlutusScript = { cbor: '49480100002221200101', version: 'PlutusV2' };
+const ESCROWS = scriptAddress(SCRIPT, 'testnet');
+
+const evmToCardano = createOrder({
+  maker: WALLET,
+  receiver: MAKER,
+  srcChain: { kind: 'evm', chainId: 1 },
+  srcAsset: USDC,
+  srcAmount: BigInt(100_000_000),
+  dstChain: { kind: 'cardano', network: 'testnet' },
+  dstAsset: 'lovelace',
+  dstAmount: BigInt(190_000_000),
+  hashlock: hashSecret(SECRET),
+  now: START,
+});
+const signed = { order: evmToCardano, orderHash: orderHash(evmToCardano), signature: { scheme: 'eip712' as const, signature: '0x' as Hex } };
+
+const log = (address: Address, topics: Hex[], data: Hex) => ({ address, topics, data });
+
+function created(immutables: EscrowImmutables, from: Address = FACTORY) {
+  const topics = encodeEventTopics({
+    abi: ESCROW_FACTORY_ABI,
+    eventName: 'SrcEscrowCreated',
+    args: { escrow: ESCROW, orderHash: immutables.orderHash },
+  }) as Hex[];
+  return log(from, topics, encodeAbiParameters([ESCROW_FACTORY_ABI[4].inputs[2]], [immutables]));
+}
+
+// Receipts by hash; every block is mined at START + 100
+function fakeEvmChain(receipts: Record<string, { status: 'success' | 'reverted'; logs: ReturnType<typeof log>[] }>) {
+  return {
+    async getTransactionReceipt({ hash }: { hash: Hex }) {
+      const receipt = receipts[hash];
+      if (!receipt) throw new Error(`Transaction receipt with hash "${hash}" could not be found`);
+      return { ...receipt, blockNumber: BigInt(16) };
+    },
+    async getBlock() {
+      return { timestamp: BigInt(START + 100) };
+    },
+  } as unknown as PublicClient;
+}
+
+describe('EVM escrow verification', () => {
+  const TX = `0x${'0d'.repeat(32)}` as Hex;
+  const deployed: EscrowReport = { side: 'src', action: 'deployed', txHash: TX, escrow: ESCROW };
+  const verifierFor = (receipts: Parameters<typeof fakeEvmChain>[0]) =>
+    createEscrowVerifier({ evm: { 1: { publicClient: fakeEvmChain(receipts), factory: FACTORY } } });
+
+  it('accepts a factory deployment that matches the order, at its deployment time', async () => {
+    const immutables = escrowImmutables(signed, { side: 'src', taker: RESOLVER, deployedAt: START + 90 });
+    const verify = verifierFor({ [TX]: { status: 'success', logs: [created(immutables)] } });
+    expect(await verify(signed, deployed)).toEqual({ at: START + 90 });
+  });
+
+  it.each([
+    ['a different hashlock', { hashlock: `0x${'66'.repeat(32)}` as Hex }, 'hashlock'],
+    ['a short amount', { amount: BigInt(1) }, 'holds 1'],
+    ['other timelocks', { timelocks: BigInt(1) }, 'timelocks'],
+  ])('rejects an escrow with %s', async (_name, change, message) => {
+    const immutables = { ...escrowImmutables(signed, { side: 'src', taker: RESOLVER, deployedAt: START }), ...change };
+    const verify = verifierFor({ [TX]: { status: 'success', logs: [created(immutables)] } });
+    await expect(verify(signed, deployed)).rejects.toThrow(message);
+  });
+
+  it('ignores lookalike events and unknown or reverted transactions', async () => {
+    const immutables = escrowImmutables(signed, { side: 'src', taker: RESOLVER, deployedAt: START });
+    const verify = verifierFor({
+      [TX]: { status: 'success', logs: [created(immutables, RESOLVER)] },
+      [`0x${'0e'.repeat(32)}`]: { status: 'reverted', logs: [created(immutables)] },
+    });
+    await expect(verify(signed, deployed)).rejects.toThrow('did not create src escrow');
+    await expect(verify(signed, { ...deployed, txHash: `0x${'0e'.repeat(32)}` })).rejects.toThrow('reverted');
+    await expect(verify(signed, { ...deployed, txHash: `0x${'0f'.repeat(32)}` })).rejects.toThrow('is not on chain');
+  });
+
+  it('checks withdrawals against the escrow on record', async () => {
+    const withdrawal = encodeEventTopics({ abi: ESCROW_ABI, eventName: 'EscrowWithdrawal' }) as Hex[];
+    const verify = verifierFor({ [TX]: { status: 'success', logs: [log(ESCROW, withdrawal, encodeAbiParameters([{ type: 'bytes32' }], [SECRET]))] } });
+    const report: EscrowReport = { side: 'src', action: 'withdrawn', txHash: TX };
+
+    expect(await verify(signed, report, { txHash: TX, escrow: ESCROW, deployedAt: START })).toEqual({ at: START + 100 });
+    await expect(verify(signed, report, { txHash: TX, escrow: RESOLVER, deployedAt: START })).rejects.toThrow('did not withdraw');
+    await expect(verify(signed, { ...report, action: 'cancelled' }, { txHash: TX, escrow: ESCROW, deployedAt: START })).rejects.toThrow('did not cancel');
+  });
+
+  it('rejects chains it has no node for', async () => {
+    const verify = createEscrowVerifier({});
+    await expect(verify(signed, deployed)).rejects.toThrow('Escrows on eip155:1 cannot be verified');
+  });
+});
+
+describe('Cardano escrow verification', () => {
+  const ada = (amount: number) => BigInt(amount) * BigInt(1_000_000);
+
+  async function lockedEscrow() {
+    let clock = START;
+    const emulator = createCardanoEmulator({ now: () => clock });
+    emulator.fund(CARDANO_RESOLVER, { lovelace: ada(500) });
+    emulator.fund(CARDANO_RESOLVER, { lovelace: ada(10) });
+    const context = async () => ({
+      script: SCRIPT,
+      params: EMULATOR_PROTOCOL_PARAMETERS,
+      slotConfig: SLOT_CONFIGS.testnet,
+      slot: (await emulator.tip()).slot,
+      wallet: await emulator.utxosAt(CARDANO_RESOLVER),
+      changeAddress: CARDANO_RESOLVER,
+    });
+    const lock = buildEscrowLock(
+      { order: evmToCardano, orderHash: signed.orderHash, side: 'dst', takerAddress: CARDANO_RESOLVER, amount: ada(195) },
+      await context()
+    );
+    await emulator.submitTx(lock.cborHex);
+    const [escrow] = findEscrows(await emulator.utxosAt(ESCROWS), signed.orderHash);
+    const verify = createEscrowVerifier({ cardano: { testnet: { provider: emulator, escrowAddress: ESCROWS } } });
+    return { emulator, context, escrow, lock, verify, advance: (seconds: number) => (clock += seconds) };
+  }
+
+  it('accepts a destination lock that matches the order', async () => {
+    const { lock, verify } = await lockedEscrow();
+    expect(await verify(signed, { side: 'dst', action: 'deployed', txHash: lock.txHash, escrow: `${lock.txHash}#0` }))
+      .toEqual({ at: START });
+  });
+
+  it('rejects a lock reported at another output or for the wrong side', async () => {
+    const { lock, verify } = await lockedEscrow();
+    await expect(verify(signed, { side: 'dst', action: 'deployed', txHash: lock.txHash, escrow: `${lock.txHash}#1` }))
+      .rejects.toThrow('No dst escrow for this order');
+    // The source side of this order is on Ethereum, which this verifier has no node for
+    await expect(verify(signed, { side: 'src', action: 'deployed', txHash: lock.txHash, escrow: `${lock.txHash}#0` }))
+      .rejects.toThrow('cannot be verified');
+  });
+
+  it('accepts a withdrawal only from the transaction that spends the escrow with the secret', async () => {
+    const { emulator, context, escrow, lock, verify, advance } = await lockedEscrow();
+    const record = { txHash: lock.txHash, escrow: `${lock.txHash}#0`, deployedAt: START };
+    await expect(verify(signed, { side: 'dst', action: 'withdrawn', txHash: lock.txHash }, record))
+      .rejects.toThrow(`does not spend escrow ${lock.txHash}#0`);
+
+    advance(evmToCardano.timelocks.dstWithdrawal);
+    const withdraw = buildEscrowWithdraw({ escrow, secret: SECRET, recipient: MAKER }, await context());
+    await emulator.submitTx(withdraw.cborHex);
+    expect(await verify(signed, { side: 'dst', action: 'withdrawn', txHash: withdraw.txHash }, record))
+      .toEqual({ at: START + evmToCardano.timelocks.dstWithdrawal });
+    await expect(verify(signed, { side: 'dst', action: 'cancelled', txHash: withdraw.txHash }, record))
+      .rejects.toThrow(`does not cancel escrow ${lock.txHash}#0`);
+  });
+
+  it('rejects a cancellation reported as a withdrawal', async () => {
+    const { emulator, context, escrow, lock, verify, advance } = await lockedEscrow();
+    const record = { txHash: lock.txHash, escrow: `${lock.txHash}#0`, deployedAt: START };
+
+    advance(evmToCardano.timelocks.dstCancellation);
+    const cancel = buildEscrowCancel({ escrow, refundAddress: CARDANO_RESOLVER }, await context());
+    await emulator.submitTx(cancel.cborHex);
+    await expect(verify(signed, { side: 'dst', action: 'withdrawn', txHash: cancel.txHash }, record))
+      .rejects.toThrow(`does not withdraw escrow ${lock.txHash}#0`);
+    expect(await verify(signed, { side: 'dst', action: 'cancelled', txHash: cancel.txHash }, record))
+      .toEqual({ at: START + evmToCardano.timelocks.dstCancellation });
+  });
+});
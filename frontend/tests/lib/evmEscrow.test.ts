@@ -0,0 +1,298 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  Abi,
+  Address,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  custom,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  getAddress,
+  Hex,
+  http,
+  toHex,
+  zeroAddress,
+} from "viem";
+import { foundry } from "viem/chains";
+import { privateKeyToAccount } from "viem/accounts";
+import { describe, expect, it } from "vitest";
+import { addressToBech32 } from "@/lib/cardano";
+import { NATIVE_TOKEN_ADDRESS } from "@/lib/chains";
+import {
+  createEvmEscrowClient,
+  createOrder,
+  DEFAULT_TIMELOCKS,
+  ESCROW_ABI,
+  ESCROW_FACTORY_ABI,
+  EscrowImmutables,
+  escrowImmutables,
+  hashSecret,
+  orderHash,
+  orderTypedData,
+  packTimelocks,
+  parseEscrowEvents,
+  signOrderEip712,
+  unpackTimelocks,
+} from "@/lib/fusion";
+import { createEvmEscrowAdapter } from "@/lib/resolver";
+import { WALLET } from "../helpers";
+
+const FACTORY = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+const ESCROW = getAddress('0xa16e02e87b7454126e5e10d957a927a7f5b5d2be');
+const RESOLVER = getAddress('0x70997970c51812dc3a010c7d01b50e0dea79c8c8');
+const SECRET = `0x${'09'.repeat(32)}` as const;
+const START = 1_750_000_000;
+
+const order = createOrder({
+  maker: addressToBech32(`60${'11'.repeat(28)}`),
+  receiver: WALLET,
+  srcChain: { kind: 'cardano', network: 'testnet' },
+  srcAsset: 'lovelace',
+  srcAmount: BigInt(200_000_000),
+  dstChain: { kind: 'evm', chainId: 31337 },
+  dstAsset: NATIVE_TOKEN_ADDRESS,
+  dstAmount: BigInt(10) ** BigInt(17),
+  dstSafetyDeposit: BigInt(10) ** BigInt(15),
+  hashlock: hashSecret(SECRET),
+  now: START,
+});
+const signed = { order, orderHash: orderHash(order), signature: { scheme: 'cip30' as const, signature: '', key: '' } };
+
+// Anvil's first two dev accounts
+const maker = privateKeyToAccount('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcb4c6b8d7f4fae0fd');
+const resolver = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const TOKEN = getAddress('0x2e234dae75c793f67a35089c9d99245e1c58470b');
+
+const evmToCardano = createOrder({
+  maker: maker.address,
+  receiver: addressToBech32(`60${'11'.repeat(28)}`),
+  srcChain: { kind: 'evm', chainId: 31337 },
+  srcAsset: TOKEN,
+  srcAmount: BigInt(100_000_000),
+  dstChain: { kind: 'cardano', network: 'testnet' },
+  dstAsset: 'lovelace',
+  dstAmount: BigInt(190_000_000),
+  hashlock: hashSecret(SECRET),
+  now: START,
+});
+const evmSigned = await signOrderEip712(evmToCardano, (typedData) => maker.signTypedData(typedData));
+
+function receiptLog(address: Address, topics: Hex[], data: Hex, txHash: Hex) {
+  return {
+    address,
+    topics,
+    data,
+    blockNumber: '0x10',
+    blockHash: `0x${'bb'.repeat(32)}`,
+    logIndex: '0x0',
+    transactionHash: txHash,
+    transactionIndex: '0x0',
+    removed: false,
+  };
+}
+
+// Just enough of an Anvil node: transactions are mined at once and emit the
+// event the contract would
+function mockNode() {
+  const sent: { to: Address; value: Hex; data: Hex }[] = [];
+  const receipts = new Map<Hex, object>();
+
+  const emit = (hash: Hex, tx: { to: Address; data: Hex }) => {
+    if (tx.to === FACTORY) {
+      const { functionName, args } = decodeFunctionData({ abi: ESCROW_FACTORY_ABI, data: tx.data });
+      const src = functionName === 'createSrcEscrow';
+      // The factory builds source immutables from the order, with the sender as taker
+      const immutables = src
+        ? escrowImmutables(evmSigned, { side: 'src', taker: RESOLVER, amount: args[2] as bigint, deployedAt: START })
+        : { ...(args[0] as EscrowImmutables) };
+      immutables.timelocks = packTimelocks(unpackTimelocks(immutables.timelocks).timelocks, START);
+      const topics = encodeEventTopics({
+        abi: ESCROW_FACTORY_ABI,
+        eventName: src ? 'SrcEscrowCreated' : 'DstEscrowCreated',
+        args: { escrow: ESCROW, orderHash: immutables.orderHash },
+      }) as Hex[];
+      const data = encodeAbiParameters([ESCROW_FACTORY_ABI[5].inputs[2]], [immutables]);
+      return receiptLog(FACTORY, topics, data, hash);
+    }
+    const { functionName, args } = decodeFunctionData({ abi: ESCROW_ABI, data: tx.data });
+    if (functionName === 'withdraw') {
+      const topics = encodeEventTopics({ abi: ESCROW_ABI, eventName: 'EscrowWithdrawal' }) as Hex[];
+      return receiptLog(ESCROW, topics, encodeAbiParameters([{ type: 'bytes32' }], [args[0] as Hex]), hash);
+    }
+    return receiptLog(ESCROW, encodeEventTopics({ abi: ESCROW_ABI, eventName: 'EscrowCancelled' }) as Hex[], '0x', hash);
+  };
+
+  const request = async ({ method, params }: { method: string; params?: any }) => {
+    switch (method) {
+      case 'eth_chainId':
+        return '0x7a69';
+      case 'eth_blockNumber':
+        return '0x10';
+      case 'eth_sendTransaction': {
+        const [tx] = params;
+        const hash = toHex(sent.length + 1, { size: 32 });
+        sent.push(tx);
+        receipts.set(hash, {
+          blockHash: `0x${'bb'.repeat(32)}`,
+          blockNumber: '0x10',
+          contractAddress: null,
+          cumulativeGasUsed: '0x5208',
+          effectiveGasPrice: '0x1',
+          from: tx.from,
+          gasUsed: '0x5208',
+          logs: [emit(hash, tx)],
+          logsBloom: `0x${'00'.repeat(256)}`,
+          status: '0x1',
+          to: tx.to,
+          transactionHash: hash,
+          transactionIndex: '0x0',
+          type: '0x2',
+        });
+        return hash;
+      }
+      case 'eth_getTransactionReceipt':
+        return receipts.get(params[0]) ?? null;
+      default:
+        throw new Error(`Unexpected RPC call ${method}`);
+    }
+  };
+
+  const transport = custom({ request });
+  const publicClient = createPublicClient({ transport, pollingInterval: 1 });
+  const walletClient = createWalletClient({ account: RESOLVER, transport });
+  return { sent, client: createEvmEscrowClient({ publicClient, walletClient, factory: FACTORY }) };
+}
+
+describe('EVM escrow bindings', () => {
+  it('packs timelocks with the deployment time on top', () => {
+    const packed = packTimelocks(DEFAULT_TIMELOCKS, START);
+    expect(packed >> BigInt(224)).toBe(BigInt(START));
+    expect(packed & BigInt(0xffffffff)).toBe(BigInt(DEFAULT_TIMELOCKS.srcWithdrawal));
+    expect((packed >> BigInt(6 * 32)) & BigInt(0xffffffff)).toBe(BigInt(DEFAULT_TIMELOCKS.dstCancellation));
+    expect(unpackTimelocks(packed)).toEqual({ timelocks: DEFAULT_TIMELOCKS, deployedAt: START });
+  });
+
+  it('builds destination immutables for the receiver with the native token as zero', () => {
+    expect(escrowImmutables(signed, { side: 'dst', taker: RESOLVER, amount: BigInt(2) * order.dstAmount })).toEqual({
+      orderHash: signed.orderHash,
+      hashlock: order.hashlock,
+      maker: WALLET,
+      taker: RESOLVER,
+      token: zeroAddress,
+      amount: BigInt(2) * order.dstAmount,
+      safetyDeposit: order.dstSafetyDeposit,
+      timelocks: packTimelocks(order.timelocks),
+    });
+    expect(() => escrowImmutables(signed, { side: 'src', taker: RESOLVER })).toThrow('not an EVM chain');
+  });
+
+  it('deploys a destination escrow and withdraws from it', async () => {
+    const { sent, client } = mockNode();
+    const immutables = escrowImmutables(signed, { side: 'dst', taker: RESOLVER });
+
+    const deployment = await client.deployDst(immutables, BigInt(START + 1800));
+    expect(deployment).toMatchObject({ escrow: ESCROW, deployedAt: START });
+    expect(deployment.immutables.timelocks).toBe(packTimelocks(order.timelocks, START));
+    // Native amount and deposit are both sent along
+    expect(BigInt(sent[0].value)).toBe(order.dstAmount + order.dstSafetyDeposit);
+    expect(decodeFunctionData({ abi: ESCROW_FACTORY_ABI, data: sent[0].data })).toMatchObject({
+      functionName: 'createDstEscrow',
+      // Addresses come back checksummed
+      args: [{ ...immutables, maker: getAddress(WALLET) }, BigInt(START + 1800)],
+    });
+
+    const txHash = await client.withdraw(ESCROW, deployment.immutables, SECRET);
+    expect(sent[1].to).toBe(ESCROW);
+    expect(decodeFunctionData({ abi: ESCROW_ABI, data: sent[1].data })).toMatchObject({
+      functionName: 'withdraw',
+      args: [SECRET, deployment.immutables],
+    });
+    expect(await client.events(txHash)).toEqual([{ type: 'withdrawn', escrow: ESCROW, secret: SECRET }]);
+  });
+
+  it('deploys a source escrow from the signed order itself', async () => {
+    const { sent, client } = mockNode();
+
+    const deployment = await client.deploySrc(evmSigned);
+    expect(deployment).toMatchObject({ escrow: ESCROW, deployedAt: START });
+    expect(deployment.immutables).toMatchObject({ orderHash: evmSigned.orderHash, taker: RESOLVER, amount: evmToCardano.srcAmount });
+    // Only the safety deposit is sent; the maker's tokens move under their approval
+    expect(BigInt(sent[0].value)).toBe(evmToCardano.srcSafetyDeposit);
+    expect(decodeFunctionData({ abi: ESCROW_FACTORY_ABI, data: sent[0].data })).toMatchObject({
+      functionName: 'createSrcEscrow',
+      args: [orderTypedData(evmToCardano).message, evmSigned.signature.signature, evmToCardano.srcAmount],
+    });
+    await expect(client.deploySrc(signed)).rejects.toThrow('need an EIP-712 order signature');
+    await expect(client.deploySrc({ ...evmSigned, order: { ...evmToCardano, allowPartialFills: true } }))
+      .rejects.toThrow('does not fill orders that allow partial fills');
+  });
+
+  it('lets the resolver settle from the creation event alone', async () => {
+    const { sent, client } = mockNode();
+    const adapter = createEvmEscrowAdapter({ kind: 'evm', chainId: 31337 }, client, {
+      taker: RESOLVER,
+      gasPrice: async () => BigInt(2),
+    });
+    expect(await adapter.estimateFee('dst', signed)).toBe(BigInt(600_000));
+
+    const quote = { time: START, rateBump: 0, auctionBump: 0, gasBump: 0, makingAmount: order.srcAmount, takingAmount: order.dstAmount };
+    const deployment = await adapter.deployDstEscrow(signed, quote);
+    expect(deployment).toMatchObject({ escrow: ESCROW, at: START });
+
+    await adapter.cancel('dst', signed, deployment);
+    const { functionName, args } = decodeFunctionData({ abi: ESCROW_ABI, data: sent[1].data });
+    expect(functionName).toBe('cancel');
+    expect((args[0] as EscrowImmutables).timelocks).toBe(packTimelocks(order.timelocks, START));
+    expect(parseEscrowEvents([])).toEqual([]);
+  });
+});
+
+// Runs against a local node with the contracts built (cd contracts && forge build):
+//   anvil & ANVIL_RPC_URL=http://127.0.0.1:8545 npx vitest run tests/lib/evmEscrow.test.ts
+describe.skipIf(!process.env.ANVIL_RPC_URL)('EVM escrows on Anvil', () => {
+  const artifact = (file: string, name: string) => {
+    const { abi, bytecode } = JSON.parse(readFileSync(path.join(__dirname, '../../../contracts/out', file, `${name}.json`), 'utf8'));
+    return { abi: abi as Abi, bytecode: bytecode.object as Hex };
+  };
+
+  it('locks the maker\'s tokens under their signed order and pays the resolver on withdrawal', async () => {
+    const transport = http(process.env.ANVIL_RPC_URL);
+    const publicClient = createPublicClient({ chain: foundry, transport });
+    const testClient = createTestClient({ chain: foundry, mode: 'anvil', transport });
+    const walletOf = (account: typeof maker) => createWalletClient({ account, chain: foundry, transport });
+    const deploy = async (file: string, name: string) => {
+      const hash = await walletOf(resolver).deployContract(artifact(file, name));
+      return (await publicClient.waitForTransactionReceipt({ hash })).contractAddress!;
+    };
+
+    const factory = await deploy('EscrowFactory.sol', 'EscrowFactory');
+    const token = await deploy('TestToken.sol', 'TestToken');
+    const { abi: tokenAbi } = artifact('TestToken.sol', 'TestToken');
+    const { timestamp } = await publicClient.getBlock();
+    const order = createOrder({ ...evmToCardano, srcAsset: token, now: Number(timestamp) });
+    const signedOrder = await signOrderEip712(order, (typedData) => maker.signTypedData(typedData));
+
+    await publicClient.waitForTransactionReceipt({
+      hash: await walletOf(maker).writeContract({ address: token, abi: tokenAbi, functionName: 'mint', args: [maker.address, order.srcAmount] }),
+    });
+    const makerClient = createEvmEscrowClient({ publicClient, walletClient: walletOf(maker), factory });
+    await makerClient.approve(token, order.srcAmount);
+
+    const client = createEvmEscrowClient({ publicClient, walletClient: walletOf(resolver), factory });
+    const deployment = await client.deploySrc(signedOrder);
+    expect(deployment.immutables).toMatchObject({ orderHash: signedOrder.orderHash, maker: maker.address, taker: resolver.address });
+    expect(await client.addressOf('src', deployment.immutables)).toBe(deployment.escrow);
+    // The same order cannot be filled twice
+    await expect(client.deploySrc(signedOrder)).rejects.toThrow();
+
+    await testClient.increaseTime({ seconds: order.timelocks.srcWithdrawal });
+    await testClient.mine({ blocks: 1 });
+    const txHash = await client.withdraw(deployment.escrow, deployment.immutables, SECRET);
+    expect(await client.events(txHash)).toEqual([{ type: 'withdrawn', escrow: deployment.escrow, secret: SECRET }]);
+    expect(await publicClient.readContract({ address: token, abi: tokenAbi, functionName: 'balanceOf', args: [resolver.address] }))
+      .toBe(order.srcAmount);
+  });
+});
@@ -0,0 +1,146 @@
+import { generateKeyPairSync, sign } from "node:crypto";
+import { privateKeyToAccount } from "viem/accounts";
+import { describe, expect, it } from "vitest";
+import { addressToBech32, blake2b224, encodeCbor, fromHex, toHex } from "@/lib/cardano";
+import {
+  createOrder,
+  CreateOrderParams,
+  CrossChainOrder,
+  deserializeOrder,
+  fromStoredOrder,
+  orderHash,
+  parseOrder,
+  serializeOrder,
+  SignedOrder,
+  signOrderEip712,
+  toOrderJson,
+  toStoredOrder,
+  verifyOrderSignature,
+  verifySignedOrder,
+} from "@/lib/fusion";
+import { RequestValidationError } from "@/lib/validation";
+import { USDC } from "../helpers";
+
+// Hardhat's first test account
+const account = privateKeyToAccount('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcb4c6b8d7f4fae0fd');
+
+// Throwaway Cardano payment key and its testnet enterprise address
+const cardanoKey = generateKeyPairSync('ed25519');
+const cardanoPublicKey = fromHex(
+  Buffer.from(cardanoKey.publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('hex')
+);
+const cardanoAddressHex = `60${toHex(blake2b224(cardanoPublicKey))}`;
+const cardanoAddress = addressToBech32(cardanoAddressHex);
+
+const HASHLOCK = `0x${'ab'.repeat(32)}` as const;
+
+function evmToCardano(overrides: Partial<CreateOrderParams> = {}): CrossChainOrder {
+  return createOrder({
+    maker: account.address,
+    receiver: cardanoAddress,
+    srcChain: { kind: 'evm', chainId: 1 },
+    srcAsset: USDC,
+    srcAmount: BigInt(100_000_000),
+    dstChain: { kind: 'cardano', network: 'testnet' },
+    dstAsset: 'lovelace',
+    dstAmount: BigInt(250_000_000),
+    hashlock: HASHLOCK,
+    now: 1_750_000_000,
+    ...overrides,
+  });
+}
+
+// What a CIP-30 wallet's signData returns: COSE_Sign1 and COSE_Key, CBOR hex
+function cip30Sign(addressHex: string, payloadHex: string) {
+  const protectedHeaders = encodeCbor(new Map<any, any>([[1, -8], ['address', fromHex(addressHex)]]));
+  const payload = fromHex(payloadHex);
+  const sigStructure = encodeCbor(['Signature1', protectedHeaders, new Uint8Array(), payload]);
+  const signature = new Uint8Array(sign(null, sigStructure, cardanoKey.privateKey));
+  return {
+    signature: toHex(encodeCbor([protectedHeaders, new Map([['hashed', false]]), payload, signature])),
+    key: toHex(encodeCbor(new Map<any, any>([[1, 1], [3, -8], [-1, 6], [-2, cardanoPublicKey]]))),
+  };
+}
+
+describe('cross-chain orders', () => {
+  it('fills in defaults and canonicalises addresses', () => {
+    const order = evmToCardano({ maker: account.address.toUpperCase().replace('0X', '0x') });
+    expect(order.maker).toBe(account.address.toLowerCase());
+    expect(order.expiresAt).toBe(1_750_003_600);
+    expect(order.resolverFee).toEqual({ bps: 0, receiver: '' });
+    expect(order.salt).toBeGreaterThan(BigInt(0));
+  });
+
+  it('reports every invalid field', () => {
+    try {
+      evmToCardano({ receiver: account.address, timelocks: { dstCancellation: 5000 } });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(RequestValidationError);
+      expect((error as RequestValidationError).fields.map((field) => field.path)).toEqual([
+        'receiver',
+        'timelocks.srcCancellation',
+      ]);
+    }
+  });
+
+  it('rejects a Cardano address from the wrong network', () => {
+    expect(() => evmToCardano({ dstChain: { kind: 'cardano', network: 'mainnet' } }))
+      .toThrow('receiver is not an address on the destination chain');
+  });
+
+  it('serialises canonically and round-trips', () => {
+    const order = evmToCardano();
+    const json = serializeOrder(order);
+    expect(json).toBe(serializeOrder(parseOrder(JSON.parse(JSON.stringify(toOrderJson(order))))));
+    expect(json.startsWith('{"allowPartialFills":false,"dstAmount":"250000000"')).toBe(true);
+    expect(deserializeOrder(json)).toEqual(order);
+  });
+
+  it('hashes the order contents, not their encoding', () => {
+    const order = evmToCardano({ salt: BigInt(1) });
+    expect(orderHash(order)).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(orderHash(deserializeOrder(serializeOrder(order)))).toBe(orderHash(order));
+    expect(orderHash({ ...order, salt: BigInt(2) })).not.toBe(orderHash(order));
+  });
+});
+
+describe('order signatures', () => {
+  it('verifies EIP-712 signatures from the maker only', async () => {
+    const order = evmToCardano();
+    const signed = await signOrderEip712(order, (typedData) => account.signTypedData(typedData));
+    expect(await verifySignedOrder(signed)).toBe(true);
+    expect(await verifyOrderSignature({ ...order, dstAmount: BigInt(1) }, signed.signature)).toBe(false);
+    expect(await verifySignedOrder({ ...signed, orderHash: HASHLOCK })).toBe(false);
+  });
+
+  it('verifies CIP-30 signData signatures over the order hash', async () => {
+    const order = createOrder({
+      maker: cardanoAddress,
+      receiver: account.address,
+      srcChain: { kind: 'cardano', network: 'testnet' },
+      srcAsset: 'lovelace',
+      srcAmount: BigInt(250_000_000),
+      dstChain: { kind: 'evm', chainId: 1 },
+      dstAsset: USDC,
+      dstAmount: BigInt(100_000_000),
+      hashlock: HASHLOCK,
+    });
+    const hash = orderHash(order);
+
+    expect(await verifyOrderSignature(order, { scheme: 'cip30', ...cip30Sign(cardanoAddressHex, hash.slice(2)) })).toBe(true);
+    expect(await verifyOrderSignature(order, { scheme: 'cip30', ...cip30Sign(cardanoAddressHex, 'ff'.repeat(32)) })).toBe(false);
+    expect(await verifyOrderSignature(order, { scheme: 'eip712', signature: '0x1234' })).toBe(false);
+  });
+});
+
+describe('stored orders', () => {
+  it('round-trips signed orders through JSON', async () => {
+    const order = evmToCardano();
+    const signed: SignedOrder = await signOrderEip712(order, (typedData) => account.signTypedData(typedData));
+
+    const stored = JSON.parse(JSON.stringify(toStoredOrder(signed)));
+    expect(typeof stored.order).toBe('string');
+    expect(fromStoredOrder(stored)).toEqual(signed);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { backoffDelay, createRequester, RetryOptions } from "@/lib/oneinch/http";
+import { RateLimitedError, UpstreamUnavailableError } from "@/lib/oneinch/errors";
+
+const RETRY: Required<RetryOptions> = { retries: 3, baseDelayMs: 500, maxDelayMs: 8_000, maxRetryAfterMs: 30_000 };
+
+const json = (status: number, body: unknown = {}, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+// Answers with the given responses in order and records every call
+function scripted(...responses: Response[]) {
+  const calls: RequestInit[] = [];
+  const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+    calls.push(init);
+    return responses.shift() ?? json(200, { ok: true });
+  }) as unknown as typeof globalThis.fetch;
+  return { fetch, calls };
+}
+
+describe('1inch requester', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps full-jitter delays between zero and the capped exponential ceiling', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(backoffDelay(0, new Error('x'), RETRY)).toBe(500);
+    expect(backoffDelay(2, new Error('x'), RETRY)).toBe(2000);
+    expect(backoffDelay(10, new Error('x'), RETRY)).toBe(8000);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(3, new Error('x'), RETRY)).toBe(0);
+  });
+
+  it('waits exactly as long as Retry-After asks', async () => {
+    const sleeps: number[] = [];
+    const { fetch } = scripted(json(429, {}, { 'Retry-After': '2' }), json(200, { ok: true }));
+    const request = createRequester({ fetch, apiKey: 'key', sleep: async (ms) => { sleeps.push(ms); }, retry: RETRY });
+
+    await expect(request({ path: '/x' })).resolves.toEqual({ ok: true });
+    expect(sleeps).toEqual([2000]);
+  });
+
+  it('gives up when Retry-After is longer than the caller will wait', async () => {
+    const { fetch, calls } = scripted(json(429, {}, { 'Retry-After': '120' }));
+    const request = createRequester({ fetch, apiKey: 'key', sleep: async () => {}, retry: RETRY });
+
+    await expect(request({ path: '/x' })).rejects.toBeInstanceOf(RateLimitedError);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('stops after the configured number of retries', async () => {
+    const { fetch, calls } = scripted(json(503), json(503), json(503), json(503), json(503));
+    const request = createRequester({ fetch, apiKey: 'key', sleep: async () => {}, retry: { ...RETRY, retries: 2 } });
+
+    await expect(request({ path: '/x' })).rejects.toBeInstanceOf(UpstreamUnavailableError);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const { fetch, calls } = scripted(json(400));
+    const request = createRequester({ fetch, apiKey: 'key', sleep: async () => {}, retry: RETRY });
+
+    await expect(request({ path: '/x' })).rejects.toMatchObject({ code: 'validation' });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('sends the bearer token only when a key is configured', async () => {
+    vi.stubEnv('ONEINCH_API_KEY', '');
+    const { fetch, calls } = scripted();
+    await createRequester({ fetch })({ path: '/x' });
+    await createRequester({ fetch, apiKey: 'secret' })({ path: '/x' });
+    vi.unstubAllEnvs();
+
+    expect(calls[0].headers).not.toHaveProperty('Authorization');
+    expect(calls[1].headers).toMatchObject({ Authorization: 'Bearer secret' });
+  });
+});
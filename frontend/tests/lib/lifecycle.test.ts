@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { createOrderLifecycle, DEFAULT_TIMELOCKS, escrowPhase, LifecycleEvent } from "@/lib/fusion";
+
+const START = 1_700_000_000;
+const ORDER = { timelocks: DEFAULT_TIMELOCKS, expiresAt: START + 3600 };
+
+function setup() {
+  let clock = START;
+  const lifecycle = createOrderLifecycle(ORDER, { now: () => clock, orderHash: '0xabc' });
+  const events: LifecycleEvent[] = [];
+  lifecycle.subscribe((event) => events.push(event));
+  return {
+    lifecycle,
+    events,
+    advance: (seconds: number) => {
+      clock += seconds;
+    },
+  };
+}
+
+describe('escrow phases', () => {
+  it('follows the source and destination timelocks', () => {
+    const phases = [0, 60, 600, 1800, 2400].map((elapsed) => escrowPhase(DEFAULT_TIMELOCKS, 'src', START, START + elapsed));
+    expect(phases).toEqual(['finality-lock', 'exclusive-withdraw', 'public-withdraw', 'cancellation', 'public-cancellation']);
+    expect(escrowPhase(DEFAULT_TIMELOCKS, 'dst', START, START + 539)).toBe('exclusive-withdraw');
+    expect(escrowPhase(DEFAULT_TIMELOCKS, 'dst', START, START + 5000)).toBe('cancellation');
+  });
+});
+
+describe('order lifecycle', () => {
+  it('runs a swap from announcement to withdrawal', () => {
+    const { lifecycle, events, advance } = setup();
+    lifecycle.recordSrcEscrowDeployed();
+    advance(10);
+    lifecycle.recordDstEscrowDeployed();
+    expect(lifecycle.canRevealSecret()).toBe(false);
+    expect(() => lifecycle.recordSecretRevealed()).toThrow('not in a withdrawal window');
+
+    advance(60);
+    lifecycle.tick();
+    expect(lifecycle.phase('src')).toBe('exclusive-withdraw');
+    expect(lifecycle.canRevealSecret()).toBe(true);
+    lifecycle.recordSecretRevealed();
+    lifecycle.recordWithdrawn('dst');
+    expect(lifecycle.state).toBe('secret-revealed');
+    lifecycle.recordWithdrawn('src');
+    expect(lifecycle.state).toBe('withdrawn');
+    expect(lifecycle.isTerminal).toBe(true);
+
+    expect(events.filter((event) => event.type === 'transition').map((event) => event.type === 'transition' && event.to))
+      .toEqual(['src-escrow-deployed', 'dst-escrow-deployed', 'secret-revealed', 'withdrawn']);
+    expect(events).toContainEqual({ type: 'phase', orderHash: '0xabc', side: 'dst', phase: 'exclusive-withdraw', at: START + 70 });
+  });
+
+  it('lets the escrows be refunded once cancellation opens', () => {
+    const { lifecycle, advance } = setup();
+    lifecycle.recordSrcEscrowDeployed();
+    lifecycle.recordDstEscrowDeployed();
+    expect(() => lifecycle.recordCancelled('src')).toThrow('it is in finality-lock');
+
+    advance(1800);
+    lifecycle.recordCancelled('src');
+    expect(lifecycle.state).toBe('dst-escrow-deployed');
+    lifecycle.recordCancelled('dst');
+    expect(lifecycle.state).toBe('cancelled');
+    expect(() => lifecycle.recordSecretRevealed()).toThrow('while the order is cancelled');
+  });
+
+  it('rejects a withdrawal once the escrow is cancellable', () => {
+    const { lifecycle, advance } = setup();
+    lifecycle.recordSrcEscrowDeployed();
+    lifecycle.recordDstEscrowDeployed();
+    advance(60);
+    lifecycle.recordSecretRevealed();
+
+    advance(1740);
+    expect(lifecycle.phase('src')).toBe('cancellation');
+    expect(() => lifecycle.recordWithdrawn('src')).toThrow('it is in cancellation');
+    lifecycle.recordCancelled('src');
+    expect(lifecycle.state).toBe('secret-revealed');
+  });
+
+  it('rejects a destination escrow after the source becomes cancellable', () => {
+    const { lifecycle, advance } = setup();
+    lifecycle.recordSrcEscrowDeployed();
+    advance(1800);
+    expect(() => lifecycle.recordDstEscrowDeployed()).toThrow('source escrow is cancellable');
+  });
+
+  it('expires unfilled orders and restores from snapshots', () => {
+    const { lifecycle, advance } = setup();
+    advance(3600);
+    lifecycle.tick();
+    expect(lifecycle.state).toBe('expired');
+
+    const events: LifecycleEvent[] = [];
+    const restored = createOrderLifecycle(ORDER, { now: () => START + 3600, snapshot: lifecycle.snapshot() });
+    restored.subscribe((event) => events.push(event));
+    restored.tick();
+    expect(restored.state).toBe('expired');
+    expect(events).toEqual([]);
+  });
+});
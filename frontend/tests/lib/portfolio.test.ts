@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { NotFoundError } from "@/lib/oneinch/errors";
+import type { PortfolioApi } from "@/lib/oneinch/portfolio";
+import type { PortfolioProfitAndLoss } from "@/lib/oneinch/types";
+import { fetchPortfolioOverview, windowRange } from "@/lib/portfolio";
+import currentValue from "../../mock/fixtures/portfolio-current-value.json";
+import profitAndLoss from "../../mock/fixtures/portfolio-profit-and-loss.json";
+import tokenDetails from "../../mock/fixtures/portfolio-token-details.json";
+import { WALLET } from "../helpers";
+
+const NOW = new Date('2025-03-15T12:00:00Z');
+
+// Answers every chain at once from the recorded fixtures, except for the
+// calls listed as failing
+function fakePortfolio(failing: (keyof PortfolioApi)[] = []) {
+  const requests: { call: keyof PortfolioApi; chainId?: string }[] = [];
+  const answer = async <T>(call: keyof PortfolioApi, chainId: string | undefined, fixture: T) => {
+    requests.push({ call, chainId });
+    if (failing.includes(call)) throw new NotFoundError(`No ${call} for these addresses`);
+    return fixture;
+  };
+  const portfolio = {
+    currentValue: ({ chainId }) => answer('currentValue', chainId, currentValue),
+    tokenDetails: ({ chainId }) => answer('tokenDetails', chainId, tokenDetails),
+    profitAndLoss: ({ chainId }) => answer('profitAndLoss', chainId, profitAndLoss as PortfolioProfitAndLoss),
+  } as PortfolioApi;
+  return { portfolio, requests };
+}
+
+describe('portfolio overview', () => {
+  it('computes window ranges ending now', () => {
+    expect(windowRange('1d', NOW)).toEqual({ fromTimestamp: '2025-03-14T12:00:00.000Z', toTimestamp: '2025-03-15T12:00:00.000Z' });
+    expect(windowRange('30d', NOW).fromTimestamp).toBe('2025-02-13T12:00:00.000Z');
+    expect(windowRange('ytd', NOW).fromTimestamp).toBe('2025-01-01T00:00:00.000Z');
+  });
+
+  it('aggregates value, allocations and profit across chains', async () => {
+    const { portfolio, requests } = fakePortfolio();
+    const overview = await fetchPortfolioOverview(portfolio, {
+      addresses: [WALLET],
+      chainIds: ['1', '137', '10'],
+      window: '7d',
+      now: NOW,
+    });
+
+    expect(overview.totalUsd).toBeCloseTo(15234.57);
+    expect(overview.fromTimestamp).toBe('2025-03-08T12:00:00.000Z');
+    // Optimism holds nothing and drops out of the breakdown
+    expect(overview.chains.map(({ chainId, name }) => [chainId, name])).toEqual([['1', 'Ethereum'], ['137', 'Polygon']]);
+    expect(overview.chains[0].allocation).toBeCloseTo(12034.57 / 15234.57);
+    expect(overview.profitUsd).toBeCloseTo(842.11);
+    expect(overview.roi).toBeCloseTo(842.11 / (701.4 / 0.062 + 140.71 / 0.046));
+
+    expect(overview.tokens.map((token) => token.symbol)).toEqual(['ETH', 'POL', 'USDC']);
+    expect(overview.tokens[0]).toMatchObject({ chainId: '1', amount: 2.5, priceUsd: 3800.12 });
+    expect(overview.tokens.reduce((sum, token) => sum + token.allocation, 0)).toBeCloseTo(1);
+    expect(overview.profitError).toBeNull();
+    // One call per dataset, split by chain here rather than upstream
+    expect(requests).toEqual([{ call: 'currentValue' }, { call: 'tokenDetails' }, { call: 'profitAndLoss' }]);
+  });
+
+  it('keeps only the requested chains', async () => {
+    const overview = await fetchPortfolioOverview(fakePortfolio().portfolio, {
+      addresses: [WALLET],
+      chainIds: ['137'],
+      window: '7d',
+      now: NOW,
+    });
+    expect(overview.totalUsd).toBe(3200);
+    expect(overview.chains.map(({ chainId }) => chainId)).toEqual(['137']);
+    expect(overview.tokens.every(({ chainId }) => chainId === '137')).toBe(true);
+    expect(overview.profitUsd).toBeCloseTo(140.71);
+  });
+
+  it('keeps the value without profit and loss, and throws when the value fails', async () => {
+    const overview = await fetchPortfolioOverview(fakePortfolio(['profitAndLoss']).portfolio, {
+      addresses: [WALLET],
+      chainIds: ['1', '137'],
+      window: '30d',
+      now: NOW,
+    });
+    expect(overview.totalUsd).toBeCloseTo(15234.57);
+    expect(overview.chains.map(({ profitUsd }) => profitUsd)).toEqual([null, null]);
+    expect(overview).toMatchObject({ profitUsd: 0, roi: null, profitError: 'No profitAndLoss for these addresses' });
+
+    for (const call of ['currentValue', 'tokenDetails'] as const) {
+      await expect(fetchPortfolioOverview(fakePortfolio([call]).portfolio, {
+        addresses: [WALLET],
+        chainIds: ['1'],
+        window: 'ytd',
+      })).rejects.toBeInstanceOf(NotFoundError);
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { clientIdFor } from "@/lib/oneinch";
+import { createRateLimiter, requestsPerSecondFromEnv } from "@/lib/oneinch/rateLimiter";
+
+describe('rate limiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Acquires in order and records which client got each slot
+  function track(limiter: ReturnType<typeof createRateLimiter>, clients: string[]) {
+    const served: string[] = [];
+    for (const client of clients) {
+      limiter.acquire(client).then(() => served.push(client));
+    }
+    return served;
+  }
+
+  it('serves the burst at once and then refills at the sustained rate', async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 2, now: Date.now });
+    const served = track(limiter, ['a', 'a', 'a', 'a']);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(served).toHaveLength(2);
+    expect(limiter.pending()).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(served).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(served).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(served).toHaveLength(4);
+    expect(limiter.pending()).toBe(0);
+  });
+
+  it('serves waiting clients round-robin', async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 1, now: Date.now });
+    const served = track(limiter, ['busy', 'busy', 'busy', 'busy', 'other']);
+
+    await vi.advanceTimersByTimeAsync(3000);
+    // The first slot was free; after that "other" waits one turn, not three
+    expect(served).toEqual(['busy', 'busy', 'other', 'busy']);
+  });
+
+  it('rejects a non-positive rate and falls back to 1 rps', () => {
+    expect(() => createRateLimiter({ requestsPerSecond: 0 })).toThrow('requestsPerSecond must be a positive number');
+    expect(requestsPerSecondFromEnv('abc')).toBe(1);
+    expect(requestsPerSecondFromEnv('5')).toBe(5);
+  });
+});
+
+describe('clientIdFor', () => {
+  const request = new Request('http://localhost/api', {
+    headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'x-real-ip': '198.51.100.1' },
+  });
+
+  it('ignores forwarding headers unless a proxy is trusted', () => {
+    expect(clientIdFor(request, false)).toBe('anonymous');
+    expect(clientIdFor(request, true)).toBe('203.0.113.7');
+    expect(clientIdFor(new Request('http://localhost/api', { headers: { 'x-real-ip': '198.51.100.1' } }), true)).toBe('198.51.100.1');
+  });
+});
@@ -0,0 +1,56 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import { createFileRecordStore, createMemoryRecordStore, OrderRecord, OrderRecordStore } from "@/lib/relayer";
+
+const HASH_A = `0x${'a'.repeat(64)}` as const;
+const HASH_B = `0x${'b'.repeat(64)}` as const;
+
+function record(orderHash: `0x${string}`, createdAt: number): OrderRecord {
+  return {
+    orderHash,
+    order: '{}',
+    signature: { scheme: 'eip712', signature: '0x' },
+    status: 'announced',
+    lifecycle: { state: 'announced', withdrawn: [], cancelled: [], phases: {} },
+    escrows: {},
+    secrets: [],
+    events: [{ type: 'submitted', at: createdAt }],
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+const directories: string[] = [];
+
+afterAll(async () => {
+  await Promise.all(directories.map((directory) => rm(directory, { recursive: true, force: true })));
+});
+
+describe.each([
+  ['memory', async () => createMemoryRecordStore()],
+  ['file', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'orders-'));
+    directories.push(directory);
+    return createFileRecordStore(directory);
+  }],
+] as [string, () => Promise<OrderRecordStore>][])('%s order record store', (_name, createStore) => {
+  it('stores records by case-insensitive hash and lists them all', async () => {
+    const store = await createStore();
+    await store.put(record(HASH_B, 200));
+    await store.put(record(HASH_A, 100));
+
+    expect(await store.get(`0x${'B'.repeat(64)}`)).toEqual(record(HASH_B, 200));
+    expect((await store.list()).map(({ orderHash }) => orderHash).sort()).toEqual([HASH_A, HASH_B]);
+  });
+
+  it('hands out copies, so callers cannot change what is stored', async () => {
+    const store = await createStore();
+    await store.put(record(HASH_A, 100));
+
+    const copy = (await store.get(HASH_A))!;
+    copy.events.push({ type: 'submitted', at: 101 });
+    expect((await store.get(HASH_A))!.events).toHaveLength(1);
+  });
+});
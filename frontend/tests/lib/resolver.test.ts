@@ -0,0 +1,259 @@
+import { createPublicKey, verify } from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { NextRequest } from "next/server";
+import { privateKeyToAccount } from "viem/accounts";
+import { describe, expect, it } from "vitest";
+import { GET as gasPrice } from "@/app/api/gasprice/route";
+import {
+  addressToBech32,
+  createCardanoEmulator,
+  decodeCbor,
+  decodeTransaction,
+  PlutusScript,
+  scriptAddress,
+} from "@/lib/cardano";
+import { NATIVE_TOKEN_ADDRESS } from "@/lib/chains";
+import { createAuction, createOrder, decodeEscrowDatum, hashSecret, signOrderEip712 } from "@/lib/fusion";
+import { createMemoryRecordStore, createOrderBook } from "@/lib/relayer";
+import {
+  createCardanoEscrowAdapter,
+  createCardanoKeySigner,
+  createFilePositionStore,
+  createResolver,
+  createSimulatedAdapter,
+  gasPriceOracle,
+  PositionStore,
+  staticPriceOracle,
+} from "@/lib/resolver";
+import { USDC, useMockUpstream } from "../helpers";
+
+const maker = privateKeyToAccount('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcb4c6b8d7f4fae0fd');
+const SECRET = `0x${'01'.repeat(32)}` as const;
+const START = 1_750_000_000;
+const RECEIVER = addressToBech32(`60${'11'.repeat(28)}`);
+
+const PRICES = staticPriceOracle({
+  [`eip155:1/${USDC}`]: { usd: 1, decimals: 6 },
+  [`eip155:1/${NATIVE_TOKEN_ADDRESS}`]: { usd: 3000, decimals: 18 },
+  'cardano:testnet/lovelace': { usd: 0.5, decimals: 6 },
+});
+
+// 100 USDC for at least 190 ADA (95 USD), auction opening at 200 ADA
+async function setup({ minProfitUsd = 1, store }: { minProfitUsd?: number; store?: PositionStore } = {}) {
+  let clock = START;
+  const now = () => clock;
+  const orderBook = createOrderBook({ store: createMemoryRecordStore(), now });
+  const evm = createSimulatedAdapter({ kind: 'evm', chainId: 1 }, { now, fee: BigInt(10) ** BigInt(14) });
+  const cardano = createSimulatedAdapter({ kind: 'cardano', network: 'testnet' }, { now, fee: BigInt(300_000) });
+  const resolver = createResolver({ orderBook, adapters: [evm, cardano], prices: PRICES, store, minProfitUsd, now });
+
+  const order = createOrder({
+    maker: maker.address,
+    receiver: RECEIVER,
+    srcChain: { kind: 'evm', chainId: 1 },
+    srcAsset: USDC,
+    srcAmount: BigInt(100_000_000),
+    dstChain: { kind: 'cardano', network: 'testnet' },
+    dstAsset: 'lovelace',
+    dstAmount: BigInt(190_000_000),
+    hashlock: hashSecret(SECRET),
+    now: START,
+  });
+  const signed = await signOrderEip712(order, (data) => maker.signTypedData(data));
+  const auction = createAuction({
+    startTime: START,
+    duration: 120,
+    minAmount: order.dstAmount,
+    startAmount: BigInt(200_000_000),
+  });
+  await orderBook.submit({ ...signed, auction });
+
+  return { orderBook, resolver, evm, cardano, now, hash: signed.orderHash, advance: (seconds: number) => (clock += seconds) };
+}
+
+describe('resolver', () => {
+  it('waits for the auction to become profitable, then fills and withdraws', async () => {
+    const { orderBook, resolver, cardano, hash, advance } = await setup({ minProfitUsd: 3 });
+
+    // 100 USD in, 100 USD out at the opening price
+    expect(await resolver.tick()).toMatchObject([{ action: 'skipped' }]);
+
+    advance(90);
+    const filled = await resolver.tick();
+    expect(filled.map(({ action }) => action)).toEqual(['deployed', 'deployed']);
+    expect((await orderBook.get(hash)).status).toBe('dst-escrow-deployed');
+    expect([...cardano.escrows.values()]).toEqual([{ side: 'dst', orderHash: hash }]);
+
+    // Nothing to do until the maker reveals
+    advance(60);
+    expect(await resolver.tick()).toEqual([]);
+    await orderBook.revealSecret(hash, { index: 0, secret: SECRET, proof: [] });
+
+    const settled = await resolver.tick();
+    expect(settled.map(({ action, ...rest }) => `${action} ${'side' in rest ? rest.side : ''}`)).toEqual([
+      'withdrawn dst',
+      'withdrawn src',
+    ]);
+    expect((await orderBook.get(hash)).status).toBe('withdrawn');
+    expect(resolver.positions()).toEqual([]);
+  });
+
+  it('refunds both escrows when the secret never comes', async () => {
+    const { orderBook, resolver, hash, advance } = await setup();
+    advance(90);
+    await resolver.tick();
+
+    advance(1500);
+    expect(await resolver.tick()).toMatchObject([{ action: 'cancelled', side: 'dst' }]);
+    advance(300);
+    expect(await resolver.tick()).toMatchObject([{ action: 'cancelled', side: 'src' }]);
+    expect((await orderBook.get(hash)).status).toBe('cancelled');
+  });
+
+  it('refunds escrows whose withdrawal window closed before it could withdraw', async () => {
+    const { orderBook, resolver, hash, advance } = await setup();
+    advance(90);
+    await resolver.tick();
+    advance(60);
+    await orderBook.revealSecret(hash, { index: 0, secret: SECRET, proof: [] });
+
+    // The resolver was down while both escrows were withdrawable
+    advance(1800);
+    expect(await resolver.tick()).toMatchObject([
+      { action: 'cancelled', side: 'dst' },
+      { action: 'cancelled', side: 'src' },
+    ]);
+    expect((await orderBook.get(hash)).status).toBe('cancelled');
+    expect(resolver.positions()).toEqual([]);
+  });
+
+  it('settles positions left by an earlier run from its position store', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'positions-'));
+    try {
+      const file = path.join(directory, 'positions.json');
+      const { orderBook, resolver, evm, cardano, now, hash, advance } = await setup({ store: createFilePositionStore(file) });
+      advance(90);
+      await resolver.tick();
+      expect(resolver.positions()).toEqual([hash]);
+
+      // A new process over the same file picks up the escrows it funded
+      const restarted = createResolver({ orderBook, adapters: [evm, cardano], prices: PRICES, store: createFilePositionStore(file), now });
+      advance(60);
+      await orderBook.revealSecret(hash, { index: 0, secret: SECRET, proof: [] });
+      expect(await restarted.tick()).toMatchObject([
+        { action: 'withdrawn', side: 'dst' },
+        { action: 'withdrawn', side: 'src' },
+      ]);
+      expect(await createFilePositionStore(file).list()).toEqual([]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('skips orders on chains it has no adapter for', async () => {
+    const { orderBook } = await setup();
+    const resolver = createResolver({
+      orderBook,
+      adapters: [createSimulatedAdapter({ kind: 'evm', chainId: 1 })],
+      prices: PRICES,
+    });
+    expect(await resolver.tick()).toEqual([]);
+  });
+});
+
+describe('Cardano escrow adapter', () => {
+  // Always-succeeds PlutusV2 validator; the emulator runs no scripts anyway
+  const SCRIPT: PlutusScript = { cbor: '49480100002221200101', version: 'PlutusV2' };
+  const ESCROWS = scriptAddress(SCRIPT, 'testnet');
+  const signer = createCardanoKeySigner('0f'.repeat(32));
+  const ada = (amount: number) => BigInt(amount) * BigInt(1_000_000);
+
+  async function cardanoSetup() {
+    const base = await setup();
+    const emulator = createCardanoEmulator({ now: base.now });
+    emulator.fund(signer.address('testnet'), { lovelace: ada(500) });
+    emulator.fund(signer.address('testnet'), { lovelace: ada(10) });
+    const cardano = createCardanoEscrowAdapter({ kind: 'cardano', network: 'testnet' }, { provider: emulator, script: SCRIPT, signer });
+    const resolver = createResolver({ orderBook: base.orderBook, adapters: [base.evm, cardano], prices: PRICES, minProfitUsd: 1, now: base.now });
+    return { ...base, emulator, resolver };
+  }
+
+  const lovelaceAt = async (emulator: ReturnType<typeof createCardanoEmulator>, address: string) =>
+    (await emulator.utxosAt(address)).reduce((total, { value }) => total + value.lovelace, BigInt(0));
+
+  it('signs without changing the transaction hash', async () => {
+    const { emulator } = await cardanoSetup();
+    const [funding] = await emulator.utxosAt(signer.address('testnet'));
+    const unsigned = '84a300d9010281825820' + funding.txHash + '00018182581d60' + '11'.repeat(28) + '1a05f5e100021a0002a300a0f5f6';
+    const signed = await signer.signTx(unsigned);
+
+    const { txHash } = decodeTransaction(unsigned);
+    expect(decodeTransaction(signed).txHash).toBe(txHash);
+    const [, witnesses] = decodeCbor(signed) as [unknown, Map<number, { value: [Uint8Array, Uint8Array][] }>];
+    const [[publicKey, signature]] = witnesses.get(0)!.value;
+    const key = createPublicKey({ key: Buffer.concat([Buffer.from('302a300506032b6570032100', 'hex'), publicKey]), format: 'der', type: 'spki' });
+    expect(verify(null, Buffer.from(txHash, 'hex'), key, signature)).toBe(true);
+  });
+
+  it('locks the destination escrow on chain and pays the receiver on withdrawal', async () => {
+    const { orderBook, resolver, emulator, hash, advance } = await cardanoSetup();
+    advance(90);
+    expect((await resolver.tick()).map(({ action }) => action)).toEqual(['deployed', 'deployed']);
+
+    const view = await orderBook.get(hash);
+    expect(view.status).toBe('dst-escrow-deployed');
+    const [escrow] = await emulator.utxosAt(ESCROWS);
+    expect(view.escrows.dst?.escrow).toBe(`${escrow.txHash}#${escrow.outputIndex}`);
+    const datum = decodeEscrowDatum(escrow.inlineDatum!);
+    expect(datum).toMatchObject({ side: 'dst', orderHash: hash });
+    // The auction price 90 seconds in, above the order minimum
+    expect(datum.amount > ada(190) && datum.amount < ada(200)).toBe(true);
+
+    advance(60);
+    await orderBook.revealSecret(hash, { index: 0, secret: SECRET, proof: [] });
+    expect(await resolver.tick()).toMatchObject([{ action: 'withdrawn', side: 'dst' }, { action: 'withdrawn', side: 'src' }]);
+    expect(await emulator.utxosAt(ESCROWS)).toEqual([]);
+    expect(await lovelaceAt(emulator, RECEIVER)).toBe(datum.amount);
+  });
+
+  it('refunds the destination escrow to the resolver once cancellation opens', async () => {
+    const { resolver, emulator, advance } = await cardanoSetup();
+    advance(90);
+    await resolver.tick();
+    const funded = await lovelaceAt(emulator, signer.address('testnet'));
+
+    advance(1500);
+    expect(await resolver.tick()).toMatchObject([{ action: 'cancelled', side: 'dst' }]);
+    expect(await emulator.utxosAt(ESCROWS)).toEqual([]);
+    expect(await lovelaceAt(emulator, signer.address('testnet'))).toBeGreaterThan(funded + ada(190));
+  });
+
+  it('leaves orders out of Cardano to the maker, who locks the source escrow', async () => {
+    const { emulator } = await cardanoSetup();
+    const cardano = createCardanoEscrowAdapter({ kind: 'cardano', network: 'testnet' }, { provider: emulator, script: SCRIPT, signer });
+    expect(cardano.deploySrcEscrow).toBeUndefined();
+    expect(() => createCardanoEscrowAdapter({ kind: 'cardano', network: 'mainnet' }, { provider: emulator, script: SCRIPT, signer }))
+      .toThrow('The Cardano provider is on testnet, not mainnet');
+  });
+});
+
+describe('gas price oracle', () => {
+  const mock = useMockUpstream();
+  // Serves the oracle's requests from the real /api/gasprice route
+  const throughRoute = (async (url: string) => gasPrice(new NextRequest(url))) as typeof fetch;
+
+  it('reads the base fee out of the gasprice route response', async () => {
+    const oracle = gasPriceOracle('http://localhost:3000', throughRoute);
+    expect(await oracle({ kind: 'evm', chainId: 137 })).toBe(BigInt(1538464930));
+    expect(mock.requests[0].path).toBe('/gas-price/v1.4/137');
+    expect(await oracle({ kind: 'cardano', network: 'mainnet' })).toBeUndefined();
+  });
+
+  it('fails when the route does', async () => {
+    mock.setScenario('server-error');
+    const oracle = gasPriceOracle('http://localhost:3000', throughRoute);
+    await expect(oracle({ kind: 'evm', chainId: 1 })).rejects.toThrow('answered 502');
+  });
+});
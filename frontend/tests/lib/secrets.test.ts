@@ -0,0 +1,90 @@
+import { keccak256, sha256 } from "viem";
+import { describe, expect, it } from "vitest";
+import {
+  createSecretManager,
+  hashSecret,
+  merkleLeaf,
+  merkleProof,
+  merkleRoot,
+  partsCountOf,
+  secretIndexForFill,
+  verifyMerkleProof,
+  verifyRevealedSecret,
+} from "@/lib/fusion";
+
+const SECRET = `0x${'01'.repeat(32)}` as const;
+
+describe('hashlocks', () => {
+  it('hashes secrets with each supported algorithm', () => {
+    expect(hashSecret(SECRET)).toBe(keccak256(SECRET));
+    expect(hashSecret(SECRET, 'sha256')).toBe(sha256(SECRET));
+    expect(hashSecret(SECRET, 'blake2b256')).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(hashSecret(SECRET, 'blake2b256')).not.toBe(hashSecret(SECRET));
+  });
+
+  it('proves every leaf of an odd-sized tree', () => {
+    const leaves = [0, 1, 2, 3, 4].map((index) => merkleLeaf(index, hashSecret(SECRET, 'sha256'), 'sha256'));
+    const root = merkleRoot(leaves, 'sha256');
+    leaves.forEach((leaf, index) => {
+      expect(verifyMerkleProof(leaf, merkleProof(leaves, index, 'sha256'), root, 'sha256')).toBe(true);
+    });
+    expect(verifyMerkleProof(leaves[0], merkleProof(leaves, 1, 'sha256'), root, 'sha256')).toBe(false);
+  });
+});
+
+describe('secret index for a fill', () => {
+  it('maps cumulative fill amounts to parts, with the last secret for completion', () => {
+    expect(secretIndexForFill(BigInt(100), BigInt(0), BigInt(10), 4)).toBe(0);
+    expect(secretIndexForFill(BigInt(100), BigInt(0), BigInt(25), 4)).toBe(0);
+    expect(secretIndexForFill(BigInt(100), BigInt(0), BigInt(26), 4)).toBe(1);
+    expect(secretIndexForFill(BigInt(100), BigInt(30), BigInt(60), 4)).toBe(3);
+    expect(secretIndexForFill(BigInt(100), BigInt(30), BigInt(70), 4)).toBe(4);
+    expect(() => secretIndexForFill(BigInt(100), BigInt(30), BigInt(71), 4)).toThrow('exceeds the remaining');
+  });
+});
+
+describe('secret manager', () => {
+  it('uses the secret hash as hashlock for single fills', () => {
+    const manager = createSecretManager();
+    expect(manager.secretHashes).toHaveLength(1);
+    expect(manager.hashlock).toBe(manager.secretHashes[0]);
+    expect(() => manager.revealForFill(BigInt(100), BigInt(50))).toThrow('must be filled at once');
+
+    const revealed = manager.revealForFill(BigInt(100), BigInt(100));
+    expect(verifyRevealedSecret(manager.hashlock, revealed)).toBe(true);
+    expect(() => manager.revealForFill(BigInt(100), BigInt(0))).toThrow();
+  });
+
+  it('reveals one Merkle secret per part and never goes back', () => {
+    const manager = createSecretManager({ parts: 4, algorithm: 'blake2b256' });
+    expect(manager.secretHashes).toHaveLength(5);
+    expect(partsCountOf(manager.hashlock)).toBe(4);
+
+    const first = manager.revealForFill(BigInt(1000), BigInt(300));
+    expect(first.index).toBe(1);
+    expect(verifyRevealedSecret(manager.hashlock, first, 'blake2b256')).toBe(true);
+    expect(verifyRevealedSecret(manager.hashlock, { ...first, index: 2 }, 'blake2b256')).toBe(false);
+
+    // 300 → 400 stays within the second quarter, whose secret is spent
+    expect(() => manager.revealForFill(BigInt(1000), BigInt(100))).toThrow('already been revealed or superseded');
+    expect(manager.filledAmount()).toBe(BigInt(300));
+
+    const last = manager.revealForFill(BigInt(1000), BigInt(700));
+    expect(last.index).toBe(4);
+    expect(verifyRevealedSecret(manager.hashlock, last, 'blake2b256')).toBe(true);
+    expect(manager.isRevealed(0)).toBe(false);
+  });
+
+  it('restores from exported state', () => {
+    const manager = createSecretManager({ parts: 3 });
+    manager.revealForFill(BigInt(90), BigInt(30));
+    const restored = createSecretManager(JSON.parse(JSON.stringify(manager.exportState())));
+    expect(restored.hashlock).toBe(manager.hashlock);
+    expect(restored.filledAmount()).toBe(BigInt(30));
+    expect(restored.isRevealed(0)).toBe(true);
+  });
+
+  it('rejects a single-part Merkle tree', () => {
+    expect(() => createSecretManager({ parts: 1 })).toThrow('at least 2 parts');
+  });
+});
@@ -0,0 +1,128 @@
+import { mkdtemp, appendFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { PortfolioApi, PortfolioQuery } from "@/lib/oneinch/portfolio";
+import {
+  createFileSnapshotStore,
+  createMemorySnapshotStore,
+  createSnapshotRecorder,
+  downsample,
+  PortfolioSnapshot,
+} from "@/lib/snapshots";
+import currentValue from "../../mock/fixtures/portfolio-current-value.json";
+import { WALLET } from "../helpers";
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.parse('2025-03-01T00:00:00Z');
+
+const snap = (chainId: string, valueUsd: number, hours: number, address = WALLET): PortfolioSnapshot => ({
+  address,
+  chainId,
+  valueUsd,
+  at: START + hours * HOUR,
+});
+
+// The recorder only ever asks for the current value
+function countingPortfolio() {
+  const calls: (string | undefined)[] = [];
+  const portfolio = {
+    currentValue: async ({ chainId }: PortfolioQuery) => {
+      calls.push(chainId);
+      return currentValue;
+    },
+  } as unknown as PortfolioApi;
+  return { portfolio, calls };
+}
+
+describe('portfolio snapshots', () => {
+  describe('downsample', () => {
+    it('keeps the last value per bucket and carries missing chains forward', () => {
+      const series = downsample(
+        [snap('1', 100, 0), snap('137', 50, 0), snap('1', 110, 1), snap('1', 120, 5), snap('137', 40, 5)],
+        { fromMs: START, toMs: START + 6 * HOUR, points: 3 }
+      );
+      expect(series).toEqual([
+        // Chain 137 was not recorded at hour 1; its hour 0 value still counts
+        { at: START + HOUR, valueUsd: 160, byChain: { '1': 110, '137': 50 } },
+        { at: START + 5 * HOUR, valueUsd: 160, byChain: { '1': 120, '137': 40 } },
+      ]);
+    });
+
+    it('sums addresses and skips snapshots outside the range', () => {
+      const other = '0x0000000000000000000000000000000000000001';
+      const series = downsample(
+        [snap('1', 10, 1), snap('1', 5, 1, other), snap('1', 99, 30)],
+        { fromMs: START, toMs: START + 24 * HOUR, points: 100 }
+      );
+      expect(series).toEqual([{ at: START + HOUR, valueUsd: 15, byChain: { '1': 15 } }]);
+    });
+  });
+
+  describe('file store', () => {
+    let directory: string;
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('appends per address and skips torn lines', async () => {
+      directory = await mkdtemp(path.join(tmpdir(), 'snapshots-'));
+      const store = createFileSnapshotStore(directory);
+      await store.append([snap('1', 100, 2), snap('1', 90, 1)]);
+      await appendFile(path.join(directory, `${WALLET}.jsonl`), '{"address":');
+
+      expect(await store.list(WALLET.toUpperCase().replace('0X', '0x'))).toEqual([snap('1', 90, 1), snap('1', 100, 2)]);
+      expect(await store.list(WALLET, { fromMs: START + 2 * HOUR })).toEqual([snap('1', 100, 2)]);
+      expect(await store.list('../etc/passwd')).toEqual([]);
+      await expect(store.append([snap('1', 1, 0, '../escape')])).rejects.toThrow('Invalid snapshot address ../escape');
+    });
+  });
+
+  describe('recorder', () => {
+    it('records every tracked chain at most once per interval', async () => {
+      let now = START;
+      const { portfolio, calls } = countingPortfolio();
+      const store = createMemorySnapshotStore();
+      const recorder = createSnapshotRecorder({ portfolio, store, chainIds: ['1', '137', '10'], intervalMs: HOUR, now: () => now });
+
+      const [first] = await Promise.all([recorder.recordIfDue(WALLET), recorder.recordIfDue(WALLET)]);
+      expect(first.map(({ chainId, valueUsd }) => [chainId, valueUsd])).toEqual([['1', 12034.57], ['137', 3200], ['10', 0]]);
+      // One call without a chain id covers every chain
+      expect(calls).toEqual([undefined]);
+
+      now += HOUR / 2;
+      expect(await recorder.recordIfDue(WALLET)).toEqual([]);
+      now += HOUR;
+      expect(await recorder.recordIfDue(WALLET)).toHaveLength(3);
+      expect(calls).toHaveLength(2);
+    });
+
+    it('picks up the last recording from the store after a restart', async () => {
+      const store = createMemorySnapshotStore();
+      await store.append([snap('1', 100, 0)]);
+      const { portfolio, calls } = countingPortfolio();
+      const recorder = createSnapshotRecorder({ portfolio, store, intervalMs: HOUR, now: () => START + HOUR / 2 });
+
+      expect(await recorder.recordIfDue(WALLET)).toEqual([]);
+      expect(calls).toEqual([]);
+    });
+
+    it('reads a window back as a series, optionally narrowed to chains', async () => {
+      const store = createMemorySnapshotStore();
+      await store.append([snap('1', 100, 0), snap('137', 50, 0), snap('1', 130, 20)]);
+      const recorder = createSnapshotRecorder({
+        portfolio: countingPortfolio().portfolio,
+        store,
+        now: () => START + 23 * HOUR,
+      });
+
+      const history = await recorder.history({ addresses: [WALLET], window: '1d', points: 24 });
+      expect(history).toMatchObject({ window: '1d', fromTimestamp: '2025-02-28T23:00:00.000Z' });
+      expect(history.points.map((point) => point.valueUsd)).toEqual([150, 180]);
+
+      const ethereum = await recorder.history({ addresses: [WALLET], window: '1d', points: 24, chainIds: ['1'] });
+      expect(ethereum.points.map((point) => point.valueUsd)).toEqual([100, 130]);
+    });
+  });
+});
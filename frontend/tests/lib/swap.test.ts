@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import { addressToBech32 } from "@/lib/cardano";
+import { createOrder, hashSecret, orderHash, toOrderJson } from "@/lib/fusion";
+import { EscrowVerificationError, EscrowVerifier, OrderView } from "@/lib/relayer";
+import { checkDestinationEscrow, convertAmount, quoteSwap, swapActions, swapProgress } from "@/lib/swap";
+import { USDC, WALLET } from "../helpers";
+
+const START = 1_750_000_000;
+const ADA = { usd: 0.5, decimals: 6 };
+const USD = { usd: 1, decimals: 6 };
+const ETH = { usd: 2_000, decimals: 18 };
+
+const order = createOrder({
+  maker: addressToBech32(`60${'11'.repeat(28)}`),
+  receiver: WALLET,
+  srcChain: { kind: 'cardano', network: 'testnet' },
+  srcAsset: 'lovelace',
+  srcAmount: BigInt(200_000_000),
+  dstChain: { kind: 'evm', chainId: 1 },
+  dstAsset: USDC,
+  dstAmount: BigInt(99_000_000),
+  hashlock: hashSecret(`0x${'07'.repeat(32)}`),
+  now: START,
+});
+
+const view = (changes: Partial<OrderView> = {}): OrderView => ({
+  orderHash: orderHash(order),
+  order: toOrderJson(order),
+  signature: { scheme: 'cip30', signature: '', key: '' },
+  status: 'announced',
+  phases: {},
+  canRevealSecret: false,
+  escrows: {},
+  secrets: [],
+  events: [{ type: 'submitted', at: START }],
+  createdAt: START,
+  updatedAt: START,
+  ...changes,
+});
+
+describe('swap quotes', () => {
+  it('converts amounts at USD prices', () => {
+    expect(convertAmount(BigInt(200_000_000), ADA, USD)).toBe(BigInt(100_000_000));
+    expect(convertAmount(BigInt(10) ** BigInt(18), ETH, ADA)).toBe(BigInt(4_000_000_000));
+    expect(() => convertAmount(BigInt(1), ADA, { usd: 0, decimals: 6 })).toThrow('priced at zero');
+  });
+
+  it('opens the auction at market and ends at the slippage floor', () => {
+    const quote = quoteSwap({
+      dstChain: { kind: 'evm', chainId: 1 },
+      srcAmount: BigInt(200_000_000),
+      srcPrice: ADA,
+      dstPrice: USD,
+      dstNativePrice: ETH,
+      baseFee: BigInt(10_000_000_000),
+      now: START,
+    });
+    expect(quote.marketAmount).toBe(BigInt(100_000_000));
+    expect(quote.minAmount).toBe(BigInt(99_000_000));
+    expect(quote.srcUsd).toBe(100);
+    // 300k gas at 10 gwei is 0.003 ETH, or $6
+    expect(quote.gasFee).toEqual({ native: BigInt(3) * BigInt(10) ** BigInt(15), dstAmount: BigInt(6_000_000) });
+    expect(quote.auction).toMatchObject({ startTime: START, duration: 180, points: [{ delay: 45 }] });
+    expect(quote.auction.gasCost?.gasPriceEstimate).toBe(BigInt(10_000_000_000));
+
+    expect(quote.curve[0].time).toBe(START);
+    expect(quote.curve[quote.curve.length - 1]).toMatchObject({ time: START + 180, takingAmount: quote.minAmount });
+    const amounts = quote.curve.map(({ takingAmount }) => takingAmount);
+    expect(amounts).toEqual([...amounts].sort((a, b) => (a > b ? -1 : a < b ? 1 : 0)));
+  });
+
+  it('leaves gas out for Cardano destinations', () => {
+    const quote = quoteSwap({
+      dstChain: { kind: 'cardano', network: 'testnet' },
+      srcAmount: BigInt(100_000_000),
+      srcPrice: USD,
+      dstPrice: ADA,
+      now: START,
+      slippageBps: 50,
+    });
+    expect(quote.minAmount).toBe(BigInt(199_000_000));
+    expect(quote.gasFee).toBeUndefined();
+    expect(quote.auction.gasCost).toBeUndefined();
+    expect(() => quoteSwap({ dstChain: { kind: 'cardano', network: 'testnet' }, srcAmount: BigInt(0), srcPrice: USD, dstPrice: ADA, now: START }))
+      .toThrow('Enter an amount');
+  });
+});
+
+describe('swap progress', () => {
+  it('tracks the order from submission to withdrawal', () => {
+    expect(swapProgress(view()).map(({ status }) => status)).toEqual(['done', 'active', 'pending', 'pending', 'pending']);
+    expect(swapActions(view())).toEqual({ cancelOrder: true, revealSecret: false, refund: false });
+
+    const deployed = view({
+      status: 'dst-escrow-deployed',
+      phases: { src: 'exclusive-withdraw', dst: 'exclusive-withdraw' },
+      canRevealSecret: true,
+      escrows: { src: { txHash: 'aa'.repeat(32), deployedAt: START + 10 }, dst: { txHash: `0x${'bb'.repeat(32)}`, deployedAt: START + 20 } },
+    });
+    expect(swapProgress(deployed).map(({ status }) => status)).toEqual(['done', 'done', 'done', 'active', 'pending']);
+    expect(swapProgress(deployed)[2]).toMatchObject({ txHash: `0x${'bb'.repeat(32)}`, at: START + 20 });
+    expect(swapActions(deployed)).toEqual({ cancelOrder: false, revealSecret: true, refund: false, refundAt: START + 2410 });
+
+    const withdrawn = view({
+      ...deployed,
+      status: 'secret-revealed',
+      canRevealSecret: false,
+      events: [
+        ...deployed.events,
+        { type: 'secret', index: 0, at: START + 90 },
+        { type: 'escrow', side: 'dst', action: 'withdrawn', txHash: `0x${'cc'.repeat(32)}`, at: START + 100 },
+      ],
+    });
+    expect(swapProgress(withdrawn).map(({ status }) => status)).toEqual(['done', 'done', 'done', 'done', 'done']);
+    expect(swapProgress(withdrawn)[4].txHash).toBe(`0x${'cc'.repeat(32)}`);
+  });
+
+  it('offers a refund once the source escrow is publicly cancellable', () => {
+    const stuck = view({
+      status: 'src-escrow-deployed',
+      phases: { src: 'public-cancellation' },
+      escrows: { src: { txHash: 'aa'.repeat(32), deployedAt: START } },
+    });
+    expect(swapProgress(stuck).map(({ id, status }) => [id, status])).toEqual([
+      ['submitted', 'done'],
+      ['src-escrow', 'done'],
+      ['dst-escrow', 'active'],
+      ['secret', 'pending'],
+      ['withdrawal', 'pending'],
+      ['refund', 'active'],
+    ]);
+    expect(swapActions(stuck)).toMatchObject({ refund: true, refundAt: START + 2400 });
+
+    const refunded = view({
+      ...stuck,
+      status: 'cancelled',
+      events: [...stuck.events, { type: 'escrow', side: 'src', action: 'cancelled', txHash: 'dd'.repeat(32), at: START + 2500 }],
+    });
+    expect(swapProgress(refunded).map(({ status }) => status)).toEqual(['done', 'done', 'failed', 'failed', 'failed', 'done']);
+    expect(swapActions(refunded)).toEqual({ cancelOrder: false, revealSecret: false, refund: false });
+  });
+});
+
+describe('destination escrow check', () => {
+  const deployed = view({
+    status: 'dst-escrow-deployed',
+    canRevealSecret: true,
+    escrows: {
+      src: { txHash: 'aa'.repeat(32), deployedAt: START },
+      dst: { txHash: `0x${'bb'.repeat(32)}`, escrow: WALLET, deployedAt: START + 30 },
+    },
+  });
+
+  it('passes the recorded destination deployment to the verifier', async () => {
+    const reports: Parameters<EscrowVerifier>[1][] = [];
+    const verify: EscrowVerifier = async (signed, report) => {
+      expect(signed.order).toEqual(order);
+      reports.push(report);
+      return { at: START + 30 };
+    };
+    expect(await checkDestinationEscrow(deployed, verify)).toEqual({ status: 'verified' });
+    expect(reports).toEqual([{ side: 'dst', action: 'deployed', txHash: `0x${'bb'.repeat(32)}`, escrow: WALLET }]);
+  });
+
+  it('tells a mismatching escrow from one it could not check', async () => {
+    const mismatch: EscrowVerifier = async () => {
+      throw new EscrowVerificationError("The dst escrow's hashlock does not match the order");
+    };
+    const offline: EscrowVerifier = async () => {
+      throw new Error('fetch failed');
+    };
+    expect(await checkDestinationEscrow(deployed, mismatch))
+      .toEqual({ status: 'mismatch', reason: "The dst escrow's hashlock does not match the order" });
+    expect(await checkDestinationEscrow(deployed, offline)).toEqual({ status: 'unchecked', reason: 'fetch failed' });
+    expect(await checkDestinationEscrow(deployed)).toMatchObject({ status: 'unchecked' });
+    expect(await checkDestinationEscrow(view(), offline)).toMatchObject({ status: 'mismatch' });
+  });
+});
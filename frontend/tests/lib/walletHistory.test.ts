@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { ValidationError } from "@/lib/oneinch/errors";
+import type { HistoryApi, HistoryQuery } from "@/lib/oneinch/history";
+import type { HistoryEvent } from "@/lib/oneinch/types";
+import { decodeCursor, fetchHistoryPage, HISTORY_EVENTS_MAX_LIMIT } from "@/lib/walletHistory";
+import { WALLET } from "../helpers";
+
+function event(id: string, timeMs: number): HistoryEvent {
+  return {
+    id,
+    address: WALLET,
+    type: 0,
+    rating: 'Reliable',
+    timeMs,
+    details: {
+      txHash: `0x${id}`,
+      chainId: 1,
+      blockNumber: 1,
+      blockTimeSec: Math.floor(timeMs / 1000),
+      status: 'completed',
+      type: 'Transfer',
+      tokenActions: [],
+      fromAddress: WALLET,
+      toAddress: WALLET,
+      nonce: 0,
+      feeInSmallestNative: '0',
+    },
+  };
+}
+
+// Serves `events` newest first like the History API, refusing oversized pages
+function fakeHistory(events: HistoryEvent[]) {
+  const requests: HistoryQuery[] = [];
+  const history = {
+    events: async (_address: string, query: HistoryQuery = {}) => {
+      requests.push(query);
+      const limit = Number(query.limit);
+      if (limit > HISTORY_EVENTS_MAX_LIMIT) throw new ValidationError(`limit ${limit} is too large`);
+      const items = events
+        .filter((item) => item.timeMs <= (query.toTimestampMs ?? Number.MAX_SAFE_INTEGER))
+        .sort((a, b) => b.timeMs - a.timeMs)
+        .slice(0, limit);
+      return { items };
+    },
+  } as HistoryApi;
+  return { history, requests };
+}
+
+async function pageThrough(history: HistoryApi, limit: number): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await fetchHistoryPage(history, {
+      address: WALLET,
+      chainIds: ['1'],
+      limit,
+      cursor: cursor ? decodeCursor(cursor) : undefined,
+    });
+    ids.push(...page.transactions.map((tx) => tx.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return ids;
+}
+
+describe('wallet history paging', () => {
+  it('keeps upstream requests within the API limit when many events share a timestamp', async () => {
+    // 150 events in the same millisecond, then 30 older ones
+    const events = [
+      ...Array.from({ length: 150 }, (_, i) => event(`same-${i}`, 2_000)),
+      ...Array.from({ length: 30 }, (_, i) => event(`old-${i}`, 1_000 - i)),
+    ];
+    const { history, requests } = fakeHistory(events);
+
+    const ids = await pageThrough(history, 100);
+
+    expect(requests.every(({ limit }) => Number(limit) <= HISTORY_EVENTS_MAX_LIMIT)).toBe(true);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toEqual(expect.arrayContaining(events.slice(0, 100).map(({ id }) => id)));
+    expect(ids).toEqual(expect.arrayContaining(events.slice(150).map(({ id }) => id)));
+  });
+
+  it('paginates upstream to fill a page after skipping seen events', async () => {
+    const events = Array.from({ length: 60 }, (_, i) => event(`e-${i}`, i < 40 ? 5_000 : 5_000 - i));
+    const { history, requests } = fakeHistory(events);
+
+    const ids = await pageThrough(history, 30);
+
+    expect(ids.sort()).toEqual(events.map(({ id }) => id).sort());
+    expect(requests.every(({ limit }) => Number(limit) <= HISTORY_EVENTS_MAX_LIMIT)).toBe(true);
+  });
+});
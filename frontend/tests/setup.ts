@@ -0,0 +1,8 @@
+// Route tests talk to the in-process mock, so lift the production pacing
+process.env.ONEINCH_API_KEY = 'test-key';
+process.env.ONEINCH_BASE_URL = 'https://api.1inch.test';
+process.env.ONEINCH_RPS = '1000';
+process.env.ONEINCH_MAX_RETRIES = '1';
+process.env.RESPONSE_CACHE = 'off';
+// Keep recorded portfolio snapshots out of the working tree
+process.env.PORTFOLIO_SNAPSHOT_STORE = 'memory';